@@ -1,5 +1,5 @@
-import { getPathSegmentsFromDescriptor, type ImmutableProps, type Pipeline, type Step, type TypeDescriptor } from './pipeline';
-import { CommutativeAggregateStep, type AddOperator, type SubtractOperator } from './steps/commutative-aggregate';
+import { collectSteps, getPathSegmentsFromDescriptor, type BuiltPipeline, type ImmutableProps, type Pipeline, type PipelineObserver, type RestorablePipeline, type SortDirection, type Step, type TypeDescriptor } from './pipeline';
+import { CommutativeAggregateStep, type AddOperator, type CommutativeAggregateConfig, type SubtractOperator } from './steps/commutative-aggregate';
 import { DefinePropertyStep } from './steps/define-property';
 import { DropPropertyStep } from './steps/drop-property';
 import { FilterStep } from './steps/filter';
@@ -8,11 +8,40 @@ import { NavigateToPath, TransformAtPath } from './types/path';
 import { MinMaxAggregateStep } from './steps/min-max-aggregate';
 import { AverageAggregateStep } from './steps/average-aggregate';
 import { PickByMinMaxStep } from './steps/pick-by-min-max';
+import { TopNStep } from './steps/top-n';
+import { OrderByStep } from './steps/order-by';
+import { JoinStep, type JoinKeySelector, type JoinType } from './steps/join';
+import { FlattenStep } from './steps/flatten';
+import { DistinctAggregateStep } from './steps/distinct-aggregate';
+import { PercentileAggregateStep } from './steps/percentile-aggregate';
+import { VarianceAggregateStep, type VarianceKind } from './steps/variance-aggregate';
+import { HavingStep } from './steps/having';
+import { DefineReactivePropertyStep } from './steps/define-reactive-property';
+import { getItemComparator, type KeyedItemComparator } from './util/ordering';
+import { KeyedStore } from './keyed-store';
+import { JsonPatchSink, type PatchOperation } from './json-patch';
+import { createSnapshot, restoreSteps } from './snapshot';
+import { explainPipeline, renderDot, renderMermaid } from './explain';
+import type { PipelineTrace } from './trace';
+import { IsolatedInput, type ErrorPolicy } from './dead-letter';
 
 // Public types (exported for use in build() signature)
 export type KeyedArray<T> = { key: string, value: T }[];
 export type Transform<T> = (state: T) => T;
 
+/**
+ * How built state is kept between events.
+ * - 'array': keyed arrays searched by key on every event (default)
+ * - 'map': items indexed by key at every level, projected into keyed arrays
+ */
+export type StateStoreKind = 'array' | 'map';
+
+export interface BuildOptions {
+    store?: StateStoreKind;
+    /** What to do when an input operation throws part way through (default 'throw') */
+    onError?: ErrorPolicy;
+}
+
 // Type utility to expand intersection types into a single object type for better IDE display
 type Expand<T> = T extends infer O ? { [K in keyof O]: O[K] } : never;
 
@@ -68,6 +97,20 @@ type TransformWithAggregate<
             : never
         : never;
 
+/**
+ * Merges the scalar properties of a parent with the item type of one of its arrays.
+ * The parent's arrays are dropped, and the item's properties win on conflict.
+ */
+type FlattenArrayItem<T, ArrayName extends keyof T> =
+    T[ArrayName] extends KeyedArray<infer ItemType>
+        ? Expand<{ [K in keyof T as T[K] extends KeyedArray<any> ? never : K extends keyof ItemType ? never : K]: T[K] } & ItemType>
+        : never;
+
+/**
+ * The properties of an array item without its arrays, as a top-N window carries them.
+ */
+type WindowItem<T> = Expand<{ [K in keyof T as T[K] extends KeyedArray<any> ? never : K]: T[K] }>;
+
 /**
  * Removes an array at the specified path from the type.
  */
@@ -76,7 +119,8 @@ export class PipelineBuilder<T extends {}, TStart, Path extends string[] = []> {
     constructor(
         private input: Pipeline<TStart>,
         private lastStep: Step,
-        private scopeSegments: Path = [] as unknown as Path
+        private scopeSegments: Path = [] as unknown as Path,
+        private pipelineTrace?: PipelineTrace
     ) {}
 
     defineProperty<K extends string, U>(propertyName: K, compute: (item: NavigateToPath<T, Path>) => U): PipelineBuilder<
@@ -91,7 +135,44 @@ export class PipelineBuilder<T extends {}, TStart, Path extends string[] = []> {
             compute as (item: unknown) => U,
             this.scopeSegments as string[]
         );
-        return new PipelineBuilder(this.input, newStep) as any;
+        return this.chain(newStep);
+    }
+
+    /**
+     * Defines a property computed from the item, including mutable properties
+     * such as aggregates. The property is recomputed whenever one of the
+     * declared dependencies changes, and is emitted only when its value changes.
+     *
+     * Dependencies are undefined until their first value arrives.
+     *
+     * @param propertyName - Name of the new property
+     * @param dependencies - Names of the mutable properties the computation reads
+     * @param compute - Computes the property from the item
+     *
+     * @example
+     * .sum('items', 'profit', 'totalProfit')
+     * .sum('items', 'revenue', 'totalRevenue')
+     * .defineReactiveProperty('averageMargin', ['totalProfit', 'totalRevenue'],
+     *     group => group.totalRevenue ? group.totalProfit / group.totalRevenue : undefined)
+     */
+    defineReactiveProperty<K extends string, U>(
+        propertyName: K,
+        dependencies: (keyof NavigateToPath<T, Path> & string)[],
+        compute: (item: NavigateToPath<T, Path>) => U
+    ): PipelineBuilder<
+        Path extends []
+            ? Expand<T & Record<K, U>>
+            : Expand<TransformAtPath<T, Path, NavigateToPath<T, Path> & Record<K, U>>>,
+        TStart
+    > {
+        const newStep = new DefineReactivePropertyStep(
+            this.lastStep,
+            propertyName,
+            dependencies,
+            compute as (item: unknown) => U,
+            this.scopeSegments as string[]
+        );
+        return this.chain(newStep);
     }
 
     dropProperty<K extends keyof NavigateToPath<T, Path>>(propertyName: K): PipelineBuilder<
@@ -105,7 +186,7 @@ export class PipelineBuilder<T extends {}, TStart, Path extends string[] = []> {
             propertyName,
             this.scopeSegments as string[]
         );
-        return new PipelineBuilder(this.input, newStep) as any;
+        return this.chain(newStep);
     }
 
     groupBy<K extends keyof NavigateToPath<T, Path>, ArrayName extends string>(
@@ -123,7 +204,40 @@ export class PipelineBuilder<T extends {}, TStart, Path extends string[] = []> {
             arrayName,
             this.scopeSegments as string[]
         );
-        return new PipelineBuilder(this.input, newStep) as any;
+        return this.chain(newStep);
+    }
+
+    /**
+     * Flattens a nested array into its parent level, the inverse of groupBy.
+     *
+     * Each item of the array replaces its parent, carrying the parent's
+     * properties merged with its own and a key composed of both keys.
+     * The item's own properties win over the parent's, and an aggregate of the
+     * parent named like a declared property of the items is rejected.
+     * The parent's other arrays are dropped.
+     *
+     * @param arrayName - Name of the array whose items replace their parents
+     *
+     * @example
+     * createPipeline<{ category: string, name: string }>()
+     *   .groupBy(['category'], 'items')
+     *   .flatten('items')
+     * // Output: { category: string, name: string }[]
+     */
+    flatten<ArrayName extends keyof NavigateToPath<T, Path> & string>(
+        arrayName: ArrayName
+    ): PipelineBuilder<
+        Path extends []
+            ? FlattenArrayItem<T, ArrayName & keyof T>
+            : Expand<TransformAtPath<T, Path, FlattenArrayItem<NavigateToPath<T, Path>, ArrayName>>>,
+        TStart
+    > {
+        const newStep = new FlattenStep(
+            this.lastStep,
+            arrayName,
+            this.scopeSegments as string[]
+        );
+        return this.chain(newStep);
     }
 
     /**
@@ -170,17 +284,21 @@ export class PipelineBuilder<T extends {}, TStart, Path extends string[] = []> {
             : Expand<TransformAtPath<T, Path, NavigateToPath<T, Path> & Record<PropName, TAggregate>>>,
         TStart
     > {
+        return this.addCommutativeAggregate(arrayName, propertyName, {
+            add: add as AddOperator<ImmutableProps, any>,
+            subtract: subtract as SubtractOperator<ImmutableProps, any>
+        });
+    }
+
+    private addCommutativeAggregate(arrayName: string, propertyName: string, config: CommutativeAggregateConfig<ImmutableProps, any>): PipelineBuilder<any, TStart, any> {
         const fullSegmentPath = [...this.scopeSegments, arrayName];
         const newStep = new CommutativeAggregateStep(
             this.lastStep,
             fullSegmentPath,
             propertyName,
-            { 
-                add: add as AddOperator<ImmutableProps, any>, 
-                subtract: subtract as SubtractOperator<ImmutableProps, any> 
-            }
+            config
         );
-        return new PipelineBuilder(this.input, newStep) as any;
+        return this.chain(newStep);
     }
 
     /**
@@ -208,20 +326,20 @@ export class PipelineBuilder<T extends {}, TStart, Path extends string[] = []> {
             : Expand<TransformAtPath<T, Path, NavigateToPath<T, Path> & Record<TPropName, number>>>,
         TStart
     > {
-        return this.commutativeAggregate(
-            arrayName,
-            outputProperty,
-            (acc: number | undefined, item: any) => {
+        return this.addCommutativeAggregate(arrayName, outputProperty, {
+            add: (acc: number | undefined, item: any) => {
                 const value = (item as any)[propertyName];
                 const numValue = (value === null || value === undefined) ? 0 : Number(value);
                 return (acc ?? 0) + numValue;
             },
-            (acc: number, item: any) => {
+            subtract: (acc: number, item: any) => {
                 const value = (item as any)[propertyName];
                 const numValue = (value === null || value === undefined) ? 0 : Number(value);
                 return acc - numValue;
-            }
-        );
+            },
+            description: { kind: 'sum', parameters: { property: propertyName } },
+            type: 'number'
+        });
     }
     
     /**
@@ -247,12 +365,12 @@ export class PipelineBuilder<T extends {}, TStart, Path extends string[] = []> {
             : Expand<TransformAtPath<T, Path, NavigateToPath<T, Path> & Record<TPropName, number>>>,
         TStart
     > {
-        return this.commutativeAggregate(
-            arrayName,
-            outputProperty,
-            (acc: number | undefined, _item: any) => (acc ?? 0) + 1,
-            (acc: number, _item: any) => acc - 1
-        );
+        return this.addCommutativeAggregate(arrayName, outputProperty, {
+            add: (acc: number | undefined, _item: any) => (acc ?? 0) + 1,
+            subtract: (acc: number, _item: any) => acc - 1,
+            description: { kind: 'count', parameters: {} },
+            type: 'number'
+        });
     }
     
     /**
@@ -286,9 +404,9 @@ export class PipelineBuilder<T extends {}, TStart, Path extends string[] = []> {
             fullSegmentPath,
             outputProperty,
             propertyName,
-            (values) => Math.min(...values)
+            (value1, value2) => value1 < value2
         );
-        return new PipelineBuilder(this.input, newStep) as any;
+        return this.chain(newStep);
     }
     
     /**
@@ -322,9 +440,9 @@ export class PipelineBuilder<T extends {}, TStart, Path extends string[] = []> {
             fullSegmentPath,
             outputProperty,
             propertyName,
-            (values) => Math.max(...values)
+            (value1, value2) => value1 > value2
         );
-        return new PipelineBuilder(this.input, newStep) as any;
+        return this.chain(newStep);
     }
     
     /**
@@ -359,7 +477,231 @@ export class PipelineBuilder<T extends {}, TStart, Path extends string[] = []> {
             outputProperty,
             propertyName
         );
-        return new PipelineBuilder(this.input, newStep) as any;
+        return this.chain(newStep);
+    }
+    
+    /**
+     * Computes the variance of a numeric property over items in a nested array.
+     * Excludes null/undefined from calculation. Returns undefined for groups
+     * with no values, or with fewer than two values for a sample.
+     *
+     * @param arrayName - Name of the array to compute the variance over
+     * @param propertyName - Name of the numeric property to compute the variance of
+     * @param outputProperty - Name of the new aggregate property
+     * @param kind - 'population' (divide by n) or 'sample' (divide by n - 1)
+     *
+     * @example
+     * // Sample variance of weights for each batch
+     * .variance('items', 'weight', 'weightVariance', 'sample')
+     */
+    variance<
+        ArrayName extends string,
+        TPropName extends string
+    >(
+        arrayName: ArrayName,
+        propertyName: keyof NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]> & string,
+        outputProperty: TPropName,
+        kind: VarianceKind = 'population'
+    ): PipelineBuilder<
+        Path extends []
+            ? TransformWithAggregate<T, [ArrayName], TPropName, number | undefined>
+            : Expand<TransformAtPath<T, Path, NavigateToPath<T, Path> & Record<TPropName, number | undefined>>>,
+        TStart
+    > {
+        const fullSegmentPath = [...this.scopeSegments, arrayName];
+        const newStep = new VarianceAggregateStep(
+            this.lastStep,
+            fullSegmentPath,
+            outputProperty,
+            propertyName,
+            kind,
+            'variance'
+        );
+        return this.chain(newStep);
+    }
+    
+    /**
+     * Computes the standard deviation of a numeric property over items in a nested array.
+     * Excludes null/undefined from calculation. Returns undefined for groups
+     * with no values, or with fewer than two values for a sample.
+     *
+     * @param arrayName - Name of the array to compute the standard deviation over
+     * @param propertyName - Name of the numeric property to compute the standard deviation of
+     * @param outputProperty - Name of the new aggregate property
+     * @param kind - 'population' (divide by n) or 'sample' (divide by n - 1)
+     *
+     * @example
+     * // Population standard deviation of prices for each category
+     * .stdDev('items', 'price', 'priceStdDev')
+     */
+    stdDev<
+        ArrayName extends string,
+        TPropName extends string
+    >(
+        arrayName: ArrayName,
+        propertyName: keyof NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]> & string,
+        outputProperty: TPropName,
+        kind: VarianceKind = 'population'
+    ): PipelineBuilder<
+        Path extends []
+            ? TransformWithAggregate<T, [ArrayName], TPropName, number | undefined>
+            : Expand<TransformAtPath<T, Path, NavigateToPath<T, Path> & Record<TPropName, number | undefined>>>,
+        TStart
+    > {
+        const fullSegmentPath = [...this.scopeSegments, arrayName];
+        const newStep = new VarianceAggregateStep(
+            this.lastStep,
+            fullSegmentPath,
+            outputProperty,
+            propertyName,
+            kind,
+            'stdDev'
+        );
+        return this.chain(newStep);
+    }
+    
+    /**
+     * Computes the median of a numeric property over items in a nested array.
+     * Returns undefined for empty arrays, excludes null/undefined from calculation.
+     * For an even number of values, the median is the mean of the middle two.
+     *
+     * @param arrayName - Name of the array to find the median in
+     * @param propertyName - Name of the numeric property to find the median of
+     * @param outputProperty - Name of the new aggregate property
+     *
+     * @example
+     * // Median price across all items for each category
+     * .median('items', 'price', 'medianPrice')
+     */
+    median<
+        ArrayName extends string,
+        TPropName extends string
+    >(
+        arrayName: ArrayName,
+        propertyName: keyof NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]> & string,
+        outputProperty: TPropName
+    ): PipelineBuilder<
+        Path extends []
+            ? TransformWithAggregate<T, [ArrayName], TPropName, number | undefined>
+            : Expand<TransformAtPath<T, Path, NavigateToPath<T, Path> & Record<TPropName, number | undefined>>>,
+        TStart
+    > {
+        return this.percentile(arrayName, propertyName, 50, outputProperty);
+    }
+    
+    /**
+     * Computes a percentile of a numeric property over items in a nested array.
+     * Returns undefined for empty arrays, excludes null/undefined from calculation.
+     * Interpolates linearly between the closest ranks.
+     *
+     * @param arrayName - Name of the array to find the percentile in
+     * @param propertyName - Name of the numeric property to find the percentile of
+     * @param percentile - Percentile to compute, from 0 to 100
+     * @param outputProperty - Name of the new aggregate property
+     *
+     * @example
+     * // 95th percentile response time for each service
+     * .percentile('requests', 'duration', 95, 'p95')
+     */
+    percentile<
+        ArrayName extends string,
+        TPropName extends string
+    >(
+        arrayName: ArrayName,
+        propertyName: keyof NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]> & string,
+        percentile: number,
+        outputProperty: TPropName
+    ): PipelineBuilder<
+        Path extends []
+            ? TransformWithAggregate<T, [ArrayName], TPropName, number | undefined>
+            : Expand<TransformAtPath<T, Path, NavigateToPath<T, Path> & Record<TPropName, number | undefined>>>,
+        TStart
+    > {
+        const fullSegmentPath = [...this.scopeSegments, arrayName];
+        const newStep = new PercentileAggregateStep(
+            this.lastStep,
+            fullSegmentPath,
+            outputProperty,
+            propertyName,
+            percentile
+        );
+        return this.chain(newStep);
+    }
+    
+    /**
+     * Counts the distinct values of a property over items in a nested array.
+     * Returns 0 for empty arrays, ignores null/undefined values.
+     * Values are compared by the same canonical form groupBy uses for keys.
+     *
+     * @param arrayName - Name of the array to count distinct values in
+     * @param propertyName - Name of the property whose values are counted
+     * @param outputProperty - Name of the new aggregate property
+     *
+     * @example
+     * // Unique customers for each region
+     * .countDistinct('orders', 'customerId', 'customerCount')
+     */
+    countDistinct<
+        ArrayName extends string,
+        TPropName extends string
+    >(
+        arrayName: ArrayName,
+        propertyName: keyof NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]> & string,
+        outputProperty: TPropName
+    ): PipelineBuilder<
+        Path extends []
+            ? TransformWithAggregate<T, [ArrayName], TPropName, number>
+            : Expand<TransformAtPath<T, Path, NavigateToPath<T, Path> & Record<TPropName, number>>>,
+        TStart
+    > {
+        const fullSegmentPath = [...this.scopeSegments, arrayName];
+        const newStep = new DistinctAggregateStep(
+            this.lastStep,
+            fullSegmentPath,
+            outputProperty,
+            propertyName,
+            values => values.length,
+            'number'
+        );
+        return this.chain(newStep);
+    }
+    
+    /**
+     * Collects the distinct values of a property over items in a nested array.
+     * Returns an empty array for empty arrays, ignores null/undefined values.
+     * Values are sorted, so the result does not depend on the order items arrive in.
+     *
+     * @param arrayName - Name of the array to collect distinct values from
+     * @param propertyName - Name of the property whose values are collected
+     * @param outputProperty - Name of the new aggregate property
+     *
+     * @example
+     * // Tags used in each category
+     * .distinctValues('items', 'tag', 'tags')
+     */
+    distinctValues<
+        ArrayName extends string,
+        TItemPropName extends keyof NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]> & string,
+        TPropName extends string
+    >(
+        arrayName: ArrayName,
+        propertyName: TItemPropName,
+        outputProperty: TPropName
+    ): PipelineBuilder<
+        Path extends []
+            ? TransformWithAggregate<T, [ArrayName], TPropName, NonNullable<NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]>[TItemPropName & keyof NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]>]>[]>
+            : Expand<TransformAtPath<T, Path, NavigateToPath<T, Path> & Record<TPropName, NonNullable<NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]>[TItemPropName & keyof NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]>]>[]>>>,
+        TStart
+    > {
+        const fullSegmentPath = [...this.scopeSegments, arrayName];
+        const newStep = new DistinctAggregateStep(
+            this.lastStep,
+            fullSegmentPath,
+            outputProperty,
+            propertyName,
+            values => values
+        );
+        return this.chain(newStep);
     }
     
     /**
@@ -405,7 +747,7 @@ export class PipelineBuilder<T extends {}, TStart, Path extends string[] = []> {
                 return String(value1) < String(value2);
             }
         );
-        return new PipelineBuilder(this.input, newStep) as any;
+        return this.chain(newStep);
     }
     
     /**
@@ -451,7 +793,138 @@ export class PipelineBuilder<T extends {}, TStart, Path extends string[] = []> {
                 return String(value1) > String(value2);
             }
         );
-        return new PipelineBuilder(this.input, newStep) as any;
+        return this.chain(newStep);
+    }
+    
+    /**
+     * Keeps the items with the highest values of a nested array, ranked by a property, as a new array alongside it.
+     * Ignores null/undefined values and breaks ties by item key.
+     * The kept items have the properties of the source items, but not their arrays.
+     * Supports both numeric and string comparisons.
+     *
+     * @param arrayName - Name of the array to rank
+     * @param propertyName - Name of the property to rank by
+     * @param count - Maximum number of items to keep
+     * @param outputProperty - Name of the new array containing the ranked items
+     *
+     * @example
+     * // Five most expensive products for each category
+     * .topN('products', 'price', 5, 'topProducts')
+     */
+    topN<
+        ArrayName extends string,
+        TPropName extends string
+    >(
+        arrayName: ArrayName,
+        propertyName: keyof NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]> & string,
+        count: number,
+        outputProperty: TPropName
+    ): PipelineBuilder<
+        Path extends []
+            ? TransformWithAggregate<T, [ArrayName], TPropName, KeyedArray<WindowItem<NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]>>>>
+            : Expand<TransformAtPath<T, Path, NavigateToPath<T, Path> & Record<TPropName, KeyedArray<WindowItem<NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]>>>>>>,
+        TStart
+    > {
+        const fullSegmentPath = [...this.scopeSegments, arrayName];
+        const newStep = new TopNStep(
+            this.lastStep,
+            fullSegmentPath,
+            outputProperty,
+            propertyName,
+            count,
+            (value1, value2) => {
+                // For top: value1 > value2
+                if (typeof value1 === 'number' && typeof value2 === 'number') {
+                    return value1 > value2;
+                }
+                if (typeof value1 === 'string' && typeof value2 === 'string') {
+                    return value1 > value2;
+                }
+                return String(value1) > String(value2);
+            }
+        );
+        return this.chain(newStep);
+    }
+    
+    /**
+     * Keeps the items with the lowest values of a nested array, ranked by a property, as a new array alongside it.
+     * Ignores null/undefined values and breaks ties by item key.
+     * The kept items have the properties of the source items, but not their arrays.
+     * Supports both numeric and string comparisons.
+     *
+     * @param arrayName - Name of the array to rank
+     * @param propertyName - Name of the property to rank by
+     * @param count - Maximum number of items to keep
+     * @param outputProperty - Name of the new array containing the ranked items
+     *
+     * @example
+     * // Three cheapest products for each category
+     * .bottomN('products', 'price', 3, 'cheapestProducts')
+     */
+    bottomN<
+        ArrayName extends string,
+        TPropName extends string
+    >(
+        arrayName: ArrayName,
+        propertyName: keyof NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]> & string,
+        count: number,
+        outputProperty: TPropName
+    ): PipelineBuilder<
+        Path extends []
+            ? TransformWithAggregate<T, [ArrayName], TPropName, KeyedArray<WindowItem<NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]>>>>
+            : Expand<TransformAtPath<T, Path, NavigateToPath<T, Path> & Record<TPropName, KeyedArray<WindowItem<NavigateToArrayItem<NavigateToPath<T, Path>, [ArrayName]>>>>>>,
+        TStart
+    > {
+        const fullSegmentPath = [...this.scopeSegments, arrayName];
+        const newStep = new TopNStep(
+            this.lastStep,
+            fullSegmentPath,
+            outputProperty,
+            propertyName,
+            count,
+            (value1, value2) => {
+                // For bottom: value1 < value2
+                if (typeof value1 === 'number' && typeof value2 === 'number') {
+                    return value1 < value2;
+                }
+                if (typeof value1 === 'string' && typeof value2 === 'string') {
+                    return value1 < value2;
+                }
+                return String(value1) < String(value2);
+            }
+        );
+        return this.chain(newStep);
+    }
+    
+    /**
+     * Sorts the items at the current scope in the built state.
+     * Each item is inserted at its sorted position, and repositioned when a sort
+     * key changes, including aggregate properties delivered after the item was added.
+     * Ties are broken by item key; null/undefined property values sort last.
+     * Like filter, it keeps the current scope for the next step.
+     *
+     * @param by - Name of the property to sort by, or a comparator of two items
+     * @param direction - 'asc' (default) or 'desc'
+     *
+     * @example
+     * // Categories with the highest total first
+     * .sum('items', 'price', 'total')
+     * .orderBy('total', 'desc')
+     *
+     * @example
+     * // Items within each category by name
+     * .in('items').orderBy((a, b) => a.name.localeCompare(b.name))
+     */
+    orderBy(
+        by: (keyof NavigateToPath<T, Path> & string) | ((item1: NavigateToPath<T, Path>, item2: NavigateToPath<T, Path>) => number),
+        direction: SortDirection = 'asc'
+    ): PipelineBuilder<T, TStart, Path> {
+        const newStep = new OrderByStep(
+            this.lastStep,
+            { by: by as string | ((value1: ImmutableProps, value2: ImmutableProps) => number), direction },
+            this.scopeSegments as string[]
+        );
+        return this.chain(newStep, this.scopeSegments);
     }
     
     /**
@@ -467,7 +940,8 @@ export class PipelineBuilder<T extends {}, TStart, Path extends string[] = []> {
         return new PipelineBuilder<T, TStart, [...Path, ...NewPath]>(
             this.input,
             this.lastStep,
-            [...this.scopeSegments, ...pathSegments] as [...Path, ...NewPath]
+            [...this.scopeSegments, ...pathSegments] as [...Path, ...NewPath],
+            this.pipelineTrace
         );
     }
 
@@ -499,41 +973,414 @@ export class PipelineBuilder<T extends {}, TStart, Path extends string[] = []> {
             predicate as (item: unknown) => boolean,
             this.scopeSegments as string[]
         );
-        return new PipelineBuilder(this.input, newStep, this.scopeSegments) as any;
+        return this.chain(newStep, this.scopeSegments);
+    }
+
+    /**
+     * Filters items based on a predicate over their properties, including aggregates.
+     * Use it after an aggregate to keep only the groups whose aggregate meets a condition.
+     *
+     * Unlike filter, this step keeps a copy of each item and its nested arrays,
+     * so that an item can be added or removed with everything below it when an
+     * aggregate change flips the predicate. Aggregates are not yet set when an
+     * item first arrives, so the predicate must handle them being undefined.
+     *
+     * @param predicate - Function that returns true for items to include
+     * @returns A PipelineBuilder with the same type (filtering doesn't change shape)
+     *
+     * @example
+     * // Only categories whose total value exceeds 1000
+     * .groupBy(['category'], 'items')
+     * .sum('items', 'value', 'totalValue')
+     * .having(group => group.totalValue > 1000)
+     */
+    having(
+        predicate: (item: NavigateToPath<T, Path>) => boolean
+    ): PipelineBuilder<T, TStart, Path> {
+        const newStep = new HavingStep<NavigateToPath<T, Path>>(
+            this.lastStep,
+            predicate as (item: unknown) => boolean,
+            this.scopeSegments as string[]
+        );
+        return this.chain(newStep, this.scopeSegments);
+    }
+
+    /**
+     * Joins items at the current scope with the items of another pipeline.
+     * Matching items from the other pipeline are added as a nested array of each item.
+     *
+     * Matches are maintained incrementally as either pipeline receives add, remove
+     * and update events. Feed the other pipeline through the built pipeline's
+     * `joinedInput(right.getInput())`, so that its operations share the batches
+     * and error policy of this one. Items whose join key is null or undefined
+     * never match.
+     *
+     * With a left join, the nested array of an item without matches is absent
+     * from the keyed state until its first match arrives.
+     *
+     * @param right - Builder of the pipeline to join with (must not contain arrays)
+     * @param arrayName - Name of the nested array that holds the matching items
+     * @param leftKey - Selects the join key of an item at the current scope
+     * @param rightKey - Selects the join key of an item in the other pipeline
+     * @param joinType - 'inner' to keep only items with matches, 'left' to keep all items
+     *
+     * @example
+     * // Attach each order's customer
+     * const customers = createPipeline<{ customerId: string; name: string }>();
+     * createPipeline<{ orderId: string; customerId: string; total: number }>()
+     *     .join(customers, 'customers', order => order.customerId, customer => customer.customerId)
+     */
+    join<TRight extends {}, ArrayName extends string>(
+        right: PipelineBuilder<TRight, any>,
+        arrayName: ArrayName,
+        leftKey: JoinKeySelector<NavigateToPath<T, Path>>,
+        rightKey: JoinKeySelector<TRight>,
+        joinType: JoinType = 'inner'
+    ): PipelineBuilder<
+        Path extends []
+            ? Expand<T & Record<ArrayName, KeyedArray<TRight>>>
+            : Expand<TransformAtPath<T, Path, NavigateToPath<T, Path> & Record<ArrayName, KeyedArray<TRight>>>>,
+        TStart
+    > {
+        const newStep = new JoinStep<NavigateToPath<T, Path>, TRight>(
+            this.lastStep,
+            right.lastStep,
+            arrayName,
+            leftKey,
+            rightKey,
+            joinType,
+            this.scopeSegments as string[]
+        );
+        return this.chain(newStep);
+    }
+
+    /**
+     * Returns the input of this pipeline.
+     * Wrap it with the built pipeline's joinedInput to feed a pipeline that
+     * has been joined into another one.
+     */
+    getInput(): Pipeline<TStart> {
+        return this.input;
     }
 
     getTypeDescriptor(): TypeDescriptor {
         return this.lastStep.getTypeDescriptor();
     }
 
-    build(setState: (transform: Transform<KeyedArray<T>>) => void, typeDescriptor: TypeDescriptor): Pipeline<TStart> {
+    /**
+     * Starts recording the events that each step emits into a trace, for debugging.
+     *
+     * Steps added to the returned builder are traced, along with the current
+     * last step. Call it right after createPipeline to trace the whole chain.
+     */
+    trace(trace: PipelineTrace): PipelineBuilder<T, TStart, Path> {
+        return new PipelineBuilder(this.input, trace.wrap(this.lastStep), this.scopeSegments, trace);
+    }
+
+    /**
+     * Continues the chain from a new step, tracing it if this builder traces its steps.
+     */
+    private chain(newStep: Step, scopeSegments: string[] = []): PipelineBuilder<any, TStart, any> {
+        const lastStep = this.pipelineTrace ? this.pipelineTrace.wrap(newStep) : newStep;
+        return new PipelineBuilder(this.input, lastStep, scopeSegments, this.pipelineTrace);
+    }
+
+    /**
+     * Describes the pipeline as text: each step with the scope it applies at and
+     * its parameters, inputs first, followed by the tree of arrays of the output.
+     */
+    explain(): string {
+        return explainPipeline(this.lastStep, this.getTypeDescriptor());
+    }
+
+    /**
+     * Renders the steps of the pipeline and the arrays of its output as a Mermaid flowchart.
+     */
+    toMermaid(): string {
+        return renderMermaid(this.lastStep, this.getTypeDescriptor());
+    }
+
+    /**
+     * Renders the steps of the pipeline and the arrays of its output as a Graphviz DOT digraph.
+     */
+    toDot(): string {
+        return renderDot(this.lastStep, this.getTypeDescriptor());
+    }
+
+    /**
+     * Builds the pipeline, handing each change of the output state to setState as a transform.
+     *
+     * With the 'map' store, events are applied to an index in O(depth), and
+     * each input operation or batch produces one transform that returns a
+     * snapshot of it, sharing unchanged items with the previous one. The
+     * transforms ignore the state they are given, so setState must apply them
+     * to the state of this pipeline only.
+     *
+     * The built pipeline can take a snapshot of its state, and restore one
+     * after a restart. With the 'array' store, the output state in the snapshot
+     * is the latest state that setState has produced from the transforms.
+     *
+     * With the 'rollback' and 'deadLetter' error policies, an input operation
+     * that throws leaves the steps and the output as they were before it.
+     * Inside a batch, the operations before it in the batch are kept.
+     */
+    build(setState: (transform: Transform<KeyedArray<T>>) => void, typeDescriptor: TypeDescriptor, options: BuildOptions = {}): RestorablePipeline<TStart> {
         const pathSegments = getPathSegmentsFromDescriptor(typeDescriptor);
+        // Keep the state that setState produces, to be saved in snapshots
+        let output: KeyedArray<T> = [];
+        const buffer = new TransformBuffer<KeyedArray<T>>(transform => setState(state => output = transform(state)));
+        let restoreOutput: (state: KeyedArray<T>) => void;
+        // Runs an input operation, so that the map store is projected once for all of its events
+        let runOperation = (action: () => void) => action();
         
+        if (options.store === 'map') {
+            const store = new KeyedStore(typeDescriptor);
+            const snapshot = () => store.snapshot() as KeyedArray<T>;
+            restoreOutput = state => {
+                store.restore(state);
+                buffer.apply(snapshot);
+            };
+            runOperation = action => buffer.batch(action);
+            
+            // Register handlers for each path the step will emit
+            pathSegments.forEach(segmentPath => {
+                this.lastStep.onAdded(segmentPath, (keyPath, key, immutableProps) => {
+                    store.add(segmentPath, keyPath, key, immutableProps);
+                    buffer.apply(snapshot);
+                });
+                
+                this.lastStep.onRemoved(segmentPath, (keyPath, key) => {
+                    store.remove(segmentPath, keyPath, key);
+                    buffer.apply(snapshot);
+                });
+                
+                this.lastStep.onUpdated(segmentPath, (keyPath, key, oldImmutableProps, newImmutableProps) => {
+                    store.update(segmentPath, keyPath, key, oldImmutableProps, newImmutableProps);
+                    buffer.apply(snapshot);
+                });
+                
+                this.lastStep.onModified(segmentPath, (keyPath, key, name, value) => {
+                    store.modify(segmentPath, keyPath, key, name, value);
+                    buffer.apply(snapshot);
+                });
+            });
+        } else {
+            restoreOutput = state => buffer.apply(() => state);
+            
+            // Register handlers for each path the step will emit
+            pathSegments.forEach(segmentPath => {
+                const compare = getItemComparator(typeDescriptor, segmentPath);
+                
+                this.lastStep.onAdded(segmentPath, (keyPath, key, immutableProps) => {
+                    buffer.apply(state => addToKeyedArray(state, segmentPath, keyPath, key, immutableProps, compare) as KeyedArray<T>);
+                });
+                
+                this.lastStep.onRemoved(segmentPath, (keyPath, key, immutableProps) => {
+                    buffer.apply(state => removeFromKeyedArray(state, segmentPath, keyPath, key) as KeyedArray<T>);
+                });
+                
+                this.lastStep.onUpdated(segmentPath, (keyPath, key, oldImmutableProps, newImmutableProps) => {
+                    buffer.apply(state => updateInKeyedArray(state, segmentPath, keyPath, key, oldImmutableProps, newImmutableProps, compare) as KeyedArray<T>);
+                });
+                
+                this.lastStep.onModified(segmentPath, (keyPath, key, name, value) => {
+                    const modificationKey = JSON.stringify([segmentPath, keyPath, key, name]);
+                    buffer.applyModification(modificationKey, state => modifyInKeyedArray(state, segmentPath, keyPath, key, name, value, compare) as KeyedArray<T>);
+                });
+            });
+        }
+        
+        const input = new IsolatedInput(this.input, options.onError ?? 'throw', action => buffer.attempt(action));
+        return {
+            add: (key, immutableProps) => runOperation(() => input.add(key, immutableProps)),
+            remove: (key, immutableProps) => runOperation(() => input.remove(key, immutableProps)),
+            update: (key, oldImmutableProps, newImmutableProps) => runOperation(() => input.update(key, oldImmutableProps, newImmutableProps)),
+            batch: action => buffer.batch(action),
+            snapshot: () => {
+                if (buffer.isBatching()) {
+                    throw new Error('snapshot: cannot take a snapshot during a batch');
+                }
+                return createSnapshot(this.lastStep, typeDescriptor, output);
+            },
+            restore: snapshot => {
+                if (buffer.isBatching()) {
+                    throw new Error('restore: cannot restore a snapshot during a batch');
+                }
+                restoreSteps(this.lastStep, typeDescriptor, snapshot);
+                restoreOutput(snapshot.output as KeyedArray<T>);
+            },
+            deadLetters: () => input.deadLetters,
+            retryDeadLetters: () => runOperation(() => input.retry()),
+            joinedInput: joined => {
+                if (!collectSteps(this.lastStep).some(step => step === (joined as unknown))) {
+                    throw new Error('joinedInput: the input does not feed this pipeline');
+                }
+                const joinedInput = new IsolatedInput(joined, options.onError ?? 'throw', action => buffer.attempt(action));
+                return {
+                    add: (key, immutableProps) => runOperation(() => joinedInput.add(key, immutableProps)),
+                    remove: (key, immutableProps) => runOperation(() => joinedInput.remove(key, immutableProps)),
+                    update: (key, oldImmutableProps, newImmutableProps) => runOperation(() => joinedInput.update(key, oldImmutableProps, newImmutableProps)),
+                    deadLetters: () => joinedInput.deadLetters,
+                    retryDeadLetters: () => runOperation(() => joinedInput.retry())
+                };
+            }
+        };
+    }
+
+    /**
+     * Subscribes an observer to the output events at every level of the type descriptor.
+     *
+     * Observing does not build the pipeline. Observe a builder before or after
+     * building it to receive the events that produce the built pipeline's state.
+     */
+    observe(observer: PipelineObserver, typeDescriptor: TypeDescriptor): void {
         // Register handlers for each path the step will emit
-        pathSegments.forEach(segmentPath => {
+        getPathSegmentsFromDescriptor(typeDescriptor).forEach(segmentPath => {
             this.lastStep.onAdded(segmentPath, (keyPath, key, immutableProps) => {
-                setState(state => addToKeyedArray(state, segmentPath, keyPath, key, immutableProps) as KeyedArray<T>);
+                observer.add(segmentPath, keyPath, key, immutableProps);
             });
             
             this.lastStep.onRemoved(segmentPath, (keyPath, key, immutableProps) => {
-                setState(state => removeFromKeyedArray(state, segmentPath, keyPath, key) as KeyedArray<T>);
+                observer.remove(segmentPath, keyPath, key, immutableProps);
+            });
+            
+            this.lastStep.onUpdated(segmentPath, (keyPath, key, oldImmutableProps, newImmutableProps) => {
+                observer.update(segmentPath, keyPath, key, oldImmutableProps, newImmutableProps);
             });
             
             this.lastStep.onModified(segmentPath, (keyPath, key, name, value) => {
-                setState(state => modifyInKeyedArray(state, segmentPath, keyPath, key, name, value) as KeyedArray<T>);
+                observer.modify(segmentPath, keyPath, key, name, value);
             });
         });
+    }
+
+    /**
+     * Builds the pipeline as a sink of JSON Patch operations (RFC 6902) instead of state transforms.
+     *
+     * The operations describe the changes to the same keyed array state that build
+     * produces. Applying them with applyPatch to an empty array, in the order they
+     * are delivered, rebuilds that state. A batch delivers its operations as one patch.
+     */
+    buildPatches(onPatch: (operations: PatchOperation[]) => void, typeDescriptor: TypeDescriptor): BuiltPipeline<TStart> {
+        const sink = new JsonPatchSink(typeDescriptor, onPatch);
+        this.observe(sink, typeDescriptor);
         
-        return this.input;
+        const input = this.input;
+        return {
+            add: (key, immutableProps) => input.add(key, immutableProps),
+            remove: (key, immutableProps) => input.remove(key, immutableProps),
+            update: (key, oldImmutableProps, newImmutableProps) => input.update(key, oldImmutableProps, newImmutableProps),
+            batch: action => sink.batch(action)
+        };
+    }
+}
+
+/**
+ * Forwards state transforms to setState, or buffers them while a batch is open.
+ *
+ * When the outermost batch completes, the buffered transforms are composed
+ * into a single transform. A modification of the same property of the same
+ * item supersedes any earlier buffered modification of it, so only the last
+ * value is applied.
+ */
+class TransformBuffer<S> {
+    private depth = 0;
+    private pending: Transform<S>[] = [];
+    private pendingModifications: Map<string, number> = new Map();
+    /** Buffered modifications superseded by later ones, left out when committing */
+    private superseded: { modificationKey: string, index: number }[] = [];
+
+    constructor(
+        private setState: (transform: Transform<S>) => void
+    ) {}
+
+    apply(transform: Transform<S>): void {
+        if (this.depth === 0) {
+            this.setState(transform);
+        } else {
+            this.pending.push(transform);
+        }
+    }
+
+    applyModification(modificationKey: string, transform: Transform<S>): void {
+        if (this.depth === 0) {
+            this.setState(transform);
+            return;
+        }
+        const previousIndex = this.pendingModifications.get(modificationKey);
+        if (previousIndex !== undefined) {
+            this.superseded.push({ modificationKey, index: previousIndex });
+        }
+        this.pendingModifications.set(modificationKey, this.pending.length);
+        this.pending.push(transform);
+    }
+
+    isBatching(): boolean {
+        return this.depth > 0;
+    }
+
+    batch(action: () => void): void {
+        this.depth++;
+        try {
+            action();
+        } finally {
+            this.depth--;
+            if (this.depth === 0) {
+                this.commit();
+            }
+        }
+    }
+
+    /**
+     * Runs the action as a batch, but if it throws, discards the transforms it
+     * produced before rethrowing, leaving those of any enclosing batch.
+     */
+    attempt(action: () => void): void {
+        const pendingLength = this.pending.length;
+        const supersededLength = this.superseded.length;
+        this.depth++;
+        try {
+            action();
+        } catch (error) {
+            this.pending.length = pendingLength;
+            for (const [modificationKey, index] of this.pendingModifications) {
+                if (index >= pendingLength) {
+                    this.pendingModifications.delete(modificationKey);
+                }
+            }
+            for (const { modificationKey, index } of this.superseded.splice(supersededLength).reverse()) {
+                if (index < pendingLength) {
+                    this.pendingModifications.set(modificationKey, index);
+                }
+            }
+            throw error;
+        } finally {
+            this.depth--;
+            if (this.depth === 0) {
+                this.commit();
+            }
+        }
+    }
+
+    private commit(): void {
+        const superseded = new Set(this.superseded.map(({ index }) => index));
+        const transforms = this.pending.filter((_transform, index) => !superseded.has(index));
+        this.pending = [];
+        this.pendingModifications.clear();
+        this.superseded = [];
+        if (transforms.length > 0) {
+            this.setState(state => transforms.reduce((current, transform) => transform(current), state));
+        }
     }
 }
 
-function addToKeyedArray(state: KeyedArray<any>, segmentPath: string[], keyPath: string[], key: string, immutableProps: ImmutableProps): KeyedArray<any> {
+function addToKeyedArray(state: KeyedArray<any>, segmentPath: string[], keyPath: string[], key: string, immutableProps: ImmutableProps, compare?: KeyedItemComparator): KeyedArray<any> {
     if (segmentPath.length === 0) {
         if (keyPath.length !== 0) {
             throw new Error("Mismatched path length when setting state");
         }
-        return [...state, { key, value: immutableProps }];
+        const newItem = { key, value: immutableProps };
+        return compare ? insertSorted(state, newItem, compare) : [...state, newItem];
     }
     else {
         if (keyPath.length === 0) {
@@ -547,7 +1394,7 @@ function addToKeyedArray(state: KeyedArray<any>, segmentPath: string[], keyPath:
         }
         const existingItem = state[existingItemIndex];
         const existingArray = existingItem.value[segment] as KeyedArray<any> || [];
-        const modifiedArray = addToKeyedArray(existingArray, segmentPath.slice(1), keyPath.slice(1), key, immutableProps);
+        const modifiedArray = addToKeyedArray(existingArray, segmentPath.slice(1), keyPath.slice(1), key, immutableProps, compare);
         const modifiedItem = {
             key: parentKey,
             value: {
@@ -598,21 +1445,50 @@ function removeFromKeyedArray(state: KeyedArray<any>, segmentPath: string[], key
     }
 }
 
-function modifyInKeyedArray(state: KeyedArray<any>, segmentPath: string[], keyPath: string[], key: string, name: string, value: any): KeyedArray<any> {
+function updateInKeyedArray(state: KeyedArray<any>, segmentPath: string[], keyPath: string[], key: string, oldImmutableProps: ImmutableProps, newImmutableProps: ImmutableProps, compare?: KeyedItemComparator): KeyedArray<any> {
     if (segmentPath.length === 0) {
         if (keyPath.length !== 0) {
-            throw new Error("Mismatched path length when modifying state");
+            throw new Error("Mismatched path length when updating state");
         }
         const existingItemIndex = state.findIndex(item => item.key === key);
         if (existingItemIndex < 0) {
-            throw new Error("Path references unknown item when modifying state");
+            throw new Error("Path references unknown item when updating state");
         }
         const existingItem = state[existingItemIndex];
+        // Replace the immutable props, keeping aggregate properties and nested arrays
+        const retainedValue = { ...existingItem.value };
+        for (const name of Object.keys(oldImmutableProps)) {
+            if (!(name in newImmutableProps)) {
+                delete retainedValue[name];
+            }
+        }
         const modifiedItem = {
             key: key,
+            value: {
+                ...retainedValue,
+                ...newImmutableProps
+            }
+        };
+        return replaceItem(state, existingItemIndex, modifiedItem, compare);
+    }
+    else {
+        if (keyPath.length === 0) {
+            throw new Error("Mismatched path length when updating state");
+        }
+        const parentKey = keyPath[0];
+        const segment = segmentPath[0];
+        const existingItemIndex = state.findIndex(item => item.key === parentKey);
+        if (existingItemIndex < 0) {
+            throw new Error("Path references unknown item when updating state");
+        }
+        const existingItem = state[existingItemIndex];
+        const existingArray = existingItem.value[segment] as KeyedArray<any> || [];
+        const modifiedArray = updateInKeyedArray(existingArray, segmentPath.slice(1), keyPath.slice(1), key, oldImmutableProps, newImmutableProps, compare);
+        const modifiedItem = {
+            key: parentKey,
             value: {
                 ...existingItem.value,
-                [name]: value
+                [segmentPath[0]]: modifiedArray
             }
         };
         return [
@@ -621,6 +1497,27 @@ function modifyInKeyedArray(state: KeyedArray<any>, segmentPath: string[], keyPa
             ...state.slice(existingItemIndex+1)
         ];
     }
+}
+
+function modifyInKeyedArray(state: KeyedArray<any>, segmentPath: string[], keyPath: string[], key: string, name: string, value: any, compare?: KeyedItemComparator): KeyedArray<any> {
+    if (segmentPath.length === 0) {
+        if (keyPath.length !== 0) {
+            throw new Error("Mismatched path length when modifying state");
+        }
+        const existingItemIndex = state.findIndex(item => item.key === key);
+        if (existingItemIndex < 0) {
+            throw new Error("Path references unknown item when modifying state");
+        }
+        const existingItem = state[existingItemIndex];
+        const modifiedItem = {
+            key: key,
+            value: {
+                ...existingItem.value,
+                [name]: value
+            }
+        };
+        return replaceItem(state, existingItemIndex, modifiedItem, compare);
+    }
     else {
         if (keyPath.length === 0) {
             throw new Error("Mismatched path length when modifying state");
@@ -633,7 +1530,7 @@ function modifyInKeyedArray(state: KeyedArray<any>, segmentPath: string[], keyPa
         }
         const existingItem = state[existingItemIndex];
         const existingArray = existingItem.value[segment] as KeyedArray<any> || [];
-        const modifiedArray = modifyInKeyedArray(existingArray, segmentPath.slice(1), keyPath.slice(1), key, name, value);
+        const modifiedArray = modifyInKeyedArray(existingArray, segmentPath.slice(1), keyPath.slice(1), key, name, value, compare);
         const modifiedItem = {
             key: parentKey,
             value: {
@@ -649,3 +1546,33 @@ function modifyInKeyedArray(state: KeyedArray<any>, segmentPath: string[], keyPa
     }
 }
 
+/**
+ * Inserts an item after every item that does not sort after it.
+ */
+function insertSorted(state: KeyedArray<any>, item: { key: string, value: any }, compare: KeyedItemComparator): KeyedArray<any> {
+    let low = 0;
+    let high = state.length;
+    while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (compare(state[mid], item) <= 0) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return [...state.slice(0, low), item, ...state.slice(low)];
+}
+
+/**
+ * Replaces the item at an index, repositioning it if the array is ordered.
+ */
+function replaceItem(state: KeyedArray<any>, index: number, item: { key: string, value: any }, compare: KeyedItemComparator | undefined): KeyedArray<any> {
+    if (compare) {
+        return insertSorted([...state.slice(0, index), ...state.slice(index+1)], item, compare);
+    }
+    return [
+        ...state.slice(0, index),
+        item,
+        ...state.slice(index+1)
+    ];
+}
@@ -0,0 +1,103 @@
+import type { Pipeline, StepDescription } from './pipeline';
+import { UndoLog } from './util/undo-log';
+import { getFailingStep } from './util/user-function';
+
+/**
+ * What a built pipeline does when an input operation throws part way through,
+ * for example because a filter predicate or an aggregate operator threw.
+ * - 'throw': lets the error through; steps that already handled the
+ *   operation keep its effects (default)
+ * - 'rollback': restores the state from before the operation, then rethrows
+ * - 'deadLetter': restores the state from before the operation, and keeps the
+ *   operation in the dead-letter list to be retried
+ */
+export type ErrorPolicy = 'throw' | 'rollback' | 'deadLetter';
+
+export type DeadLetterOperation<T> =
+    | { operation: 'add' | 'remove', key: string, immutableProps: T }
+    | { operation: 'update', key: string, oldImmutableProps: T, newImmutableProps: T };
+
+/**
+ * An input operation that failed, with the error it threw.
+ */
+export type DeadLetter<T> = DeadLetterOperation<T> & {
+    /** The step whose predicate, compute function or operator threw, if one did */
+    step?: StepDescription;
+    error: unknown;
+};
+
+/**
+ * Passes input operations to a pipeline under an error policy.
+ *
+ * Unless the policy is 'throw', the changes that each operation makes to the
+ * state of the steps and the output are recorded in an undo log, so that
+ * they can be undone if the operation fails. Recording and undoing take time
+ * in proportion to what the operation changed.
+ */
+export class IsolatedInput<T> implements Pipeline<T> {
+    private letters: DeadLetter<T>[] = [];
+
+    /**
+     * @param attempt - Runs an operation, discarding the output transforms it produced if it throws
+     */
+    constructor(
+        private input: Pipeline<T>,
+        private policy: ErrorPolicy,
+        private attempt: (action: () => void) => void
+    ) {}
+
+    get deadLetters(): DeadLetter<T>[] {
+        return [...this.letters];
+    }
+
+    add(key: string, immutableProps: T): void {
+        this.run({ operation: 'add', key, immutableProps });
+    }
+
+    remove(key: string, immutableProps: T): void {
+        this.run({ operation: 'remove', key, immutableProps });
+    }
+
+    update(key: string, oldImmutableProps: T, newImmutableProps: T): void {
+        this.run({ operation: 'update', key, oldImmutableProps, newImmutableProps });
+    }
+
+    /**
+     * Runs the dead-lettered operations again, in the order they failed.
+     * Those that fail again go back on the list.
+     */
+    retry(): void {
+        const letters = this.letters;
+        this.letters = [];
+        letters.forEach(({ step, error, ...operation }) => this.run(operation as DeadLetterOperation<T>));
+    }
+
+    private run(operation: DeadLetterOperation<T>): void {
+        const action = () => this.apply(operation);
+        if (this.policy === 'throw') {
+            action();
+            return;
+        }
+        const undoLog = new UndoLog();
+        try {
+            undoLog.run(() => this.attempt(action));
+        } catch (error) {
+            undoLog.undo();
+            if (this.policy === 'rollback') {
+                throw error;
+            }
+            const step = getFailingStep(error);
+            this.letters.push({ ...operation, ...(step && { step: step.describe() }), error });
+        }
+    }
+
+    private apply(operation: DeadLetterOperation<T>): void {
+        if (operation.operation === 'update') {
+            this.input.update(operation.key, operation.oldImmutableProps, operation.newImmutableProps);
+        } else if (operation.operation === 'add') {
+            this.input.add(operation.key, operation.immutableProps);
+        } else {
+            this.input.remove(operation.key, operation.immutableProps);
+        }
+    }
+}
@@ -0,0 +1,310 @@
+import type { KeyedArray, PipelineBuilder, StateStoreKind } from './builder';
+import type { TypeDescriptor } from './pipeline';
+import { canonicalizeValue } from './util/hash';
+
+/** Most pipeline runs spent looking for a shorter failing sequence */
+const MAX_SHRINK_RUNS = 2000;
+
+/** Relative difference under which two numbers match, for rounding in running statistics */
+const NUMBER_TOLERANCE = 1e-9;
+
+/** Absolute difference under which two numbers match, for rounding around zero */
+const NUMBER_ABSOLUTE_TOLERANCE = 1e-12;
+
+/**
+ * An add, remove or update replayed into a pipeline. An update replaces
+ * oldValue with value.
+ */
+export type ReplayOperation<T> =
+    | { op: 'add'; key: string; value: T }
+    | { op: 'remove'; key: string; value: T }
+    | { op: 'update'; key: string; oldValue: T; value: T };
+
+export interface IncrementalCheckOptions<T> {
+    /** Creates the item for each add, from a seeded random number generator */
+    generateItem: (random: () => number) => T;
+    /** Creates the new value of an item for each update (default generateItem) */
+    updateItem?: (item: T, random: () => number) => T;
+    /** Number of adds, removes and updates to replay (default 200) */
+    operations?: number;
+    /** Chance that an operation removes an item (default 0.4) */
+    removeRatio?: number;
+    /** Chance that an operation updates an item (default 0.2) */
+    updateRatio?: number;
+    /**
+     * Whether an empty array matches an absent one (default false). Some steps
+     * keep an array that has emptied where a rebuild never creates it.
+     */
+    emptyArraysAsAbsent?: boolean;
+    /** Seed of the random sequence, so that a failure can be reproduced (default 1) */
+    seed?: number;
+    store?: StateStoreKind;
+}
+
+/**
+ * A sequence of operations after which the incrementally maintained output
+ * differs from a rebuild, or during which a pipeline threw.
+ */
+export interface IncrementalCheckFailure<T> {
+    seed: number;
+    /** The shortest failing sequence found; the outputs diverge after the last operation */
+    operations: ReplayOperation<T>[];
+    /** The incremental and rebuilt outputs after the last operation, with unordered arrays sorted by key */
+    incremental: unknown;
+    rebuilt: unknown;
+    /** The error thrown by either pipeline, if that is how they diverged */
+    error?: string;
+    /** Describes the failure, for a test report */
+    message: string;
+}
+
+/**
+ * Checks that a pipeline's incremental output matches a from-scratch rebuild.
+ *
+ * Replays a random sequence of adds, removes and updates into a pipeline. After each
+ * operation, builds a fresh pipeline, adds only the items that remain, and
+ * compares the two outputs. Arrays with a declared ordering must match in
+ * order; other arrays are compared as sets of keyed items, since arrival
+ * order legitimately differs. Numbers match within a small absolute and
+ * relative tolerance.
+ *
+ * Returns undefined if the outputs always match. Otherwise the failing
+ * sequence is shrunk by dropping operations for as long as it still fails,
+ * and the shortest one found is returned.
+ *
+ * @param defineBuilder - Creates the pipeline, called once per build since steps keep state
+ */
+export function checkIncremental<T extends {}>(
+    defineBuilder: () => PipelineBuilder<any, T, any>,
+    options: IncrementalCheckOptions<T>
+): IncrementalCheckFailure<T> | undefined {
+    const seed = options.seed ?? 1;
+    const operations = generateOperations(options, seed);
+    const store = options.store ?? 'array';
+    const matches = (incremental: unknown, rebuilt: unknown) => outputsMatch(incremental, rebuilt, options.emptyArraysAsAbsent ?? false);
+    const replay = (candidate: ReplayOperation<T>[]) => replayOperations(defineBuilder, candidate, store, matches);
+    const failure = replay(operations);
+    if (!failure) {
+        return undefined;
+    }
+
+    // Drop chunks of operations, halving the chunk size when none can be dropped
+    let current = failure;
+    let runs = 0;
+    let chunkSize = Math.ceil(current.operations.length / 2);
+    while (chunkSize >= 1 && runs < MAX_SHRINK_RUNS) {
+        let shrunk = false;
+        for (let start = 0; start < current.operations.length && runs < MAX_SHRINK_RUNS; ) {
+            const candidate = repairOperations([
+                ...current.operations.slice(0, start),
+                ...current.operations.slice(start + chunkSize)
+            ]);
+            runs++;
+            const candidateFailure = candidate.length < current.operations.length ? replay(candidate) : undefined;
+            if (candidateFailure) {
+                current = candidateFailure;
+                shrunk = true;
+            } else {
+                start += chunkSize;
+            }
+        }
+        if (!shrunk) {
+            chunkSize = Math.floor(chunkSize / 2);
+        }
+    }
+    return { seed, ...current, message: describeFailure(seed, current) };
+}
+
+type ReplayFailure<T> = Omit<IncrementalCheckFailure<T>, 'seed' | 'message'>;
+
+function generateOperations<T>(options: IncrementalCheckOptions<T>, seed: number): ReplayOperation<T>[] {
+    const random = createRandom(seed);
+    const count = options.operations ?? 200;
+    const removeRatio = options.removeRatio ?? 0.4;
+    const updateRatio = options.updateRatio ?? 0.2;
+    const updateItem = options.updateItem ?? ((_item: T, random: () => number) => options.generateItem(random));
+    const present = new Map<string, T>();
+    const operations: ReplayOperation<T>[] = [];
+    let nextKey = 1;
+    for (let i = 0; i < count; i++) {
+        const choice = present.size > 0 ? random() : 1;
+        if (choice < removeRatio + updateRatio) {
+            const keys = Array.from(present.keys());
+            const key = keys[Math.floor(random() * keys.length)];
+            const oldValue = present.get(key)!;
+            if (choice < removeRatio) {
+                operations.push({ op: 'remove', key, value: oldValue });
+                present.delete(key);
+            } else {
+                const value = updateItem(oldValue, random);
+                operations.push({ op: 'update', key, oldValue, value });
+                present.set(key, value);
+            }
+        } else {
+            const key = `item-${nextKey++}`;
+            const value = options.generateItem(random);
+            operations.push({ op: 'add', key, value });
+            present.set(key, value);
+        }
+    }
+    return operations;
+}
+
+/**
+ * Creates a small seeded random number generator (mulberry32), returning numbers in [0, 1).
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Drops the removes and updates of items that are no longer added earlier in
+ * the sequence, and gives the others the value the item has at that point,
+ * which changes when an earlier update is dropped.
+ */
+function repairOperations<T>(operations: ReplayOperation<T>[]): ReplayOperation<T>[] {
+    const present = new Map<string, T>();
+    return operations.flatMap((operation): ReplayOperation<T>[] => {
+        if (operation.op === 'add') {
+            present.set(operation.key, operation.value);
+            return [operation];
+        }
+        const current = present.get(operation.key);
+        if (current === undefined) {
+            return [];
+        }
+        if (operation.op === 'remove') {
+            present.delete(operation.key);
+            return [{ ...operation, value: current }];
+        }
+        present.set(operation.key, operation.value);
+        return [{ ...operation, oldValue: current }];
+    });
+}
+
+/**
+ * Replays operations, comparing with a rebuild after each one. Returns the
+ * failure, with the operations up to the one where the outputs diverged.
+ */
+function replayOperations<T extends {}>(
+    defineBuilder: () => PipelineBuilder<any, T, any>,
+    operations: ReplayOperation<T>[],
+    store: StateStoreKind,
+    matches: (incremental: unknown, rebuilt: unknown) => boolean
+): ReplayFailure<T> | undefined {
+    const incremental = buildOutput(defineBuilder, store);
+    const present = new Map<string, T>();
+    for (let i = 0; i < operations.length; i++) {
+        const operation = operations[i];
+        const failed = (incrementalOutput: unknown, rebuiltOutput: unknown, error?: unknown): ReplayFailure<T> => ({
+            operations: operations.slice(0, i + 1),
+            incremental: incrementalOutput,
+            rebuilt: rebuiltOutput,
+            ...(error !== undefined && { error: error instanceof Error ? error.message : String(error) })
+        });
+        let incrementalOutput: unknown;
+        try {
+            if (operation.op === 'add') {
+                incremental.pipeline.add(operation.key, operation.value);
+                present.set(operation.key, operation.value);
+            } else if (operation.op === 'update') {
+                incremental.pipeline.update(operation.key, operation.oldValue, operation.value);
+                present.set(operation.key, operation.value);
+            } else {
+                incremental.pipeline.remove(operation.key, operation.value);
+                present.delete(operation.key);
+            }
+            incrementalOutput = incremental.getOutput();
+        } catch (error) {
+            return failed(undefined, undefined, error);
+        }
+        let rebuiltOutput: unknown;
+        try {
+            const rebuilt = buildOutput(defineBuilder, store);
+            rebuilt.pipeline.batch(() => {
+                present.forEach((value, key) => rebuilt.pipeline.add(key, value));
+            });
+            rebuiltOutput = rebuilt.getOutput();
+        } catch (error) {
+            return failed(incrementalOutput, undefined, error);
+        }
+        if (!matches(incrementalOutput, rebuiltOutput)) {
+            return failed(incrementalOutput, rebuiltOutput);
+        }
+    }
+    return undefined;
+}
+
+function buildOutput<T extends {}>(defineBuilder: () => PipelineBuilder<any, T, any>, store: StateStoreKind) {
+    const builder = defineBuilder();
+    const typeDescriptor = builder.getTypeDescriptor();
+    let state: KeyedArray<any> = [];
+    const pipeline = builder.build(transform => state = transform(state), typeDescriptor, { store });
+    return { pipeline, getOutput: () => normalizeArray(state, typeDescriptor) };
+}
+
+/**
+ * Sorts the items of arrays without a declared ordering by key, at every level.
+ */
+function normalizeArray(items: KeyedArray<any>, typeDescriptor: TypeDescriptor): KeyedArray<any> {
+    const normalized = items.map(({ key, value }) => {
+        const normalizedValue: Record<string, any> = { ...value };
+        for (const array of typeDescriptor.arrays) {
+            if (Array.isArray(value[array.name])) {
+                normalizedValue[array.name] = normalizeArray(value[array.name], array.type);
+            }
+        }
+        return { key, value: normalizedValue };
+    });
+    return typeDescriptor.ordering ? normalized : normalized.sort((a, b) => a.key < b.key ? -1 : a.key > b.key ? 1 : 0);
+}
+
+/**
+ * Compares two outputs. Numbers match within an absolute and a relative
+ * tolerance, and a property that is undefined matches an absent one. With
+ * emptyArraysAsAbsent, so does an empty array.
+ */
+function outputsMatch(incremental: unknown, rebuilt: unknown, emptyArraysAsAbsent: boolean): boolean {
+    if (typeof incremental === 'number' && typeof rebuilt === 'number') {
+        return Object.is(incremental, rebuilt) || Math.abs(incremental - rebuilt) <=
+            NUMBER_ABSOLUTE_TOLERANCE + NUMBER_TOLERANCE * Math.max(Math.abs(incremental), Math.abs(rebuilt));
+    }
+    if (Array.isArray(incremental) && Array.isArray(rebuilt)) {
+        return incremental.length === rebuilt.length &&
+            incremental.every((item, i) => outputsMatch(item, rebuilt[i], emptyArraysAsAbsent));
+    }
+    if (isRecord(incremental) && isRecord(rebuilt)) {
+        const isAbsent = (value: unknown) => value === undefined || (emptyArraysAsAbsent && Array.isArray(value) && value.length === 0);
+        const names = new Set([...Object.keys(incremental), ...Object.keys(rebuilt)]);
+        return Array.from(names).every(name => isAbsent(incremental[name]) && isAbsent(rebuilt[name])
+            || outputsMatch(incremental[name], rebuilt[name], emptyArraysAsAbsent));
+    }
+    return Object.is(incremental, rebuilt);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function describeFailure<T>(seed: number, failure: ReplayFailure<T>): string {
+    const lines = [
+        failure.error !== undefined
+            ? `Pipeline threw after ${failure.operations.length} operations (seed ${seed}): ${failure.error}`
+            : `Incremental output differs from a rebuild after ${failure.operations.length} operations (seed ${seed})`,
+        ...failure.operations.map(operation => operation.op === 'update'
+            ? `  update ${operation.key} ${JSON.stringify(operation.oldValue)} → ${JSON.stringify(operation.value)}`
+            : `  ${operation.op} ${operation.key} ${JSON.stringify(operation.value)}`)
+    ];
+    if (failure.error === undefined) {
+        lines.push(`Incremental: ${canonicalizeValue(failure.incremental)}`);
+        lines.push(`Rebuilt:     ${canonicalizeValue(failure.rebuilt)}`);
+    }
+    return lines.join('\n');
+}
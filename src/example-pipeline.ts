@@ -35,15 +35,13 @@ interface OutputCategory {
 }
 
 /**
- * Creates a pipeline that groups items by category and computes various aggregates
+ * Defines a pipeline that groups items by category and computes various aggregates
  * 
- * @param setState - Function to update the pipeline state
- * @returns A pipeline instance ready to process items
+ * @param start - The builder to continue from, for example a traced one
+ * @returns A PipelineBuilder ready to be built
  */
-export function createPipeline(setState: (transform: (state: KeyedArray<OutputCategory>) => KeyedArray<OutputCategory>) => void) {
-    const builder = createBasePipeline<InputItem>();
-    
-    const pipeline = builder
+export function defineExamplePipeline(start: PipelineBuilder<InputItem, InputItem> = createBasePipeline<InputItem>()) {
+    return start
         // Group items by category
         .groupBy(['category'], 'items')
         // Compute sum of all values in the category
@@ -57,9 +55,17 @@ export function createPipeline(setState: (transform: (state: KeyedArray<OutputCa
         // Find minimum value
         .min('items', 'value', 'minValue')
         // Pick the item with the highest value
-        .pickByMax('items', 'value', 'mostExpensiveItem')
-        // Build the pipeline
-        .build(setState, builder.getTypeDescriptor());
+        .pickByMax('items', 'value', 'mostExpensiveItem');
+}
+
+/**
+ * Creates a pipeline that groups items by category and computes various aggregates
+ * 
+ * @param setState - Function to update the pipeline state
+ * @returns A pipeline instance ready to process items
+ */
+export function createPipeline(setState: (transform: (state: KeyedArray<OutputCategory>) => KeyedArray<OutputCategory>) => void) {
+    const builder = defineExamplePipeline();
     
-    return pipeline;
-}
\ No newline at end of file
+    return builder.build(setState, builder.getTypeDescriptor());
+}
@@ -0,0 +1,196 @@
+import { collectSteps, type Step, type StepDescription, type TypeDescriptor } from './pipeline';
+
+/** Longest rendering of a parameter before it is truncated */
+const MAX_PARAMETER_LENGTH = 60;
+
+/**
+ * A step of the pipeline graph, identified by its 1-based position in the listing.
+ */
+interface GraphStep {
+    number: number;
+    /** What the step does and where, for example `sum at [cities]` */
+    title: string;
+    /** The step's parameters, for example `array: venues, as: total` */
+    details: string;
+    /** Numbers of the steps the step receives events from */
+    inputs: number[];
+}
+
+/**
+ * An array level of the output, with the levels nested in its items.
+ */
+interface GraphArray {
+    id: number;
+    title: string;
+    details: string;
+    children: GraphArray[];
+}
+
+interface PipelineGraph {
+    steps: GraphStep[];
+    output: GraphArray;
+}
+
+/**
+ * Lists the steps that lead to the last step, inputs first, and the tree of
+ * arrays of the output.
+ */
+function describeGraph(lastStep: Step, typeDescriptor: TypeDescriptor): PipelineGraph {
+    const steps = collectSteps(lastStep);
+    const numbers = new Map(steps.map((step, i) => [step, i + 1]));
+    let nextArrayId = 0;
+    const describeArray = (title: string, descriptor: TypeDescriptor): GraphArray => ({
+        id: nextArrayId++,
+        title,
+        details: describeOrdering(descriptor),
+        children: descriptor.arrays.map(array => describeArray(array.name, array.type))
+    });
+    return {
+        steps: steps.map((step, i) => {
+            const description = step.describe();
+            return {
+                number: i + 1,
+                title: describeTitle(description),
+                details: describeParameters(description.parameters),
+                inputs: step.getInputs().map(input => numbers.get(input)!)
+            };
+        }),
+        output: describeArray('(top level)', typeDescriptor)
+    };
+}
+
+function describeTitle(description: StepDescription): string {
+    return description.kind === 'input' ? 'input' : `${description.kind} at [${description.scope.join(', ')}]`;
+}
+
+function describeParameters(parameters: Record<string, unknown>): string {
+    return Object.entries(parameters)
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) => `${name}: ${formatParameter(value)}`)
+        .join(', ');
+}
+
+/**
+ * Formats a parameter: strings as they are, lists like scopes, and functions by their source.
+ */
+function formatParameter(value: unknown): string {
+    const text = typeof value === 'string' ? value
+        : typeof value === 'function' ? String(value).replace(/\s+/g, ' ')
+        : Array.isArray(value) ? `[${value.map(formatParameter).join(', ')}]`
+        : JSON.stringify(value);
+    return text.length > MAX_PARAMETER_LENGTH ? `${text.slice(0, MAX_PARAMETER_LENGTH - 1)}…` : text;
+}
+
+function describeOrdering(descriptor: TypeDescriptor): string {
+    const ordering = descriptor.ordering;
+    if (!ordering) {
+        return '';
+    }
+    const by = typeof ordering.by === 'function' ? 'a comparator' : ordering.by;
+    return `ordered by ${by} ${ordering.direction}`;
+}
+
+/**
+ * Whether a step's inputs need to be spelled out, because they are not just the step before it.
+ */
+function hasNonAdjacentInputs(step: GraphStep): boolean {
+    return step.inputs.length > 1 || (step.inputs.length === 1 && step.inputs[0] !== step.number - 1);
+}
+
+function flattenArrays(array: GraphArray): GraphArray[] {
+    return [array, ...array.children.flatMap(flattenArrays)];
+}
+
+/**
+ * Describes a pipeline as text: a numbered list of its steps, followed by the tree of arrays of its output.
+ */
+export function explainPipeline(lastStep: Step, typeDescriptor: TypeDescriptor): string {
+    const graph = describeGraph(lastStep, typeDescriptor);
+    const lines = ['Steps:'];
+    for (const step of graph.steps) {
+        const inputs = hasNonAdjacentInputs(step) ? ` (inputs: ${step.inputs.join(', ')})` : '';
+        lines.push(`  ${step.number}. ${step.title}${step.details ? `: ${step.details}` : ''}${inputs}`);
+    }
+    lines.push('Output:');
+    const renderArray = (array: GraphArray, depth: number) => {
+        const name = depth === 0 ? array.title : `${array.title}[]`;
+        lines.push(`${'  '.repeat(depth + 1)}${name}${array.details ? `, ${array.details}` : ''}`);
+        array.children.forEach(child => renderArray(child, depth + 1));
+    };
+    renderArray(graph.output, 0);
+    return lines.join('\n');
+}
+
+/**
+ * Escapes text for a quoted Mermaid label, where quotes and angle brackets would end it or be read as HTML.
+ */
+function escapeMermaid(text: string): string {
+    return text.replace(/[#"<>]/g, char => `#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Renders a pipeline as a Mermaid flowchart: its steps, and the arrays of its output in a subgraph.
+ */
+export function renderMermaid(lastStep: Step, typeDescriptor: TypeDescriptor): string {
+    const graph = describeGraph(lastStep, typeDescriptor);
+    const label = (title: string, details: string) => `"${escapeMermaid(title)}${details ? `<br/>${escapeMermaid(details)}` : ''}"`;
+    const lines = ['flowchart TD'];
+    for (const step of graph.steps) {
+        lines.push(`    step${step.number}[${label(step.title, step.details)}]`);
+    }
+    for (const step of graph.steps) {
+        for (const input of step.inputs) {
+            lines.push(`    step${input} --> step${step.number}`);
+        }
+    }
+    lines.push('    subgraph output["Output"]');
+    const arrays = flattenArrays(graph.output);
+    for (const array of arrays) {
+        lines.push(`        array${array.id}[${label(array.title, array.details)}]`);
+    }
+    for (const array of arrays) {
+        for (const child of array.children) {
+            lines.push(`        array${array.id} --> array${child.id}`);
+        }
+    }
+    lines.push('    end');
+    lines.push(`    step${graph.steps.length} --> array${graph.output.id}`);
+    return lines.join('\n');
+}
+
+function escapeDot(text: string): string {
+    return text.replace(/[\\"]/g, char => `\\${char}`);
+}
+
+/**
+ * Renders a pipeline as a Graphviz DOT digraph: its steps, and the arrays of its output in a cluster.
+ */
+export function renderDot(lastStep: Step, typeDescriptor: TypeDescriptor): string {
+    const graph = describeGraph(lastStep, typeDescriptor);
+    const label = (title: string, details: string) => `"${escapeDot(title)}${details ? `\\n${escapeDot(details)}` : ''}"`;
+    const lines = ['digraph pipeline {', '    node [shape=box];'];
+    for (const step of graph.steps) {
+        lines.push(`    step${step.number} [label=${label(step.title, step.details)}];`);
+    }
+    for (const step of graph.steps) {
+        for (const input of step.inputs) {
+            lines.push(`    step${input} -> step${step.number};`);
+        }
+    }
+    lines.push('    subgraph cluster_output {');
+    lines.push('        label="Output";');
+    lines.push('        node [shape=folder];');
+    const arrays = flattenArrays(graph.output);
+    for (const array of arrays) {
+        lines.push(`        array${array.id} [label=${label(array.title, array.details)}];`);
+    }
+    for (const array of arrays) {
+        for (const child of array.children) {
+            lines.push(`        array${array.id} -> array${child.id};`);
+        }
+    }
+    lines.push('    }');
+    lines.push(`    step${graph.steps.length} -> array${graph.output.id};`);
+    lines.push('}');
+    return lines.join('\n');
+}
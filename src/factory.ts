@@ -1,24 +1,60 @@
 import { PipelineBuilder } from './builder';
-import type { AddedHandler, ImmutableProps, Pipeline, RemovedHandler, Step } from './pipeline';
+import { IntegrityTracker, type IntegrityOptions, type IntegrityPolicy } from './integrity';
+import type { AddedHandler, ImmutableProps, Pipeline, RemovedHandler, ScalarPropertyDescriptor, ScalarType, Step, StepDescription, UpdatedHandler } from './pipeline';
 import { type TypeDescriptor } from './pipeline';
 
 // Private class (not exported)
 class InputPipeline<T> implements Pipeline<T>, Step {
     private addedHandlers: AddedHandler[] = [];
     private removedHandlers: RemovedHandler[] = [];
+    private updatedHandlers: UpdatedHandler[] = [];
+
+    constructor(
+        private properties: ScalarPropertyDescriptor[],
+        private integrity?: IntegrityTracker
+    ) {}
 
     getTypeDescriptor(): TypeDescriptor {
-        return { arrays: [] }; // No arrays at input level
+        return { arrays: [], properties: this.properties }; // No arrays at input level
+    }
+
+    getInputs(): Step[] {
+        return [];
+    }
+
+    describe(): StepDescription {
+        return { kind: 'input', scope: [], parameters: {} };
+    }
+
+    saveState(): unknown {
+        return this.integrity ? this.integrity.saveState() : null;
+    }
+
+    restoreState(state: unknown): void {
+        this.integrity?.restoreState(state as Record<string, string> | null);
     }
 
     add(key: string, immutableProps: T): void {
+        if (this.integrity && !this.integrity.add(key, immutableProps)) {
+            return;
+        }
         this.addedHandlers.forEach(handler => handler([], key, immutableProps as ImmutableProps));
     }
 
     remove(key: string, immutableProps: T): void {
+        if (this.integrity && !this.integrity.remove(key, immutableProps)) {
+            return;
+        }
         this.removedHandlers.forEach(handler => handler([], key, immutableProps as ImmutableProps));
     }
 
+    update(key: string, oldImmutableProps: T, newImmutableProps: T): void {
+        if (this.integrity && !this.integrity.update(key, oldImmutableProps, newImmutableProps)) {
+            return;
+        }
+        this.updatedHandlers.forEach(handler => handler([], key, oldImmutableProps as ImmutableProps, newImmutableProps as ImmutableProps));
+    }
+
     onAdded(path: string[], handler: (path: string[], key: string, immutableProps: ImmutableProps) => void): void {
         if (path.length === 0) {
             this.addedHandlers.push(handler);
@@ -31,13 +67,37 @@ class InputPipeline<T> implements Pipeline<T>, Step {
         }
     }
 
+    onUpdated(path: string[], handler: UpdatedHandler): void {
+        if (path.length === 0) {
+            this.updatedHandlers.push(handler);
+        }
+    }
+
     onModified(path: string[], handler: (path: string[], key: string, name: string, value: any) => void): void {
         // No modifications at input level
     }
 }
 
-export function createPipeline<TStart extends {}>(): PipelineBuilder<TStart, TStart> {
-    const start = new InputPipeline<TStart>();
+export interface PipelineOptions {
+    /**
+     * Strict mode: checks that keys are added once, and removed or updated only
+     * while present and with the props they were added with. A policy applies
+     * to every rule; off unless given.
+     */
+    integrity?: IntegrityPolicy | IntegrityOptions;
+    /**
+     * The types of the input's scalar properties, so that the type descriptor
+     * lists them. Properties that are not declared are left out of it.
+     */
+    properties?: Record<string, ScalarType>;
+}
+
+export function createPipeline<TStart extends {}>(options: PipelineOptions = {}): PipelineBuilder<TStart, TStart> {
+    const integrity = typeof options.integrity === 'string'
+        ? { duplicateAdd: options.integrity, unknownRemove: options.integrity, mismatchedRemove: options.integrity }
+        : options.integrity;
+    const properties = Object.entries(options.properties ?? {}).map(([name, type]): ScalarPropertyDescriptor => ({ name, kind: 'immutable', type }));
+    const start = new InputPipeline<TStart>(properties, integrity && new IntegrityTracker(integrity));
     return new PipelineBuilder<TStart, TStart>(start, start);
 }
 
@@ -1,7 +1,21 @@
-export type { Pipeline, Step, TypeDescriptor, ArrayDescriptor } from './pipeline';
-export type { KeyedArray, Transform } from './builder';
+export type { Pipeline, BuiltPipeline, RestorablePipeline, JoinedInput, PipelineObserver, Step, StepDescription, TypeDescriptor, ArrayDescriptor, ScalarPropertyDescriptor, PropertyKind, ScalarType, OrderingDescriptor, ItemComparator, SortDirection } from './pipeline';
+export type { KeyedArray, Transform, BuildOptions, StateStoreKind } from './builder';
 export { PipelineBuilder } from './builder';
+export type { PipelineOptions } from './factory';
 export { createPipeline } from './factory';
+export type { IntegrityPolicy, IntegrityViolationKind, IntegrityViolation, IntegrityOptions } from './integrity';
+export { KeyedStore } from './keyed-store';
+export type { PatchOperation } from './json-patch';
+export { JsonPatchSink, applyPatch } from './json-patch';
+export type { PipelineSpec, StepSpec } from './pipeline-spec';
+export { compilePipelineSpec } from './pipeline-spec';
+export type { PipelineSnapshot } from './snapshot';
+export { SNAPSHOT_VERSION } from './snapshot';
+export type { ErrorPolicy, DeadLetter, DeadLetterOperation } from './dead-letter';
+export type { TraceEvent, TraceEventKind, TraceQuery, TracedStepInfo } from './trace';
+export { PipelineTrace } from './trace';
+export type { ReplayOperation, IncrementalCheckOptions, IncrementalCheckFailure } from './differential-check';
+export { checkIncremental } from './differential-check';
 
 // Commutative aggregate types and step (for advanced usage)
 export type { AddOperator, SubtractOperator } from './steps/commutative-aggregate';
@@ -10,8 +24,23 @@ export { CommutativeAggregateStep } from './steps/commutative-aggregate';
 // Aggregate steps
 export { MinMaxAggregateStep } from './steps/min-max-aggregate';
 export { AverageAggregateStep } from './steps/average-aggregate';
+export { PercentileAggregateStep } from './steps/percentile-aggregate';
+export type { VarianceKind, VarianceStatistic } from './steps/variance-aggregate';
+export { VarianceAggregateStep } from './steps/variance-aggregate';
 export { PickByMinMaxStep } from './steps/pick-by-min-max';
+export { DistinctAggregateStep } from './steps/distinct-aggregate';
+export { TopNStep } from './steps/top-n';
+
+// Reactive property step
+export { DefineReactivePropertyStep } from './steps/define-reactive-property';
 
 // Filter step
 export { FilterStep } from './steps/filter';
+export { HavingStep } from './steps/having';
+
+// Join step
+export type { JoinType, JoinKeySelector } from './steps/join';
+export { JoinStep } from './steps/join';
 
+// Flatten step
+export { FlattenStep } from './steps/flatten';
@@ -0,0 +1,111 @@
+import { computeFingerprint } from './util/hash';
+import { mapToRecord, recordToMap } from './util/serialization';
+import { UndoableMap } from './util/undo-log';
+
+/**
+ * What strict mode does when an input operation breaks an integrity rule.
+ * The operation never reaches the steps, so their state stays consistent.
+ * - 'throw': rejects the operation with an error
+ * - 'warn': reports the violation and skips the operation
+ * - 'ignore': skips the operation
+ */
+export type IntegrityPolicy = 'throw' | 'warn' | 'ignore';
+
+/**
+ * The integrity rules of strict mode. An update is checked as a remove of its
+ * old props, so an update of a key that is not present is an 'unknownRemove'.
+ * - 'duplicateAdd': adding a key that is already present
+ * - 'unknownRemove': removing a key that is not present
+ * - 'mismatchedRemove': removing a key with props other than those it was added with
+ */
+export type IntegrityViolationKind = 'duplicateAdd' | 'unknownRemove' | 'mismatchedRemove';
+
+export interface IntegrityViolation {
+    kind: IntegrityViolationKind;
+    operation: 'add' | 'remove' | 'update';
+    key: string;
+    message: string;
+}
+
+export interface IntegrityOptions {
+    /** Policy for each rule (default 'throw') */
+    duplicateAdd?: IntegrityPolicy;
+    unknownRemove?: IntegrityPolicy;
+    mismatchedRemove?: IntegrityPolicy;
+    /** Receives the violations of rules with the 'warn' policy (default console.warn of the message) */
+    onViolation?: (violation: IntegrityViolation) => void;
+}
+
+/**
+ * Tracks the keys present at the input of a pipeline, with a fingerprint of
+ * the props each was added with, and applies the integrity policies.
+ */
+export class IntegrityTracker {
+    private fingerprints: Map<string, string> = new UndoableMap();
+
+    constructor(
+        private options: IntegrityOptions
+    ) {}
+
+    /**
+     * Checks an add, returning whether to apply it. Tracks the key with its
+     * props if so.
+     */
+    add(key: string, immutableProps: unknown): boolean {
+        if (this.fingerprints.has(key)) {
+            return this.violate('duplicateAdd', 'add', key, `add: cannot add key "${key}", it is already present`);
+        }
+        this.fingerprints.set(key, computeFingerprint(immutableProps));
+        return true;
+    }
+
+    remove(key: string, immutableProps: unknown): boolean {
+        if (!this.checkRemove('remove', key, immutableProps)) {
+            return false;
+        }
+        this.fingerprints.delete(key);
+        return true;
+    }
+
+    update(key: string, oldImmutableProps: unknown, newImmutableProps: unknown): boolean {
+        if (!this.checkRemove('update', key, oldImmutableProps)) {
+            return false;
+        }
+        this.fingerprints.set(key, computeFingerprint(newImmutableProps));
+        return true;
+    }
+
+    saveState(): Record<string, string> {
+        return mapToRecord(this.fingerprints);
+    }
+
+    restoreState(state: Record<string, string> | null): void {
+        this.fingerprints = new UndoableMap(undefined, recordToMap(state ?? {}));
+    }
+
+    private checkRemove(operation: 'remove' | 'update', key: string, immutableProps: unknown): boolean {
+        const fingerprint = this.fingerprints.get(key);
+        if (fingerprint === undefined) {
+            return this.violate('unknownRemove', operation, key, `${operation}: cannot ${operation} key "${key}", it is not present`);
+        }
+        if (fingerprint !== computeFingerprint(immutableProps)) {
+            return this.violate('mismatchedRemove', operation, key, `${operation}: cannot ${operation} key "${key}", its props differ from those it was added with`);
+        }
+        return true;
+    }
+
+    /**
+     * Applies the policy of a broken rule, returning false to skip the operation.
+     */
+    private violate(kind: IntegrityViolationKind, operation: IntegrityViolation['operation'], key: string, message: string): false {
+        const policy = this.options[kind] ?? 'throw';
+        if (policy === 'throw') {
+            throw new Error(message);
+        }
+        if (policy === 'warn') {
+            const onViolation = this.options.onViolation ?? (violation => console.warn(violation.message));
+            onViolation({ kind, operation, key, message });
+        }
+        return false;
+    }
+}
@@ -0,0 +1,374 @@
+import type { ImmutableProps, PipelineObserver, TypeDescriptor } from './pipeline';
+import { getItemComparator, type KeyedItemComparator } from './util/ordering';
+
+/**
+ * A JSON Patch operation (RFC 6902).
+ */
+export type PatchOperation =
+    | { op: 'add'; path: string; value: any }
+    | { op: 'remove'; path: string }
+    | { op: 'replace'; path: string; value: any }
+    | { op: 'move'; from: string; path: string }
+    | { op: 'copy'; from: string; path: string }
+    | { op: 'test'; path: string; value: any };
+
+type KeyedItem = { key: string, value: any };
+
+/**
+ * Escapes a reference token of a JSON Pointer (RFC 6901).
+ */
+function escapeToken(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapeToken(token: string): string {
+    return token.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function parsePointer(pointer: string): string[] {
+    if (pointer === '') {
+        return [];
+    }
+    if (!pointer.startsWith('/')) {
+        throw new Error(`applyPatch: invalid JSON Pointer "${pointer}"`);
+    }
+    return pointer.slice(1).split('/').map(unescapeToken);
+}
+
+/**
+ * Translates pipeline events into JSON Patch operations against the
+ * keyed array state that `PipelineBuilder.build` produces.
+ *
+ * The sink keeps its own copy of the state to find the position of each
+ * item, and applies its operations to that copy with applyPatch, so a client
+ * that applies the same operations to an empty array stays identical.
+ */
+export class JsonPatchSink implements PipelineObserver {
+    private state: KeyedItem[] = [];
+    private comparators: Map<string, KeyedItemComparator | undefined> = new Map();
+    private depth = 0;
+    private pending: PatchOperation[] = [];
+
+    constructor(
+        private typeDescriptor: TypeDescriptor,
+        private onPatch: (operations: PatchOperation[]) => void
+    ) {}
+
+    add(segmentPath: string[], keyPath: string[], key: string, immutableProps: ImmutableProps): void {
+        const location = this.locate(segmentPath, keyPath, 'setting');
+        const operations: PatchOperation[] = [];
+        if (!location.array) {
+            // The array is created with its first item
+            operations.push({ op: 'add', path: location.pointer, value: [] });
+        }
+        const array = location.array ?? [];
+        const item = { key, value: immutableProps };
+        const index = this.findInsertionIndex(array, item, segmentPath);
+        operations.push({ op: 'add', path: `${location.pointer}/${index}`, value: item });
+        this.emit(operations);
+    }
+
+    remove(segmentPath: string[], keyPath: string[], key: string): void {
+        const location = this.locate(segmentPath, keyPath, 'removing from');
+        const index = location.array ? location.array.findIndex(item => item.key === key) : -1;
+        if (index < 0) {
+            return;
+        }
+        this.emit([{ op: 'remove', path: `${location.pointer}/${index}` }]);
+    }
+
+    update(segmentPath: string[], keyPath: string[], key: string, oldImmutableProps: ImmutableProps, newImmutableProps: ImmutableProps): void {
+        const { pointer, array, index } = this.locateItem(segmentPath, keyPath, key, 'updating');
+        const existing = array[index];
+        const operations: PatchOperation[] = [];
+        const newValue = { ...existing.value };
+        // Replace the immutable props, keeping aggregate properties and nested arrays
+        for (const name of Object.keys(oldImmutableProps)) {
+            if (!(name in newImmutableProps) && name in existing.value) {
+                operations.push({ op: 'remove', path: `${pointer}/${index}/value/${escapeToken(name)}` });
+                delete newValue[name];
+            }
+        }
+        for (const [name, value] of Object.entries(newImmutableProps)) {
+            operations.push(...this.setProperty(`${pointer}/${index}/value`, existing.value, name, value));
+            if (value === undefined) {
+                delete newValue[name];
+            } else {
+                newValue[name] = value;
+            }
+        }
+        operations.push(...this.reposition(pointer, array, index, { key, value: newValue }, segmentPath));
+        this.emit(operations);
+    }
+
+    modify(segmentPath: string[], keyPath: string[], key: string, name: string, value: any): void {
+        const { pointer, array, index } = this.locateItem(segmentPath, keyPath, key, 'modifying');
+        const existing = array[index];
+        const operations = this.setProperty(`${pointer}/${index}/value`, existing.value, name, value);
+        operations.push(...this.reposition(pointer, array, index, { key, value: { ...existing.value, [name]: value } }, segmentPath));
+        this.emit(operations);
+    }
+
+    /**
+     * Runs the action and delivers all of the operations it produces as a single patch.
+     * Batches may be nested; only the outermost batch delivers.
+     */
+    batch(action: () => void): void {
+        this.depth++;
+        try {
+            action();
+        } finally {
+            this.depth--;
+            if (this.depth === 0 && this.pending.length > 0) {
+                const operations = this.pending;
+                this.pending = [];
+                this.onPatch(operations);
+            }
+        }
+    }
+
+    private emit(operations: PatchOperation[]): void {
+        if (operations.length === 0) {
+            return;
+        }
+        this.state = applyPatch(this.state, operations);
+        if (this.depth === 0) {
+            this.onPatch(operations);
+        } else {
+            this.pending.push(...operations);
+        }
+    }
+
+    /**
+     * Finds the array at a segment path and its JSON Pointer.
+     * The array is undefined if its parent does not have it yet.
+     */
+    private locate(segmentPath: string[], keyPath: string[], operation: string): { pointer: string; array: KeyedItem[] | undefined } {
+        if (segmentPath.length !== keyPath.length) {
+            throw new Error(`Mismatched path length when ${operation} state`);
+        }
+        let array: KeyedItem[] | undefined = this.state;
+        let pointer = '';
+        for (let i = 0; i < segmentPath.length; i++) {
+            const index: number = array ? array.findIndex(item => item.key === keyPath[i]) : -1;
+            if (!array || index < 0) {
+                throw new Error(`Path references unknown item when ${operation} state`);
+            }
+            pointer = `${pointer}/${index}/value/${escapeToken(segmentPath[i])}`;
+            array = array[index].value[segmentPath[i]];
+        }
+        return { pointer, array };
+    }
+
+    private locateItem(segmentPath: string[], keyPath: string[], key: string, operation: string): { pointer: string; array: KeyedItem[]; index: number } {
+        const { pointer, array } = this.locate(segmentPath, keyPath, operation);
+        const index = array ? array.findIndex(item => item.key === key) : -1;
+        if (!array || index < 0) {
+            throw new Error(`Path references unknown item when ${operation} state`);
+        }
+        return { pointer, array, index };
+    }
+
+    /**
+     * Sets a property of an item value. JSON has no undefined, so a property
+     * that becomes undefined is removed instead.
+     */
+    private setProperty(valuePointer: string, value: ImmutableProps, name: string, newValue: any): PatchOperation[] {
+        const path = `${valuePointer}/${escapeToken(name)}`;
+        if (newValue === undefined) {
+            return name in value ? [{ op: 'remove', path }] : [];
+        }
+        if (!(name in value)) {
+            return [{ op: 'add', path, value: newValue }];
+        }
+        if (value[name] === newValue) {
+            return [];
+        }
+        return [{ op: 'replace', path, value: newValue }];
+    }
+
+    /**
+     * Moves a changed item to its new position if the array is ordered.
+     */
+    private reposition(pointer: string, array: KeyedItem[], index: number, item: KeyedItem, segmentPath: string[]): PatchOperation[] {
+        if (!this.getComparator(segmentPath)) {
+            return [];
+        }
+        const others = [...array.slice(0, index), ...array.slice(index + 1)];
+        const newIndex = this.findInsertionIndex(others, item, segmentPath);
+        if (newIndex === index) {
+            return [];
+        }
+        return [{ op: 'move', from: `${pointer}/${index}`, path: `${pointer}/${newIndex}` }];
+    }
+
+    /**
+     * Finds where a new item goes: after every item that does not sort after it, or at the end.
+     */
+    private findInsertionIndex(array: KeyedItem[], item: KeyedItem, segmentPath: string[]): number {
+        const compare = this.getComparator(segmentPath);
+        if (!compare) {
+            return array.length;
+        }
+        let low = 0;
+        let high = array.length;
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (compare(array[mid], item) <= 0) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low;
+    }
+
+    private getComparator(segmentPath: string[]): KeyedItemComparator | undefined {
+        const segmentPathHash = JSON.stringify(segmentPath);
+        if (!this.comparators.has(segmentPathHash)) {
+            this.comparators.set(segmentPathHash, getItemComparator(this.typeDescriptor, segmentPath));
+        }
+        return this.comparators.get(segmentPathHash);
+    }
+}
+
+/**
+ * Applies JSON Patch operations (RFC 6902) to a document without mutating it.
+ * Containers along each changed path are copied; everything else is shared.
+ *
+ * Applied to an empty array, the operations from a pipeline's patch sink
+ * rebuild the state that `build` would have produced.
+ */
+export function applyPatch<T>(document: T, operations: PatchOperation[]): T {
+    return operations.reduce<T>((current, operation) => applyOperation(current, operation), document);
+}
+
+function applyOperation(document: any, operation: PatchOperation): any {
+    switch (operation.op) {
+        case 'add':
+            return addValue(document, parsePointer(operation.path), operation.value);
+        case 'remove':
+            return removeValue(document, parsePointer(operation.path));
+        case 'replace':
+            return replaceValue(document, parsePointer(operation.path), operation.value);
+        case 'move': {
+            const value = getValue(document, parsePointer(operation.from));
+            return addValue(removeValue(document, parsePointer(operation.from)), parsePointer(operation.path), value);
+        }
+        case 'copy':
+            return addValue(document, parsePointer(operation.path), getValue(document, parsePointer(operation.from)));
+        case 'test':
+            if (!deepEqual(getValue(document, parsePointer(operation.path)), operation.value)) {
+                throw new Error(`applyPatch: test failed at "${operation.path}"`);
+            }
+            return document;
+    }
+}
+
+function getValue(document: any, tokens: string[]): any {
+    let current = document;
+    for (const token of tokens) {
+        if (current === null || typeof current !== 'object' || !(token in current)) {
+            throw new Error(`applyPatch: path "/${tokens.map(escapeToken).join('/')}" does not exist`);
+        }
+        current = current[Array.isArray(current) ? toArrayIndex(current, token, false) : token];
+    }
+    return current;
+}
+
+function addValue(document: any, tokens: string[], value: any): any {
+    if (tokens.length === 0) {
+        return value;
+    }
+    return updateParent(document, tokens, (parent, token) => {
+        if (Array.isArray(parent)) {
+            const index = toArrayIndex(parent, token, true);
+            return [...parent.slice(0, index), value, ...parent.slice(index)];
+        }
+        return { ...parent, [token]: value };
+    });
+}
+
+function replaceValue(document: any, tokens: string[], value: any): any {
+    if (tokens.length === 0) {
+        return value;
+    }
+    return updateParent(document, tokens, (parent, token) => {
+        if (Array.isArray(parent)) {
+            const index = toArrayIndex(parent, token, false);
+            return [...parent.slice(0, index), value, ...parent.slice(index + 1)];
+        }
+        if (!(token in parent)) {
+            throw new Error(`applyPatch: property "${token}" does not exist`);
+        }
+        // Keep the property in its position
+        return { ...parent, [token]: value };
+    });
+}
+
+function removeValue(document: any, tokens: string[]): any {
+    if (tokens.length === 0) {
+        throw new Error('applyPatch: cannot remove the whole document');
+    }
+    return updateParent(document, tokens, (parent, token) => {
+        if (Array.isArray(parent)) {
+            const index = toArrayIndex(parent, token, false);
+            return [...parent.slice(0, index), ...parent.slice(index + 1)];
+        }
+        if (!(token in parent)) {
+            throw new Error(`applyPatch: property "${token}" does not exist`);
+        }
+        const { [token]: _removed, ...rest } = parent;
+        return rest;
+    });
+}
+
+/**
+ * Copies each container on the way to the parent of the target, and replaces the parent with the result of change.
+ */
+function updateParent(document: any, tokens: string[], change: (parent: any, token: string) => any): any {
+    const [token, ...rest] = tokens;
+    if (document === null || typeof document !== 'object') {
+        throw new Error(`applyPatch: cannot index into ${JSON.stringify(document)} with "${token}"`);
+    }
+    if (rest.length === 0) {
+        return change(document, token);
+    }
+    if (Array.isArray(document)) {
+        const index = toArrayIndex(document, token, false);
+        return [...document.slice(0, index), updateParent(document[index], rest, change), ...document.slice(index + 1)];
+    }
+    if (!(token in document)) {
+        throw new Error(`applyPatch: property "${token}" does not exist`);
+    }
+    return { ...document, [token]: updateParent(document[token], rest, change) };
+}
+
+function toArrayIndex(array: any[], token: string, allowEnd: boolean): number {
+    if (allowEnd && token === '-') {
+        return array.length;
+    }
+    if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+        throw new Error(`applyPatch: invalid array index "${token}"`);
+    }
+    const index = Number(token);
+    if (index > array.length || (!allowEnd && index === array.length)) {
+        throw new Error(`applyPatch: array index ${index} is out of bounds`);
+    }
+    return index;
+}
+
+function deepEqual(value1: any, value2: any): boolean {
+    if (value1 === value2) {
+        return true;
+    }
+    if (value1 === null || value2 === null || typeof value1 !== 'object' || typeof value2 !== 'object') {
+        return false;
+    }
+    if (Array.isArray(value1) !== Array.isArray(value2)) {
+        return false;
+    }
+    const keys1 = Object.keys(value1);
+    const keys2 = Object.keys(value2);
+    return keys1.length === keys2.length && keys1.every(key => key in value2 && deepEqual(value1[key], value2[key]));
+}
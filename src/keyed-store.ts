@@ -0,0 +1,287 @@
+import type { ImmutableProps, TypeDescriptor } from './pipeline';
+import { getItemComparator, type KeyedItemComparator } from './util/ordering';
+import { isRecordingUndo, recordUndo } from './util/undo-log';
+
+type KeyedItem = { key: string, value: any };
+
+/**
+ * An item in the store: its properties, and its nested arrays by name.
+ */
+interface StoreItem {
+    key: string;
+    /** Immutable and mutable properties, in the order they were set */
+    props: ImmutableProps;
+    arrays: Map<string, StoreArray>;
+    /** The last projected item, or undefined if the item has changed since */
+    snapshot?: KeyedItem;
+}
+
+/**
+ * How an item of an array has changed since the array was last projected.
+ * - 'added': added, so it goes after the items that were already present
+ * - 'changed': its props or nested arrays changed, so it keeps its position
+ * - 'removed': removed
+ */
+type ItemChange = 'added' | 'changed' | 'removed';
+
+/**
+ * A keyed array in the store, indexed by item key.
+ */
+interface StoreArray {
+    items: Map<string, StoreItem>;
+    compare?: KeyedItemComparator;
+    /** The last projected array, or undefined if the array has never been projected */
+    snapshot?: KeyedItem[];
+    /** The items that changed since the last projection, in the order they changed */
+    changes: Map<string, ItemChange>;
+}
+
+/**
+ * A mutable state store that indexes items by key at every nesting level.
+ *
+ * Events are applied in O(depth), independent of the number of siblings.
+ * The state is read through snapshot(), which projects the same immutable
+ * `KeyedArray` shape that the array-backed state has. Only the items and
+ * arrays that changed since the last snapshot are rebuilt; everything
+ * else is shared with it. A changed array is patched from its last
+ * projection, in a single copy and without sorting it again.
+ *
+ * Changes made while an undo log is running are recorded in it. Undoing an
+ * add or a remove has the array projected again in full.
+ */
+export class KeyedStore {
+    private root: StoreArray;
+
+    constructor(
+        private typeDescriptor: TypeDescriptor
+    ) {
+        this.root = this.createArray([]);
+    }
+
+    add(segmentPath: string[], keyPath: string[], key: string, immutableProps: ImmutableProps): void {
+        const array = this.findArray(segmentPath, keyPath, 'setting');
+        const existing = array.items.get(key);
+        recordUndo(() => {
+            if (existing) {
+                array.items.set(key, existing);
+            } else {
+                array.items.delete(key);
+            }
+            array.snapshot = undefined;
+        });
+        // A key that is added again keeps its position, as it does in the map
+        this.recordChange(array, key, existing ? 'changed' : 'added');
+        array.items.set(key, { key, props: { ...immutableProps }, arrays: new Map() });
+    }
+
+    remove(segmentPath: string[], keyPath: string[], key: string): void {
+        const array = this.findArray(segmentPath, keyPath, 'removing from');
+        const item = array.items.get(key);
+        if (item && isRecordingUndo()) {
+            // Put the item back in its position, which decides the order of an unordered array
+            const index = array.compare ? array.items.size : Array.from(array.items.keys()).indexOf(key);
+            recordUndo(() => {
+                const entries = Array.from(array.items);
+                entries.splice(index, 0, [key, item]);
+                array.items = new Map(entries);
+                array.snapshot = undefined;
+            });
+        }
+        this.recordChange(array, key, 'removed');
+        array.items.delete(key);
+    }
+
+    update(segmentPath: string[], keyPath: string[], key: string, oldImmutableProps: ImmutableProps, newImmutableProps: ImmutableProps): void {
+        const item = this.findItem(segmentPath, keyPath, key, 'updating');
+        this.recordPropsUndo(item);
+        // Replace the immutable props, keeping aggregate properties
+        for (const name of Object.keys(oldImmutableProps)) {
+            if (!(name in newImmutableProps)) {
+                delete item.props[name];
+            }
+        }
+        Object.assign(item.props, newImmutableProps);
+    }
+
+    modify(segmentPath: string[], keyPath: string[], key: string, name: string, value: any): void {
+        const item = this.findItem(segmentPath, keyPath, key, 'modifying');
+        this.recordPropsUndo(item);
+        item.props[name] = value;
+    }
+
+    /**
+     * Projects the state as an immutable keyed array, sharing unchanged items with the previous snapshot.
+     */
+    snapshot(): KeyedItem[] {
+        return this.projectArray(this.root);
+    }
+
+    /**
+     * Replaces the state with a keyed array in the shape that snapshot returns.
+     */
+    restore(state: KeyedItem[]): void {
+        this.root = this.restoreArray(state, [], this.typeDescriptor);
+    }
+
+    /**
+     * Finds the array at a segment path, creating it if it does not exist yet,
+     * and marks its ancestors as changed.
+     */
+    private findArray(segmentPath: string[], keyPath: string[], operation: string): StoreArray {
+        if (segmentPath.length !== keyPath.length) {
+            throw new Error(`Mismatched path length when ${operation} state`);
+        }
+        let array = this.root;
+        for (let i = 0; i < segmentPath.length; i++) {
+            const parent = array.items.get(keyPath[i]);
+            if (!parent) {
+                throw new Error(`Path references unknown item when ${operation} state`);
+            }
+            this.recordChange(array, parent.key, 'changed');
+            parent.snapshot = undefined;
+            let child = parent.arrays.get(segmentPath[i]);
+            if (!child) {
+                child = this.createArray(segmentPath.slice(0, i + 1));
+                parent.arrays.set(segmentPath[i], child);
+                recordUndo(() => {
+                    parent.arrays.delete(segmentPath[i]);
+                    parent.snapshot = undefined;
+                });
+            }
+            array = child;
+        }
+        return array;
+    }
+
+    /**
+     * Finds an item, and marks it and its ancestors as changed.
+     */
+    private findItem(segmentPath: string[], keyPath: string[], key: string, operation: string): StoreItem {
+        const array = this.findArray(segmentPath, keyPath, operation);
+        const item = array.items.get(key);
+        if (!item) {
+            throw new Error(`Path references unknown item when ${operation} state`);
+        }
+        this.recordChange(array, key, 'changed');
+        item.snapshot = undefined;
+        return item;
+    }
+
+    /**
+     * Records how to put back the props of an item, if an undo log is running.
+     */
+    private recordPropsUndo(item: StoreItem): void {
+        if (!isRecordingUndo()) {
+            return;
+        }
+        const props = { ...item.props };
+        recordUndo(() => {
+            item.props = props;
+            item.snapshot = undefined;
+        });
+    }
+
+    /**
+     * Records a change to an item of an array since its last projection.
+     * An item added since then stays added when it changes, and moves to
+     * the end of the changes when it is added again after a removal.
+     */
+    private recordChange(array: StoreArray, key: string, change: ItemChange): void {
+        const previous = array.changes.get(key);
+        if (change === 'changed' && previous !== undefined) {
+            return;
+        }
+        array.changes.delete(key);
+        array.changes.set(key, change);
+    }
+
+    private createArray(segmentPath: string[]): StoreArray {
+        return { items: new Map(), compare: getItemComparator(this.typeDescriptor, segmentPath), changes: new Map() };
+    }
+
+    private restoreArray(items: KeyedItem[], segmentPath: string[], descriptor: TypeDescriptor): StoreArray {
+        const restored = this.createArray(segmentPath);
+        for (const { key, value } of items) {
+            const item: StoreItem = { key, props: {}, arrays: new Map() };
+            for (const [name, propValue] of Object.entries(value as Record<string, any>)) {
+                const arrayDescriptor = descriptor.arrays.find(array => array.name === name);
+                if (arrayDescriptor) {
+                    item.arrays.set(name, this.restoreArray(propValue, [...segmentPath, name], arrayDescriptor.type));
+                } else {
+                    item.props[name] = propValue;
+                }
+            }
+            restored.items.set(key, item);
+        }
+        return restored;
+    }
+
+    private projectArray(array: StoreArray): KeyedItem[] {
+        if (!array.snapshot) {
+            const items = Array.from(array.items.values(), item => this.projectItem(item));
+            array.snapshot = array.compare ? items.sort(array.compare) : items;
+        } else if (array.changes.size > 0) {
+            array.snapshot = this.patchArray(array, array.snapshot);
+        }
+        array.changes.clear();
+        return array.snapshot;
+    }
+
+    /**
+     * Projects an array from its last projection, replacing only the items
+     * that changed. Changed items of an ordered array are placed by binary
+     * search; those of an unordered array keep their position, and added
+     * items go at the end.
+     */
+    private patchArray(array: StoreArray, previous: KeyedItem[]): KeyedItem[] {
+        const patched: KeyedItem[] = [];
+        for (const previousItem of previous) {
+            const change = array.changes.get(previousItem.key);
+            if (change === undefined) {
+                patched.push(previousItem);
+            } else if (change === 'changed' && !array.compare) {
+                patched.push(this.projectItem(array.items.get(previousItem.key)!));
+            }
+        }
+        for (const [key, change] of array.changes) {
+            if (change === 'removed' || (change === 'changed' && !array.compare)) {
+                continue;
+            }
+            const item = this.projectItem(array.items.get(key)!);
+            if (array.compare) {
+                patched.splice(findInsertionIndex(patched, item, array.compare), 0, item);
+            } else {
+                patched.push(item);
+            }
+        }
+        return patched;
+    }
+
+    private projectItem(item: StoreItem): KeyedItem {
+        if (!item.snapshot) {
+            const value: Record<string, any> = { ...item.props };
+            for (const [name, array] of item.arrays) {
+                value[name] = this.projectArray(array);
+            }
+            item.snapshot = { key: item.key, value };
+        }
+        return item.snapshot;
+    }
+}
+
+/**
+ * Finds the index after every item that does not sort after the given one.
+ */
+function findInsertionIndex(items: KeyedItem[], item: KeyedItem, compare: KeyedItemComparator): number {
+    let low = 0;
+    let high = items.length;
+    while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (compare(items[mid], item) <= 0) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+}
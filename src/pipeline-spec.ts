@@ -0,0 +1,222 @@
+import type { PipelineBuilder } from './builder';
+import { createPipeline } from './factory';
+import type { SortDirection, TypeDescriptor } from './pipeline';
+import { compileExpression } from './util/expression';
+
+/**
+ * A step of a declarative pipeline. Every step may name an `in` scope,
+ * the path of arrays from the top level that it applies within, as with
+ * `PipelineBuilder.in`. As in the builder, a filter or orderBy keeps its scope,
+ * so the step after a scoped filter or orderBy must apply within that scope.
+ */
+export type StepSpec = { in?: string[] } & (
+    | { step: 'groupBy', by: string[], as: string }
+    | { step: 'sum' | 'average' | 'min' | 'max', array: string, property: string, as: string }
+    | { step: 'count', array: string, as: string }
+    | { step: 'pickByMin' | 'pickByMax', array: string, property: string, as: string }
+    | { step: 'filter', where: string }
+    | { step: 'defineProperty', name: string, expression: string }
+    | { step: 'dropProperty', name: string }
+    | { step: 'orderBy', by: string, direction?: SortDirection }
+);
+
+/**
+ * A pipeline described as data, so that it can be loaded at runtime.
+ *
+ * @example
+ * {
+ *   "steps": [
+ *     { "step": "groupBy", "by": ["category"], "as": "items" },
+ *     { "step": "sum", "array": "items", "property": "value", "as": "totalValue" },
+ *     { "step": "filter", "in": ["items"], "where": "value > 100" }
+ *   ]
+ * }
+ */
+export interface PipelineSpec {
+    steps: StepSpec[];
+}
+
+/** The fields each step accepts, besides `step` and `in` */
+const stepFields: Record<StepSpec['step'], { required: string[], optional?: string[] }> = {
+    groupBy: { required: ['by', 'as'] },
+    sum: { required: ['array', 'property', 'as'] },
+    average: { required: ['array', 'property', 'as'] },
+    min: { required: ['array', 'property', 'as'] },
+    max: { required: ['array', 'property', 'as'] },
+    count: { required: ['array', 'as'] },
+    pickByMin: { required: ['array', 'property', 'as'] },
+    pickByMax: { required: ['array', 'property', 'as'] },
+    filter: { required: ['where'] },
+    defineProperty: { required: ['name', 'expression'] },
+    dropProperty: { required: ['name'] },
+    orderBy: { required: ['by'], optional: ['direction'] }
+};
+
+/**
+ * Validates a pipeline spec and compiles it into a builder chain.
+ *
+ * Each step is checked against the type descriptor produced by the steps
+ * before it, so that scopes and arrays must exist where they are used.
+ * Expressions are parsed up front. Throws on the first problem found.
+ * The chain continues from `start`, a new pipeline unless given, for example a traced one.
+ */
+export function compilePipelineSpec<TStart extends {} = any>(spec: unknown, start: PipelineBuilder<any, TStart, any> = createPipeline<TStart>()): PipelineBuilder<any, TStart, any> {
+    if (!isObject(spec) || !Array.isArray(spec.steps)) {
+        throw new Error('Pipeline spec must be an object with a steps array');
+    }
+    let builder = start;
+    /** The scope the builder has kept from the last step, and that step */
+    let builderScope: string[] = [];
+    let builderScopeStep = '';
+    spec.steps.forEach((stepSpec: unknown, index: number) => {
+        const fail = (message: string): never => {
+            const name = isObject(stepSpec) && typeof stepSpec.step === 'string' ? ` (${stepSpec.step})` : '';
+            throw new Error(`Pipeline spec step ${index + 1}${name}: ${message}`);
+        };
+        validateStepShape(stepSpec, fail);
+        const scope = stepSpec.in ?? [];
+        if (!builderScope.every((segment, i) => scope[i] === segment)) {
+            fail(`must apply within [${builderScope.join(', ')}], the scope of the ${builderScopeStep} before it`);
+        }
+        builder = applyStep(builder.in(...scope.slice(builderScope.length)), scope, stepSpec, fail);
+        builderScope = stepSpec.step === 'filter' || stepSpec.step === 'orderBy' ? scope : [];
+        builderScopeStep = stepSpec.step;
+    });
+    return builder;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(segment => typeof segment === 'string' && segment !== '');
+}
+
+function validateStepShape(stepSpec: unknown, fail: (message: string) => never): asserts stepSpec is StepSpec {
+    if (!isObject(stepSpec)) {
+        return fail('must be an object');
+    }
+    if (typeof stepSpec.step !== 'string' || !Object.prototype.hasOwnProperty.call(stepFields, stepSpec.step)) {
+        return fail(`unknown step ${JSON.stringify(stepSpec.step)}, expected one of ${Object.keys(stepFields).join(', ')}`);
+    }
+    const fields = stepFields[stepSpec.step as StepSpec['step']];
+    const allowed = ['step', 'in', ...fields.required, ...(fields.optional ?? [])];
+    for (const name of Object.keys(stepSpec)) {
+        if (!allowed.includes(name)) {
+            fail(`unknown field "${name}"`);
+        }
+    }
+    for (const name of fields.required) {
+        if (!(name in stepSpec)) {
+            fail(`missing field "${name}"`);
+        }
+    }
+    if ('in' in stepSpec && !isStringArray(stepSpec.in)) {
+        fail('"in" must be an array of array names');
+    }
+    for (const name of [...fields.required, ...(fields.optional ?? [])]) {
+        if (!(name in stepSpec)) {
+            continue;
+        }
+        const value = stepSpec[name];
+        if (stepSpec.step === 'groupBy' && name === 'by') {
+            if (!isStringArray(value) || value.length === 0) {
+                fail('"by" must be a non-empty array of property names');
+            }
+        } else if (name === 'direction') {
+            if (value !== 'asc' && value !== 'desc') {
+                fail('"direction" must be "asc" or "desc"');
+            }
+        } else if (typeof value !== 'string' || value === '') {
+            fail(`"${name}" must be a non-empty string`);
+        }
+    }
+}
+
+/**
+ * Finds the descriptor of the items at a scope, or undefined if the scope does not exist.
+ */
+function navigateDescriptor(descriptor: TypeDescriptor, scope: string[]): TypeDescriptor | undefined {
+    let current: TypeDescriptor | undefined = descriptor;
+    for (const segment of scope) {
+        current = current?.arrays.find(array => array.name === segment)?.type;
+    }
+    return current;
+}
+
+/**
+ * Applies a step to a builder that is already in the step's scope.
+ */
+function applyStep(scoped: PipelineBuilder<any, any, any>, scope: string[], stepSpec: StepSpec, fail: (message: string) => never): PipelineBuilder<any, any, any> {
+    const scopeDescriptor = navigateDescriptor(scoped.getTypeDescriptor(), scope);
+    if (!scopeDescriptor) {
+        return fail(`scope [${scope.join(', ')}] does not exist`);
+    }
+    const hasArray = (name: string) => scopeDescriptor.arrays.some(array => array.name === name);
+    const requireArray = (name: string) => {
+        if (!hasArray(name)) {
+            fail(`array "${name}" does not exist in scope [${scope.join(', ')}]`);
+        }
+    };
+    const requireProperty = (name: string) => {
+        if (hasArray(name)) {
+            fail(`"${name}" is an array, not a property`);
+        }
+    };
+    const compile = (source: string) => {
+        try {
+            return compileExpression(source);
+        } catch (error) {
+            return fail(error instanceof Error ? error.message : String(error));
+        }
+    };
+
+    switch (stepSpec.step) {
+        case 'groupBy':
+            stepSpec.by.forEach(requireProperty);
+            if (hasArray(stepSpec.as)) {
+                fail(`array "${stepSpec.as}" already exists in scope [${scope.join(', ')}]`);
+            }
+            return scoped.groupBy(stepSpec.by, stepSpec.as);
+        case 'sum':
+        case 'average':
+        case 'min':
+        case 'max':
+        case 'pickByMin':
+        case 'pickByMax': {
+            requireArray(stepSpec.array);
+            requireProperty(stepSpec.as);
+            const { array, as } = stepSpec;
+            // Property names are only known at runtime, so they cannot satisfy the builder's types
+            const property = stepSpec.property as never;
+            switch (stepSpec.step) {
+                case 'sum': return scoped.sum(array, property, as);
+                case 'average': return scoped.average(array, property, as);
+                case 'min': return scoped.min(array, property, as);
+                case 'max': return scoped.max(array, property, as);
+                case 'pickByMin': return scoped.pickByMin(array, property, as);
+                case 'pickByMax': return scoped.pickByMax(array, property, as);
+            }
+        }
+        case 'count':
+            requireArray(stepSpec.array);
+            requireProperty(stepSpec.as);
+            return scoped.count(stepSpec.array, stepSpec.as);
+        case 'filter': {
+            const predicate = compile(stepSpec.where);
+            return scoped.filter(item => Boolean(predicate.evaluate(item)));
+        }
+        case 'defineProperty': {
+            requireProperty(stepSpec.name);
+            const expression = compile(stepSpec.expression);
+            return scoped.defineProperty(stepSpec.name, item => expression.evaluate(item));
+        }
+        case 'dropProperty':
+            requireProperty(stepSpec.name);
+            return scoped.dropProperty(stepSpec.name as never);
+        case 'orderBy':
+            requireProperty(stepSpec.by);
+            return scoped.orderBy(stepSpec.by, stepSpec.direction);
+    }
+}
@@ -1,10 +1,111 @@
+import type { DeadLetter } from './dead-letter';
+import type { PipelineSnapshot } from './snapshot';
+
 export interface Pipeline<T> {
     add(key: string, immutableProps: T): void;
     remove(key: string, immutableProps: T): void;
+    update(key: string, oldImmutableProps: T, newImmutableProps: T): void;
+}
+
+/**
+ * A pipeline returned by `PipelineBuilder.build`.
+ * Adds transactional batches on top of the input operations.
+ */
+export interface BuiltPipeline<T> extends Pipeline<T> {
+    /**
+     * Runs the action and hands all of the state transforms it produces
+     * to setState as a single composed transform when it completes.
+     * Batches may be nested; only the outermost batch commits.
+     */
+    batch(action: () => void): void;
+}
+
+/**
+ * A built pipeline whose state can be saved and restored, so that a restart
+ * does not need to replay the history of its input.
+ */
+export interface RestorablePipeline<T> extends BuiltPipeline<T> {
+    /**
+     * Returns the state of every step and the output state as versioned, JSON-compatible data.
+     */
+    snapshot(): PipelineSnapshot;
+    /**
+     * Replaces the state of every step and the output state with a snapshot.
+     * Throws if the snapshot was taken of a pipeline with a different type
+     * descriptor or chain of steps.
+     */
+    restore(snapshot: PipelineSnapshot): void;
+    /**
+     * Returns the input operations that failed under the 'deadLetter' error
+     * policy and have not been retried successfully, oldest first.
+     */
+    deadLetters(): DeadLetter<T>[];
+    /**
+     * Runs the dead-lettered operations again, for example after fixing the
+     * data or the code they failed on. Those that fail again stay on the list.
+     */
+    retryDeadLetters(): void;
+    /**
+     * Wraps the input of a pipeline that has been joined into this one, given
+     * by its builder's getInput(). Operations on the wrapper share the batches
+     * of this pipeline and run under its error policy.
+     */
+    joinedInput<U>(input: Pipeline<U>): JoinedInput<U>;
+}
+
+/**
+ * The input of a pipeline joined into a built pipeline, fed through it.
+ */
+export interface JoinedInput<T> extends Pipeline<T> {
+    /**
+     * Returns the operations on this input that failed under the 'deadLetter'
+     * error policy and have not been retried successfully, oldest first.
+     */
+    deadLetters(): DeadLetter<T>[];
+    retryDeadLetters(): void;
 }
 
 export interface TypeDescriptor {
     arrays: ArrayDescriptor[];
+    /**
+     * The scalar properties of the items at this level that the pipeline knows
+     * of. Input properties are only known if declared when creating the pipeline.
+     */
+    properties: ScalarPropertyDescriptor[];
+    /** The order in which items at this level are kept; arrival order if absent */
+    ordering?: OrderingDescriptor;
+}
+
+/**
+ * How a scalar property gets its value.
+ * - 'immutable': a property of the input, delivered with the item's props
+ * - 'computed': computed from the item's props by defineProperty, delivered with them
+ * - 'aggregate': kept up to date by the pipeline and delivered through
+ *   modifications, such as a sum over a nested array or a reactive property
+ */
+export type PropertyKind = 'immutable' | 'computed' | 'aggregate';
+
+export type ScalarType = 'string' | 'number' | 'boolean';
+
+export interface ScalarPropertyDescriptor {
+    name: string;
+    kind: PropertyKind;
+    /** The primitive type of the values, if known */
+    type?: ScalarType;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Compares two item values (including aggregate properties) for sorting.
+ * Returns a negative number if value1 sorts first, positive if value2 does, zero for ties.
+ */
+export type ItemComparator = (value1: ImmutableProps, value2: ImmutableProps) => number;
+
+export interface OrderingDescriptor {
+    /** A property name to sort by, or a comparator of item values */
+    by: string | ItemComparator;
+    direction: SortDirection;
 }
 
 export interface ArrayDescriptor {
@@ -20,8 +121,21 @@ export type AddedHandler = (keyPath: string[], key: string, immutableProps: Immu
 
 export type RemovedHandler = (keyPath: string[], key: string, immutableProps: ImmutableProps) => void;
 
+export type UpdatedHandler = (keyPath: string[], key: string, oldImmutableProps: ImmutableProps, newImmutableProps: ImmutableProps) => void;
+
 export type ModifiedHandler = (keyPath: string[], key: string, name: string, value: any) => void;
 
+/**
+ * Receives the output events of a pipeline at every level,
+ * each with the path of array names to the level it applies to.
+ */
+export interface PipelineObserver {
+    add(segmentPath: string[], keyPath: string[], key: string, immutableProps: ImmutableProps): void;
+    remove(segmentPath: string[], keyPath: string[], key: string, immutableProps: ImmutableProps): void;
+    update(segmentPath: string[], keyPath: string[], key: string, oldImmutableProps: ImmutableProps, newImmutableProps: ImmutableProps): void;
+    modify(segmentPath: string[], keyPath: string[], key: string, name: string, value: any): void;
+}
+
 export function getPathSegmentsFromDescriptor(descriptor: TypeDescriptor): string[][] {
     // Include the path to the root of the descriptor
     const paths: string[][] = [[]];
@@ -35,10 +149,57 @@ export function getPathSegmentsFromDescriptor(descriptor: TypeDescriptor): strin
     return paths;
 }
 
+/**
+ * What a step does, for explaining a pipeline.
+ */
+export interface StepDescription {
+    /** The kind of step, usually the builder method that creates it */
+    kind: string;
+    /** The path of array names to the level the step applies at */
+    scope: string[];
+    /** The arguments the step was created with, by name */
+    parameters: Record<string, unknown>;
+}
+
 export interface Step {
     getTypeDescriptor(): TypeDescriptor;
+    /** The steps this step receives events from */
+    getInputs(): Step[];
+    describe(): StepDescription;
     onAdded(pathSegments: string[], handler: AddedHandler): void;
     onRemoved(pathSegments: string[], handler: RemovedHandler): void;
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void;
     onModified(pathSegments: string[], handler: ModifiedHandler): void;
+    /**
+     * Returns the state the step keeps between events, as JSON-compatible data.
+     * Steps that keep no state do not implement it.
+     *
+     * The state is kept in structures that record their changes in the
+     * running undo log (see util/undo-log), so that the changes of a failed
+     * input operation can be undone.
+     */
+    saveState?(): unknown;
+    /**
+     * Replaces the state the step keeps between events with one returned by saveState.
+     */
+    restoreState?(state: unknown): void;
 }
 
+/**
+ * Lists the steps that lead to the last step, inputs before the steps that
+ * consume them. A step reachable along more than one path is listed once.
+ */
+export function collectSteps(lastStep: Step): Step[] {
+    const steps: Step[] = [];
+    const visited = new Set<Step>();
+    const visit = (step: Step) => {
+        if (visited.has(step)) {
+            return;
+        }
+        visited.add(step);
+        step.getInputs().forEach(visit);
+        steps.push(step);
+    };
+    visit(lastStep);
+    return steps;
+}
@@ -1,14 +1,33 @@
 import * as fs from 'fs';
-import * as path from 'path';
+import type { PipelineBuilder } from './builder';
+import { createPipeline } from './factory';
+import { compilePipelineSpec } from './pipeline-spec';
+import { PipelineTrace } from './trace';
+import { applyAppendedRecords } from './util/appended-records';
+import { ChangeFeed, toChangeEvent } from './util/change-feed';
+import { ChangeReporter } from './util/change-reporter';
+import { FileTail } from './util/file-tail';
 import { computeGroupKey } from './util/hash';
+import { inferInputFormat, parseNdjsonLine, readRecords, type ColumnType, type InputFormat } from './util/record-readers';
 
 /**
- * Pipeline runner script that processes JSON input through a pipeline
+ * Pipeline runner script that processes records through a pipeline
  *
- * Usage: ts-node src/run-pipeline.ts <input.json> <output.json>
+ * Usage: ts-node src/run-pipeline.ts [options] <input> <output.json>
  *
- * The input JSON should be an array of objects. Each object will be automatically
- * assigned a unique ID based on a hash of all its properties.
+ * Options:
+ *   --format json|ndjson|csv   Input format (default: inferred from the extension, ndjson for stdin)
+ *   --column <name>:<type>     CSV column type: auto, string, number, or boolean (repeatable)
+ *   --changes                  Read the input as a change feed instead of items to add
+ *   --pipeline <spec.json>     Run a declarative pipeline spec instead of src/example-pipeline.ts
+ *   --watch                    Keep following an NDJSON input file, printing what each append changes
+ *   --trace <trace.ndjson>     Record every event each step emits, one JSON object per line
+ *
+ * Use - as the input to read from stdin. NDJSON and CSV inputs are streamed
+ * record by record, so memory is bounded by the pipeline state rather than
+ * the input size. A JSON input must be an array of objects, and is read whole.
+ * Each record will be automatically assigned a unique ID based on a hash of
+ * all its properties.
  *
  * Example input:
  * [
@@ -16,66 +35,273 @@ import { computeGroupKey } from './util/hash';
  *   { "category": "B", "value": 200, "name": "Item 2" },
  *   ...
  * ]
+ *
+ * With --changes, each record is an operation on an item with an explicit key.
+ * The item is either the `value` object or, in CSV, the remaining columns.
+ * Remove does not need a value; the runner remembers the current one.
+ *
+ * Example change feed (NDJSON):
+ *   { "op": "add", "key": "item-1", "value": { "category": "A", "value": 100, "name": "Item 1" } }
+ *   { "op": "update", "key": "item-1", "value": { "category": "B", "value": 100, "name": "Item 1" } }
+ *   { "op": "remove", "key": "item-1" }
+ *
+ * With --watch, the output file is written once the records already in the
+ * input have been processed, and again on Ctrl+C. In between, records appended
+ * to the input are fed into the same pipeline, and the groups and aggregate
+ * values they change are printed. An appended record that fails is reported
+ * and skipped, leaving the output as it was.
+ *
+ * With --trace, the events are appended to the trace file after each batch.
+ * Each names the step that emitted it by id and kind, along with its path,
+ * key, and properties or modified value. Steps are numbered from 1, the input.
  */
 
+/** Number of records applied in each batch */
+const BATCH_SIZE = 1000;
+
+/** How often a watched input is checked for appended records */
+const WATCH_INTERVAL_MS = 500;
+
+const usage = [
+    'Usage: ts-node src/run-pipeline.ts [--format json|ndjson|csv] [--column <name>:<type>]... [--changes] [--pipeline <spec.json>] [--watch] [--trace <trace.ndjson>] <input> <output.json>',
+    '',
+    'Examples:',
+    '  ts-node src/run-pipeline.ts sample-input.json output.json',
+    '  ts-node src/run-pipeline.ts --column value:number items.csv output.json',
+    '  cat items.ndjson | ts-node src/run-pipeline.ts - output.json',
+    '  ts-node src/run-pipeline.ts --changes changes.ndjson output.json',
+    '  ts-node src/run-pipeline.ts --pipeline sample-pipeline.json sample-input.json output.json',
+    '  ts-node src/run-pipeline.ts --watch --changes changes.ndjson output.json',
+    '  ts-node src/run-pipeline.ts --trace trace.ndjson sample-input.json output.json'
+];
+
+interface RunnerArguments {
+    inputPath: string;
+    outputPath: string;
+    format: InputFormat;
+    columnTypes: Record<string, ColumnType>;
+    changes: boolean;
+    pipelinePath: string | undefined;
+    watch: boolean;
+    tracePath: string | undefined;
+}
+
+function parseArguments(args: string[]): RunnerArguments {
+    const positional: string[] = [];
+    const columnTypes: Record<string, ColumnType> = {};
+    let format: InputFormat | undefined;
+    let changes = false;
+    let pipelinePath: string | undefined;
+    let watch = false;
+    let tracePath: string | undefined;
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--format') {
+            const value = args[++i];
+            if (value !== 'json' && value !== 'ndjson' && value !== 'csv') {
+                throw new Error(`Unknown input format '${value}'`);
+            }
+            format = value;
+        } else if (arg === '--column') {
+            const [name, type] = (args[++i] ?? '').split(':');
+            if (!name || (type !== 'auto' && type !== 'string' && type !== 'number' && type !== 'boolean')) {
+                throw new Error(`Invalid column type '${args[i]}', expected <name>:auto|string|number|boolean`);
+            }
+            columnTypes[name] = type;
+        } else if (arg === '--changes') {
+            changes = true;
+        } else if (arg === '--pipeline') {
+            pipelinePath = args[++i];
+            if (!pipelinePath) {
+                throw new Error('Expected a pipeline spec path after --pipeline');
+            }
+        } else if (arg === '--watch') {
+            watch = true;
+        } else if (arg === '--trace') {
+            tracePath = args[++i];
+            if (!tracePath) {
+                throw new Error('Expected a trace output path after --trace');
+            }
+        } else {
+            positional.push(arg);
+        }
+    }
+    if (positional.length !== 2) {
+        throw new Error('Expected an input and an output path');
+    }
+    const [inputPath, outputPath] = positional;
+    format = format ?? (inputPath === '-' ? 'ndjson' : inferInputFormat(inputPath));
+    if (!format) {
+        throw new Error(`Cannot infer the format of '${inputPath}', use --format`);
+    }
+    if (watch && (inputPath === '-' || format !== 'ndjson')) {
+        throw new Error('--watch requires an NDJSON input file');
+    }
+    return { inputPath, outputPath, format, columnTypes, changes, pipelinePath, watch, tracePath };
+}
+
 async function main() {
     // Parse command-line arguments
-    const args = process.argv.slice(2);
-    
-    if (args.length !== 2) {
-        console.error('Usage: ts-node src/run-pipeline.ts <input.json> <output.json>');
+    let runnerArguments: RunnerArguments;
+    try {
+        runnerArguments = parseArguments(process.argv.slice(2));
+    } catch (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
         console.error('');
-        console.error('Example:');
-        console.error('  ts-node src/run-pipeline.ts sample-input.json output.json');
+        usage.forEach(line => console.error(line));
         process.exit(1);
     }
     
-    const [inputPath, outputPath] = args;
+    const { inputPath, outputPath, format, columnTypes, changes, pipelinePath, watch, tracePath } = runnerArguments;
     
     // Validate input file exists
-    if (!fs.existsSync(inputPath)) {
+    if (inputPath !== '-' && !fs.existsSync(inputPath)) {
         console.error(`Error: Input file '${inputPath}' not found`);
         process.exit(1);
     }
+    if (pipelinePath && !fs.existsSync(pipelinePath)) {
+        console.error(`Error: Pipeline spec '${pipelinePath}' not found`);
+        process.exit(1);
+    }
     
     try {
-        // Read and parse input JSON
-        console.log(`Reading input from: ${inputPath}`);
-        const inputData = JSON.parse(fs.readFileSync(inputPath, 'utf-8'));
+        // Create the pipeline with a state setter
+        let currentState: any[] = [];
+        const setState = (transform: (state: any[]) => any[]) => {
+            currentState = transform(currentState);
+        };
         
-        if (!Array.isArray(inputData)) {
-            throw new Error('Input JSON must be an array of objects');
+        // Start the chain traced with --trace, so that every step is recorded
+        const trace = tracePath ? new PipelineTrace() : undefined;
+        const start = trace ? createPipeline<any>().trace(trace) : createPipeline<any>();
+        
+        let builder: PipelineBuilder<any, any, any>;
+        if (pipelinePath) {
+            // Compile the declarative pipeline spec
+            console.log(`Loading pipeline spec from: ${pipelinePath}`);
+            builder = compilePipelineSpec(JSON.parse(fs.readFileSync(pipelinePath, 'utf-8')), start);
+        } else {
+            // Import the pipeline builder
+            const { defineExamplePipeline } = await import('./example-pipeline');
+            builder = defineExamplePipeline(start);
         }
+        const typeDescriptor = builder.getTypeDescriptor();
+        // In watch mode, a record that fails leaves the pipeline as it was, so that it can be skipped
+        const pipeline = builder.build(setState, typeDescriptor, watch ? { onError: 'rollback' } : {});
+        const feed = new ChangeFeed(pipeline);
         
-        console.log(`Processing ${inputData.length} items...`);
+        // In watch mode, describe the changes that each append makes to the output
+        const reporter = watch ? new ChangeReporter() : undefined;
+        if (reporter) {
+            builder.observe(reporter, typeDescriptor);
+        }
         
-        // Import the pipeline builder
-        const { createPipeline } = await import('./example-pipeline');
+        const traceFile = tracePath ? fs.openSync(tracePath, 'w') : undefined;
         
-        // Create the pipeline with a state setter
-        let currentState: any[] = [];
-        const setState = (transform: (state: any[]) => any[]) => {
-            currentState = transform(currentState);
+        // Process records in batches, so pending transforms do not grow with the input
+        let chunk: any[] = [];
+        /** Number of records applied; a batch that fails counts none */
+        let recordCount = 0;
+        const flush = () => {
+            pipeline.batch(() => {
+                chunk.forEach((record: any, index: number) => {
+                    if (changes) {
+                        feed.apply(toChangeEvent(record, recordCount + index + 1));
+                    } else {
+                        // Generate a unique ID based on all properties of the item
+                        const itemId = computeGroupKey(record, Object.keys(record));
+                        
+                        pipeline.add(itemId, record);
+                    }
+                });
+            });
+            recordCount += chunk.length;
+            chunk = [];
+            if (trace && traceFile !== undefined) {
+                fs.writeSync(traceFile, trace.toNdjson());
+                trace.clear();
+            }
+        };
+        const push = (record: any) => {
+            chunk.push(record);
+            if (chunk.length >= BATCH_SIZE) {
+                flush();
+                reporter?.clear();
+            }
         };
         
-        const pipeline = createPipeline(setState);
+        // Read the records, following the file from the start in watch mode
+        console.log(`Reading ${format} input from: ${inputPath === '-' ? 'stdin' : inputPath}`);
+        const tail = watch ? new FileTail(inputPath) : undefined;
+        if (tail) {
+            for (const { line, lineNumber } of tail.readLines()) {
+                const record = parseNdjsonLine(line, lineNumber);
+                if (record) {
+                    push(record);
+                }
+            }
+        } else {
+            const input = inputPath === '-' ? process.stdin : fs.createReadStream(inputPath);
+            for await (const record of readRecords(input, format, { columnTypes })) {
+                push(record);
+            }
+        }
+        flush();
+        reporter?.clear();
         
-        // Process each item through the pipeline
-        inputData.forEach((item: any) => {
-            // Generate a unique ID based on all properties of the item
-            const itemId = computeGroupKey(item, Object.keys(item));
-            
-            pipeline.add(itemId, item);
-        });
+        console.log(changes
+            ? `Processed ${recordCount} changes, ${feed.size} items remain`
+            : `Processed ${recordCount} items`);
         
         // Write results to output file
-        console.log(`Writing results to: ${outputPath}`);
-        fs.writeFileSync(outputPath, JSON.stringify(currentState, null, 2), 'utf-8');
+        const writeOutput = () => {
+            console.log(`Writing results to: ${outputPath}`);
+            fs.writeFileSync(outputPath, JSON.stringify(currentState, null, 2), 'utf-8');
+        };
+        writeOutput();
         
+        if (tracePath) {
+            console.log(`✓ Trace written to: ${tracePath}`);
+        }
         console.log('✓ Pipeline execution completed successfully');
         console.log(`✓ Output written to: ${outputPath}`);
         console.log(`✓ Generated ${currentState.length} result items`);
         
+        if (tail && reporter) {
+            console.log(`Watching ${inputPath} for appended records (Ctrl+C to stop)`);
+            fs.watchFile(inputPath, { interval: WATCH_INTERVAL_MS }, () => {
+                // Apply each record on its own, so that a bad record is reported and skipped
+                let result;
+                try {
+                    result = applyAppendedRecords(tail, reporter, record => {
+                        chunk = [record];
+                        try {
+                            flush();
+                        } catch (error) {
+                            // The events of the failed record are not written to the trace
+                            chunk = [];
+                            trace?.clear();
+                            throw error;
+                        }
+                    });
+                } catch (error) {
+                    console.error(`Stopped watching: ${error instanceof Error ? error.message : error}`);
+                    fs.unwatchFile(inputPath);
+                    return;
+                }
+                result.skipped.forEach(({ lineNumber, message }) => console.error(`Skipped line ${lineNumber}: ${message}`));
+                if (result.applied > 0) {
+                    console.log(`[${new Date().toLocaleTimeString()}] ${result.applied} records, ${result.changes.length === 0 ? 'no changes' : 'changes:'}`);
+                    result.changes.forEach(line => console.log(line));
+                }
+            });
+            process.on('SIGINT', () => {
+                fs.unwatchFile(inputPath);
+                writeOutput();
+                process.exit(0);
+            });
+        }
+        
     } catch (error) {
         console.error('Error processing pipeline:');
         if (error instanceof Error) {
@@ -0,0 +1,114 @@
+import { collectSteps, type Step, type StepDescription, type TypeDescriptor } from './pipeline';
+
+/** The version of the snapshot format; restore rejects any other */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * The state of a built pipeline, as JSON-compatible data.
+ *
+ * Holds the internal state of every step, along with a description of the
+ * pipeline that produced it, so that it is only restored into the same one.
+ */
+export interface PipelineSnapshot {
+    version: number;
+    /** The type descriptor of the output, with comparator functions as their source text */
+    typeDescriptor: unknown;
+    /** The descriptions of the steps, inputs before the steps that consume them */
+    steps: StepDescription[];
+    /** The state of each step, in the order of steps; null for steps that keep none */
+    stepStates: unknown[];
+    /** The output state */
+    output: unknown;
+}
+
+/**
+ * Describes a type descriptor as JSON-compatible data, for comparing pipelines.
+ */
+function canonicalizeDescriptor(descriptor: TypeDescriptor): unknown {
+    return {
+        properties: descriptor.properties.map(property => ({
+            name: property.name,
+            kind: property.kind,
+            ...(property.type && { type: property.type })
+        })),
+        arrays: descriptor.arrays.map(array => ({ name: array.name, type: canonicalizeDescriptor(array.type) })),
+        ...(descriptor.ordering && {
+            ordering: {
+                by: typeof descriptor.ordering.by === 'function' ? String(descriptor.ordering.by) : descriptor.ordering.by,
+                direction: descriptor.ordering.direction
+            }
+        })
+    };
+}
+
+/**
+ * Describes a step parameter as JSON-compatible data, with functions as their source text.
+ */
+function canonicalizeParameter(value: unknown): unknown {
+    if (typeof value === 'function') {
+        return String(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(canonicalizeParameter);
+    }
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, canonicalizeParameter(item)]));
+    }
+    return value;
+}
+
+function describeStep(step: Step): StepDescription {
+    const description = step.describe();
+    return {
+        kind: description.kind,
+        scope: description.scope,
+        parameters: canonicalizeParameter(description.parameters) as Record<string, unknown>
+    };
+}
+
+export function createSnapshot(lastStep: Step, typeDescriptor: TypeDescriptor, output: unknown): PipelineSnapshot {
+    const steps = collectSteps(lastStep);
+    return {
+        version: SNAPSHOT_VERSION,
+        typeDescriptor: canonicalizeDescriptor(typeDescriptor),
+        steps: steps.map(describeStep),
+        stepStates: steps.map(step => step.saveState ? step.saveState() : null),
+        output
+    };
+}
+
+/**
+ * Checks that a snapshot was taken of the same pipeline, and restores the
+ * state of its steps. Throws without changing anything if it was not, or if
+ * the state of a step is invalid.
+ */
+export function restoreSteps(lastStep: Step, typeDescriptor: TypeDescriptor, snapshot: PipelineSnapshot): void {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+        throw new Error(`restore: unsupported snapshot version ${JSON.stringify(snapshot.version)}, expected ${SNAPSHOT_VERSION}`);
+    }
+    if (JSON.stringify(snapshot.typeDescriptor) !== JSON.stringify(canonicalizeDescriptor(typeDescriptor))) {
+        throw new Error('restore: the snapshot was taken of a pipeline with a different type descriptor');
+    }
+    const steps = collectSteps(lastStep);
+    const descriptions = steps.map(describeStep);
+    const kinds = descriptions.map(description => description.kind);
+    const snapshotKinds = snapshot.steps.map(description => description.kind);
+    if (kinds.length !== snapshotKinds.length || kinds.some((kind, i) => kind !== snapshotKinds[i])) {
+        throw new Error(`restore: the snapshot was taken of a pipeline with steps [${snapshotKinds.join(', ')}], this one has [${kinds.join(', ')}]`);
+    }
+    const mismatch = descriptions.findIndex((description, i) => JSON.stringify(description) !== JSON.stringify(snapshot.steps[i]));
+    if (mismatch !== -1) {
+        throw new Error(`restore: the snapshot was taken of a pipeline whose step ${mismatch + 1} (${kinds[mismatch]}) has different parameters`);
+    }
+    // Keep the current states, to put them back if a step rejects its state
+    const currentStates = steps.map(step => step.saveState?.());
+    steps.forEach((step, i) => {
+        try {
+            step.restoreState?.(snapshot.stepStates[i]);
+        } catch (error) {
+            steps.slice(0, i + 1).forEach((restored, j) => restored.restoreState?.(currentStates[j]));
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(`restore: the state of step ${i + 1} (${kinds[i]}) is invalid: ${message}`);
+        }
+    });
+}
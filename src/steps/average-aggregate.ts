@@ -1,4 +1,7 @@
-import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, Step, TypeDescriptor } from '../pipeline';
+import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, Step, StepDescription, TypeDescriptor, UpdatedHandler } from '../pipeline';
+import { mapToRecord, recordToMap } from '../util/serialization';
+import { withAggregateProperty } from '../util/type-descriptor';
+import { UndoableMap } from '../util/undo-log';
 
 /**
  * Computes a hash key for a key path (for map lookups).
@@ -15,6 +18,10 @@ interface AverageState {
     count: number;
 }
 
+function copyAverageState(state: AverageState): AverageState {
+    return { ...state };
+}
+
 /**
  * A step that computes the average of a numeric property over items in a nested array.
  * 
@@ -29,7 +36,7 @@ export class AverageAggregateStep<
 > implements Step {
     
     /** Maps parent key path hash to average state (sum and count) */
-    private averageStates: Map<string, AverageState> = new Map();
+    private averageStates: Map<string, AverageState> = new UndoableMap(copyAverageState);
     
     /** Handlers for modified events at various levels */
     private modifiedHandlers: Array<{
@@ -51,10 +58,35 @@ export class AverageAggregateStep<
         this.input.onRemoved(this.segmentPath, (keyPath, itemKey, immutableProps) => {
             this.handleItemRemoved(keyPath, itemKey, immutableProps);
         });
+        
+        this.input.onUpdated(this.segmentPath, (keyPath, itemKey, oldImmutableProps, newImmutableProps) => {
+            this.handleItemUpdated(keyPath, itemKey, oldImmutableProps, newImmutableProps);
+        });
     }
     
     getTypeDescriptor(): TypeDescriptor {
-        return this.input.getTypeDescriptor();
+        return withAggregateProperty(this.input.getTypeDescriptor(), this.segmentPath, { name: this.propertyName, type: 'number' });
+    }
+
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        return {
+            kind: 'average',
+            scope: this.segmentPath.slice(0, -1),
+            parameters: { array: this.segmentPath[this.segmentPath.length - 1], property: this.numericProperty, as: this.propertyName }
+        };
+    }
+
+    saveState(): unknown {
+        return { averageStates: mapToRecord(this.averageStates) };
+    }
+
+    restoreState(state: unknown): void {
+        const saved = state as { averageStates: Record<string, AverageState> };
+        this.averageStates = new UndoableMap(copyAverageState, recordToMap(saved.averageStates));
     }
     
     onAdded(pathSegments: string[], handler: AddedHandler): void {
@@ -65,6 +97,10 @@ export class AverageAggregateStep<
         this.input.onRemoved(pathSegments, handler);
     }
     
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        this.input.onUpdated(pathSegments, handler);
+    }
+    
     onModified(pathSegments: string[], handler: ModifiedHandler): void {
         if (this.isParentPath(pathSegments)) {
             // Handler wants modification events at parent level
@@ -117,19 +153,7 @@ export class AverageAggregateStep<
         const newAverage = (state && state.count > 0) ? state.sum / state.count : undefined;
         
         // Emit modification event
-        if (parentKeyPath.length > 0) {
-            const parentKey = parentKeyPath[parentKeyPath.length - 1];
-            const keyPathToParent = parentKeyPath.slice(0, -1);
-            
-            this.modifiedHandlers.forEach(({ handler }) => {
-                handler(keyPathToParent, parentKey, this.propertyName, newAverage);
-            });
-        } else {
-            // Parent is at root level
-            this.modifiedHandlers.forEach(({ handler }) => {
-                handler([], '', this.propertyName, newAverage);
-            });
-        }
+        this.emitModification(parentKeyPath, newAverage);
     }
     
     /**
@@ -163,16 +187,73 @@ export class AverageAggregateStep<
         const newAverage = (state && state.count > 0) ? state.sum / state.count : undefined;
         
         // Emit modification event
+        this.emitModification(parentKeyPath, newAverage);
+    }
+    
+    /**
+     * Handle when an item in the target array is updated.
+     * Applies the change as a single delta so only one modification is emitted.
+     */
+    private handleItemUpdated(keyPath: string[], itemKey: string, oldItem: ImmutableProps, newItem: ImmutableProps): void {
+        const parentKeyPath = keyPath;
+        const parentKeyHash = computeKeyPathHash(parentKeyPath);
+        
+        const state = this.averageStates.get(parentKeyHash) || { sum: 0, count: 0 };
+        
+        // Remove the old value's contribution if it was numeric
+        const oldValue = this.toNumericValue(oldItem);
+        if (oldValue !== undefined) {
+            state.sum -= oldValue;
+            state.count -= 1;
+        }
+        
+        // Add the new value's contribution if it is numeric
+        const newValue = this.toNumericValue(newItem);
+        if (newValue !== undefined) {
+            state.sum += newValue;
+            state.count += 1;
+        }
+        
+        if (state.count === 0) {
+            this.averageStates.delete(parentKeyHash);
+        } else {
+            this.averageStates.set(parentKeyHash, state);
+        }
+        
+        // Compute new average
+        const newAverage = state.count > 0 ? state.sum / state.count : undefined;
+        
+        // Emit modification event
+        this.emitModification(parentKeyPath, newAverage);
+    }
+    
+    /**
+     * Extracts the numeric value of an item, or undefined if it is null, undefined or not a number.
+     */
+    private toNumericValue(item: ImmutableProps): number | undefined {
+        const value = item[this.numericProperty];
+        if (value === null || value === undefined) {
+            return undefined;
+        }
+        const numValue = Number(value);
+        return isNaN(numValue) ? undefined : numValue;
+    }
+    
+    /**
+     * Emits a modification event for the average value.
+     */
+    private emitModification(parentKeyPath: string[], value: number | undefined): void {
         if (parentKeyPath.length > 0) {
             const parentKey = parentKeyPath[parentKeyPath.length - 1];
             const keyPathToParent = parentKeyPath.slice(0, -1);
             
             this.modifiedHandlers.forEach(({ handler }) => {
-                handler(keyPathToParent, parentKey, this.propertyName, newAverage);
+                handler(keyPathToParent, parentKey, this.propertyName, value);
             });
         } else {
+            // Parent is at root level
             this.modifiedHandlers.forEach(({ handler }) => {
-                handler([], '', this.propertyName, newAverage);
+                handler([], '', this.propertyName, value);
             });
         }
     }
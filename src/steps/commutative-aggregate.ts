@@ -1,4 +1,8 @@
-import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, Step, TypeDescriptor } from '../pipeline';
+import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, ScalarType, Step, StepDescription, TypeDescriptor, UpdatedHandler } from '../pipeline';
+import { mapToRecord, recordToMap } from '../util/serialization';
+import { withAggregateProperty } from '../util/type-descriptor';
+import { UndoableMap } from '../util/undo-log';
+import { callUserFunction } from '../util/user-function';
 
 /**
  * Operator called when an item is added to the aggregated array.
@@ -27,12 +31,18 @@ export type SubtractOperator<TItem, TAggregate> = (
 /**
  * Configuration for the commutative aggregate operation.
  */
-interface CommutativeAggregateConfig<TItem, TAggregate> {
+export interface CommutativeAggregateConfig<TItem, TAggregate> {
     /** Operator called when an item is added */
     add: AddOperator<TItem, TAggregate>;
     
     /** Operator called when an item is removed */
     subtract: SubtractOperator<TItem, TAggregate>;
+
+    /** How the step describes itself, for aggregates defined in terms of this one such as sum */
+    description?: { kind: string, parameters: Record<string, unknown> };
+
+    /** The primitive type of the aggregate, if known */
+    type?: ScalarType;
 }
 
 /**
@@ -69,10 +79,10 @@ export class CommutativeAggregateStep<
 > implements Step {
     
     /** Maps parent key path hash to current aggregate value */
-    private aggregateValues: Map<string, TAggregate> = new Map();
+    private aggregateValues: Map<string, TAggregate> = new UndoableMap();
     
     /** Maps parent key path hash to count of items (for cleanup tracking) */
-    private itemCounts: Map<string, number> = new Map();
+    private itemCounts: Map<string, number> = new UndoableMap();
     
     /** Handlers for modified events at various levels */
     private modifiedHandlers: Array<{
@@ -94,10 +104,40 @@ export class CommutativeAggregateStep<
         this.input.onRemoved(this.segmentPath, (keyPath, itemKey, immutableProps) => {
             this.handleItemRemoved(keyPath, itemKey, immutableProps);
         });
+        
+        this.input.onUpdated(this.segmentPath, (keyPath, itemKey, oldImmutableProps, newImmutableProps) => {
+            this.handleItemUpdated(keyPath, itemKey, oldImmutableProps, newImmutableProps);
+        });
     }
     
     getTypeDescriptor(): TypeDescriptor {
-        return this.input.getTypeDescriptor();
+        return withAggregateProperty(this.input.getTypeDescriptor(), this.segmentPath, { name: this.propertyName, ...(this.config.type && { type: this.config.type }) });
+    }
+
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        const description = this.config.description ?? { kind: 'commutativeAggregate', parameters: {} };
+        return {
+            kind: description.kind,
+            scope: this.segmentPath.slice(0, -1),
+            parameters: { array: this.segmentPath[this.segmentPath.length - 1], ...description.parameters, as: this.propertyName }
+        };
+    }
+
+    saveState(): unknown {
+        return {
+            aggregateValues: mapToRecord(this.aggregateValues),
+            itemCounts: mapToRecord(this.itemCounts)
+        };
+    }
+
+    restoreState(state: unknown): void {
+        const saved = state as { aggregateValues: Record<string, TAggregate>, itemCounts: Record<string, number> };
+        this.aggregateValues = new UndoableMap(undefined, recordToMap(saved.aggregateValues));
+        this.itemCounts = new UndoableMap(undefined, recordToMap(saved.itemCounts));
     }
     
     onAdded(pathSegments: string[], handler: AddedHandler): void {
@@ -108,6 +148,10 @@ export class CommutativeAggregateStep<
         this.input.onRemoved(pathSegments, handler);
     }
     
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        this.input.onUpdated(pathSegments, handler);
+    }
+    
     onModified(pathSegments: string[], handler: ModifiedHandler): void {
         if (this.isParentPath(pathSegments)) {
             // Handler wants modification events at parent level
@@ -151,28 +195,11 @@ export class CommutativeAggregateStep<
         
         // Compute new aggregate
         const currentAggregate = this.aggregateValues.get(parentKeyHash);
-        const newAggregate = this.config.add(currentAggregate, item);
+        const newAggregate = callUserFunction(this, this.config.add, currentAggregate, item);
         this.aggregateValues.set(parentKeyHash, newAggregate);
         
         // Emit modification event
-        // The parent key is the last element of parentKeyPath
-        // The key path to the parent is everything before that
-        if (parentKeyPath.length > 0) {
-            const parentKey = parentKeyPath[parentKeyPath.length - 1];
-            const keyPathToParent = parentKeyPath.slice(0, -1);
-            
-            this.modifiedHandlers.forEach(({ handler }) => {
-                handler(keyPathToParent, parentKey, this.propertyName, newAggregate);
-            });
-        } else {
-            // Parent is at root level - edge case
-            // In this case, modifiedHandlers at root level would receive updates
-            // But this scenario should be handled differently based on the design
-            // For now, we'll emit to handlers registered at root
-            this.modifiedHandlers.forEach(({ handler }) => {
-                handler([], '', this.propertyName, newAggregate);
-            });
-        }
+        this.emitModification(parentKeyPath, newAggregate);
     }
     
     /**
@@ -189,7 +216,7 @@ export class CommutativeAggregateStep<
         }
         
         // Compute new aggregate
-        const newAggregate = this.config.subtract(currentAggregate, item);
+        const newAggregate = callUserFunction(this, this.config.subtract, currentAggregate, item);
         
         // Update item count and clean up if no items remain
         const currentCount = this.itemCounts.get(parentKeyHash) ?? 0;
@@ -204,17 +231,47 @@ export class CommutativeAggregateStep<
         }
         
         // Emit modification event
+        this.emitModification(parentKeyPath, newAggregate);
+    }
+    
+    /**
+     * Handle when an item in the target array is updated.
+     * Applies the change as a single delta so only one modification is emitted.
+     */
+    private handleItemUpdated(keyPath: string[], itemKey: string, oldItem: ImmutableProps, newItem: ImmutableProps): void {
+        const parentKeyPath = keyPath;
+        const parentKeyHash = computeKeyPathHash(parentKeyPath);
+        
+        // Get current aggregate
+        const currentAggregate = this.aggregateValues.get(parentKeyHash);
+        if (currentAggregate === undefined) {
+            throw new Error(`No aggregate value for parent ${parentKeyHash}`);
+        }
+        
+        // Replace the old item's contribution with the new one
+        const newAggregate = callUserFunction(this, this.config.add, callUserFunction(this, this.config.subtract, currentAggregate, oldItem), newItem);
+        this.aggregateValues.set(parentKeyHash, newAggregate);
+        
+        // Emit modification event
+        this.emitModification(parentKeyPath, newAggregate);
+    }
+    
+    /**
+     * Emits a modification event for the aggregate value.
+     */
+    private emitModification(parentKeyPath: string[], value: TAggregate): void {
         if (parentKeyPath.length > 0) {
             const parentKey = parentKeyPath[parentKeyPath.length - 1];
             const keyPathToParent = parentKeyPath.slice(0, -1);
             
             this.modifiedHandlers.forEach(({ handler }) => {
-                handler(keyPathToParent, parentKey, this.propertyName, newAggregate);
+                handler(keyPathToParent, parentKey, this.propertyName, value);
             });
         } else {
+            // Parent is at root level
             this.modifiedHandlers.forEach(({ handler }) => {
-                handler([], '', this.propertyName, newAggregate);
+                handler([], '', this.propertyName, value);
             });
         }
     }
-}
\ No newline at end of file
+}
@@ -1,6 +1,8 @@
-import type { ImmutableProps, Step } from '../pipeline';
+import type { ImmutableProps, Step, StepDescription, UpdatedHandler } from '../pipeline';
 import { type TypeDescriptor } from '../pipeline';
 import { pathsMatch } from '../util/path';
+import { transformDescriptorAt, withProperty } from '../util/type-descriptor';
+import { callUserFunction } from '../util/user-function';
 
 export class DefinePropertyStep<T, K extends string, U> implements Step {
     constructor(
@@ -11,14 +13,23 @@ export class DefinePropertyStep<T, K extends string, U> implements Step {
     ) {}
     
     getTypeDescriptor(): TypeDescriptor {
-        return this.input.getTypeDescriptor();
+        return transformDescriptorAt(this.input.getTypeDescriptor(), this.scopeSegments, descriptor =>
+            withProperty(descriptor, { name: this.propertyName, kind: 'computed' }));
+    }
+
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        return { kind: 'defineProperty', scope: this.scopeSegments, parameters: { name: this.propertyName, compute: this.compute } };
     }
     
     onAdded(pathSegments: string[], handler: (keyPath: string[], key: string, immutableProps: ImmutableProps) => void): void {
         if (this.isAtScopeSegments(pathSegments)) {
             // Apply the property transformation at the scoped level
             this.input.onAdded(pathSegments, (keyPath, key, immutableProps) => {
-                handler(keyPath, key, { ...immutableProps, [this.propertyName]: this.compute(immutableProps as T) } as T & Record<K, U>);
+                handler(keyPath, key, { ...immutableProps, [this.propertyName]: callUserFunction(this, this.compute, immutableProps as T) } as T & Record<K, U>);
             });
         } else {
             // Pass through unchanged when not at scope segments
@@ -30,7 +41,7 @@ export class DefinePropertyStep<T, K extends string, U> implements Step {
         if (this.isAtScopeSegments(pathSegments)) {
             // Apply the property transformation at the scoped level (for removal too)
             this.input.onRemoved(pathSegments, (keyPath, key, immutableProps) => {
-                handler(keyPath, key, { ...immutableProps, [this.propertyName]: this.compute(immutableProps as T) } as T & Record<K, U>);
+                handler(keyPath, key, { ...immutableProps, [this.propertyName]: callUserFunction(this, this.compute, immutableProps as T) } as T & Record<K, U>);
             });
         } else {
             // Pass through unchanged when not at scope segments
@@ -38,6 +49,23 @@ export class DefinePropertyStep<T, K extends string, U> implements Step {
         }
     }
 
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        if (this.isAtScopeSegments(pathSegments)) {
+            // Recompute the property from both the old and the new props
+            this.input.onUpdated(pathSegments, (keyPath, key, oldImmutableProps, newImmutableProps) => {
+                handler(
+                    keyPath,
+                    key,
+                    { ...oldImmutableProps, [this.propertyName]: callUserFunction(this, this.compute, oldImmutableProps as T) } as T & Record<K, U>,
+                    { ...newImmutableProps, [this.propertyName]: callUserFunction(this, this.compute, newImmutableProps as T) } as T & Record<K, U>
+                );
+            });
+        } else {
+            // Pass through unchanged when not at scope segments
+            this.input.onUpdated(pathSegments, handler);
+        }
+    }
+
     onModified(pathSegments: string[], handler: (keyPath: string[], key: string, name: string, value: any) => void): void {
         this.input.onModified(pathSegments, handler);
     }
@@ -0,0 +1,189 @@
+import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, Step, StepDescription, TypeDescriptor, UpdatedHandler } from '../pipeline';
+import { pathsMatch } from '../util/path';
+import { mapToRecord, recordToMap } from '../util/serialization';
+import { transformDescriptorAt, withProperty } from '../util/type-descriptor';
+import { UndoableMap } from '../util/undo-log';
+import { callUserFunction } from '../util/user-function';
+
+/**
+ * Computes a hash key for a key path (for map lookups).
+ */
+function computeKeyPathHash(keyPath: string[]): string {
+    return keyPath.join('::');
+}
+
+/**
+ * Per-item state: the inputs of the computation and its last emitted result.
+ */
+interface ItemState {
+    immutableProps: ImmutableProps;
+    /** Latest values of the mutable properties the computation reads */
+    dependencyValues: Map<string, any>;
+    value: unknown;
+}
+
+function copyItemState(state: ItemState): ItemState {
+    return { ...state, dependencyValues: new Map(state.dependencyValues) };
+}
+
+/**
+ * A step that defines a property computed from immutable props and from
+ * mutable properties (aggregates) of the same item.
+ *
+ * The computed property is itself mutable: it is emitted through onModified
+ * after the item is added, and again whenever one of the declared dependencies
+ * or the immutable props change, but only if the result differs (by Object.is)
+ * from the last one emitted. An undefined result is not emitted for a new item.
+ */
+export class DefineReactivePropertyStep<T, K extends string, U> implements Step {
+    private addedHandlers: AddedHandler[] = [];
+    private removedHandlers: RemovedHandler[] = [];
+    private updatedHandlers: UpdatedHandler[] = [];
+    private modifiedHandlers: ModifiedHandler[] = [];
+
+    /** Maps item key path hash to the inputs and result of the computation */
+    private itemStates: Map<string, ItemState> = new UndoableMap(copyItemState);
+
+    constructor(
+        private input: Step,
+        private propertyName: K,
+        private dependencies: string[],
+        private compute: (item: T) => U,
+        private scopeSegments: string[]
+    ) {
+        // Register with the input step to receive items at the scope path level
+        this.input.onAdded(this.scopeSegments, (keyPath, key, immutableProps) => {
+            this.handleAdded(keyPath, key, immutableProps);
+        });
+        this.input.onRemoved(this.scopeSegments, (keyPath, key, immutableProps) => {
+            this.handleRemoved(keyPath, key, immutableProps);
+        });
+        this.input.onUpdated(this.scopeSegments, (keyPath, key, oldImmutableProps, newImmutableProps) => {
+            this.handleUpdated(keyPath, key, oldImmutableProps, newImmutableProps);
+        });
+        this.input.onModified(this.scopeSegments, (keyPath, key, name, value) => {
+            this.handleModified(keyPath, key, name, value);
+        });
+    }
+
+    getTypeDescriptor(): TypeDescriptor {
+        // The property is delivered through modifications, like an aggregate
+        return transformDescriptorAt(this.input.getTypeDescriptor(), this.scopeSegments, descriptor =>
+            withProperty(descriptor, { name: this.propertyName, kind: 'aggregate' }));
+    }
+
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        return {
+            kind: 'defineReactiveProperty',
+            scope: this.scopeSegments,
+            parameters: { name: this.propertyName, dependencies: this.dependencies, compute: this.compute }
+        };
+    }
+
+    saveState(): unknown {
+        return {
+            itemStates: mapToRecord(this.itemStates, state => ({
+                immutableProps: state.immutableProps,
+                dependencyValues: mapToRecord(state.dependencyValues),
+                value: state.value
+            }))
+        };
+    }
+
+    restoreState(state: unknown): void {
+        const saved = state as { itemStates: Record<string, { immutableProps: ImmutableProps, dependencyValues: Record<string, any>, value: unknown }> };
+        this.itemStates = new UndoableMap(copyItemState, recordToMap(saved.itemStates, itemState => ({
+            immutableProps: itemState.immutableProps,
+            dependencyValues: recordToMap(itemState.dependencyValues),
+            value: itemState.value
+        })));
+    }
+
+    onAdded(pathSegments: string[], handler: AddedHandler): void {
+        if (this.isAtScopeSegments(pathSegments)) {
+            this.addedHandlers.push(handler);
+        } else {
+            this.input.onAdded(pathSegments, handler);
+        }
+    }
+
+    onRemoved(pathSegments: string[], handler: RemovedHandler): void {
+        if (this.isAtScopeSegments(pathSegments)) {
+            this.removedHandlers.push(handler);
+        } else {
+            this.input.onRemoved(pathSegments, handler);
+        }
+    }
+
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        if (this.isAtScopeSegments(pathSegments)) {
+            this.updatedHandlers.push(handler);
+        } else {
+            this.input.onUpdated(pathSegments, handler);
+        }
+    }
+
+    onModified(pathSegments: string[], handler: ModifiedHandler): void {
+        if (this.isAtScopeSegments(pathSegments)) {
+            // This is the channel for the computed property
+            this.modifiedHandlers.push(handler);
+        }
+        // Always pass through to input for other property modifications
+        this.input.onModified(pathSegments, handler);
+    }
+
+    private isAtScopeSegments(pathSegments: string[]): boolean {
+        return pathsMatch(pathSegments, this.scopeSegments);
+    }
+
+    private handleAdded(keyPath: string[], key: string, immutableProps: ImmutableProps): void {
+        this.addedHandlers.forEach(handler => handler(keyPath, key, immutableProps));
+
+        const state: ItemState = { immutableProps, dependencyValues: new Map(), value: undefined };
+        this.itemStates.set(computeKeyPathHash([...keyPath, key]), state);
+        this.recompute(keyPath, key, state);
+    }
+
+    private handleRemoved(keyPath: string[], key: string, immutableProps: ImmutableProps): void {
+        this.itemStates.delete(computeKeyPathHash([...keyPath, key]));
+        this.removedHandlers.forEach(handler => handler(keyPath, key, immutableProps));
+    }
+
+    private handleUpdated(keyPath: string[], key: string, oldImmutableProps: ImmutableProps, newImmutableProps: ImmutableProps): void {
+        this.updatedHandlers.forEach(handler => handler(keyPath, key, oldImmutableProps, newImmutableProps));
+
+        const state = this.itemStates.get(computeKeyPathHash([...keyPath, key]));
+        if (state) {
+            state.immutableProps = newImmutableProps;
+            this.recompute(keyPath, key, state);
+        }
+    }
+
+    private handleModified(keyPath: string[], key: string, name: string, value: any): void {
+        if (!this.dependencies.includes(name)) {
+            return;
+        }
+        const state = this.itemStates.get(computeKeyPathHash([...keyPath, key]));
+        if (state) {
+            state.dependencyValues.set(name, value);
+            this.recompute(keyPath, key, state);
+        }
+    }
+
+    /**
+     * Computes the property from the current inputs and emits it if it changed.
+     */
+    private recompute(keyPath: string[], key: string, state: ItemState): void {
+        const item = { ...state.immutableProps, ...Object.fromEntries(state.dependencyValues) };
+        const value = callUserFunction(this, this.compute, item as T);
+        if (Object.is(value, state.value)) {
+            return;
+        }
+        state.value = value;
+        this.modifiedHandlers.forEach(handler => handler(keyPath, key, this.propertyName, value));
+    }
+}
@@ -0,0 +1,316 @@
+import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, ScalarType, Step, StepDescription, TypeDescriptor, UpdatedHandler } from '../pipeline';
+import { canonicalizeGroupingProperties } from '../util/hash';
+import { mapToRecord, recordToMap } from '../util/serialization';
+import { withAggregateProperty } from '../util/type-descriptor';
+import { UndoableMap } from '../util/undo-log';
+
+/**
+ * Computes a hash key for a key path (for map lookups).
+ */
+function computeKeyPathHash(keyPath: string[]): string {
+    return keyPath.join('::');
+}
+
+/**
+ * A distinct value and the number of items that currently hold it.
+ */
+interface DistinctValue {
+    value: unknown;
+    refCount: number;
+}
+
+/**
+ * Per-parent state: distinct values by canonical form, plus the
+ * number of items (including those with null/undefined values).
+ */
+interface ParentState {
+    values: Map<string, DistinctValue>;
+    itemCount: number;
+}
+
+function copyDistinctValue(value: DistinctValue): DistinctValue {
+    return { ...value };
+}
+
+function copyParentState(state: ParentState): ParentState {
+    return { ...state };
+}
+
+/**
+ * Orders distinct values independently of arrival order:
+ * numbers numerically, strings lexically, anything else by canonical form.
+ */
+function compareDistinctValues(a: [string, DistinctValue], b: [string, DistinctValue]): number {
+    const value1 = a[1].value;
+    const value2 = b[1].value;
+    if (typeof value1 === 'number' && typeof value2 === 'number') {
+        return value1 - value2;
+    }
+    if (typeof value1 === 'string' && typeof value2 === 'string') {
+        return value1 < value2 ? -1 : value1 > value2 ? 1 : 0;
+    }
+    return a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0;
+}
+
+/**
+ * A step that summarizes the distinct values of a property over items in a nested array.
+ *
+ * - Compares values by the same canonical form that groupBy uses for keys
+ * - Ignores null/undefined values
+ * - Keeps a reference count per value, so removals are exact
+ * - Emits a modification for a new parent, and then only when the set of values changes
+ */
+export class DistinctAggregateStep<
+    TInput,
+    TPath extends string[],
+    TPropertyName extends string
+> implements Step {
+
+    /** Maps parent key path hash to the distinct values of its items */
+    private parentStates: Map<string, ParentState> = new UndoableMap(copyParentState);
+
+    /** Handlers for modified events at various levels */
+    private modifiedHandlers: Array<{
+        pathSegments: string[];
+        handler: ModifiedHandler;
+    }> = [];
+
+    /**
+     * @param summarize - Computes the aggregate from the distinct values, in a stable order
+     * @param valueType - The primitive type of the aggregate, if it is one
+     */
+    constructor(
+        private input: Step,
+        private segmentPath: TPath,
+        private propertyName: TPropertyName,
+        private distinctProperty: string,
+        private summarize: (values: unknown[]) => unknown,
+        private valueType?: ScalarType
+    ) {
+        // Register with input step to receive item add/remove events at the target array level
+        this.input.onAdded(this.segmentPath, (keyPath, itemKey, immutableProps) => {
+            this.handleItemAdded(keyPath, itemKey, immutableProps);
+        });
+
+        this.input.onRemoved(this.segmentPath, (keyPath, itemKey, immutableProps) => {
+            this.handleItemRemoved(keyPath, itemKey, immutableProps);
+        });
+
+        this.input.onUpdated(this.segmentPath, (keyPath, itemKey, oldImmutableProps, newImmutableProps) => {
+            this.handleItemUpdated(keyPath, itemKey, oldImmutableProps, newImmutableProps);
+        });
+    }
+
+    getTypeDescriptor(): TypeDescriptor {
+        return withAggregateProperty(this.input.getTypeDescriptor(), this.segmentPath, { name: this.propertyName, ...(this.valueType && { type: this.valueType }) });
+    }
+
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        return {
+            kind: 'distinct',
+            scope: this.segmentPath.slice(0, -1),
+            parameters: { array: this.segmentPath[this.segmentPath.length - 1], property: this.distinctProperty, summarize: this.summarize, as: this.propertyName }
+        };
+    }
+
+    saveState(): unknown {
+        return {
+            parentStates: mapToRecord(this.parentStates, state => ({
+                values: mapToRecord(state.values),
+                itemCount: state.itemCount
+            }))
+        };
+    }
+
+    restoreState(state: unknown): void {
+        const saved = state as { parentStates: Record<string, { values: Record<string, DistinctValue>, itemCount: number }> };
+        this.parentStates = new UndoableMap(copyParentState, recordToMap(saved.parentStates, ({ values, itemCount }) => ({
+            values: new UndoableMap(copyDistinctValue, recordToMap(values)),
+            itemCount
+        })));
+    }
+
+    onAdded(pathSegments: string[], handler: AddedHandler): void {
+        this.input.onAdded(pathSegments, handler);
+    }
+
+    onRemoved(pathSegments: string[], handler: RemovedHandler): void {
+        this.input.onRemoved(pathSegments, handler);
+    }
+
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        this.input.onUpdated(pathSegments, handler);
+    }
+
+    onModified(pathSegments: string[], handler: ModifiedHandler): void {
+        if (this.isParentPath(pathSegments)) {
+            // Handler wants modification events at parent level
+            // This is the channel for receiving aggregate values
+            this.modifiedHandlers.push({
+                pathSegments,
+                handler
+            });
+        }
+        // Always pass through to input for other property modifications
+        this.input.onModified(pathSegments, handler);
+    }
+
+    /**
+     * Checks if the given path segments represent the parent level (where aggregate property lives)
+     */
+    private isParentPath(pathSegments: string[]): boolean {
+        // Parent path segments are segmentPath without the last element
+        const parentSegments = this.segmentPath.slice(0, -1);
+
+        if (pathSegments.length !== parentSegments.length) {
+            return false;
+        }
+
+        return pathSegments.every((segment, i) => segment === parentSegments[i]);
+    }
+
+    /**
+     * Handle when an item is added to the target array
+     */
+    private handleItemAdded(keyPath: string[], itemKey: string, item: ImmutableProps): void {
+        const parentKeyPath = keyPath;
+        const parentKeyHash = computeKeyPathHash(parentKeyPath);
+
+        let state = this.parentStates.get(parentKeyHash);
+        const isNewParent = !state;
+        if (!state) {
+            state = { values: new UndoableMap(copyDistinctValue), itemCount: 0 };
+            this.parentStates.set(parentKeyHash, state);
+        }
+        state.itemCount += 1;
+
+        const changed = this.addValue(state, item);
+
+        // Emit modification event for a new parent or a new value
+        if (isNewParent || changed) {
+            this.emitModification(parentKeyPath, state);
+        }
+    }
+
+    /**
+     * Handle when an item is removed from the target array
+     */
+    private handleItemRemoved(keyPath: string[], itemKey: string, item: ImmutableProps): void {
+        const parentKeyPath = keyPath;
+        const parentKeyHash = computeKeyPathHash(parentKeyPath);
+
+        const state = this.parentStates.get(parentKeyHash);
+        if (!state) {
+            return;
+        }
+
+        const changed = this.removeValue(state, item);
+        state.itemCount -= 1;
+        if (state.itemCount === 0) {
+            this.parentStates.delete(parentKeyHash);
+        }
+
+        // Emit modification event if the last item holding a value was removed
+        if (changed) {
+            this.emitModification(parentKeyPath, state);
+        }
+    }
+
+    /**
+     * Handle when an item in the target array is updated.
+     * Moves the item's reference from the old value to the new one so at most one modification is emitted.
+     */
+    private handleItemUpdated(keyPath: string[], itemKey: string, oldItem: ImmutableProps, newItem: ImmutableProps): void {
+        const parentKeyPath = keyPath;
+        const parentKeyHash = computeKeyPathHash(parentKeyPath);
+
+        const state = this.parentStates.get(parentKeyHash);
+        if (!state) {
+            return;
+        }
+
+        // Add before removing, so a value held only by this item is not dropped and re-added
+        const added = this.addValue(state, newItem);
+        const removed = this.removeValue(state, oldItem);
+
+        if (added || removed) {
+            this.emitModification(parentKeyPath, state);
+        }
+    }
+
+    /**
+     * Counts a reference to the item's value. Returns true if the value is new to the parent.
+     */
+    private addValue(state: ParentState, item: ImmutableProps): boolean {
+        const canonical = this.toCanonicalValue(item);
+        if (canonical === undefined) {
+            return false;
+        }
+        const existing = state.values.get(canonical);
+        if (existing) {
+            existing.refCount += 1;
+            return false;
+        }
+        state.values.set(canonical, { value: item[this.distinctProperty], refCount: 1 });
+        return true;
+    }
+
+    /**
+     * Releases a reference to the item's value. Returns true if no item holds the value any longer.
+     */
+    private removeValue(state: ParentState, item: ImmutableProps): boolean {
+        const canonical = this.toCanonicalValue(item);
+        if (canonical === undefined) {
+            return false;
+        }
+        const existing = state.values.get(canonical);
+        if (!existing) {
+            return false;
+        }
+        existing.refCount -= 1;
+        if (existing.refCount > 0) {
+            return false;
+        }
+        state.values.delete(canonical);
+        return true;
+    }
+
+    /**
+     * Computes the canonical form of the item's value, or undefined if it is null or undefined.
+     */
+    private toCanonicalValue(item: ImmutableProps): string | undefined {
+        const value = item[this.distinctProperty];
+        if (value === null || value === undefined) {
+            return undefined;
+        }
+        return canonicalizeGroupingProperties(item, [this.distinctProperty]);
+    }
+
+    /**
+     * Emits a modification event for the aggregate value.
+     */
+    private emitModification(parentKeyPath: string[], state: ParentState): void {
+        const values = [...state.values.entries()]
+            .sort(compareDistinctValues)
+            .map(([, distinctValue]) => distinctValue.value);
+        const value = this.summarize(values);
+
+        if (parentKeyPath.length > 0) {
+            const parentKey = parentKeyPath[parentKeyPath.length - 1];
+            const keyPathToParent = parentKeyPath.slice(0, -1);
+
+            this.modifiedHandlers.forEach(({ handler }) => {
+                handler(keyPathToParent, parentKey, this.propertyName, value);
+            });
+        } else {
+            // Parent is at root level
+            this.modifiedHandlers.forEach(({ handler }) => {
+                handler([], '', this.propertyName, value);
+            });
+        }
+    }
+}
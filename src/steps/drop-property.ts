@@ -1,6 +1,7 @@
-import type { AddedHandler, ModifiedHandler, RemovedHandler, Step } from '../pipeline';
+import type { AddedHandler, ModifiedHandler, RemovedHandler, Step, StepDescription, UpdatedHandler } from '../pipeline';
 import { type TypeDescriptor } from '../pipeline';
 import { pathsMatch } from '../util/path';
+import { transformDescriptorAt, withoutProperties } from '../util/type-descriptor';
 
 export class DropPropertyStep<T, K extends keyof T> implements Step {
     private isArrayProperty: boolean;
@@ -45,7 +46,7 @@ export class DropPropertyStep<T, K extends keyof T> implements Step {
         
         if (!arrayDesc) {
             // Path segments don't exist - return empty descriptor
-            return { arrays: [] };
+            return { arrays: [], properties: [] };
         }
         
         return this.navigateToPath(arrayDesc.type, remainingSegments);
@@ -57,8 +58,17 @@ export class DropPropertyStep<T, K extends keyof T> implements Step {
             const inputDescriptor = this.input.getTypeDescriptor();
             return this.transformDescriptor(inputDescriptor, [...this.fullSegmentPath]);
         }
-        // For non-array properties, don't modify the descriptor
-        return this.input.getTypeDescriptor();
+        // Remove the scalar property at the scope
+        return transformDescriptorAt(this.input.getTypeDescriptor(), this.scopeSegments, descriptor =>
+            withoutProperties(descriptor, [this.propertyName as string]));
+    }
+
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        return { kind: 'dropProperty', scope: this.scopeSegments, parameters: { name: this.propertyName } };
     }
     
     /**
@@ -78,12 +88,14 @@ export class DropPropertyStep<T, K extends keyof T> implements Step {
         if (remainingSegmentsAfter.length === 0) {
             // This is the target array - remove it from the descriptor
             return {
+                ...descriptor,
                 arrays: descriptor.arrays.filter(a => a.name !== currentSegment)
             };
         }
         
         // Navigate deeper into the tree
         return {
+            ...descriptor,
             arrays: descriptor.arrays.map(arrayDesc => {
                 if (arrayDesc.name === currentSegment) {
                     return {
@@ -126,6 +138,27 @@ export class DropPropertyStep<T, K extends keyof T> implements Step {
         this.input.onRemoved(pathSegments, handler);
     }
 
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        if (this.isArrayProperty) {
+            // Array behavior: suppress events at or below the array path segments
+            if (this.isAtOrBelowTargetArray(pathSegments)) {
+                return;
+            }
+            this.input.onUpdated(pathSegments, handler);
+        } else {
+            // Property behavior: filter the property from both old and new immutableProps
+            if (this.isAtScopeSegments(pathSegments)) {
+                this.input.onUpdated(pathSegments, (keyPath, key, oldImmutableProps, newImmutableProps) => {
+                    const { [this.propertyName]: _old, ...oldRest } = oldImmutableProps;
+                    const { [this.propertyName]: _new, ...newRest } = newImmutableProps;
+                    handler(keyPath, key, oldRest as Omit<T, K>, newRest as Omit<T, K>);
+                });
+            } else {
+                this.input.onUpdated(pathSegments, handler);
+            }
+        }
+    }
+
     onModified(pathSegments: string[], handler: ModifiedHandler): void {
         if (this.isArrayProperty) {
             // Array behavior: suppress events at or below the array path segments
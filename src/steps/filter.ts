@@ -1,32 +1,55 @@
-import type { AddedHandler, ImmutableProps, RemovedHandler, ModifiedHandler, Step, TypeDescriptor } from '../pipeline';
+import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, Step, StepDescription, TypeDescriptor, UpdatedHandler } from '../pipeline';
 import { pathsMatch } from '../util/path';
+import { callUserFunction } from '../util/user-function';
 
 /**
  * A step that filters items based on a predicate function.
- * 
+ *
  * This is a STATELESS implementation - no item storage required because:
  * 1. Items are immutable
  * 2. RemovedHandler receives immutableProps
  * 3. Predicate re-evaluation is deterministic
+ *
+ * Updates at the scope level are translated into adds or removes when the
+ * predicate result flips, and forwarded as updates when it holds for both.
  */
 export class FilterStep<T> implements Step {
+    private addedHandlers: AddedHandler[] = [];
+    private removedHandlers: RemovedHandler[] = [];
+    private updatedHandlers: UpdatedHandler[] = [];
+
     constructor(
         private input: Step,
         private predicate: (item: T) => boolean,
         private scopeSegments: string[]
-    ) {}
+    ) {
+        // Register with the input step to receive items at the scope path level
+        this.input.onAdded(this.scopeSegments, (keyPath, key, immutableProps) => {
+            this.handleAdded(keyPath, key, immutableProps);
+        });
+        this.input.onRemoved(this.scopeSegments, (keyPath, key, immutableProps) => {
+            this.handleRemoved(keyPath, key, immutableProps);
+        });
+        this.input.onUpdated(this.scopeSegments, (keyPath, key, oldImmutableProps, newImmutableProps) => {
+            this.handleUpdated(keyPath, key, oldImmutableProps, newImmutableProps);
+        });
+    }
 
     getTypeDescriptor(): TypeDescriptor {
         return this.input.getTypeDescriptor();
     }
 
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        return { kind: 'filter', scope: this.scopeSegments, parameters: { predicate: this.predicate } };
+    }
+
     onAdded(pathSegments: string[], handler: AddedHandler): void {
         if (this.isAtScopeSegments(pathSegments)) {
-            this.input.onAdded(pathSegments, (keyPath, key, immutableProps) => {
-                if (this.predicate(immutableProps as T)) {
-                    handler(keyPath, key, immutableProps);
-                }
-            });
+            this.addedHandlers.push(handler);
         } else {
             this.input.onAdded(pathSegments, handler);
         }
@@ -34,16 +57,20 @@ export class FilterStep<T> implements Step {
 
     onRemoved(pathSegments: string[], handler: RemovedHandler): void {
         if (this.isAtScopeSegments(pathSegments)) {
-            this.input.onRemoved(pathSegments, (keyPath, key, immutableProps) => {
-                if (this.predicate(immutableProps as T)) {
-                    handler(keyPath, key, immutableProps);
-                }
-            });
+            this.removedHandlers.push(handler);
         } else {
             this.input.onRemoved(pathSegments, handler);
         }
     }
 
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        if (this.isAtScopeSegments(pathSegments)) {
+            this.updatedHandlers.push(handler);
+        } else {
+            this.input.onUpdated(pathSegments, handler);
+        }
+    }
+
     onModified(pathSegments: string[], handler: ModifiedHandler): void {
         this.input.onModified(pathSegments, handler);
     }
@@ -51,4 +78,28 @@ export class FilterStep<T> implements Step {
     private isAtScopeSegments(pathSegments: string[]): boolean {
         return pathsMatch(pathSegments, this.scopeSegments);
     }
-}
\ No newline at end of file
+
+    private handleAdded(keyPath: string[], key: string, immutableProps: ImmutableProps): void {
+        if (callUserFunction(this, this.predicate, immutableProps as T)) {
+            this.addedHandlers.forEach(handler => handler(keyPath, key, immutableProps));
+        }
+    }
+
+    private handleRemoved(keyPath: string[], key: string, immutableProps: ImmutableProps): void {
+        if (callUserFunction(this, this.predicate, immutableProps as T)) {
+            this.removedHandlers.forEach(handler => handler(keyPath, key, immutableProps));
+        }
+    }
+
+    private handleUpdated(keyPath: string[], key: string, oldImmutableProps: ImmutableProps, newImmutableProps: ImmutableProps): void {
+        const oldPasses = callUserFunction(this, this.predicate, oldImmutableProps as T);
+        const newPasses = callUserFunction(this, this.predicate, newImmutableProps as T);
+        if (oldPasses && newPasses) {
+            this.updatedHandlers.forEach(handler => handler(keyPath, key, oldImmutableProps, newImmutableProps));
+        } else if (oldPasses) {
+            this.removedHandlers.forEach(handler => handler(keyPath, key, oldImmutableProps));
+        } else if (newPasses) {
+            this.addedHandlers.forEach(handler => handler(keyPath, key, newImmutableProps));
+        }
+    }
+}
@@ -0,0 +1,350 @@
+import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, Step, StepDescription, TypeDescriptor, UpdatedHandler } from '../pipeline';
+import { pathsMatch, pathStartsWith } from '../util/path';
+import { mapToRecord, recordToMap } from '../util/serialization';
+import { transformDescriptorAt } from '../util/type-descriptor';
+import { UndoableMap } from '../util/undo-log';
+
+/**
+ * Computes a hash key for a key path (for map lookups).
+ */
+function computeKeyPathHash(keyPath: string[]): string {
+    return keyPath.join('::');
+}
+
+/**
+ * Computes the key of a flattened item from its parent and child keys.
+ * Keys are encoded as a JSON array, so that no two pairs of keys share a composite key.
+ */
+function computeCompositeKey(parentKey: string, childKey: string): string {
+    return JSON.stringify([parentKey, childKey]);
+}
+
+interface ParentState {
+    keyPath: string[];
+    key: string;
+    immutableProps: ImmutableProps;
+    /** Latest values of the parent's mutable properties (aggregates) */
+    modifiedValues: Map<string, any>;
+    /** Immutable props of the parent's children, by child key */
+    children: Map<string, ImmutableProps>;
+}
+
+function copyParentState(parent: ParentState): ParentState {
+    return { ...parent };
+}
+
+/**
+ * A step that flattens a nested array into its parent level, the inverse of groupBy.
+ *
+ * Each child is re-emitted at the parent's level with the parent's properties
+ * merged in (the child's properties win on conflict) and a key composed of
+ * the parent and child keys. Parents themselves, and their other arrays, no
+ * longer appear. Mutable properties of the parent are forwarded to each child,
+ * unless the child has a property of the same name. An aggregate of the parent
+ * with the name of a declared property of the children is rejected.
+ */
+export class FlattenStep implements Step {
+    private addedHandlers: AddedHandler[] = [];
+    private removedHandlers: RemovedHandler[] = [];
+    private updatedHandlers: UpdatedHandler[] = [];
+    private modifiedHandlers: ModifiedHandler[] = [];
+
+    /** Maps parent key path hash to the parent and its children */
+    private parents: Map<string, ParentState> = new UndoableMap(copyParentState);
+
+    constructor(
+        private input: Step,
+        private arrayName: string,
+        private scopeSegments: string[]
+    ) {
+        const childSegments = [...this.scopeSegments, this.arrayName];
+        const scopeDescriptor = this.getScopeDescriptor();
+        const childNames = scopeDescriptor.arrays.find(a => a.name === this.arrayName)?.type.properties.map(p => p.name) ?? [];
+        const clash = scopeDescriptor.properties.find(p => p.kind === 'aggregate' && childNames.includes(p.name));
+        if (clash) {
+            throw new Error(`FlattenStep: aggregate "${clash.name}" has the name of a property of the items of "${this.arrayName}"`);
+        }
+
+        // Register for parent events at the scope level
+        this.input.onAdded(this.scopeSegments, (keyPath, key, immutableProps) => {
+            this.handleParentAdded(keyPath, key, immutableProps);
+        });
+        this.input.onRemoved(this.scopeSegments, (keyPath, key) => {
+            this.handleParentRemoved(keyPath, key);
+        });
+        this.input.onUpdated(this.scopeSegments, (keyPath, key, oldImmutableProps, newImmutableProps) => {
+            this.handleParentUpdated(keyPath, key, newImmutableProps);
+        });
+        this.input.onModified(this.scopeSegments, (keyPath, key, name, value) => {
+            this.handleParentModified(keyPath, key, name, value);
+        });
+
+        // Register for child events at the array level
+        this.input.onAdded(childSegments, (keyPath, key, immutableProps) => {
+            this.handleChildAdded(keyPath, key, immutableProps);
+        });
+        this.input.onRemoved(childSegments, (keyPath, key) => {
+            this.handleChildRemoved(keyPath, key);
+        });
+        this.input.onUpdated(childSegments, (keyPath, key, oldImmutableProps, newImmutableProps) => {
+            this.handleChildUpdated(keyPath, key, newImmutableProps);
+        });
+        this.input.onModified(childSegments, (keyPath, key, name, value) => {
+            const parent = this.getParent(keyPath);
+            this.modifiedHandlers.forEach(handler => handler(parent.keyPath, computeCompositeKey(parent.key, key), name, value));
+        });
+    }
+
+    getTypeDescriptor(): TypeDescriptor {
+        return transformDescriptorAt(this.input.getTypeDescriptor(), this.scopeSegments, descriptor => this.flattenDescriptor(descriptor));
+    }
+
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        return { kind: 'flatten', scope: this.scopeSegments, parameters: { array: this.arrayName } };
+    }
+
+    saveState(): unknown {
+        return {
+            parents: mapToRecord(this.parents, parent => ({
+                keyPath: parent.keyPath,
+                key: parent.key,
+                immutableProps: parent.immutableProps,
+                modifiedValues: mapToRecord(parent.modifiedValues),
+                children: mapToRecord(parent.children)
+            }))
+        };
+    }
+
+    restoreState(state: unknown): void {
+        const saved = state as {
+            parents: Record<string, Omit<ParentState, 'modifiedValues' | 'children'> & {
+                modifiedValues: Record<string, any>,
+                children: Record<string, ImmutableProps>
+            }>
+        };
+        this.parents = new UndoableMap(copyParentState, recordToMap(saved.parents, parent => ({
+            keyPath: parent.keyPath,
+            key: parent.key,
+            immutableProps: parent.immutableProps,
+            modifiedValues: new UndoableMap(undefined, recordToMap(parent.modifiedValues)),
+            children: new UndoableMap(undefined, recordToMap(parent.children))
+        })));
+    }
+
+    /**
+     * Replaces the parent level with the child level. The parent's scalar
+     * properties are merged into the child's.
+     */
+    private flattenDescriptor(descriptor: TypeDescriptor): TypeDescriptor {
+        const arrayDesc = descriptor.arrays.find(a => a.name === this.arrayName);
+        if (!arrayDesc) {
+            throw new Error(`FlattenStep: array "${this.arrayName}" not found`);
+        }
+        const childNames = arrayDesc.type.properties.map(p => p.name);
+        return {
+            ...arrayDesc.type,
+            properties: [
+                ...descriptor.properties.filter(p => !childNames.includes(p.name)),
+                ...arrayDesc.type.properties
+            ]
+        };
+    }
+
+    /**
+     * Navigates the input type descriptor to the scope segments.
+     */
+    private getScopeDescriptor(): TypeDescriptor {
+        let descriptor = this.input.getTypeDescriptor();
+        for (const segment of this.scopeSegments) {
+            const arrayDesc = descriptor.arrays.find(a => a.name === segment);
+            if (!arrayDesc) {
+                return { arrays: [], properties: [] };
+            }
+            descriptor = arrayDesc.type;
+        }
+        return descriptor;
+    }
+
+    onAdded(pathSegments: string[], handler: AddedHandler): void {
+        if (this.isAtScopeSegments(pathSegments)) {
+            this.addedHandlers.push(handler);
+        } else if (this.isBelowScopeSegments(pathSegments)) {
+            this.input.onAdded(this.toInputSegments(pathSegments), (keyPath, key, immutableProps) => {
+                handler(this.toOutputKeyPath(keyPath), key, immutableProps);
+            });
+        } else {
+            this.input.onAdded(pathSegments, handler);
+        }
+    }
+
+    onRemoved(pathSegments: string[], handler: RemovedHandler): void {
+        if (this.isAtScopeSegments(pathSegments)) {
+            this.removedHandlers.push(handler);
+        } else if (this.isBelowScopeSegments(pathSegments)) {
+            this.input.onRemoved(this.toInputSegments(pathSegments), (keyPath, key, immutableProps) => {
+                handler(this.toOutputKeyPath(keyPath), key, immutableProps);
+            });
+        } else {
+            this.input.onRemoved(pathSegments, handler);
+        }
+    }
+
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        if (this.isAtScopeSegments(pathSegments)) {
+            this.updatedHandlers.push(handler);
+        } else if (this.isBelowScopeSegments(pathSegments)) {
+            this.input.onUpdated(this.toInputSegments(pathSegments), (keyPath, key, oldImmutableProps, newImmutableProps) => {
+                handler(this.toOutputKeyPath(keyPath), key, oldImmutableProps, newImmutableProps);
+            });
+        } else {
+            this.input.onUpdated(pathSegments, handler);
+        }
+    }
+
+    onModified(pathSegments: string[], handler: ModifiedHandler): void {
+        if (this.isAtScopeSegments(pathSegments)) {
+            this.modifiedHandlers.push(handler);
+        } else if (this.isBelowScopeSegments(pathSegments)) {
+            this.input.onModified(this.toInputSegments(pathSegments), (keyPath, key, name, value) => {
+                handler(this.toOutputKeyPath(keyPath), key, name, value);
+            });
+        } else {
+            this.input.onModified(pathSegments, handler);
+        }
+    }
+
+    private isAtScopeSegments(pathSegments: string[]): boolean {
+        return pathsMatch(pathSegments, this.scopeSegments);
+    }
+
+    private isBelowScopeSegments(pathSegments: string[]): boolean {
+        return pathSegments.length > this.scopeSegments.length && pathStartsWith(pathSegments, this.scopeSegments);
+    }
+
+    /**
+     * Maps output path segments below the scope to the input's child array.
+     */
+    private toInputSegments(pathSegments: string[]): string[] {
+        return [
+            ...this.scopeSegments,
+            this.arrayName,
+            ...pathSegments.slice(this.scopeSegments.length)
+        ];
+    }
+
+    /**
+     * Replaces the parent and child keys in an input key path with the composite key.
+     */
+    private toOutputKeyPath(keyPath: string[]): string[] {
+        const depth = this.scopeSegments.length;
+        return [
+            ...keyPath.slice(0, depth),
+            computeCompositeKey(keyPath[depth], keyPath[depth + 1]),
+            ...keyPath.slice(depth + 2)
+        ];
+    }
+
+    private getParent(childKeyPath: string[]): ParentState {
+        const parent = this.parents.get(computeKeyPathHash(childKeyPath));
+        if (!parent) {
+            throw new Error(`FlattenStep: parent with key path "${computeKeyPathHash(childKeyPath)}" not found`);
+        }
+        return parent;
+    }
+
+    private merge(parent: ParentState, childProps: ImmutableProps): ImmutableProps {
+        return { ...parent.immutableProps, ...childProps };
+    }
+
+    private handleParentAdded(keyPath: string[], key: string, immutableProps: ImmutableProps): void {
+        this.parents.set(computeKeyPathHash([...keyPath, key]), {
+            keyPath,
+            key,
+            immutableProps,
+            modifiedValues: new UndoableMap(),
+            children: new UndoableMap()
+        });
+    }
+
+    private handleParentRemoved(keyPath: string[], key: string): void {
+        const parentHash = computeKeyPathHash([...keyPath, key]);
+        const parent = this.parents.get(parentHash);
+        if (!parent) {
+            throw new Error(`FlattenStep: parent with key "${key}" not found`);
+        }
+        // Remove any children that were not removed before their parent
+        for (const [childKey, childProps] of parent.children) {
+            this.removedHandlers.forEach(handler => handler(keyPath, computeCompositeKey(key, childKey), this.merge(parent, childProps)));
+        }
+        this.parents.delete(parentHash);
+    }
+
+    private handleParentUpdated(keyPath: string[], key: string, newImmutableProps: ImmutableProps): void {
+        const parent = this.getParent([...keyPath, key]);
+        const oldParent = { ...parent };
+        parent.immutableProps = newImmutableProps;
+        for (const [childKey, childProps] of parent.children) {
+            this.updatedHandlers.forEach(handler => handler(
+                keyPath,
+                computeCompositeKey(key, childKey),
+                this.merge(oldParent, childProps),
+                this.merge(parent, childProps)
+            ));
+        }
+    }
+
+    private handleParentModified(keyPath: string[], key: string, name: string, value: any): void {
+        const parent = this.getParent([...keyPath, key]);
+        parent.modifiedValues.set(name, value);
+        for (const [childKey, childProps] of parent.children) {
+            if (name in childProps) {
+                // The child's own property wins
+                continue;
+            }
+            this.modifiedHandlers.forEach(handler => handler(keyPath, computeCompositeKey(key, childKey), name, value));
+        }
+    }
+
+    private handleChildAdded(keyPath: string[], key: string, immutableProps: ImmutableProps): void {
+        const parent = this.getParent(keyPath);
+        parent.children.set(key, immutableProps);
+        const compositeKey = computeCompositeKey(parent.key, key);
+        this.addedHandlers.forEach(handler => handler(parent.keyPath, compositeKey, this.merge(parent, immutableProps)));
+        // Bring the new item up to date with the parent's mutable properties
+        for (const [name, value] of parent.modifiedValues) {
+            if (name in immutableProps) {
+                continue;
+            }
+            this.modifiedHandlers.forEach(handler => handler(parent.keyPath, compositeKey, name, value));
+        }
+    }
+
+    private handleChildRemoved(keyPath: string[], key: string): void {
+        const parent = this.getParent(keyPath);
+        const childProps = parent.children.get(key);
+        if (!childProps) {
+            throw new Error(`FlattenStep: item with key "${key}" not found`);
+        }
+        parent.children.delete(key);
+        this.removedHandlers.forEach(handler => handler(parent.keyPath, computeCompositeKey(parent.key, key), this.merge(parent, childProps)));
+    }
+
+    private handleChildUpdated(keyPath: string[], key: string, newImmutableProps: ImmutableProps): void {
+        const parent = this.getParent(keyPath);
+        const oldChildProps = parent.children.get(key);
+        if (!oldChildProps) {
+            throw new Error(`FlattenStep: item with key "${key}" not found`);
+        }
+        parent.children.set(key, newImmutableProps);
+        this.updatedHandlers.forEach(handler => handler(
+            parent.keyPath,
+            computeCompositeKey(parent.key, key),
+            this.merge(parent, oldChildProps),
+            this.merge(parent, newImmutableProps)
+        ));
+    }
+}
@@ -1,19 +1,23 @@
-import type { AddedHandler, ImmutableProps, RemovedHandler, Step } from '../pipeline';
+import type { AddedHandler, ImmutableProps, RemovedHandler, Step, StepDescription, UpdatedHandler } from '../pipeline';
 import { type TypeDescriptor } from '../pipeline';
 import { computeGroupKey } from "../util/hash";
 import { pathsMatch, pathStartsWith } from "../util/path";
+import { mapToRecord, recordToMap } from '../util/serialization';
+import { withoutProperties } from '../util/type-descriptor';
+import { UndoableMap, UndoableSet } from '../util/undo-log';
 
 export class GroupByStep<T extends {}, K extends keyof T, ArrayName extends string> implements Step {
     groupAddedHandlers: AddedHandler[] = [];
     itemAddedHandlers: AddedHandler[] = [];
     groupRemovedHandlers: RemovedHandler[] = [];
     itemRemovedHandlers: RemovedHandler[] = [];
+    itemUpdatedHandlers: UpdatedHandler[] = [];
 
-    itemKeyToGroupKey: Map<string, string> = new Map<string, string>();
-    groupKeyToItemKeys: Map<string, Set<string>> = new Map<string, Set<string>>();
+    itemKeyToGroupKey: Map<string, string> = new UndoableMap<string>();
+    groupKeyToItemKeys: Map<string, Set<string>> = new UndoableMap<Set<string>>();
     
     // Maps item key to its parent key path for correct emission
-    itemKeyToParentKeyPath: Map<string, string[]> = new Map<string, string[]>();
+    itemKeyToParentKeyPath: Map<string, string[]> = new UndoableMap<string[]>();
 
     constructor(
         private input: Step,
@@ -28,6 +32,9 @@ export class GroupByStep<T extends {}, K extends keyof T, ArrayName extends stri
         this.input.onRemoved(this.scopeSegments, (keyPath, itemKey, immutableProps) => {
             this.handleRemoved(keyPath, itemKey, immutableProps);
         });
+        this.input.onUpdated(this.scopeSegments, (keyPath, itemKey, oldImmutableProps, newImmutableProps) => {
+            this.handleUpdated(keyPath, itemKey, oldImmutableProps, newImmutableProps);
+        });
     }
 
     getTypeDescriptor(): TypeDescriptor {
@@ -35,39 +42,70 @@ export class GroupByStep<T extends {}, K extends keyof T, ArrayName extends stri
         
         if (this.scopeSegments.length === 0) {
             // Root level: wrap with the new array
-            return {
-                arrays: [
-                    {
-                        name: this.arrayName,
-                        type: inputDescriptor  // Items have the input type
-                    }
-                ]
-            };
+            return this.describeGroups(inputDescriptor);
         } else {
             // Scoped level: navigate to scope and transform there
             return this.transformDescriptorAtPath(inputDescriptor, [...this.scopeSegments]);
         }
     }
+
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        return { kind: 'groupBy', scope: this.scopeSegments, parameters: { by: this.groupingProperties, as: this.arrayName } };
+    }
+
+    saveState(): unknown {
+        return {
+            itemKeyToGroupKey: mapToRecord(this.itemKeyToGroupKey),
+            groupKeyToItemKeys: mapToRecord(this.groupKeyToItemKeys, itemKeys => [...itemKeys]),
+            itemKeyToParentKeyPath: mapToRecord(this.itemKeyToParentKeyPath)
+        };
+    }
+
+    restoreState(state: unknown): void {
+        const saved = state as {
+            itemKeyToGroupKey: Record<string, string>,
+            groupKeyToItemKeys: Record<string, string[]>,
+            itemKeyToParentKeyPath: Record<string, string[]>
+        };
+        this.itemKeyToGroupKey = new UndoableMap(undefined, recordToMap(saved.itemKeyToGroupKey));
+        this.groupKeyToItemKeys = new UndoableMap(undefined, recordToMap(saved.groupKeyToItemKeys, itemKeys => new UndoableSet(itemKeys)));
+        this.itemKeyToParentKeyPath = new UndoableMap(undefined, recordToMap(saved.itemKeyToParentKeyPath));
+    }
     
+    /**
+     * Describes the groups that items of a descriptor are gathered into: the
+     * grouping properties, and the array of items with their other properties.
+     */
+    private describeGroups(descriptor: TypeDescriptor): TypeDescriptor {
+        const groupingNames = this.groupingProperties.map(String);
+        return {
+            arrays: [
+                {
+                    name: this.arrayName,
+                    type: withoutProperties(descriptor, groupingNames)
+                }
+            ],
+            properties: groupingNames.map(name => descriptor.properties.find(p => p.name === name) ?? { name, kind: 'immutable' })
+        };
+    }
+
     /**
      * Transforms the type descriptor at the specified path to add the groupBy result.
      */
     private transformDescriptorAtPath(descriptor: TypeDescriptor, remainingSegments: string[]): TypeDescriptor {
         if (remainingSegments.length === 0) {
             // We're at the target level - wrap with new array
-            return {
-                arrays: [
-                    {
-                        name: this.arrayName,
-                        type: descriptor
-                    }
-                ]
-            };
+            return this.describeGroups(descriptor);
         }
         
         const [currentSegment, ...remainingSegmentsAfter] = remainingSegments;
         
         return {
+            ...descriptor,
             arrays: descriptor.arrays.map(arrayDesc => {
                 if (arrayDesc.name === currentSegment) {
                     return {
@@ -145,6 +183,36 @@ export class GroupByStep<T extends {}, K extends keyof T, ArrayName extends stri
         }
     }
 
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        if (this.isAtGroupLevel(pathSegments)) {
+            // Groups are identified by their grouping values, so they are never updated
+        } else if (this.isAtItemLevel(pathSegments)) {
+            // Handler is at the item level
+            this.itemUpdatedHandlers.push(handler);
+        } else if (this.isBelowItemLevel(pathSegments)) {
+            // Handler is below this array in the tree
+            const scopeAndArraySegments = [...this.scopeSegments, this.arrayName];
+            const shiftedSegments = pathSegments.slice(scopeAndArraySegments.length);
+            
+            // Register interceptor with input at scope segments + shifted segments
+            this.input.onUpdated([...this.scopeSegments, ...shiftedSegments], (notifiedKeyPath, itemKey, oldImmutableProps, newImmutableProps) => {
+                const itemKeyAtScope = notifiedKeyPath[this.scopeSegments.length];
+                const groupKey = this.itemKeyToGroupKey.get(itemKeyAtScope);
+                if (groupKey === undefined) {
+                    throw new Error(`GroupByStep: item with key "${itemKeyAtScope}" not found when handling nested path update notification`);
+                }
+                const modifiedKeyPath = [
+                    ...notifiedKeyPath.slice(0, this.scopeSegments.length),
+                    groupKey,
+                    ...notifiedKeyPath.slice(this.scopeSegments.length)
+                ];
+                handler(modifiedKeyPath, itemKey, oldImmutableProps, newImmutableProps);
+            });
+        } else {
+            this.input.onUpdated(pathSegments, handler);
+        }
+    }
+
     onModified(pathSegments: string[], handler: (keyPath: string[], key: string, name: string, value: any) => void): void {
         if (this.isAtGroupLevel(pathSegments)) {
             // The group level is immutable
@@ -153,7 +221,8 @@ export class GroupByStep<T extends {}, K extends keyof T, ArrayName extends stri
             const scopeAndArraySegments = [...this.scopeSegments, this.arrayName];
             const shiftedSegments = pathSegments.slice(scopeAndArraySegments.length);
             this.input.onModified([...this.scopeSegments, ...shiftedSegments], (notifiedKeyPath, itemKey, name, value) => {
-                const itemKeyAtScope = notifiedKeyPath[this.scopeSegments.length];
+                // A modification of the item itself has no key of it in the key path
+                const itemKeyAtScope = shiftedSegments.length === 0 ? itemKey : notifiedKeyPath[this.scopeSegments.length];
                 const groupKey = this.itemKeyToGroupKey.get(itemKeyAtScope);
                 if (groupKey === undefined) {
                     throw new Error(`GroupByStep: item with key "${itemKeyAtScope}" not found when handling nested path modification notification`);
@@ -214,7 +283,7 @@ export class GroupByStep<T extends {}, K extends keyof T, ArrayName extends stri
         // Add item key to group's set
         const isNewGroup = !this.groupKeyToItemKeys.has(groupKey);
         if (isNewGroup) {
-            this.groupKeyToItemKeys.set(groupKey, new Set<string>());
+            this.groupKeyToItemKeys.set(groupKey, new UndoableSet());
             // Notify the group handlers of the new group object at the parent key path
                 this.groupAddedHandlers.forEach(handler => handler(parentKeyPath, groupKey, groupingValues));
         }
@@ -279,5 +348,68 @@ export class GroupByStep<T extends {}, K extends keyof T, ArrayName extends stri
             }
         }
     }
-}
 
+    private handleUpdated(keyPath: string[], itemKey: string, oldImmutableProps: ImmutableProps, newImmutableProps: ImmutableProps) {
+        const parentKeyPath = this.itemKeyToParentKeyPath.get(itemKey) || keyPath;
+        
+        const oldGroupKey = this.itemKeyToGroupKey.get(itemKey);
+        if (oldGroupKey === undefined) {
+            throw new Error(`GroupByStep: item with key "${itemKey}" not found`);
+        }
+        
+        const newGroupingValues = this.extractGroupingValues(newImmutableProps);
+        const newGroupKey = computeGroupKey(newGroupingValues, this.groupingProperties.map(prop => prop.toString()));
+        
+        if (newGroupKey === oldGroupKey) {
+            // Same group: forward the change to the item
+            this.itemUpdatedHandlers.forEach(handler => handler(
+                [...parentKeyPath, oldGroupKey],
+                itemKey,
+                this.extractNonGroupingProps(oldImmutableProps),
+                this.extractNonGroupingProps(newImmutableProps)
+            ));
+            return;
+        }
+        
+        // Grouping values changed: move the item to its new group.
+        // Add to the new group before removing from the old one so the item is never absent.
+        const isNewGroup = !this.groupKeyToItemKeys.has(newGroupKey);
+        if (isNewGroup) {
+            this.groupKeyToItemKeys.set(newGroupKey, new UndoableSet());
+            this.groupAddedHandlers.forEach(handler => handler(parentKeyPath, newGroupKey, newGroupingValues));
+        }
+        this.groupKeyToItemKeys.get(newGroupKey)!.add(itemKey);
+        this.itemKeyToGroupKey.set(itemKey, newGroupKey);
+        this.itemAddedHandlers.forEach(handler => handler([...parentKeyPath, newGroupKey], itemKey, this.extractNonGroupingProps(newImmutableProps)));
+        
+        this.itemRemovedHandlers.forEach(handler => handler([...parentKeyPath, oldGroupKey], itemKey, this.extractNonGroupingProps(oldImmutableProps)));
+        const oldItemKeys = this.groupKeyToItemKeys.get(oldGroupKey);
+        if (oldItemKeys) {
+            oldItemKeys.delete(itemKey);
+            if (oldItemKeys.size === 0) {
+                this.groupRemovedHandlers.forEach(handler => handler(parentKeyPath, oldGroupKey, this.extractGroupingValues(oldImmutableProps)));
+                this.groupKeyToItemKeys.delete(oldGroupKey);
+            }
+        }
+    }
+
+    private extractGroupingValues(immutableProps: ImmutableProps): ImmutableProps {
+        let groupingValues: ImmutableProps = {};
+        Object.keys(immutableProps).forEach(prop => {
+            if (this.groupingProperties.includes(prop as K)) {
+                groupingValues[prop] = immutableProps[prop];
+            }
+        });
+        return groupingValues;
+    }
+
+    private extractNonGroupingProps(immutableProps: ImmutableProps): ImmutableProps {
+        let nonGroupingProps: ImmutableProps = {};
+        Object.keys(immutableProps).forEach(prop => {
+            if (!this.groupingProperties.includes(prop as K)) {
+                nonGroupingProps[prop] = immutableProps[prop];
+            }
+        });
+        return nonGroupingProps;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,373 @@
+import { getPathSegmentsFromDescriptor, type AddedHandler, type ImmutableProps, type ModifiedHandler, type RemovedHandler, type Step, type StepDescription, type TypeDescriptor, type UpdatedHandler } from '../pipeline';
+import { pathStartsWith } from '../util/path';
+import { mapToRecord, recordToMap } from '../util/serialization';
+import { UndoableMap } from '../util/undo-log';
+import { callUserFunction } from '../util/user-function';
+
+/**
+ * Computes a hash key for a key path (for map lookups).
+ */
+function computeKeyPathHash(keyPath: string[]): string {
+    return keyPath.join('::');
+}
+
+/**
+ * Computes a hash key for path segments (for handler lookups).
+ */
+function computePathSegmentsHash(pathSegments: string[]): string {
+    return JSON.stringify(pathSegments);
+}
+
+/**
+ * Computes a hash key for an item below the scope (for map lookups).
+ */
+function computeNodeHash(pathSegments: string[], keyPath: string[], key: string): string {
+    return JSON.stringify([pathSegments, keyPath, key]);
+}
+
+/**
+ * An item at or below the scope, as last seen from the input.
+ */
+interface ItemNode {
+    pathSegments: string[];
+    keyPath: string[];
+    key: string;
+    immutableProps: ImmutableProps;
+    /** Latest values of mutable properties (aggregates), by name */
+    mutableProps: Map<string, any>;
+}
+
+/**
+ * An item at the scope, with everything below it.
+ */
+interface ScopeItemState {
+    node: ItemNode;
+    /** Whether the item currently satisfies the predicate */
+    passing: boolean;
+    /** Items below the scope item, parents before children */
+    descendants: Map<string, ItemNode>;
+}
+
+function copyNode(node: ItemNode): ItemNode {
+    return { ...node, mutableProps: new Map(node.mutableProps) };
+}
+
+/**
+ * Copies a scope item with everything below it, keeping the order of its descendants.
+ */
+function copyScopeItem(state: ScopeItemState): ScopeItemState {
+    return {
+        node: copyNode(state.node),
+        passing: state.passing,
+        descendants: new Map(Array.from(state.descendants, ([hash, node]) => [hash, copyNode(node)]))
+    };
+}
+
+/**
+ * A step that filters items on their aggregate values as well as their immutable properties.
+ *
+ * Unlike FilterStep, the predicate sees the latest value of every mutable
+ * property at the scope, and is evaluated again whenever one changes.
+ * To do so, the step keeps a copy of each item and its subtree. When an item
+ * starts satisfying the predicate, it is added along with its current
+ * aggregates and subtree; when it stops, its subtree and then the item are removed.
+ */
+export class HavingStep<T> implements Step {
+    private addedHandlers: Map<string, AddedHandler[]> = new Map();
+    private removedHandlers: Map<string, RemovedHandler[]> = new Map();
+    private updatedHandlers: Map<string, UpdatedHandler[]> = new Map();
+    private modifiedHandlers: Map<string, ModifiedHandler[]> = new Map();
+
+    /** Maps scope item key path hash to the item and its subtree */
+    private scopeItems: Map<string, ScopeItemState> = new UndoableMap(copyScopeItem);
+
+    constructor(
+        private input: Step,
+        private predicate: (item: T) => boolean,
+        private scopeSegments: string[]
+    ) {
+        // Register with the input step for every level at and below the scope
+        for (const relativeSegments of getPathSegmentsFromDescriptor(this.getScopeDescriptor())) {
+            const pathSegments = [...this.scopeSegments, ...relativeSegments];
+            const atScope = relativeSegments.length === 0;
+            this.input.onAdded(pathSegments, (keyPath, key, immutableProps) => {
+                if (atScope) {
+                    this.handleScopeAdded(keyPath, key, immutableProps);
+                } else {
+                    this.handleDescendantAdded(pathSegments, keyPath, key, immutableProps);
+                }
+            });
+            this.input.onRemoved(pathSegments, (keyPath, key, immutableProps) => {
+                if (atScope) {
+                    this.handleScopeRemoved(keyPath, key);
+                } else {
+                    this.handleDescendantRemoved(pathSegments, keyPath, key, immutableProps);
+                }
+            });
+            this.input.onUpdated(pathSegments, (keyPath, key, oldImmutableProps, newImmutableProps) => {
+                if (atScope) {
+                    this.handleScopeUpdated(keyPath, key, oldImmutableProps, newImmutableProps);
+                } else {
+                    this.handleDescendantUpdated(pathSegments, keyPath, key, oldImmutableProps, newImmutableProps);
+                }
+            });
+            this.input.onModified(pathSegments, (keyPath, key, name, value) => {
+                if (atScope) {
+                    this.handleScopeModified(keyPath, key, name, value);
+                } else {
+                    this.handleDescendantModified(pathSegments, keyPath, key, name, value);
+                }
+            });
+        }
+    }
+
+    getTypeDescriptor(): TypeDescriptor {
+        return this.input.getTypeDescriptor();
+    }
+
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        return { kind: 'having', scope: this.scopeSegments, parameters: { predicate: this.predicate } };
+    }
+
+    saveState(): unknown {
+        const encodeNode = (node: ItemNode) => ({ ...node, mutableProps: mapToRecord(node.mutableProps) });
+        return {
+            scopeItems: mapToRecord(this.scopeItems, state => ({
+                node: encodeNode(state.node),
+                passing: state.passing,
+                descendants: mapToRecord(state.descendants, encodeNode)
+            }))
+        };
+    }
+
+    restoreState(state: unknown): void {
+        type SavedNode = Omit<ItemNode, 'mutableProps'> & { mutableProps: Record<string, any> };
+        const saved = state as { scopeItems: Record<string, { node: SavedNode, passing: boolean, descendants: Record<string, SavedNode> }> };
+        const decodeNode = (node: SavedNode): ItemNode => ({ ...node, mutableProps: recordToMap(node.mutableProps) });
+        this.scopeItems = new UndoableMap(copyScopeItem, recordToMap(saved.scopeItems, scopeItem => ({
+            node: decodeNode(scopeItem.node),
+            passing: scopeItem.passing,
+            descendants: recordToMap(scopeItem.descendants, decodeNode)
+        })));
+    }
+
+    onAdded(pathSegments: string[], handler: AddedHandler): void {
+        if (this.isAtOrBelowScopeSegments(pathSegments)) {
+            this.getHandlers(this.addedHandlers, pathSegments).push(handler);
+        } else {
+            this.input.onAdded(pathSegments, handler);
+        }
+    }
+
+    onRemoved(pathSegments: string[], handler: RemovedHandler): void {
+        if (this.isAtOrBelowScopeSegments(pathSegments)) {
+            this.getHandlers(this.removedHandlers, pathSegments).push(handler);
+        } else {
+            this.input.onRemoved(pathSegments, handler);
+        }
+    }
+
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        if (this.isAtOrBelowScopeSegments(pathSegments)) {
+            this.getHandlers(this.updatedHandlers, pathSegments).push(handler);
+        } else {
+            this.input.onUpdated(pathSegments, handler);
+        }
+    }
+
+    onModified(pathSegments: string[], handler: ModifiedHandler): void {
+        if (this.isAtOrBelowScopeSegments(pathSegments)) {
+            this.getHandlers(this.modifiedHandlers, pathSegments).push(handler);
+        } else {
+            this.input.onModified(pathSegments, handler);
+        }
+    }
+
+    private getScopeDescriptor(): TypeDescriptor {
+        let descriptor = this.input.getTypeDescriptor();
+        for (const segment of this.scopeSegments) {
+            const arrayDesc = descriptor.arrays.find(a => a.name === segment);
+            if (!arrayDesc) {
+                throw new Error(`HavingStep: array "${segment}" not found`);
+            }
+            descriptor = arrayDesc.type;
+        }
+        return descriptor;
+    }
+
+    private isAtOrBelowScopeSegments(pathSegments: string[]): boolean {
+        return pathStartsWith(pathSegments, this.scopeSegments);
+    }
+
+    private getHandlers<THandler>(handlers: Map<string, THandler[]>, pathSegments: string[]): THandler[] {
+        const pathSegmentsHash = computePathSegmentsHash(pathSegments);
+        let list = handlers.get(pathSegmentsHash);
+        if (!list) {
+            list = [];
+            handlers.set(pathSegmentsHash, list);
+        }
+        return list;
+    }
+
+    /**
+     * Finds the scope item that a descendant belongs to.
+     */
+    private getOwner(keyPath: string[]): ScopeItemState | undefined {
+        return this.scopeItems.get(computeKeyPathHash(keyPath.slice(0, this.scopeSegments.length + 1)));
+    }
+
+    private passes(node: ItemNode): boolean {
+        return callUserFunction(this, this.predicate, { ...node.immutableProps, ...Object.fromEntries(node.mutableProps) } as T);
+    }
+
+    private handleScopeAdded(keyPath: string[], key: string, immutableProps: ImmutableProps): void {
+        const node: ItemNode = { pathSegments: this.scopeSegments, keyPath, key, immutableProps, mutableProps: new Map() };
+        const state: ScopeItemState = { node, passing: this.passes(node), descendants: new Map() };
+        this.scopeItems.set(computeKeyPathHash([...keyPath, key]), state);
+        if (state.passing) {
+            this.emitAdded(node);
+        }
+    }
+
+    private handleScopeRemoved(keyPath: string[], key: string): void {
+        const scopeItemHash = computeKeyPathHash([...keyPath, key]);
+        const state = this.scopeItems.get(scopeItemHash);
+        if (!state) {
+            return;
+        }
+        if (state.passing) {
+            this.emitSubtreeRemoved(state);
+        }
+        this.scopeItems.delete(scopeItemHash);
+    }
+
+    private handleScopeUpdated(keyPath: string[], key: string, oldImmutableProps: ImmutableProps, newImmutableProps: ImmutableProps): void {
+        const state = this.scopeItems.get(computeKeyPathHash([...keyPath, key]));
+        if (!state) {
+            return;
+        }
+        const wasPassing = state.passing;
+        state.node.immutableProps = newImmutableProps;
+        state.passing = this.passes(state.node);
+        if (wasPassing && state.passing) {
+            const handlers = this.updatedHandlers.get(computePathSegmentsHash(this.scopeSegments)) ?? [];
+            handlers.forEach(handler => handler(keyPath, key, oldImmutableProps, newImmutableProps));
+        } else if (wasPassing) {
+            this.emitSubtreeRemoved(state, oldImmutableProps);
+        } else if (state.passing) {
+            this.emitSubtreeAdded(state);
+        }
+    }
+
+    private handleScopeModified(keyPath: string[], key: string, name: string, value: any): void {
+        const state = this.scopeItems.get(computeKeyPathHash([...keyPath, key]));
+        if (!state) {
+            return;
+        }
+        const wasPassing = state.passing;
+        state.node.mutableProps.set(name, value);
+        state.passing = this.passes(state.node);
+        if (wasPassing && state.passing) {
+            this.emitModified(state.node, name, value);
+        } else if (wasPassing) {
+            this.emitSubtreeRemoved(state);
+        } else if (state.passing) {
+            this.emitSubtreeAdded(state);
+        }
+    }
+
+    private handleDescendantAdded(pathSegments: string[], keyPath: string[], key: string, immutableProps: ImmutableProps): void {
+        const owner = this.getOwner(keyPath);
+        if (!owner) {
+            return;
+        }
+        const node: ItemNode = { pathSegments, keyPath, key, immutableProps, mutableProps: new Map() };
+        owner.descendants.set(computeNodeHash(pathSegments, keyPath, key), node);
+        if (owner.passing) {
+            this.emitAdded(node);
+        }
+    }
+
+    private handleDescendantRemoved(pathSegments: string[], keyPath: string[], key: string, immutableProps: ImmutableProps): void {
+        const owner = this.getOwner(keyPath);
+        if (!owner) {
+            return;
+        }
+        const nodeHash = computeNodeHash(pathSegments, keyPath, key);
+        const node = owner.descendants.get(nodeHash);
+        if (!node) {
+            return;
+        }
+        owner.descendants.delete(nodeHash);
+        if (owner.passing) {
+            this.emitRemoved(node);
+        }
+    }
+
+    private handleDescendantUpdated(pathSegments: string[], keyPath: string[], key: string, oldImmutableProps: ImmutableProps, newImmutableProps: ImmutableProps): void {
+        const owner = this.getOwner(keyPath);
+        const node = owner?.descendants.get(computeNodeHash(pathSegments, keyPath, key));
+        if (!owner || !node) {
+            return;
+        }
+        node.immutableProps = newImmutableProps;
+        if (owner.passing) {
+            const handlers = this.updatedHandlers.get(computePathSegmentsHash(pathSegments)) ?? [];
+            handlers.forEach(handler => handler(keyPath, key, oldImmutableProps, newImmutableProps));
+        }
+    }
+
+    private handleDescendantModified(pathSegments: string[], keyPath: string[], key: string, name: string, value: any): void {
+        const owner = this.getOwner(keyPath);
+        const node = owner?.descendants.get(computeNodeHash(pathSegments, keyPath, key));
+        if (!owner || !node) {
+            return;
+        }
+        node.mutableProps.set(name, value);
+        if (owner.passing) {
+            this.emitModified(node, name, value);
+        }
+    }
+
+    /**
+     * Adds the scope item, then its descendants from the top down, each with its current mutable properties.
+     */
+    private emitSubtreeAdded(state: ScopeItemState): void {
+        this.emitAdded(state.node);
+        for (const node of state.descendants.values()) {
+            this.emitAdded(node);
+        }
+    }
+
+    /**
+     * Removes the descendants of the scope item from the bottom up, then the item itself.
+     */
+    private emitSubtreeRemoved(state: ScopeItemState, immutableProps: ImmutableProps = state.node.immutableProps): void {
+        for (const node of [...state.descendants.values()].reverse()) {
+            this.emitRemoved(node);
+        }
+        this.emitRemoved({ ...state.node, immutableProps });
+    }
+
+    private emitAdded(node: ItemNode): void {
+        const handlers = this.addedHandlers.get(computePathSegmentsHash(node.pathSegments)) ?? [];
+        handlers.forEach(handler => handler(node.keyPath, node.key, node.immutableProps));
+        for (const [name, value] of node.mutableProps) {
+            this.emitModified(node, name, value);
+        }
+    }
+
+    private emitRemoved(node: ItemNode): void {
+        const handlers = this.removedHandlers.get(computePathSegmentsHash(node.pathSegments)) ?? [];
+        handlers.forEach(handler => handler(node.keyPath, node.key, node.immutableProps));
+    }
+
+    private emitModified(node: ItemNode, name: string, value: any): void {
+        const handlers = this.modifiedHandlers.get(computePathSegmentsHash(node.pathSegments)) ?? [];
+        handlers.forEach(handler => handler(node.keyPath, node.key, name, value));
+    }
+}
@@ -0,0 +1,386 @@
+import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, Step, StepDescription, TypeDescriptor, UpdatedHandler } from '../pipeline';
+import { pathsMatch } from '../util/path';
+import { mapToRecord, recordToMap } from '../util/serialization';
+import { transformDescriptorAt } from '../util/type-descriptor';
+import { UndoableMap, UndoableSet } from '../util/undo-log';
+import { callUserFunction } from '../util/user-function';
+
+/**
+ * The kind of join performed by a JoinStep.
+ *
+ * - `inner`: left items appear only while they have at least one matching right item
+ * - `left`: every left item appears; its array is absent until something matches
+ */
+export type JoinType = 'inner' | 'left';
+
+/**
+ * Selects the value that items are matched on.
+ * Items whose join key is null or undefined never match.
+ */
+export type JoinKeySelector<T> = (item: T) => unknown;
+
+interface LeftItem {
+    keyPath: string[];
+    key: string;
+    immutableProps: ImmutableProps;
+    joinKey: string | undefined;
+}
+
+interface RightItem {
+    immutableProps: ImmutableProps;
+    joinKey: string | undefined;
+}
+
+/**
+ * Computes a hash key for a key path (for map lookups).
+ */
+function computeKeyPathHash(keyPath: string[]): string {
+    return keyPath.join('::');
+}
+
+/**
+ * Canonicalizes a join key so that values of different types do not collide.
+ */
+function canonicalizeJoinKey(value: unknown): string | undefined {
+    if (value === null || value === undefined) {
+        return undefined;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * A step that joins the items at its scope (the left side) with the root items
+ * of a second pipeline (the right side).
+ *
+ * Matching right items are emitted as a nested array of each left item.
+ * Matches are maintained incrementally as either side receives add, remove
+ * and update events.
+ *
+ * The right side must be flat (no nested arrays), since its items are replayed
+ * into each newly matching left item. For inner joins the left items must also
+ * be flat, since they come and go as matches appear and disappear.
+ */
+export class JoinStep<TLeft, TRight> implements Step {
+    private leftAddedHandlers: AddedHandler[] = [];
+    private leftRemovedHandlers: RemovedHandler[] = [];
+    private leftUpdatedHandlers: UpdatedHandler[] = [];
+    private childAddedHandlers: AddedHandler[] = [];
+    private childRemovedHandlers: RemovedHandler[] = [];
+    private childUpdatedHandlers: UpdatedHandler[] = [];
+
+    /** Maps left item key path hash to the left item */
+    private leftItems: Map<string, LeftItem> = new UndoableMap();
+
+    /** Maps join key to the hashes of the left items that have it */
+    private leftItemsByJoinKey: Map<string, Set<string>> = new UndoableMap();
+
+    /** Maps right item key to the right item */
+    private rightItems: Map<string, RightItem> = new UndoableMap();
+
+    /** Maps join key to the keys of the right items that have it */
+    private rightItemsByJoinKey: Map<string, Set<string>> = new UndoableMap();
+
+    constructor(
+        private input: Step,
+        private right: Step,
+        private arrayName: string,
+        private leftKeySelector: JoinKeySelector<TLeft>,
+        private rightKeySelector: JoinKeySelector<TRight>,
+        private joinType: JoinType,
+        private scopeSegments: string[]
+    ) {
+        if (this.right.getTypeDescriptor().arrays.length > 0) {
+            throw new Error('JoinStep: the right side of a join must not contain arrays');
+        }
+        if (this.joinType === 'inner' && this.getScopeDescriptor().arrays.length > 0) {
+            throw new Error('JoinStep: the left side of an inner join must not contain arrays');
+        }
+
+        this.input.onAdded(this.scopeSegments, (keyPath, key, immutableProps) => {
+            this.handleLeftAdded(keyPath, key, immutableProps);
+        });
+        this.input.onRemoved(this.scopeSegments, (keyPath, key, immutableProps) => {
+            this.handleLeftRemoved(keyPath, key, immutableProps);
+        });
+        this.input.onUpdated(this.scopeSegments, (keyPath, key, oldImmutableProps, newImmutableProps) => {
+            this.handleLeftUpdated(keyPath, key, oldImmutableProps, newImmutableProps);
+        });
+
+        this.right.onAdded([], (keyPath, key, immutableProps) => {
+            this.handleRightAdded(key, immutableProps);
+        });
+        this.right.onRemoved([], (keyPath, key, immutableProps) => {
+            this.handleRightRemoved(key, immutableProps);
+        });
+        this.right.onUpdated([], (keyPath, key, oldImmutableProps, newImmutableProps) => {
+            this.handleRightUpdated(key, oldImmutableProps, newImmutableProps);
+        });
+    }
+
+    getTypeDescriptor(): TypeDescriptor {
+        // The joined array has the items of the right pipeline
+        return transformDescriptorAt(this.input.getTypeDescriptor(), this.scopeSegments, descriptor => ({
+            ...descriptor,
+            arrays: [...descriptor.arrays, { name: this.arrayName, type: this.right.getTypeDescriptor() }]
+        }));
+    }
+
+    getInputs(): Step[] {
+        return [this.input, this.right];
+    }
+
+    describe(): StepDescription {
+        return {
+            kind: 'join',
+            scope: this.scopeSegments,
+            parameters: { as: this.arrayName, leftKey: this.leftKeySelector, rightKey: this.rightKeySelector, type: this.joinType }
+        };
+    }
+
+    saveState(): unknown {
+        return {
+            leftItems: mapToRecord(this.leftItems),
+            leftItemsByJoinKey: mapToRecord(this.leftItemsByJoinKey, keys => [...keys]),
+            rightItems: mapToRecord(this.rightItems),
+            rightItemsByJoinKey: mapToRecord(this.rightItemsByJoinKey, keys => [...keys])
+        };
+    }
+
+    restoreState(state: unknown): void {
+        const saved = state as {
+            leftItems: Record<string, LeftItem>,
+            leftItemsByJoinKey: Record<string, string[]>,
+            rightItems: Record<string, RightItem>,
+            rightItemsByJoinKey: Record<string, string[]>
+        };
+        this.leftItems = new UndoableMap(undefined, recordToMap(saved.leftItems));
+        this.leftItemsByJoinKey = new UndoableMap(undefined, recordToMap(saved.leftItemsByJoinKey, keys => new UndoableSet(keys)));
+        this.rightItems = new UndoableMap(undefined, recordToMap(saved.rightItems));
+        this.rightItemsByJoinKey = new UndoableMap(undefined, recordToMap(saved.rightItemsByJoinKey, keys => new UndoableSet(keys)));
+    }
+
+    /**
+     * Navigates the input type descriptor to the scope segments.
+     */
+    private getScopeDescriptor(): TypeDescriptor {
+        let descriptor = this.input.getTypeDescriptor();
+        for (const segment of this.scopeSegments) {
+            const arrayDesc = descriptor.arrays.find(a => a.name === segment);
+            if (!arrayDesc) {
+                return { arrays: [], properties: [] };
+            }
+            descriptor = arrayDesc.type;
+        }
+        return descriptor;
+    }
+
+    onAdded(pathSegments: string[], handler: AddedHandler): void {
+        if (this.isAtScopeSegments(pathSegments)) {
+            this.leftAddedHandlers.push(handler);
+        } else if (this.isAtJoinedLevel(pathSegments)) {
+            this.childAddedHandlers.push(handler);
+        } else {
+            this.input.onAdded(pathSegments, handler);
+        }
+    }
+
+    onRemoved(pathSegments: string[], handler: RemovedHandler): void {
+        if (this.isAtScopeSegments(pathSegments)) {
+            this.leftRemovedHandlers.push(handler);
+        } else if (this.isAtJoinedLevel(pathSegments)) {
+            this.childRemovedHandlers.push(handler);
+        } else {
+            this.input.onRemoved(pathSegments, handler);
+        }
+    }
+
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        if (this.isAtScopeSegments(pathSegments)) {
+            this.leftUpdatedHandlers.push(handler);
+        } else if (this.isAtJoinedLevel(pathSegments)) {
+            this.childUpdatedHandlers.push(handler);
+        } else {
+            this.input.onUpdated(pathSegments, handler);
+        }
+    }
+
+    onModified(pathSegments: string[], handler: ModifiedHandler): void {
+        if (this.isAtJoinedLevel(pathSegments)) {
+            // Joined items are flat, so they have no aggregates
+            return;
+        }
+        this.input.onModified(pathSegments, handler);
+    }
+
+    private isAtScopeSegments(pathSegments: string[]): boolean {
+        return pathsMatch(pathSegments, this.scopeSegments);
+    }
+
+    private isAtJoinedLevel(pathSegments: string[]): boolean {
+        return pathsMatch(pathSegments, [...this.scopeSegments, this.arrayName]);
+    }
+
+    private handleLeftAdded(keyPath: string[], key: string, immutableProps: ImmutableProps): void {
+        const joinKey = canonicalizeJoinKey(callUserFunction(this, this.leftKeySelector, immutableProps as TLeft));
+        const leftItem: LeftItem = { keyPath, key, immutableProps, joinKey };
+        const leftItemHash = computeKeyPathHash([...keyPath, key]);
+        this.leftItems.set(leftItemHash, leftItem);
+        addToIndex(this.leftItemsByJoinKey, joinKey, leftItemHash);
+
+        const matches = this.getRightMatches(joinKey);
+        if (this.joinType === 'inner' && matches.length === 0) {
+            return;
+        }
+        this.leftAddedHandlers.forEach(handler => handler(keyPath, key, immutableProps));
+        matches.forEach(rightKey => this.emitChildAdded(leftItem, rightKey));
+    }
+
+    private handleLeftRemoved(keyPath: string[], key: string, immutableProps: ImmutableProps): void {
+        const leftItemHash = computeKeyPathHash([...keyPath, key]);
+        const leftItem = this.leftItems.get(leftItemHash);
+        if (!leftItem) {
+            throw new Error(`JoinStep: item with key "${key}" not found`);
+        }
+        this.leftItems.delete(leftItemHash);
+        removeFromIndex(this.leftItemsByJoinKey, leftItem.joinKey, leftItemHash);
+
+        const matches = this.getRightMatches(leftItem.joinKey);
+        if (this.joinType === 'inner' && matches.length === 0) {
+            return;
+        }
+        matches.forEach(rightKey => this.emitChildRemoved(leftItem, rightKey));
+        this.leftRemovedHandlers.forEach(handler => handler(keyPath, key, immutableProps));
+    }
+
+    private handleLeftUpdated(keyPath: string[], key: string, oldImmutableProps: ImmutableProps, newImmutableProps: ImmutableProps): void {
+        const leftItemHash = computeKeyPathHash([...keyPath, key]);
+        const oldLeftItem = this.leftItems.get(leftItemHash);
+        if (!oldLeftItem) {
+            throw new Error(`JoinStep: item with key "${key}" not found`);
+        }
+        const newJoinKey = canonicalizeJoinKey(callUserFunction(this, this.leftKeySelector, newImmutableProps as TLeft));
+        const newLeftItem: LeftItem = { keyPath, key, immutableProps: newImmutableProps, joinKey: newJoinKey };
+        this.leftItems.set(leftItemHash, newLeftItem);
+        removeFromIndex(this.leftItemsByJoinKey, oldLeftItem.joinKey, leftItemHash);
+        addToIndex(this.leftItemsByJoinKey, newJoinKey, leftItemHash);
+
+        const joinKeyChanged = oldLeftItem.joinKey !== newJoinKey;
+        const oldMatches = this.getRightMatches(oldLeftItem.joinKey);
+        const newMatches = joinKeyChanged ? this.getRightMatches(newJoinKey) : oldMatches;
+        const wasEmitted = this.joinType === 'left' || oldMatches.length > 0;
+        const isEmitted = this.joinType === 'left' || newMatches.length > 0;
+
+        if (wasEmitted && isEmitted) {
+            this.leftUpdatedHandlers.forEach(handler => handler(keyPath, key, oldImmutableProps, newImmutableProps));
+            if (joinKeyChanged) {
+                oldMatches.forEach(rightKey => this.emitChildRemoved(newLeftItem, rightKey));
+                newMatches.forEach(rightKey => this.emitChildAdded(newLeftItem, rightKey));
+            }
+        } else if (wasEmitted) {
+            oldMatches.forEach(rightKey => this.emitChildRemoved(oldLeftItem, rightKey));
+            this.leftRemovedHandlers.forEach(handler => handler(keyPath, key, oldImmutableProps));
+        } else if (isEmitted) {
+            this.leftAddedHandlers.forEach(handler => handler(keyPath, key, newImmutableProps));
+            newMatches.forEach(rightKey => this.emitChildAdded(newLeftItem, rightKey));
+        }
+    }
+
+    private handleRightAdded(key: string, immutableProps: ImmutableProps): void {
+        const joinKey = canonicalizeJoinKey(callUserFunction(this, this.rightKeySelector, immutableProps as TRight));
+        this.rightItems.set(key, { immutableProps, joinKey });
+        const isFirstMatch = this.getRightMatches(joinKey).length === 0;
+        addToIndex(this.rightItemsByJoinKey, joinKey, key);
+
+        this.getLeftMatches(joinKey).forEach(leftItem => {
+            if (this.joinType === 'inner' && isFirstMatch) {
+                this.leftAddedHandlers.forEach(handler => handler(leftItem.keyPath, leftItem.key, leftItem.immutableProps));
+            }
+            this.emitChildAdded(leftItem, key);
+        });
+    }
+
+    private handleRightRemoved(key: string, immutableProps: ImmutableProps): void {
+        const rightItem = this.rightItems.get(key);
+        if (!rightItem) {
+            throw new Error(`JoinStep: item with key "${key}" not found`);
+        }
+        removeFromIndex(this.rightItemsByJoinKey, rightItem.joinKey, key);
+        const isLastMatch = this.getRightMatches(rightItem.joinKey).length === 0;
+
+        this.getLeftMatches(rightItem.joinKey).forEach(leftItem => {
+            this.childRemovedHandlers.forEach(handler => handler([...leftItem.keyPath, leftItem.key], key, rightItem.immutableProps));
+            if (this.joinType === 'inner' && isLastMatch) {
+                this.leftRemovedHandlers.forEach(handler => handler(leftItem.keyPath, leftItem.key, leftItem.immutableProps));
+            }
+        });
+        this.rightItems.delete(key);
+    }
+
+    private handleRightUpdated(key: string, oldImmutableProps: ImmutableProps, newImmutableProps: ImmutableProps): void {
+        const oldRightItem = this.rightItems.get(key);
+        if (!oldRightItem) {
+            throw new Error(`JoinStep: item with key "${key}" not found`);
+        }
+        const newJoinKey = canonicalizeJoinKey(callUserFunction(this, this.rightKeySelector, newImmutableProps as TRight));
+        if (newJoinKey === oldRightItem.joinKey) {
+            this.rightItems.set(key, { immutableProps: newImmutableProps, joinKey: newJoinKey });
+            this.getLeftMatches(newJoinKey).forEach(leftItem => {
+                this.childUpdatedHandlers.forEach(handler => handler([...leftItem.keyPath, leftItem.key], key, oldImmutableProps, newImmutableProps));
+            });
+            return;
+        }
+
+        // The join key changed: the item moves to a different set of left items
+        this.handleRightRemoved(key, oldImmutableProps);
+        this.handleRightAdded(key, newImmutableProps);
+    }
+
+    private emitChildAdded(leftItem: LeftItem, rightKey: string): void {
+        const rightItem = this.rightItems.get(rightKey)!;
+        this.childAddedHandlers.forEach(handler => handler([...leftItem.keyPath, leftItem.key], rightKey, rightItem.immutableProps));
+    }
+
+    private emitChildRemoved(leftItem: LeftItem, rightKey: string): void {
+        const rightItem = this.rightItems.get(rightKey)!;
+        this.childRemovedHandlers.forEach(handler => handler([...leftItem.keyPath, leftItem.key], rightKey, rightItem.immutableProps));
+    }
+
+    private getRightMatches(joinKey: string | undefined): string[] {
+        if (joinKey === undefined) {
+            return [];
+        }
+        return [...(this.rightItemsByJoinKey.get(joinKey) ?? [])];
+    }
+
+    private getLeftMatches(joinKey: string | undefined): LeftItem[] {
+        if (joinKey === undefined) {
+            return [];
+        }
+        return [...(this.leftItemsByJoinKey.get(joinKey) ?? [])].map(hash => this.leftItems.get(hash)!);
+    }
+}
+
+function addToIndex(index: Map<string, Set<string>>, joinKey: string | undefined, value: string): void {
+    if (joinKey === undefined) {
+        return;
+    }
+    let values = index.get(joinKey);
+    if (!values) {
+        values = new UndoableSet();
+        index.set(joinKey, values);
+    }
+    values.add(value);
+}
+
+function removeFromIndex(index: Map<string, Set<string>>, joinKey: string | undefined, value: string): void {
+    if (joinKey === undefined) {
+        return;
+    }
+    const values = index.get(joinKey);
+    if (values) {
+        values.delete(value);
+        if (values.size === 0) {
+            index.delete(joinKey);
+        }
+    }
+}
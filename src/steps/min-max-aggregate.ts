@@ -1,4 +1,8 @@
-import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, Step, TypeDescriptor } from '../pipeline';
+import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, Step, StepDescription, TypeDescriptor, UpdatedHandler } from '../pipeline';
+import { KeyedHeap } from '../util/keyed-heap';
+import { mapToRecord, recordToMap } from '../util/serialization';
+import { withAggregateProperty } from '../util/type-descriptor';
+import { UndoableMap } from '../util/undo-log';
 
 /**
  * Computes a hash key for a key path (for map lookups).
@@ -7,12 +11,29 @@ function computeKeyPathHash(keyPath: string[]): string {
     return keyPath.join('::');
 }
 
+/**
+ * Per-parent state: a heap of numeric values keyed by item key, plus the
+ * number of items (including those with null/undefined values).
+ */
+interface ParentState {
+    heap: KeyedHeap<number>;
+    itemCount: number;
+}
+
+/**
+ * Copies the item count; the heap records its own changes.
+ */
+function copyParentState(state: ParentState): ParentState {
+    return { ...state };
+}
+
 /**
  * A step that computes the minimum or maximum value of a property over items in a nested array.
  * 
  * - Returns undefined for empty arrays
  * - Ignores null/undefined values in comparison
- * - Handles removal by tracking all values and recalculating
+ * - Keeps values in a heap keyed by item key, so add and remove are O(log n)
+ * - Emits a modification only when the extreme changes
  */
 export class MinMaxAggregateStep<
     TInput,
@@ -20,8 +41,8 @@ export class MinMaxAggregateStep<
     TPropertyName extends string
 > implements Step {
     
-    /** Maps parent key path hash to array of numeric values (excluding null/undefined) */
-    private valueStore: Map<string, number[]> = new Map();
+    /** Maps parent key path hash to the values of its items */
+    private parentStates: Map<string, ParentState> = new UndoableMap(copyParentState);
     
     /** Handlers for modified events at various levels */
     private modifiedHandlers: Array<{
@@ -29,12 +50,16 @@ export class MinMaxAggregateStep<
         handler: ModifiedHandler;
     }> = [];
     
+    /**
+     * @param compareFn - Returns true if value1 is a better extreme than value2
+     *                    (smaller for min, larger for max)
+     */
     constructor(
         private input: Step,
         private segmentPath: TPath,
         private propertyName: TPropertyName,
         private numericProperty: string,
-        private aggregateFn: (values: number[]) => number
+        private compareFn: (value1: number, value2: number) => boolean
     ) {
         // Register with input step to receive item add/remove events at the target array level
         this.input.onAdded(this.segmentPath, (keyPath, itemKey, immutableProps) => {
@@ -44,10 +69,45 @@ export class MinMaxAggregateStep<
         this.input.onRemoved(this.segmentPath, (keyPath, itemKey, immutableProps) => {
             this.handleItemRemoved(keyPath, itemKey, immutableProps);
         });
+        
+        this.input.onUpdated(this.segmentPath, (keyPath, itemKey, oldImmutableProps, newImmutableProps) => {
+            this.handleItemUpdated(keyPath, itemKey, oldImmutableProps, newImmutableProps);
+        });
     }
     
     getTypeDescriptor(): TypeDescriptor {
-        return this.input.getTypeDescriptor();
+        return withAggregateProperty(this.input.getTypeDescriptor(), this.segmentPath, { name: this.propertyName, type: 'number' });
+    }
+
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        return {
+            // compareFn is true when value1 is the better extreme, so the smaller value wins for min
+            kind: this.compareFn(0, 1) ? 'min' : 'max',
+            scope: this.segmentPath.slice(0, -1),
+            parameters: { array: this.segmentPath[this.segmentPath.length - 1], property: this.numericProperty, as: this.propertyName }
+        };
+    }
+
+    saveState(): unknown {
+        return {
+            parentStates: mapToRecord(this.parentStates, state => ({
+                values: state.heap.toArray(),
+                itemCount: state.itemCount
+            }))
+        };
+    }
+
+    restoreState(state: unknown): void {
+        const saved = state as { parentStates: Record<string, { values: { key: string, value: number }[], itemCount: number }> };
+        this.parentStates = new UndoableMap(copyParentState, recordToMap(saved.parentStates, ({ values, itemCount }) => {
+            const heap = new KeyedHeap<number>(this.compareFn);
+            values.forEach(({ key, value }) => heap.set(key, value));
+            return { heap, itemCount };
+        }));
     }
     
     onAdded(pathSegments: string[], handler: AddedHandler): void {
@@ -58,6 +118,10 @@ export class MinMaxAggregateStep<
         this.input.onRemoved(pathSegments, handler);
     }
     
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        this.input.onUpdated(pathSegments, handler);
+    }
+    
     onModified(pathSegments: string[], handler: ModifiedHandler): void {
         if (this.isParentPath(pathSegments)) {
             // Handler wants modification events at parent level
@@ -92,35 +156,25 @@ export class MinMaxAggregateStep<
         const parentKeyPath = keyPath;
         const parentKeyHash = computeKeyPathHash(parentKeyPath);
         
-        // Extract numeric value (ignore null/undefined)
-        const value = item[this.numericProperty];
-        if (value !== null && value !== undefined) {
-            const numValue = Number(value);
-            if (!isNaN(numValue)) {
-                // Add to value store
-                const values = this.valueStore.get(parentKeyHash) || [];
-                values.push(numValue);
-                this.valueStore.set(parentKeyHash, values);
-            }
+        let state = this.parentStates.get(parentKeyHash);
+        const isNewParent = !state;
+        if (!state) {
+            state = { heap: new KeyedHeap<number>(this.compareFn), itemCount: 0 };
+            this.parentStates.set(parentKeyHash, state);
         }
+        const previousAggregate = state.heap.peek()?.value;
+        state.itemCount += 1;
         
-        // Compute new aggregate using the provided function
-        const values = this.valueStore.get(parentKeyHash) || [];
-        const newAggregate = values.length > 0 ? this.aggregateFn(values) : undefined;
+        // Add the value to the heap (ignore null/undefined)
+        const value = this.toNumericValue(item);
+        if (value !== undefined) {
+            state.heap.set(itemKey, value);
+        }
         
-        // Emit modification event
-        if (parentKeyPath.length > 0) {
-            const parentKey = parentKeyPath[parentKeyPath.length - 1];
-            const keyPathToParent = parentKeyPath.slice(0, -1);
-            
-            this.modifiedHandlers.forEach(({ handler }) => {
-                handler(keyPathToParent, parentKey, this.propertyName, newAggregate);
-            });
-        } else {
-            // Parent is at root level
-            this.modifiedHandlers.forEach(({ handler }) => {
-                handler([], '', this.propertyName, newAggregate);
-            });
+        // Emit modification event for a new parent or a new extreme
+        const newAggregate = state.heap.peek()?.value;
+        if (isNewParent || newAggregate !== previousAggregate) {
+            this.emitModification(parentKeyPath, newAggregate);
         }
     }
     
@@ -131,41 +185,82 @@ export class MinMaxAggregateStep<
         const parentKeyPath = keyPath;
         const parentKeyHash = computeKeyPathHash(parentKeyPath);
         
-        // Remove value from store if it was numeric
-        const value = item[this.numericProperty];
-        if (value !== null && value !== undefined) {
-            const numValue = Number(value);
-            if (!isNaN(numValue)) {
-                const values = this.valueStore.get(parentKeyHash);
-                if (values) {
-                    const index = values.indexOf(numValue);
-                    if (index >= 0) {
-                        values.splice(index, 1);
-                        if (values.length === 0) {
-                            this.valueStore.delete(parentKeyHash);
-                        } else {
-                            this.valueStore.set(parentKeyHash, values);
-                        }
-                    }
-                }
-            }
+        const state = this.parentStates.get(parentKeyHash);
+        if (!state) {
+            return;
+        }
+        const previousAggregate = state.heap.peek()?.value;
+        
+        // Remove the item's value by key, so duplicate values are handled exactly
+        state.heap.remove(itemKey);
+        state.itemCount -= 1;
+        if (state.itemCount === 0) {
+            this.parentStates.delete(parentKeyHash);
+        }
+        
+        // Emit modification event if the extreme changed
+        const newAggregate = state.heap.peek()?.value;
+        if (newAggregate !== previousAggregate) {
+            this.emitModification(parentKeyPath, newAggregate);
+        }
+    }
+    
+    /**
+     * Handle when an item in the target array is updated.
+     * Replaces the old value with the new one so at most one modification is emitted.
+     */
+    private handleItemUpdated(keyPath: string[], itemKey: string, oldItem: ImmutableProps, newItem: ImmutableProps): void {
+        const parentKeyPath = keyPath;
+        const parentKeyHash = computeKeyPathHash(parentKeyPath);
+        
+        const state = this.parentStates.get(parentKeyHash);
+        if (!state) {
+            return;
         }
+        const previousAggregate = state.heap.peek()?.value;
         
-        // Compute new aggregate using the provided function
-        const values = this.valueStore.get(parentKeyHash) || [];
-        const newAggregate = values.length > 0 ? this.aggregateFn(values) : undefined;
+        // Replace the value, or remove it if the new value is null/undefined
+        const newValue = this.toNumericValue(newItem);
+        if (newValue !== undefined) {
+            state.heap.set(itemKey, newValue);
+        } else {
+            state.heap.remove(itemKey);
+        }
         
-        // Emit modification event
+        // Emit modification event if the extreme changed
+        const newAggregate = state.heap.peek()?.value;
+        if (newAggregate !== previousAggregate) {
+            this.emitModification(parentKeyPath, newAggregate);
+        }
+    }
+    
+    /**
+     * Extracts the numeric value of an item, or undefined if it is null, undefined or not a number.
+     */
+    private toNumericValue(item: ImmutableProps): number | undefined {
+        const value = item[this.numericProperty];
+        if (value === null || value === undefined) {
+            return undefined;
+        }
+        const numValue = Number(value);
+        return isNaN(numValue) ? undefined : numValue;
+    }
+    
+    /**
+     * Emits a modification event for the aggregate value.
+     */
+    private emitModification(parentKeyPath: string[], value: number | undefined): void {
         if (parentKeyPath.length > 0) {
             const parentKey = parentKeyPath[parentKeyPath.length - 1];
             const keyPathToParent = parentKeyPath.slice(0, -1);
             
             this.modifiedHandlers.forEach(({ handler }) => {
-                handler(keyPathToParent, parentKey, this.propertyName, newAggregate);
+                handler(keyPathToParent, parentKey, this.propertyName, value);
             });
         } else {
+            // Parent is at root level
             this.modifiedHandlers.forEach(({ handler }) => {
-                handler([], '', this.propertyName, newAggregate);
+                handler([], '', this.propertyName, value);
             });
         }
     }
@@ -0,0 +1,45 @@
+import type { AddedHandler, ModifiedHandler, OrderingDescriptor, RemovedHandler, Step, StepDescription, TypeDescriptor, UpdatedHandler } from '../pipeline';
+import { transformDescriptorAt } from '../util/type-descriptor';
+
+/**
+ * A step that declares the order of items at its scope.
+ *
+ * Events pass through unchanged. The ordering is recorded in the type
+ * descriptor, where the state store uses it to insert each item at its sorted
+ * position and to reposition it when its sort key changes.
+ */
+export class OrderByStep implements Step {
+    constructor(
+        private input: Step,
+        private ordering: OrderingDescriptor,
+        private scopeSegments: string[]
+    ) {}
+
+    getTypeDescriptor(): TypeDescriptor {
+        return transformDescriptorAt(this.input.getTypeDescriptor(), this.scopeSegments, descriptor => ({ ...descriptor, ordering: this.ordering }));
+    }
+
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        return { kind: 'orderBy', scope: this.scopeSegments, parameters: { by: this.ordering.by, direction: this.ordering.direction } };
+    }
+
+    onAdded(pathSegments: string[], handler: AddedHandler): void {
+        this.input.onAdded(pathSegments, handler);
+    }
+
+    onRemoved(pathSegments: string[], handler: RemovedHandler): void {
+        this.input.onRemoved(pathSegments, handler);
+    }
+
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        this.input.onUpdated(pathSegments, handler);
+    }
+
+    onModified(pathSegments: string[], handler: ModifiedHandler): void {
+        this.input.onModified(pathSegments, handler);
+    }
+}
@@ -0,0 +1,270 @@
+import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, Step, StepDescription, TypeDescriptor, UpdatedHandler } from '../pipeline';
+import { PercentileTracker } from '../util/percentile-tracker';
+import { mapToRecord, recordToMap } from '../util/serialization';
+import { withAggregateProperty } from '../util/type-descriptor';
+import { UndoableMap } from '../util/undo-log';
+
+/**
+ * Computes a hash key for a key path (for map lookups).
+ */
+function computeKeyPathHash(keyPath: string[]): string {
+    return keyPath.join('::');
+}
+
+/**
+ * Per-parent state: numeric values keyed by item key, plus the
+ * number of items (including those with null/undefined values).
+ */
+interface ParentState {
+    tracker: PercentileTracker;
+    itemCount: number;
+}
+
+/**
+ * Copies the item count; the tracker records its own changes.
+ */
+function copyParentState(state: ParentState): ParentState {
+    return { ...state };
+}
+
+/**
+ * A step that computes a percentile of a numeric property over items in a nested array.
+ * 
+ * - Returns undefined for empty arrays
+ * - Handles null/undefined by excluding them, as average does
+ * - Interpolates linearly between the closest ranks
+ * - Keeps values in a pair of heaps keyed by item key, so add and remove are O(log n)
+ * - Emits a modification only when the percentile changes
+ */
+export class PercentileAggregateStep<
+    TInput,
+    TPath extends string[],
+    TPropertyName extends string
+> implements Step {
+    
+    /** Maps parent key path hash to the values of its items */
+    private parentStates: Map<string, ParentState> = new UndoableMap(copyParentState);
+    
+    /** Handlers for modified events at various levels */
+    private modifiedHandlers: Array<{
+        pathSegments: string[];
+        handler: ModifiedHandler;
+    }> = [];
+    
+    /**
+     * @param percentile - Percentile to compute, from 0 to 100
+     */
+    constructor(
+        private input: Step,
+        private segmentPath: TPath,
+        private propertyName: TPropertyName,
+        private numericProperty: string,
+        private percentile: number
+    ) {
+        if (!(percentile >= 0 && percentile <= 100)) {
+            throw new Error(`PercentileAggregateStep: percentile must be between 0 and 100, got ${percentile}`);
+        }
+
+        // Register with input step to receive item add/remove events at the target array level
+        this.input.onAdded(this.segmentPath, (keyPath, itemKey, immutableProps) => {
+            this.handleItemAdded(keyPath, itemKey, immutableProps);
+        });
+        
+        this.input.onRemoved(this.segmentPath, (keyPath, itemKey, immutableProps) => {
+            this.handleItemRemoved(keyPath, itemKey, immutableProps);
+        });
+        
+        this.input.onUpdated(this.segmentPath, (keyPath, itemKey, oldImmutableProps, newImmutableProps) => {
+            this.handleItemUpdated(keyPath, itemKey, oldImmutableProps, newImmutableProps);
+        });
+    }
+    
+    getTypeDescriptor(): TypeDescriptor {
+        return withAggregateProperty(this.input.getTypeDescriptor(), this.segmentPath, { name: this.propertyName, type: 'number' });
+    }
+
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        return {
+            kind: 'percentile',
+            scope: this.segmentPath.slice(0, -1),
+            parameters: { array: this.segmentPath[this.segmentPath.length - 1], property: this.numericProperty, percentile: this.percentile, as: this.propertyName }
+        };
+    }
+
+    saveState(): unknown {
+        return {
+            parentStates: mapToRecord(this.parentStates, state => ({
+                values: state.tracker.toArray(),
+                itemCount: state.itemCount
+            }))
+        };
+    }
+
+    restoreState(state: unknown): void {
+        const saved = state as { parentStates: Record<string, { values: { key: string, value: number }[], itemCount: number }> };
+        this.parentStates = new UndoableMap(copyParentState, recordToMap(saved.parentStates, ({ values, itemCount }) => {
+            const tracker = new PercentileTracker(this.percentile);
+            values.forEach(({ key, value }) => tracker.set(key, value));
+            return { tracker, itemCount };
+        }));
+    }
+    
+    onAdded(pathSegments: string[], handler: AddedHandler): void {
+        this.input.onAdded(pathSegments, handler);
+    }
+    
+    onRemoved(pathSegments: string[], handler: RemovedHandler): void {
+        this.input.onRemoved(pathSegments, handler);
+    }
+    
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        this.input.onUpdated(pathSegments, handler);
+    }
+    
+    onModified(pathSegments: string[], handler: ModifiedHandler): void {
+        if (this.isParentPath(pathSegments)) {
+            // Handler wants modification events at parent level
+            // This is the channel for receiving aggregate values
+            this.modifiedHandlers.push({
+                pathSegments,
+                handler
+            });
+        }
+        // Always pass through to input for other property modifications
+        this.input.onModified(pathSegments, handler);
+    }
+    
+    /**
+     * Checks if the given path segments represent the parent level (where aggregate property lives)
+     */
+    private isParentPath(pathSegments: string[]): boolean {
+        // Parent path segments are segmentPath without the last element
+        const parentSegments = this.segmentPath.slice(0, -1);
+        
+        if (pathSegments.length !== parentSegments.length) {
+            return false;
+        }
+        
+        return pathSegments.every((segment, i) => segment === parentSegments[i]);
+    }
+    
+    /**
+     * Handle when an item is added to the target array
+     */
+    private handleItemAdded(keyPath: string[], itemKey: string, item: ImmutableProps): void {
+        const parentKeyPath = keyPath;
+        const parentKeyHash = computeKeyPathHash(parentKeyPath);
+        
+        let state = this.parentStates.get(parentKeyHash);
+        const isNewParent = !state;
+        if (!state) {
+            state = { tracker: new PercentileTracker(this.percentile), itemCount: 0 };
+            this.parentStates.set(parentKeyHash, state);
+        }
+        const previousAggregate = state.tracker.value();
+        state.itemCount += 1;
+        
+        // Add the value to the tracker (ignore null/undefined)
+        const value = this.toNumericValue(item);
+        if (value !== undefined) {
+            state.tracker.set(itemKey, value);
+        }
+        
+        // Emit modification event for a new parent or a new percentile
+        const newAggregate = state.tracker.value();
+        if (isNewParent || newAggregate !== previousAggregate) {
+            this.emitModification(parentKeyPath, newAggregate);
+        }
+    }
+    
+    /**
+     * Handle when an item is removed from the target array
+     */
+    private handleItemRemoved(keyPath: string[], itemKey: string, item: ImmutableProps): void {
+        const parentKeyPath = keyPath;
+        const parentKeyHash = computeKeyPathHash(parentKeyPath);
+        
+        const state = this.parentStates.get(parentKeyHash);
+        if (!state) {
+            return;
+        }
+        const previousAggregate = state.tracker.value();
+        
+        // Remove the item's value by key, so duplicate values are handled exactly
+        state.tracker.remove(itemKey);
+        state.itemCount -= 1;
+        if (state.itemCount === 0) {
+            this.parentStates.delete(parentKeyHash);
+        }
+        
+        // Emit modification event if the percentile changed
+        const newAggregate = state.tracker.value();
+        if (newAggregate !== previousAggregate) {
+            this.emitModification(parentKeyPath, newAggregate);
+        }
+    }
+    
+    /**
+     * Handle when an item in the target array is updated.
+     * Replaces the old value with the new one so at most one modification is emitted.
+     */
+    private handleItemUpdated(keyPath: string[], itemKey: string, oldItem: ImmutableProps, newItem: ImmutableProps): void {
+        const parentKeyPath = keyPath;
+        const parentKeyHash = computeKeyPathHash(parentKeyPath);
+        
+        const state = this.parentStates.get(parentKeyHash);
+        if (!state) {
+            return;
+        }
+        const previousAggregate = state.tracker.value();
+        
+        // Replace the value, or remove it if the new value is null/undefined
+        const newValue = this.toNumericValue(newItem);
+        if (newValue !== undefined) {
+            state.tracker.set(itemKey, newValue);
+        } else {
+            state.tracker.remove(itemKey);
+        }
+        
+        // Emit modification event if the percentile changed
+        const newAggregate = state.tracker.value();
+        if (newAggregate !== previousAggregate) {
+            this.emitModification(parentKeyPath, newAggregate);
+        }
+    }
+    
+    /**
+     * Extracts the numeric value of an item, or undefined if it is null, undefined or not a number.
+     */
+    private toNumericValue(item: ImmutableProps): number | undefined {
+        const value = item[this.numericProperty];
+        if (value === null || value === undefined) {
+            return undefined;
+        }
+        const numValue = Number(value);
+        return isNaN(numValue) ? undefined : numValue;
+    }
+    
+    /**
+     * Emits a modification event for the aggregate value.
+     */
+    private emitModification(parentKeyPath: string[], value: number | undefined): void {
+        if (parentKeyPath.length > 0) {
+            const parentKey = parentKeyPath[parentKeyPath.length - 1];
+            const keyPathToParent = parentKeyPath.slice(0, -1);
+            
+            this.modifiedHandlers.forEach(({ handler }) => {
+                handler(keyPathToParent, parentKey, this.propertyName, value);
+            });
+        } else {
+            // Parent is at root level
+            this.modifiedHandlers.forEach(({ handler }) => {
+                handler([], '', this.propertyName, value);
+            });
+        }
+    }
+}
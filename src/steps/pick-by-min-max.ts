@@ -1,4 +1,7 @@
-import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, Step, TypeDescriptor } from '../pipeline';
+import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, Step, StepDescription, TypeDescriptor, UpdatedHandler } from '../pipeline';
+import { mapToRecord, recordToMap } from '../util/serialization';
+import { withAggregateProperty } from '../util/type-descriptor';
+import { UndoableMap } from '../util/undo-log';
 
 /**
  * Computes a hash key for a key path (for map lookups).
@@ -50,13 +53,13 @@ export class PickByMinMaxStep<
 > implements Step {
     
     /** Maps item key path hash to item data (needed for recalculation when picked item is removed) */
-    private itemStore: Map<string, ImmutableProps> = new Map();
+    private itemStore: Map<string, ImmutableProps> = new UndoableMap();
     
     /** Maps parent key path hash to current min/max item */
-    private pickedItemStore: Map<string, ImmutableProps> = new Map();
+    private pickedItemStore: Map<string, ImmutableProps> = new UndoableMap();
     
     /** Maps parent key path hash to comparison value of current picked item */
-    private comparisonValueStore: Map<string, number | string> = new Map();
+    private comparisonValueStore: Map<string, number | string> = new UndoableMap();
     
     /** Handlers for modified events at various levels */
     private modifiedHandlers: Array<{
@@ -79,10 +82,46 @@ export class PickByMinMaxStep<
         this.input.onRemoved(this.segmentPath, (keyPath, itemKey, immutableProps) => {
             this.handleItemRemoved(keyPath, itemKey, immutableProps);
         });
+        
+        this.input.onUpdated(this.segmentPath, (keyPath, itemKey, oldImmutableProps, newImmutableProps) => {
+            this.handleItemUpdated(keyPath, itemKey, oldImmutableProps, newImmutableProps);
+        });
     }
     
     getTypeDescriptor(): TypeDescriptor {
-        return this.input.getTypeDescriptor();
+        return withAggregateProperty(this.input.getTypeDescriptor(), this.segmentPath, { name: this.propertyName });
+    }
+
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        return {
+            // compareFn is true when value1 is the better extreme, so the smaller value wins for pickByMin
+            kind: this.compareFn(0, 1) ? 'pickByMin' : 'pickByMax',
+            scope: this.segmentPath.slice(0, -1),
+            parameters: { array: this.segmentPath[this.segmentPath.length - 1], property: this.comparisonProperty, as: this.propertyName }
+        };
+    }
+
+    saveState(): unknown {
+        return {
+            itemStore: mapToRecord(this.itemStore),
+            pickedItemStore: mapToRecord(this.pickedItemStore),
+            comparisonValueStore: mapToRecord(this.comparisonValueStore)
+        };
+    }
+
+    restoreState(state: unknown): void {
+        const saved = state as {
+            itemStore: Record<string, ImmutableProps>,
+            pickedItemStore: Record<string, ImmutableProps>,
+            comparisonValueStore: Record<string, number | string>
+        };
+        this.itemStore = new UndoableMap(undefined, recordToMap(saved.itemStore));
+        this.pickedItemStore = new UndoableMap(undefined, recordToMap(saved.pickedItemStore));
+        this.comparisonValueStore = new UndoableMap(undefined, recordToMap(saved.comparisonValueStore));
     }
     
     onAdded(pathSegments: string[], handler: AddedHandler): void {
@@ -93,6 +132,10 @@ export class PickByMinMaxStep<
         this.input.onRemoved(pathSegments, handler);
     }
     
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        this.input.onUpdated(pathSegments, handler);
+    }
+    
     onModified(pathSegments: string[], handler: ModifiedHandler): void {
         if (this.isParentPath(pathSegments)) {
             // Handler wants modification events at parent level
@@ -187,6 +230,39 @@ export class PickByMinMaxStep<
         }
     }
     
+    /**
+     * Handle when an item in the target array is updated
+     */
+    private handleItemUpdated(keyPath: string[], itemKey: string, oldItem: ImmutableProps, newItem: ImmutableProps): void {
+        const parentKeyPath = keyPath;
+        const parentKeyHash = computeKeyPathHash(parentKeyPath);
+        const itemKeyPath = [...keyPath, itemKey];
+        const itemKeyHash = computeKeyPathHash(itemKeyPath);
+        
+        // Replace the stored item
+        this.itemStore.set(itemKeyHash, newItem);
+        
+        // If the updated item was the picked item, its value may no longer be the extreme
+        const currentPickedItem = this.pickedItemStore.get(parentKeyHash);
+        if (currentPickedItem && this.itemsEqual(oldItem, currentPickedItem)) {
+            this.recalculatePickedItem(parentKeyPath, parentKeyHash);
+            return;
+        }
+        
+        // Otherwise the new value only matters if it beats the current picked item
+        const value = newItem[this.comparisonProperty];
+        if (value === null || value === undefined) {
+            return;
+        }
+        const comparisonValue: number | string = isNumeric(value) ? Number(value) : String(value);
+        const currentPickedValue = this.comparisonValueStore.get(parentKeyHash);
+        if (currentPickedValue === undefined || this.compareFn(comparisonValue, currentPickedValue)) {
+            this.pickedItemStore.set(parentKeyHash, newItem);
+            this.comparisonValueStore.set(parentKeyHash, comparisonValue);
+            this.emitModification(parentKeyPath, newItem);
+        }
+    }
+    
     /**
      * Recalculates the picked item (min or max) from all remaining items for a given parent.
      */
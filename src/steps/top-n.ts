@@ -0,0 +1,322 @@
+import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, Step, StepDescription, TypeDescriptor, UpdatedHandler } from '../pipeline';
+import { pathsMatch } from '../util/path';
+import { RankedWindow, type WindowChange } from '../util/ranked-window';
+import { mapToRecord, recordToMap } from '../util/serialization';
+import { transformDescriptorAt } from '../util/type-descriptor';
+import { UndoableMap } from '../util/undo-log';
+
+/**
+ * Computes a hash key for a key path (for map lookups).
+ */
+function computeKeyPathHash(keyPath: string[]): string {
+    return keyPath.join('::');
+}
+
+/**
+ * Determines if a value is numeric. Empty and blank strings are not, although Number reads them as 0.
+ */
+function isNumeric(value: any): value is number {
+    if (typeof value === 'number') {
+        return !isNaN(value);
+    }
+    if (typeof value === 'string' && value.trim() === '') {
+        return false;
+    }
+    const numValue = Number(value);
+    return !isNaN(numValue) && isFinite(numValue);
+}
+
+interface RankedItem {
+    key: string;
+    value: number | string;
+    immutableProps: ImmutableProps;
+}
+
+type WindowEvent = WindowChange<RankedItem>;
+
+/**
+ * A step that keeps the first N items of a nested array, ranked by a property,
+ * as a new array alongside it.
+ *
+ * - Ignores items whose property is null/undefined
+ * - Breaks ties by item key so the result is deterministic
+ * - Emits an add when an item enters the window and a remove when it leaves,
+ *   promoting the next ranked item when one inside the window is removed
+ * - Ranked items carry the immutable and mutable properties of the source
+ *   items, but not their arrays
+ */
+export class TopNStep<
+    TInput,
+    TPath extends string[],
+    TPropertyName extends string
+> implements Step {
+
+    /** Maps parent key path hash to the window over its ranked items */
+    private windows: Map<string, RankedWindow<RankedItem>> = new UndoableMap();
+    /** Maps item key path hash to the latest values of the item's mutable properties, to carry into the window */
+    private modifiedValues: Map<string, Record<string, any>> = new UndoableMap(values => ({ ...values }));
+
+    private windowAddedHandlers: AddedHandler[] = [];
+    private windowRemovedHandlers: RemovedHandler[] = [];
+    private windowUpdatedHandlers: UpdatedHandler[] = [];
+    private windowModifiedHandlers: ModifiedHandler[] = [];
+
+    /**
+     * @param compareFn - Returns true if value1 ranks ahead of value2
+     */
+    constructor(
+        private input: Step,
+        private segmentPath: TPath,
+        private propertyName: TPropertyName,
+        private comparisonProperty: string,
+        private limit: number,
+        private compareFn: (value1: number | string, value2: number | string) => boolean
+    ) {
+        if (!Number.isInteger(limit) || limit < 1) {
+            throw new Error(`TopNStep: limit must be a positive integer, got ${limit}`);
+        }
+
+        // Register with input step to receive item add/remove events at the target array level
+        this.input.onAdded(this.segmentPath, (keyPath, itemKey, immutableProps) => {
+            this.handleItemAdded(keyPath, itemKey, immutableProps);
+        });
+
+        this.input.onRemoved(this.segmentPath, (keyPath, itemKey) => {
+            this.handleItemRemoved(keyPath, itemKey);
+        });
+
+        this.input.onUpdated(this.segmentPath, (keyPath, itemKey, oldImmutableProps, newImmutableProps) => {
+            this.handleItemUpdated(keyPath, itemKey, newImmutableProps);
+        });
+
+        this.input.onModified(this.segmentPath, (keyPath, itemKey, name, value) => {
+            this.handleItemModified(keyPath, itemKey, name, value);
+        });
+    }
+
+    getTypeDescriptor(): TypeDescriptor {
+        return transformDescriptorAt(this.input.getTypeDescriptor(), this.segmentPath.slice(0, -1), descriptor => {
+            // Ranked items carry the properties of the source items, but not their arrays
+            const sourceName = this.segmentPath[this.segmentPath.length - 1];
+            const source = descriptor.arrays.find(a => a.name === sourceName);
+            return {
+                ...descriptor,
+                arrays: [...descriptor.arrays, { name: this.propertyName, type: { arrays: [], properties: source?.type.properties ?? [] } }]
+            };
+        });
+    }
+
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        return {
+            // compareFn is true when value1 ranks ahead, so the smaller value ranks ahead for bottomN
+            kind: this.compareFn(0, 1) ? 'bottomN' : 'topN',
+            scope: this.segmentPath.slice(0, -1),
+            parameters: { array: this.segmentPath[this.segmentPath.length - 1], property: this.comparisonProperty, count: this.limit, as: this.propertyName }
+        };
+    }
+
+    saveState(): unknown {
+        return {
+            rankedItems: mapToRecord(this.windows, window => window.toArray().map(entry => entry.value)),
+            modifiedValues: mapToRecord(this.modifiedValues)
+        };
+    }
+
+    restoreState(state: unknown): void {
+        const saved = state as { rankedItems: Record<string, RankedItem[]>, modifiedValues: Record<string, Record<string, any>> };
+        this.windows = new UndoableMap(undefined, recordToMap(saved.rankedItems, ranked => {
+            const window = this.createWindow();
+            ranked.forEach(rankedItem => window.insert(rankedItem.key, rankedItem));
+            return window;
+        }));
+        this.modifiedValues = new UndoableMap(values => ({ ...values }), recordToMap(saved.modifiedValues));
+    }
+
+    onAdded(pathSegments: string[], handler: AddedHandler): void {
+        if (this.isWindowPath(pathSegments)) {
+            this.windowAddedHandlers.push(handler);
+        } else {
+            this.input.onAdded(pathSegments, handler);
+        }
+    }
+
+    onRemoved(pathSegments: string[], handler: RemovedHandler): void {
+        if (this.isWindowPath(pathSegments)) {
+            this.windowRemovedHandlers.push(handler);
+        } else {
+            this.input.onRemoved(pathSegments, handler);
+        }
+    }
+
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        if (this.isWindowPath(pathSegments)) {
+            this.windowUpdatedHandlers.push(handler);
+        } else {
+            this.input.onUpdated(pathSegments, handler);
+        }
+    }
+
+    onModified(pathSegments: string[], handler: ModifiedHandler): void {
+        if (this.isWindowPath(pathSegments)) {
+            this.windowModifiedHandlers.push(handler);
+        } else {
+            this.input.onModified(pathSegments, handler);
+        }
+    }
+
+    /**
+     * Checks if the given path segments represent the ranked array
+     */
+    private isWindowPath(pathSegments: string[]): boolean {
+        return pathsMatch(pathSegments, [...this.segmentPath.slice(0, -1), this.propertyName]);
+    }
+
+    /**
+     * Handle when an item is added to the target array
+     */
+    private handleItemAdded(keyPath: string[], itemKey: string, item: ImmutableProps): void {
+        const events = this.insert(keyPath, itemKey, item);
+        this.emitEvents(keyPath, events);
+    }
+
+    /**
+     * Handle when an item is removed from the target array
+     */
+    private handleItemRemoved(keyPath: string[], itemKey: string): void {
+        const events = this.delete(keyPath, itemKey);
+        this.modifiedValues.delete(computeKeyPathHash([...keyPath, itemKey]));
+        this.emitEvents(keyPath, events);
+    }
+
+    /**
+     * Handle when a mutable property of an item in the target array changes.
+     * The value is kept for when the item enters the window, and passed on if it is in the window now.
+     */
+    private handleItemModified(keyPath: string[], itemKey: string, name: string, value: any): void {
+        const itemKeyHash = computeKeyPathHash([...keyPath, itemKey]);
+        let values = this.modifiedValues.get(itemKeyHash);
+        if (!values) {
+            values = {};
+            this.modifiedValues.set(itemKeyHash, values);
+        }
+        values[name] = value;
+        if (this.windows.get(computeKeyPathHash(keyPath))?.isInWindow(itemKey)) {
+            this.windowModifiedHandlers.forEach(handler => handler(keyPath, itemKey, name, value));
+        }
+    }
+
+    /**
+     * Handle when an item in the target array is updated.
+     * Items that leave and re-enter the window cancel out; the updated item
+     * is reported as an update if it stays in the window.
+     */
+    private handleItemUpdated(keyPath: string[], itemKey: string, newItem: ImmutableProps): void {
+        const events = [
+            ...this.delete(keyPath, itemKey),
+            ...this.insert(keyPath, itemKey, newItem)
+        ];
+
+        // Events for one key alternate, so the first and last determine the net change
+        const firstByKey = new Map<string, WindowEvent>();
+        const lastByKey = new Map<string, WindowEvent>();
+        for (const event of events) {
+            if (!firstByKey.has(event.key)) {
+                firstByKey.set(event.key, event);
+            }
+            lastByKey.set(event.key, event);
+        }
+
+        const removals: WindowEvent[] = [];
+        const additions: WindowEvent[] = [];
+        for (const [key, first] of firstByKey) {
+            const last = lastByKey.get(key)!;
+            if (first.kind === 'removed' && last.kind === 'removed') {
+                removals.push(first);
+            } else if (first.kind === 'added' && last.kind === 'added') {
+                additions.push(last);
+            } else if (first.kind === 'removed' && key === itemKey) {
+                // The updated item stayed in the window
+                this.windowUpdatedHandlers.forEach(handler => handler(keyPath, itemKey, first.value.immutableProps, last.value.immutableProps));
+            }
+        }
+        this.emitEvents(keyPath, [...removals, ...additions]);
+    }
+
+    /**
+     * Inserts an item at its ranked position and returns the resulting window changes.
+     */
+    private insert(keyPath: string[], itemKey: string, item: ImmutableProps): WindowEvent[] {
+        const rankedItem = this.toRankedItem(itemKey, item);
+        if (!rankedItem) {
+            return [];
+        }
+        const parentKeyHash = computeKeyPathHash(keyPath);
+        let window = this.windows.get(parentKeyHash);
+        if (!window) {
+            window = this.createWindow();
+            this.windows.set(parentKeyHash, window);
+        }
+        return window.insert(itemKey, rankedItem);
+    }
+
+    /**
+     * Deletes an item from its ranked position and returns the resulting window changes.
+     */
+    private delete(keyPath: string[], itemKey: string): WindowEvent[] {
+        const parentKeyHash = computeKeyPathHash(keyPath);
+        const window = this.windows.get(parentKeyHash);
+        if (!window) {
+            return [];
+        }
+        const events = window.remove(itemKey);
+        if (window.size === 0) {
+            this.windows.delete(parentKeyHash);
+        }
+        return events;
+    }
+
+    private createWindow(): RankedWindow<RankedItem> {
+        return new RankedWindow<RankedItem>(this.limit, (item1, item2) => this.ranksAhead(item1, item2));
+    }
+
+    /**
+     * Compares by value, then by item key to break ties.
+     */
+    private ranksAhead(item1: RankedItem, item2: RankedItem): boolean {
+        if (this.compareFn(item1.value, item2.value)) {
+            return true;
+        }
+        if (this.compareFn(item2.value, item1.value)) {
+            return false;
+        }
+        return item1.key < item2.key;
+    }
+
+    private toRankedItem(itemKey: string, item: ImmutableProps): RankedItem | undefined {
+        const value = item[this.comparisonProperty];
+        if (value === null || value === undefined) {
+            return undefined;
+        }
+        const comparisonValue: number | string = isNumeric(value) ? Number(value) : String(value);
+        return { key: itemKey, value: comparisonValue, immutableProps: item };
+    }
+
+    private emitEvents(keyPath: string[], events: WindowEvent[]): void {
+        for (const event of events) {
+            if (event.kind === 'added') {
+                this.windowAddedHandlers.forEach(handler => handler(keyPath, event.key, event.value.immutableProps));
+                // An item entering the window brings the values its mutable properties already have
+                const values = this.modifiedValues.get(computeKeyPathHash([...keyPath, event.key])) ?? {};
+                for (const [name, value] of Object.entries(values)) {
+                    this.windowModifiedHandlers.forEach(handler => handler(keyPath, event.key, name, value));
+                }
+            } else {
+                this.windowRemovedHandlers.forEach(handler => handler(keyPath, event.key, event.value.immutableProps));
+            }
+        }
+    }
+}
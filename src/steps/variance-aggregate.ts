@@ -0,0 +1,291 @@
+import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, Step, StepDescription, TypeDescriptor, UpdatedHandler } from '../pipeline';
+import { mapToRecord, recordToMap } from '../util/serialization';
+import { withAggregateProperty } from '../util/type-descriptor';
+import { UndoableMap } from '../util/undo-log';
+
+/**
+ * Computes a hash key for a key path (for map lookups).
+ */
+function computeKeyPathHash(keyPath: string[]): string {
+    return keyPath.join('::');
+}
+
+/**
+ * Fraction of the sum of squares below which what a removal leaves of it is
+ * taken to be rounding error.
+ */
+const CANCELLATION_TOLERANCE = 1e-12;
+
+/**
+ * Whether the values are the whole population or a sample of it.
+ */
+export type VarianceKind = 'population' | 'sample';
+
+/**
+ * Which statistic to emit: the variance or its square root.
+ */
+export type VarianceStatistic = 'variance' | 'stdDev';
+
+/**
+ * Tracks count, mean and the sum of squared deviations from the mean (Welford's method).
+ */
+interface MomentState {
+    count: number;
+    mean: number;
+    sumOfSquares: number;
+}
+
+function copyMomentState(state: MomentState): MomentState {
+    return { ...state };
+}
+
+/**
+ * A step that computes the variance or standard deviation of a numeric property over items in a nested array.
+ * 
+ * - Returns undefined for groups too small to have one
+ *   (no values for a population, fewer than two for a sample)
+ * - Updates running moments with Welford's method, which stays accurate
+ *   under removal where subtracting sums of squares would not
+ * - Handles null/undefined by excluding them, as average does
+ */
+export class VarianceAggregateStep<
+    TInput,
+    TPath extends string[],
+    TPropertyName extends string
+> implements Step {
+    
+    /** Maps parent key path hash to running moments */
+    private momentStates: Map<string, MomentState> = new UndoableMap(copyMomentState);
+    
+    /** Handlers for modified events at various levels */
+    private modifiedHandlers: Array<{
+        pathSegments: string[];
+        handler: ModifiedHandler;
+    }> = [];
+    
+    constructor(
+        private input: Step,
+        private segmentPath: TPath,
+        private propertyName: TPropertyName,
+        private numericProperty: string,
+        private kind: VarianceKind,
+        private statistic: VarianceStatistic
+    ) {
+        // Register with input step to receive item add/remove events at the target array level
+        this.input.onAdded(this.segmentPath, (keyPath, itemKey, immutableProps) => {
+            this.handleItemAdded(keyPath, itemKey, immutableProps);
+        });
+        
+        this.input.onRemoved(this.segmentPath, (keyPath, itemKey, immutableProps) => {
+            this.handleItemRemoved(keyPath, itemKey, immutableProps);
+        });
+        
+        this.input.onUpdated(this.segmentPath, (keyPath, itemKey, oldImmutableProps, newImmutableProps) => {
+            this.handleItemUpdated(keyPath, itemKey, oldImmutableProps, newImmutableProps);
+        });
+    }
+    
+    getTypeDescriptor(): TypeDescriptor {
+        return withAggregateProperty(this.input.getTypeDescriptor(), this.segmentPath, { name: this.propertyName, type: 'number' });
+    }
+
+    getInputs(): Step[] {
+        return [this.input];
+    }
+
+    describe(): StepDescription {
+        return {
+            kind: this.statistic,
+            scope: this.segmentPath.slice(0, -1),
+            parameters: { array: this.segmentPath[this.segmentPath.length - 1], property: this.numericProperty, kind: this.kind, as: this.propertyName }
+        };
+    }
+
+    saveState(): unknown {
+        return { momentStates: mapToRecord(this.momentStates) };
+    }
+
+    restoreState(state: unknown): void {
+        const saved = state as { momentStates: Record<string, MomentState> };
+        this.momentStates = new UndoableMap(copyMomentState, recordToMap(saved.momentStates));
+    }
+    
+    onAdded(pathSegments: string[], handler: AddedHandler): void {
+        this.input.onAdded(pathSegments, handler);
+    }
+    
+    onRemoved(pathSegments: string[], handler: RemovedHandler): void {
+        this.input.onRemoved(pathSegments, handler);
+    }
+    
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        this.input.onUpdated(pathSegments, handler);
+    }
+    
+    onModified(pathSegments: string[], handler: ModifiedHandler): void {
+        if (this.isParentPath(pathSegments)) {
+            // Handler wants modification events at parent level
+            // This is the channel for receiving aggregate values
+            this.modifiedHandlers.push({
+                pathSegments,
+                handler
+            });
+        }
+        // Always pass through to input for other property modifications
+        this.input.onModified(pathSegments, handler);
+    }
+    
+    /**
+     * Checks if the given path segments represent the parent level (where aggregate property lives)
+     */
+    private isParentPath(pathSegments: string[]): boolean {
+        // Parent path segments are segmentPath without the last element
+        const parentSegments = this.segmentPath.slice(0, -1);
+        
+        if (pathSegments.length !== parentSegments.length) {
+            return false;
+        }
+        
+        return pathSegments.every((segment, i) => segment === parentSegments[i]);
+    }
+    
+    /**
+     * Handle when an item is added to the target array
+     */
+    private handleItemAdded(keyPath: string[], itemKey: string, item: ImmutableProps): void {
+        const parentKeyPath = keyPath;
+        const parentKeyHash = computeKeyPathHash(parentKeyPath);
+        
+        const state = this.momentStates.get(parentKeyHash) || { count: 0, mean: 0, sumOfSquares: 0 };
+        const value = this.toNumericValue(item);
+        if (value !== undefined) {
+            this.addValue(state, value);
+        }
+        this.storeState(parentKeyHash, state);
+        
+        // Emit modification event
+        this.emitModification(parentKeyPath, this.computeStatistic(state));
+    }
+    
+    /**
+     * Handle when an item is removed from the target array
+     */
+    private handleItemRemoved(keyPath: string[], itemKey: string, item: ImmutableProps): void {
+        const parentKeyPath = keyPath;
+        const parentKeyHash = computeKeyPathHash(parentKeyPath);
+        
+        const state = this.momentStates.get(parentKeyHash) || { count: 0, mean: 0, sumOfSquares: 0 };
+        const value = this.toNumericValue(item);
+        if (value !== undefined) {
+            this.removeValue(state, value);
+        }
+        this.storeState(parentKeyHash, state);
+        
+        // Emit modification event
+        this.emitModification(parentKeyPath, this.computeStatistic(state));
+    }
+    
+    /**
+     * Handle when an item in the target array is updated.
+     * Applies the change as a single delta so only one modification is emitted.
+     */
+    private handleItemUpdated(keyPath: string[], itemKey: string, oldItem: ImmutableProps, newItem: ImmutableProps): void {
+        const parentKeyPath = keyPath;
+        const parentKeyHash = computeKeyPathHash(parentKeyPath);
+        
+        const state = this.momentStates.get(parentKeyHash) || { count: 0, mean: 0, sumOfSquares: 0 };
+        
+        // Remove the old value's contribution if it was numeric
+        const oldValue = this.toNumericValue(oldItem);
+        if (oldValue !== undefined) {
+            this.removeValue(state, oldValue);
+        }
+        
+        // Add the new value's contribution if it is numeric
+        const newValue = this.toNumericValue(newItem);
+        if (newValue !== undefined) {
+            this.addValue(state, newValue);
+        }
+        this.storeState(parentKeyHash, state);
+        
+        // Emit modification event
+        this.emitModification(parentKeyPath, this.computeStatistic(state));
+    }
+    
+    private addValue(state: MomentState, value: number): void {
+        state.count += 1;
+        const delta = value - state.mean;
+        state.mean += delta / state.count;
+        state.sumOfSquares += delta * (value - state.mean);
+    }
+    
+    private removeValue(state: MomentState, value: number): void {
+        if (state.count <= 1) {
+            state.count = 0;
+            state.mean = 0;
+            state.sumOfSquares = 0;
+            return;
+        }
+        const oldMean = state.mean;
+        const oldSumOfSquares = state.sumOfSquares;
+        state.count -= 1;
+        state.mean = oldMean - (value - oldMean) / state.count;
+        state.sumOfSquares -= (value - oldMean) * (value - state.mean);
+        // A single value has no spread; otherwise what is left after the
+        // subtraction cancels out is rounding error, possibly below zero
+        if (state.count === 1 || state.sumOfSquares <= oldSumOfSquares * CANCELLATION_TOLERANCE) {
+            state.sumOfSquares = 0;
+        }
+    }
+    
+    private storeState(parentKeyHash: string, state: MomentState): void {
+        if (state.count === 0) {
+            this.momentStates.delete(parentKeyHash);
+        } else {
+            this.momentStates.set(parentKeyHash, state);
+        }
+    }
+    
+    /**
+     * Computes the variance or standard deviation, or undefined if there are too few values.
+     */
+    private computeStatistic(state: MomentState): number | undefined {
+        const denominator = this.kind === 'sample' ? state.count - 1 : state.count;
+        if (denominator <= 0) {
+            return undefined;
+        }
+        const variance = state.sumOfSquares / denominator;
+        return this.statistic === 'stdDev' ? Math.sqrt(variance) : variance;
+    }
+    
+    /**
+     * Extracts the numeric value of an item, or undefined if it is null, undefined or not a number.
+     */
+    private toNumericValue(item: ImmutableProps): number | undefined {
+        const value = item[this.numericProperty];
+        if (value === null || value === undefined) {
+            return undefined;
+        }
+        const numValue = Number(value);
+        return isNaN(numValue) ? undefined : numValue;
+    }
+    
+    /**
+     * Emits a modification event for the statistic.
+     */
+    private emitModification(parentKeyPath: string[], value: number | undefined): void {
+        if (parentKeyPath.length > 0) {
+            const parentKey = parentKeyPath[parentKeyPath.length - 1];
+            const keyPathToParent = parentKeyPath.slice(0, -1);
+            
+            this.modifiedHandlers.forEach(({ handler }) => {
+                handler(keyPathToParent, parentKey, this.propertyName, value);
+            });
+        } else {
+            // Parent is at root level
+            this.modifiedHandlers.forEach(({ handler }) => {
+                handler([], '', this.propertyName, value);
+            });
+        }
+    }
+}
@@ -1,4 +1,4 @@
-import { KeyedArray, Pipeline, PipelineBuilder, Transform, TypeDescriptor } from '../index';
+import { BuildOptions, BuiltPipeline, KeyedArray, PipelineBuilder, Transform, TypeDescriptor } from '../index';
 
 // Type helper to extract the output type from a PipelineBuilder
 // and recursively convert KeyedArray properties to arrays
@@ -19,14 +19,15 @@ export type BuilderOutputType<T> = T extends PipelineBuilder<infer U, any, any>
 
 // Helper function that uses type inference to set up a test pipeline
 export function createTestPipeline<TBuilder extends PipelineBuilder<any, any, any>>(
-    builderFactory: () => TBuilder
-): [Pipeline<any>, () => BuilderOutputType<TBuilder>[]] {
+    builderFactory: () => TBuilder,
+    options?: BuildOptions
+): [BuiltPipeline<any>, () => BuilderOutputType<TBuilder>[]] {
     const builder = builderFactory();
     type OutputType = BuilderOutputType<TBuilder>;
     // Use the actual output type from the builder, not the input type
     const [ getState, setState ] = simulateState<KeyedArray<OutputType>>([]);
     const typeDescriptor = builder.getTypeDescriptor();
-    const pipeline = builder.build(setState, typeDescriptor);
+    const pipeline = builder.build(setState, typeDescriptor, options);
     const getOutput = (): OutputType[] => extract(getState(), typeDescriptor);
     return [pipeline, getOutput];
 }
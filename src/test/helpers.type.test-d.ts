@@ -115,3 +115,30 @@ import type { PipelineBuilder } from '../index';
     expectType<false>({} as HasValueKey);
 }
 
+
+// Test that the items of a top-N window do not have the arrays of the source items
+{
+    const builder = createPipeline<{ state: string; city: string; capacity: number }>()
+        .groupBy(['state', 'city'], 'venues')
+        .groupBy(['state'], 'cities')
+        .topN('cities', 'city', 2, 'topCities');
+    
+    type Output = BuilderOutputType<typeof builder>;
+    
+    expectType<{ city: string }[]>({} as Output['topCities']);
+}
+
+// Test that orderBy keeps the scope for the next step
+{
+    const builder = createPipeline<{ category: string; name: string; price: number }>()
+        .groupBy(['category'], 'items')
+        .in('items').orderBy('name')
+        .filter(item => {
+            expectType<{ name: string; price: number }>(item);
+            return item.price > 0;
+        });
+    
+    type Output = BuilderOutputType<typeof builder>;
+    
+    expectType<{ category: string; items: { name: string; price: number }[] }>({} as Output);
+}
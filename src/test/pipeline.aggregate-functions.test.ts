@@ -1,4 +1,5 @@
 import { createPipeline } from '../index';
+import type { Step } from '../pipeline';
 import { createTestPipeline } from './helpers';
 
 describe('Aggregate Functions', () => {
@@ -357,6 +358,45 @@ describe('Aggregate Functions', () => {
             const dallasCity = txState?.cities.find(c => c.city === 'Dallas');
             expect(dallasCity?.maxCapacity).toBe(50000);
         });
+
+        it('should remove the right entry among duplicate values', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .max('items', 'price', 'maxPrice')
+            );
+
+            const item1 = { category: 'A', price: 200 };
+            const item2 = { category: 'A', price: 200 };
+            const item3 = { category: 'A', price: 100 };
+            pipeline.add('item1', item1);
+            pipeline.add('item2', item2);
+            pipeline.add('item3', item3);
+
+            pipeline.remove('item1', item1);
+            expect(getOutput()[0].maxPrice).toBe(200);
+
+            pipeline.remove('item2', item2);
+            expect(getOutput()[0].maxPrice).toBe(100);
+        });
+
+        it('should emit a modification only when the maximum changes', () => {
+            const builder = createPipeline<{ category: string; price: number }>()
+                .groupBy(['category'], 'items')
+                .max('items', 'price', 'maxPrice');
+            const step = builder['lastStep'] as Step;
+            const values: (number | undefined)[] = [];
+            step.onModified([], (keyPath, key, name, value) => values.push(value));
+
+            const input = builder['input'];
+            input.add('item1', { category: 'A', price: 100 });
+            input.add('item2', { category: 'A', price: 50 });
+            input.add('item3', { category: 'A', price: 150 });
+            input.remove('item2', { category: 'A', price: 50 });
+            input.remove('item3', { category: 'A', price: 150 });
+
+            expect(values).toEqual([100, 150, 100]);
+        });
     });
 
     describe('average', () => {
@@ -452,6 +492,259 @@ describe('Aggregate Functions', () => {
         });
     });
 
+    describe('variance', () => {
+        it('should compute the population variance', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .variance('items', 'price', 'priceVariance')
+            );
+
+            for (const [key, price] of [['item1', 2], ['item2', 4], ['item3', 4], ['item4', 4], ['item5', 5], ['item6', 5], ['item7', 7], ['item8', 9]] as const) {
+                pipeline.add(key, { category: 'A', price });
+            }
+
+            expect(getOutput()[0].priceVariance).toBeCloseTo(4);
+        });
+
+        it('should compute the sample variance', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .variance('items', 'price', 'priceVariance', 'sample')
+            );
+
+            pipeline.add('item1', { category: 'A', price: 1 });
+            pipeline.add('item2', { category: 'A', price: 2 });
+            pipeline.add('item3', { category: 'A', price: 3 });
+
+            expect(getOutput()[0].priceVariance).toBeCloseTo(1);
+        });
+
+        it('should return undefined for groups that are too small', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; price: number | null }>()
+                    .groupBy(['category'], 'items')
+                    .variance('items', 'price', 'populationVariance')
+                    .variance('items', 'price', 'sampleVariance', 'sample')
+            );
+
+            pipeline.add('item1', { category: 'A', price: null });
+            expect(getOutput()[0].populationVariance).toBeUndefined();
+            expect(getOutput()[0].sampleVariance).toBeUndefined();
+
+            pipeline.add('item2', { category: 'A', price: 10 });
+            expect(getOutput()[0].populationVariance).toBe(0);
+            expect(getOutput()[0].sampleVariance).toBeUndefined();
+        });
+
+        it('should stay accurate as values are removed', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .variance('items', 'price', 'priceVariance')
+            );
+
+            // Large offset where subtracting sums of squares would lose precision
+            const offset = 1e9;
+            pipeline.add('item1', { category: 'A', price: offset + 4 });
+            pipeline.add('item2', { category: 'A', price: offset + 7 });
+            pipeline.add('item3', { category: 'A', price: offset + 13 });
+            pipeline.add('item4', { category: 'A', price: offset + 16 });
+            pipeline.remove('item4', { category: 'A', price: offset + 16 });
+
+            expect(getOutput()[0].priceVariance).toBeCloseTo(14);
+        });
+
+        it('should return exactly zero once the remaining values are equal', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .variance('items', 'price', 'priceVariance')
+                    .stdDev('items', 'price', 'priceStdDev')
+            );
+
+            pipeline.add('item1', { category: 'A', price: 8 });
+            pipeline.add('item2', { category: 'A', price: 8 });
+            pipeline.add('item3', { category: 'A', price: 1 });
+            pipeline.remove('item3', { category: 'A', price: 1 });
+
+            expect(getOutput()[0].priceVariance).toBe(0);
+            expect(getOutput()[0].priceStdDev).toBe(0);
+        });
+
+        it('should follow updates', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .variance('items', 'price', 'priceVariance')
+            );
+
+            pipeline.add('item1', { category: 'A', price: 1 });
+            pipeline.add('item2', { category: 'A', price: 3 });
+            pipeline.update('item2', { category: 'A', price: 3 }, { category: 'A', price: 5 });
+
+            expect(getOutput()[0].priceVariance).toBeCloseTo(4);
+        });
+    });
+
+    describe('stdDev', () => {
+        it('should compute the population standard deviation', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .stdDev('items', 'price', 'priceStdDev')
+            );
+
+            for (const [key, price] of [['item1', 2], ['item2', 4], ['item3', 4], ['item4', 4], ['item5', 5], ['item6', 5], ['item7', 7], ['item8', 9]] as const) {
+                pipeline.add(key, { category: 'A', price });
+            }
+
+            expect(getOutput()[0].priceStdDev).toBeCloseTo(2);
+        });
+
+        it('should support scoped usage via in() with a sample', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ state: string; city: string; venue: string; capacity: number }>()
+                    .groupBy(['state', 'city'], 'venues')
+                    .groupBy(['state'], 'cities')
+                    .in('cities')
+                    .stdDev('venues', 'capacity', 'capacityStdDev', 'sample')
+            );
+
+            pipeline.add('v1', { state: 'TX', city: 'Dallas', venue: 'Stadium', capacity: 30 });
+            pipeline.add('v2', { state: 'TX', city: 'Dallas', venue: 'Arena', capacity: 20 });
+            pipeline.add('v3', { state: 'TX', city: 'Dallas', venue: 'Theater', capacity: 10 });
+
+            expect(getOutput()[0].cities[0].capacityStdDev).toBeCloseTo(10);
+        });
+    });
+
+    describe('median', () => {
+        it('should compute the middle value', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .median('items', 'price', 'medianPrice')
+            );
+
+            pipeline.add('item1', { category: 'A', price: 300 });
+            pipeline.add('item2', { category: 'A', price: 100 });
+            pipeline.add('item3', { category: 'A', price: 200 });
+
+            const output = getOutput();
+            const group = output.find(g => g.category === 'A');
+            expect(group?.medianPrice).toBe(200);
+        });
+
+        it('should average the middle values of an even count', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .median('items', 'price', 'medianPrice')
+            );
+
+            const item1 = { category: 'A', price: 100 };
+            pipeline.add('item1', item1);
+            pipeline.add('item2', { category: 'A', price: 200 });
+            pipeline.add('item3', { category: 'A', price: 400 });
+            pipeline.add('item4', { category: 'A', price: 1000 });
+
+            expect(getOutput()[0].medianPrice).toBe(300); // (200 + 400) / 2
+
+            pipeline.remove('item1', item1);
+
+            expect(getOutput()[0].medianPrice).toBe(400);
+        });
+
+        it('should handle null/undefined by excluding them', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; price: number | null | undefined }>()
+                    .groupBy(['category'], 'items')
+                    .median('items', 'price', 'medianPrice')
+            );
+
+            pipeline.add('item1', { category: 'A', price: null });
+            expect(getOutput()[0].medianPrice).toBeUndefined();
+
+            pipeline.add('item2', { category: 'A', price: undefined });
+            pipeline.add('item3', { category: 'A', price: 100 });
+            pipeline.add('item4', { category: 'A', price: 200 });
+
+            expect(getOutput()[0].medianPrice).toBe(150);
+        });
+
+        it('should follow updates', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .median('items', 'price', 'medianPrice')
+            );
+
+            pipeline.add('item1', { category: 'A', price: 100 });
+            pipeline.add('item2', { category: 'A', price: 200 });
+            pipeline.add('item3', { category: 'A', price: 300 });
+            pipeline.update('item1', { category: 'A', price: 100 }, { category: 'A', price: 500 });
+
+            expect(getOutput()[0].medianPrice).toBe(300);
+        });
+    });
+
+    describe('percentile', () => {
+        it('should interpolate between the closest ranks', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ service: string; duration: number }>()
+                    .groupBy(['service'], 'requests')
+                    .percentile('requests', 'duration', 95, 'p95')
+            );
+
+            for (let i = 1; i <= 11; i++) {
+                pipeline.add(`request${i}`, { service: 'api', duration: i * 10 });
+            }
+
+            // Rank (11 - 1) * 0.95 = 9.5, between 100 and 110
+            expect(getOutput()[0].p95).toBeCloseTo(105);
+        });
+
+        it('should emit modifications only when the percentile changes', () => {
+            const builder = createPipeline<{ category: string; price: number }>()
+                .groupBy(['category'], 'items')
+                .percentile('items', 'price', 100, 'maxPrice');
+            const step = builder['lastStep'] as Step;
+            const values: (number | undefined)[] = [];
+            step.onModified([], (keyPath, key, name, value) => values.push(value));
+
+            const input = builder['input'];
+            input.add('item1', { category: 'A', price: 10 });
+            input.add('item2', { category: 'A', price: 5 });
+            input.add('item3', { category: 'A', price: 20 });
+
+            expect(values).toEqual([10, 20]);
+        });
+
+        it('should support scoped usage via in()', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ state: string; city: string; venue: string; capacity: number }>()
+                    .groupBy(['state', 'city'], 'venues')
+                    .groupBy(['state'], 'cities')
+                    .in('cities')
+                    .percentile('venues', 'capacity', 0, 'smallestCapacity')
+            );
+
+            pipeline.add('v1', { state: 'TX', city: 'Dallas', venue: 'Stadium', capacity: 50000 });
+            pipeline.add('v2', { state: 'TX', city: 'Dallas', venue: 'Arena', capacity: 20000 });
+
+            expect(getOutput()[0].cities[0].smallestCapacity).toBe(20000);
+        });
+
+        it('should reject a percentile outside 0 to 100', () => {
+            expect(() => createPipeline<{ category: string; price: number }>()
+                .groupBy(['category'], 'items')
+                .percentile('items', 'price', 101, 'p101')
+            ).toThrow('PercentileAggregateStep: percentile must be between 0 and 100, got 101');
+        });
+    });
+
     describe('integration with other steps', () => {
         it('should work with dropProperty', () => {
             const [pipeline, getOutput] = createTestPipeline(() =>
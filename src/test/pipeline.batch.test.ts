@@ -0,0 +1,147 @@
+import { createPipeline, type KeyedArray, type Transform } from '../index';
+import { createTestPipeline, extract } from './helpers';
+
+describe('pipeline batch', () => {
+    function createCountingPipeline() {
+        const builder = createPipeline<{ category: string; value: number }>()
+            .groupBy(['category'], 'items')
+            .sum('items', 'value', 'total');
+        const typeDescriptor = builder.getTypeDescriptor();
+        let state: KeyedArray<any> = [];
+        let setStateCalls = 0;
+        const pipeline = builder.build((transform: Transform<KeyedArray<any>>) => {
+            setStateCalls++;
+            state = transform(state);
+        }, typeDescriptor);
+        return {
+            pipeline,
+            getOutput: () => extract(state, typeDescriptor),
+            getSetStateCalls: () => setStateCalls
+        };
+    }
+
+    it('should call setState once per event outside of a batch', () => {
+        const { pipeline, getSetStateCalls } = createCountingPipeline();
+
+        pipeline.add('item1', { category: 'A', value: 10 });
+
+        // Group added, item added, total modified
+        expect(getSetStateCalls()).toBe(3);
+    });
+
+    it('should call setState once for the whole batch', () => {
+        const { pipeline, getOutput, getSetStateCalls } = createCountingPipeline();
+
+        pipeline.batch(() => {
+            pipeline.add('item1', { category: 'A', value: 10 });
+            pipeline.add('item2', { category: 'A', value: 20 });
+            pipeline.add('item3', { category: 'B', value: 5 });
+        });
+
+        expect(getSetStateCalls()).toBe(1);
+        expect(getOutput()).toEqual([
+            { category: 'A', total: 30, items: [{ value: 10 }, { value: 20 }] },
+            { category: 'B', total: 5, items: [{ value: 5 }] }
+        ]);
+    });
+
+    it('should not call setState for an empty batch', () => {
+        const { pipeline, getSetStateCalls } = createCountingPipeline();
+
+        pipeline.batch(() => {});
+
+        expect(getSetStateCalls()).toBe(0);
+    });
+
+    it('should commit only when the outermost batch completes', () => {
+        const { pipeline, getOutput, getSetStateCalls } = createCountingPipeline();
+
+        pipeline.batch(() => {
+            pipeline.add('item1', { category: 'A', value: 10 });
+            pipeline.batch(() => {
+                pipeline.add('item2', { category: 'A', value: 20 });
+            });
+            expect(getSetStateCalls()).toBe(0);
+        });
+
+        expect(getSetStateCalls()).toBe(1);
+        expect(getOutput()).toEqual([
+            { category: 'A', total: 30, items: [{ value: 10 }, { value: 20 }] }
+        ]);
+    });
+
+    it('should apply the last value of a repeatedly modified property', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; value: number }>()
+                .groupBy(['category'], 'items')
+                .sum('items', 'value', 'total')
+        );
+
+        pipeline.batch(() => {
+            pipeline.add('item1', { category: 'A', value: 10 });
+            pipeline.add('item2', { category: 'B', value: 1 });
+            pipeline.add('item3', { category: 'A', value: 20 });
+            pipeline.add('item4', { category: 'B', value: 2 });
+            pipeline.add('item5', { category: 'A', value: 30 });
+        });
+
+        expect(getOutput()).toEqual([
+            { category: 'A', total: 60, items: [{ value: 10 }, { value: 20 }, { value: 30 }] },
+            { category: 'B', total: 3, items: [{ value: 1 }, { value: 2 }] }
+        ]);
+    });
+
+    it('should apply a modification that follows a removal and re-add', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; value: number }>()
+                .groupBy(['category'], 'items')
+                .sum('items', 'value', 'total')
+        );
+
+        pipeline.batch(() => {
+            pipeline.add('item1', { category: 'A', value: 10 });
+            pipeline.remove('item1', { category: 'A', value: 10 });
+            pipeline.add('item2', { category: 'A', value: 7 });
+        });
+
+        expect(getOutput()).toEqual([
+            { category: 'A', total: 7, items: [{ value: 7 }] }
+        ]);
+    });
+
+    it('should produce the same state as unbatched processing', () => {
+        const createBuilder = () => createPipeline<{ category: string; value: number }>()
+            .groupBy(['category'], 'items')
+            .sum('items', 'value', 'total')
+            .count('items', 'count')
+            .max('items', 'value', 'maxValue');
+        const [batched, getBatchedOutput] = createTestPipeline(createBuilder);
+        const [unbatched, getUnbatchedOutput] = createTestPipeline(createBuilder);
+
+        const run = (pipeline: typeof batched) => {
+            pipeline.add('item1', { category: 'A', value: 10 });
+            pipeline.add('item2', { category: 'B', value: 20 });
+            pipeline.add('item3', { category: 'A', value: 30 });
+            pipeline.update('item2', { category: 'B', value: 20 }, { category: 'A', value: 20 });
+            pipeline.remove('item1', { category: 'A', value: 10 });
+        };
+        batched.batch(() => run(batched));
+        run(unbatched);
+
+        expect(getBatchedOutput()).toEqual(getUnbatchedOutput());
+    });
+
+    it('should commit the buffered transforms when the action throws', () => {
+        const { pipeline, getOutput, getSetStateCalls } = createCountingPipeline();
+
+        expect(() => pipeline.batch(() => {
+            pipeline.add('item1', { category: 'A', value: 10 });
+            throw new Error('boom');
+        })).toThrow('boom');
+
+        expect(getSetStateCalls()).toBe(1);
+        expect(getOutput()).toEqual([
+            { category: 'A', total: 10, items: [{ value: 10 }] }
+        ]);
+    });
+});
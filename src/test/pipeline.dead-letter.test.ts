@@ -0,0 +1,193 @@
+import { createPipeline, type BuildOptions, type KeyedArray, type PipelineBuilder } from '../index';
+import { GroupByStep } from '../steps/group-by';
+import { extract, simulateState } from './helpers';
+
+type Sale = { category: string; product: string; price: number };
+
+describe('pipeline dead letters', () => {
+    function build<T extends {}>(builder: PipelineBuilder<T, Sale, any>, options: BuildOptions) {
+        const typeDescriptor = builder.getTypeDescriptor();
+        let setStateCalls = 0;
+        const [getState, setState] = simulateState<KeyedArray<T>>([]);
+        const pipeline = builder.build(transform => {
+            setStateCalls++;
+            setState(transform);
+        }, typeDescriptor, options);
+        return { pipeline, getOutput: () => extract(getState(), typeDescriptor), getSetStateCalls: () => setStateCalls };
+    }
+
+    function defineTotals(isBroken: (sale: Sale) => boolean) {
+        return createPipeline<Sale>()
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', 'total')
+            .in('items').filter(item => {
+                if (isBroken(item as Sale)) {
+                    throw new Error(`cannot filter ${item.product}`);
+                }
+                return item.price > 1;
+            });
+    }
+
+    const atlas = { category: 'Books', product: 'Atlas', price: 8 };
+    const broken = { category: 'Books', product: 'Broken', price: 5 };
+
+    it('should let the error through by default', () => {
+        const { pipeline } = build(defineTotals(sale => sale.product === 'Broken'), {});
+
+        expect(() => pipeline.add('s2', broken)).toThrow('cannot filter Broken');
+        expect(pipeline.deadLetters()).toEqual([]);
+    });
+
+    it.each(['array', 'map'] as const)('should roll back a failing operation and rethrow (%s store)', store => {
+        const { pipeline, getOutput } = build(defineTotals(sale => sale.product === 'Broken'), { store, onError: 'rollback' });
+        pipeline.add('s1', atlas);
+
+        expect(() => pipeline.add('s2', broken)).toThrow('cannot filter Broken');
+        expect(getOutput()).toEqual([{ category: 'Books', total: 8, items: [{ product: 'Atlas', price: 8 }] }]);
+
+        // The sum no longer counts the failed item
+        pipeline.remove('s1', atlas);
+        expect(getOutput()).toEqual([]);
+        expect(pipeline.deadLetters()).toEqual([]);
+    });
+
+    it('should keep a failing operation with its step and error in the dead-letter list', () => {
+        const { pipeline, getOutput } = build(defineTotals(sale => sale.product === 'Broken'), { onError: 'deadLetter' });
+        pipeline.add('s1', atlas);
+        pipeline.add('s2', broken);
+
+        expect(getOutput()).toEqual([{ category: 'Books', total: 8, items: [{ product: 'Atlas', price: 8 }] }]);
+        const [letter] = pipeline.deadLetters();
+        expect(letter).toEqual({
+            operation: 'add',
+            key: 's2',
+            immutableProps: broken,
+            step: expect.objectContaining({ kind: 'filter', scope: ['items'] }),
+            error: new Error('cannot filter Broken')
+        });
+    });
+
+    it('should retry dead letters after a fix, keeping those that fail again', () => {
+        const brokenProducts = new Set(['Broken', 'Chess']);
+        const { pipeline, getOutput } = build(defineTotals(sale => brokenProducts.has(sale.product)), { onError: 'deadLetter' });
+        pipeline.add('s1', atlas);
+        pipeline.add('s2', broken);
+        pipeline.add('s3', { category: 'Games', product: 'Chess', price: 12 });
+        pipeline.update('s1', atlas, { ...atlas, product: 'Chess' });
+        expect(pipeline.deadLetters().map(letter => `${letter.operation} ${letter.key}`)).toEqual(['add s2', 'add s3', 'update s1']);
+
+        brokenProducts.delete('Broken');
+        pipeline.retryDeadLetters();
+
+        expect(pipeline.deadLetters().map(letter => `${letter.operation} ${letter.key}`)).toEqual(['add s3', 'update s1']);
+        expect(getOutput()).toEqual([{
+            category: 'Books',
+            total: 13,
+            items: [{ product: 'Atlas', price: 8 }, { product: 'Broken', price: 5 }]
+        }]);
+    });
+
+    it('should report errors that do not come from a user function without a step', () => {
+        const { pipeline } = build(createPipeline<Sale>().groupBy(['category'], 'items'), { onError: 'deadLetter' });
+        pipeline.remove('s1', atlas);
+
+        const [letter] = pipeline.deadLetters();
+        expect(letter.step).toBeUndefined();
+        expect(letter.error).toEqual(new Error('GroupByStep: item with key "s1" not found'));
+    });
+
+    it('should keep the operations before a failing one in a batch', () => {
+        const { pipeline, getOutput, getSetStateCalls } = build(defineTotals(sale => sale.product === 'Broken'), { onError: 'deadLetter' });
+
+        pipeline.batch(() => {
+            pipeline.add('s1', atlas);
+            // Modifies the total before the filter throws
+            pipeline.add('s2', broken);
+        });
+
+        expect(getSetStateCalls()).toBe(1);
+        expect(getOutput()).toEqual([{ category: 'Books', total: 8, items: [{ product: 'Atlas', price: 8 }] }]);
+        expect(pipeline.deadLetters()).toHaveLength(1);
+    });
+
+    it.each(['array', 'map'] as const)('should match a pipeline that never saw the failing operations (%s store)', store => {
+        const isBroken = (sale: Sale) => sale.price % 7 === 0;
+        const define = (guard: (sale: Sale) => boolean) => createPipeline<Sale>()
+            .groupBy(['category'], 'items')
+            .commutativeAggregate('items', 'weighted', (total: number | undefined, item) => {
+                if (guard(item as Sale)) {
+                    throw new Error('cannot weigh');
+                }
+                return (total ?? 0) + item.price * 2;
+            }, (total, item) => total - item.price * 2)
+            .min('items', 'price', 'cheapest')
+            .average('items', 'price', 'averagePrice')
+            .countDistinct('items', 'product', 'products')
+            .having(group => (group.cheapest ?? 0) < 30)
+            .orderBy('category')
+            .in('items').orderBy('price', 'desc');
+        const guarded = build(define(isBroken), { store, onError: 'deadLetter' });
+        const clean = build(define(() => false), { store });
+
+        const present = new Map<string, Sale>();
+        for (let i = 0; i < 120; i++) {
+            const key = `s${i % 23}`;
+            const existing = present.get(key);
+            const sale = { category: ['Books', 'Games', 'Toys'][i % 3], product: `p${i % 5}`, price: (i * 13) % 50 };
+            if (existing) {
+                guarded.pipeline.remove(key, existing);
+                clean.pipeline.remove(key, existing);
+                present.delete(key);
+            } else {
+                guarded.pipeline.add(key, sale);
+                if (!isBroken(sale)) {
+                    clean.pipeline.add(key, sale);
+                    present.set(key, sale);
+                }
+            }
+            expect(guarded.getOutput()).toEqual(clean.getOutput());
+        }
+        expect(guarded.pipeline.deadLetters().length).toBeGreaterThan(0);
+    });
+
+    it.each(['array', 'map'] as const)('should undo the changes of other stateful steps (%s store)', store => {
+        const isBroken = (sale: Sale) => sale.price % 7 === 0;
+        const define = (guard: (sale: Sale) => boolean) => createPipeline<Sale>()
+            .groupBy(['category'], 'items')
+            .variance('items', 'price', 'priceVariance')
+            .percentile('items', 'price', 90, 'highPrice')
+            .max('items', 'price', 'priceMax')
+            .topN('items', 'price', 2, 'top')
+            .in('items').filter(item => {
+                if (guard(item as Sale)) {
+                    throw new Error('cannot filter');
+                }
+                return true;
+            });
+        const guarded = build(define(isBroken), { store, onError: 'deadLetter' });
+        const clean = build(define(() => false), { store });
+
+        for (let i = 0; i < 60; i++) {
+            const sale = { category: ['Books', 'Games'][i % 2], product: `p${i}`, price: (i * 11) % 40 };
+            guarded.pipeline.add(`s${i}`, sale);
+            if (!isBroken(sale)) {
+                clean.pipeline.add(`s${i}`, sale);
+            }
+            expect(guarded.getOutput()).toEqual(clean.getOutput());
+        }
+        expect(guarded.pipeline.deadLetters().length).toBeGreaterThan(0);
+    });
+
+    it('should not save the state of every step for each operation', () => {
+        const { pipeline } = build(defineTotals(sale => sale.product === 'Broken'), { store: 'map', onError: 'rollback' });
+        const saveState = jest.spyOn(GroupByStep.prototype, 'saveState');
+        try {
+            pipeline.add('s1', atlas);
+            expect(() => pipeline.add('s2', broken)).toThrow('cannot filter Broken');
+
+            expect(saveState).not.toHaveBeenCalled();
+        } finally {
+            saveState.mockRestore();
+        }
+    });
+});
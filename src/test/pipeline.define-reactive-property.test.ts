@@ -0,0 +1,109 @@
+import { createPipeline } from '../index';
+import type { Step } from '../pipeline';
+import { createTestPipeline } from './helpers';
+
+describe('pipeline defineReactiveProperty', () => {
+    it('should compute a property from two aggregates', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; profit: number; revenue: number }>()
+                .groupBy(['category'], 'items')
+                .sum('items', 'profit', 'totalProfit')
+                .sum('items', 'revenue', 'totalRevenue')
+                .defineReactiveProperty('averageMargin', ['totalProfit', 'totalRevenue'],
+                    group => group.totalRevenue ? group.totalProfit / group.totalRevenue : undefined)
+        );
+
+        pipeline.add('item1', { category: 'A', profit: 10, revenue: 100 });
+        pipeline.add('item2', { category: 'A', profit: 30, revenue: 100 });
+
+        expect(getOutput()[0].averageMargin).toBeCloseTo(0.2);
+    });
+
+    it('should recompute when a dependency changes', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; price: number }>()
+                .groupBy(['category'], 'items')
+                .sum('items', 'price', 'total')
+                .defineReactiveProperty('isLarge', ['total'], group => (group.total ?? 0) > 100)
+        );
+
+        pipeline.add('item1', { category: 'A', price: 60 });
+        expect(getOutput()[0].isLarge).toBe(false);
+
+        pipeline.add('item2', { category: 'A', price: 60 });
+        expect(getOutput()[0].isLarge).toBe(true);
+
+        pipeline.remove('item2', { category: 'A', price: 60 });
+        expect(getOutput()[0].isLarge).toBe(false);
+    });
+
+    it('should emit only when the computed value changes', () => {
+        const builder = createPipeline<{ category: string; price: number }>()
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', 'total')
+            .defineReactiveProperty('isLarge', ['total'], group => (group.total ?? 0) > 100);
+        const step = builder['lastStep'] as Step;
+        const values: boolean[] = [];
+        step.onModified([], (keyPath, key, name, value) => {
+            if (name === 'isLarge') {
+                values.push(value);
+            }
+        });
+
+        const input = builder['input'];
+        input.add('item1', { category: 'A', price: 10 });
+        input.add('item2', { category: 'A', price: 20 });
+        input.add('item3', { category: 'A', price: 100 });
+        input.add('item4', { category: 'A', price: 5 });
+
+        expect(values).toEqual([false, true]);
+    });
+
+    it('should ignore changes to properties it does not depend on', () => {
+        let computations = 0;
+        const [pipeline] = createTestPipeline(() =>
+            createPipeline<{ category: string; price: number }>()
+                .groupBy(['category'], 'items')
+                .sum('items', 'price', 'total')
+                .count('items', 'itemCount')
+                .defineReactiveProperty('doubled', ['total'], group => {
+                    computations++;
+                    return (group.total ?? 0) * 2;
+                })
+        );
+
+        pipeline.add('item1', { category: 'A', price: 10 });
+
+        // Once when the group is added, once when the total arrives
+        expect(computations).toBe(2);
+    });
+
+    it('should read immutable props and recompute on update', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ name: string; price: number; quantity: number }>()
+                .defineReactiveProperty('value', [], item => item.price * item.quantity)
+        );
+
+        pipeline.add('item1', { name: 'A', price: 2, quantity: 3 });
+        expect(getOutput()).toEqual([{ name: 'A', price: 2, quantity: 3, value: 6 }]);
+
+        pipeline.update('item1', { name: 'A', price: 2, quantity: 3 }, { name: 'A', price: 2, quantity: 5 });
+        expect(getOutput()).toEqual([{ name: 'A', price: 2, quantity: 5, value: 10 }]);
+    });
+
+    it('should work at a nested scope', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ state: string; city: string; capacity: number }>()
+                .groupBy(['state', 'city'], 'venues')
+                .groupBy(['state'], 'cities')
+                .in('cities').sum('venues', 'capacity', 'totalCapacity')
+                .in('cities').defineReactiveProperty('capacityInThousands', ['totalCapacity'],
+                    city => (city.totalCapacity ?? 0) / 1000)
+        );
+
+        pipeline.add('v1', { state: 'TX', city: 'Dallas', capacity: 50000 });
+        pipeline.add('v2', { state: 'TX', city: 'Dallas', capacity: 20000 });
+
+        expect(getOutput()[0].cities[0].capacityInThousands).toBe(70);
+    });
+});
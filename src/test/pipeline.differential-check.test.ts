@@ -0,0 +1,125 @@
+import { checkIncremental, createPipeline } from '../index';
+
+type Sale = { category: string; store: string; price: number };
+
+describe('pipeline differential check', () => {
+    function generateSale(random: () => number): Sale {
+        return {
+            category: ['Books', 'Games', 'Toys'][Math.floor(random() * 3)],
+            store: ['North', 'South'][Math.floor(random() * 2)],
+            price: Math.floor(random() * 50)
+        };
+    }
+
+    it('should pass for pipelines whose incremental output matches a rebuild', () => {
+        const failure = checkIncremental(() => createPipeline<Sale>()
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', 'total')
+            .min('items', 'price', 'minPrice')
+            .average('items', 'price', 'averagePrice')
+            .median('items', 'price', 'medianPrice')
+            .countDistinct('items', 'store', 'storeCount')
+            .orderBy('category')
+            .in('items').orderBy('price', 'desc'),
+            { generateItem: generateSale, operations: 100 });
+
+        expect(failure).toBeUndefined();
+    });
+
+    it.each(['array', 'map'] as const)('should pass with nested groups (%s store)', store => {
+        const failure = checkIncremental(() => createPipeline<Sale>()
+            .groupBy(['category', 'store'], 'sales')
+            .groupBy(['category'], 'stores')
+            .in('stores').sum('sales', 'price', 'storeTotal')
+            .max('stores', 'storeTotal', 'bestStoreTotal'),
+            { generateItem: generateSale, operations: 80, seed: 7, store });
+
+        expect(failure).toBeUndefined();
+    });
+
+    it('should tolerate rounding in running statistics', () => {
+        const failure = checkIncremental(() => createPipeline<Sale>()
+            .groupBy(['category'], 'items')
+            .variance('items', 'price', 'priceVariance')
+            .stdDev('items', 'price', 'priceStdDev'),
+            { generateItem: random => ({ ...generateSale(random), price: Math.floor(random() * 500) / 10 }), operations: 100 });
+
+        expect(failure).toBeUndefined();
+    });
+
+    it('should report an emptied array unless it is treated as absent', () => {
+        const define = () => createPipeline<Sale>()
+            .groupBy(['category'], 'items')
+            .topN('items', 'price', 2, 'top')
+            .bottomN('items', 'price', 2, 'bottom')
+            .in('items').filter(sale => sale.price > 25);
+
+        const failure = checkIncremental(define, { generateItem: generateSale, operations: 100 });
+        expect(failure).toBeDefined();
+        expect(failure!.message).toContain('"items":[]');
+
+        expect(checkIncremental(define, { generateItem: generateSale, operations: 100, emptyArraysAsAbsent: true })).toBeUndefined();
+    });
+
+    it('should shrink a divergence to the shortest failing sequence', () => {
+        // An aggregate whose removals are lost
+        const failure = checkIncremental(() => createPipeline<Sale>()
+            .groupBy(['category'], 'items')
+            .commutativeAggregate('items', 'itemCount', (count: number | undefined) => (count ?? 0) + 1, count => count),
+            { generateItem: generateSale, operations: 60, updateRatio: 0 });
+
+        expect(failure).toBeDefined();
+        expect(failure!.operations.map(operation => operation.op)).toEqual(['add', 'add', 'remove']);
+        const [first, second] = failure!.operations;
+        expect(first.value.category).toBe(second.value.category);
+        expect(failure!.message).toMatch(/^Incremental output differs from a rebuild after 3 operations \(seed 1\)/);
+        expect(failure!.message).toContain('"itemCount":2');
+    });
+
+    it('should replay updates', () => {
+        // The same lossy aggregate, which an update within a group exposes
+        const failure = checkIncremental(() => createPipeline<Sale>()
+            .groupBy(['category'], 'items')
+            .commutativeAggregate('items', 'itemCount', (count: number | undefined) => (count ?? 0) + 1, count => count),
+            { generateItem: generateSale, updateItem: (sale, random) => ({ ...sale, price: Math.floor(random() * 50) }), operations: 60, removeRatio: 0 });
+
+        expect(failure).toBeDefined();
+        expect(failure!.operations.map(operation => operation.op)).toEqual(['add', 'update']);
+        expect(failure!.message).toMatch(/^Incremental output differs from a rebuild after 2 operations \(seed 1\)/);
+        expect(failure!.message).toContain(' → ');
+    });
+
+    it('should report an error thrown by the pipeline', () => {
+        const failure = checkIncremental(() => createPipeline<Sale>()
+            .defineProperty('checked', sale => {
+                if (sale.price > 40) {
+                    throw new Error('price too high');
+                }
+                return true;
+            }),
+            { generateItem: generateSale, operations: 60 });
+
+        expect(failure).toBeDefined();
+        expect(failure!.error).toBe('price too high');
+        expect(failure!.operations).toHaveLength(1);
+        expect(failure!.operations[0].value.price).toBeGreaterThan(40);
+    });
+
+    it('should replay the same sequence for the same seed', () => {
+        const generated: Sale[][] = [[], []];
+        for (const run of generated) {
+            checkIncremental(() => createPipeline<Sale>(), {
+                generateItem: random => {
+                    const sale = generateSale(random);
+                    run.push(sale);
+                    return sale;
+                },
+                operations: 20,
+                seed: 42
+            });
+        }
+
+        expect(generated[0]).toEqual(generated[1]);
+        expect(generated[0].length).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,173 @@
+import { createPipeline } from '../index';
+import type { Step } from '../pipeline';
+import { createTestPipeline } from './helpers';
+
+describe('pipeline countDistinct / distinctValues', () => {
+    describe('countDistinct', () => {
+        it('should count distinct values per group', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ region: string; customerId: string }>()
+                    .groupBy(['region'], 'orders')
+                    .countDistinct('orders', 'customerId', 'customerCount')
+            );
+
+            pipeline.add('order1', { region: 'East', customerId: 'c1' });
+            pipeline.add('order2', { region: 'East', customerId: 'c2' });
+            pipeline.add('order3', { region: 'East', customerId: 'c1' });
+            pipeline.add('order4', { region: 'West', customerId: 'c1' });
+
+            const output = getOutput();
+            expect(output.find(group => group.region === 'East')?.customerCount).toBe(2);
+            expect(output.find(group => group.region === 'West')?.customerCount).toBe(1);
+        });
+
+        it('should keep a value until its last item is removed', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ region: string; customerId: string }>()
+                    .groupBy(['region'], 'orders')
+                    .countDistinct('orders', 'customerId', 'customerCount')
+            );
+
+            pipeline.add('order1', { region: 'East', customerId: 'c1' });
+            pipeline.add('order2', { region: 'East', customerId: 'c1' });
+            pipeline.add('order3', { region: 'East', customerId: 'c2' });
+
+            pipeline.remove('order1', { region: 'East', customerId: 'c1' });
+            expect(getOutput()[0].customerCount).toBe(2);
+
+            pipeline.remove('order2', { region: 'East', customerId: 'c1' });
+            expect(getOutput()[0].customerCount).toBe(1);
+        });
+
+        it('should ignore null/undefined values', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ region: string; customerId: string | null }>()
+                    .groupBy(['region'], 'orders')
+                    .countDistinct('orders', 'customerId', 'customerCount')
+            );
+
+            pipeline.add('order1', { region: 'East', customerId: null });
+            expect(getOutput()[0].customerCount).toBe(0);
+
+            pipeline.add('order2', { region: 'East', customerId: 'c1' });
+            expect(getOutput()[0].customerCount).toBe(1);
+        });
+
+        it('should compare values by canonical form', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ region: string; code: string | number }>()
+                    .groupBy(['region'], 'orders')
+                    .countDistinct('orders', 'code', 'codeCount')
+            );
+
+            pipeline.add('order1', { region: 'East', code: 1 });
+            pipeline.add('order2', { region: 'East', code: '1' });
+            pipeline.add('order3', { region: 'East', code: 1 });
+
+            expect(getOutput()[0].codeCount).toBe(2);
+        });
+
+        it('should emit modifications only when the distinct values change', () => {
+            const builder = createPipeline<{ region: string; customerId: string }>()
+                .groupBy(['region'], 'orders')
+                .countDistinct('orders', 'customerId', 'customerCount');
+            const step = builder['lastStep'] as Step;
+            const values: number[] = [];
+            step.onModified([], (keyPath, key, name, value) => values.push(value));
+
+            const input = builder['input'];
+            input.add('order1', { region: 'East', customerId: 'c1' });
+            input.add('order2', { region: 'East', customerId: 'c1' });
+            input.add('order3', { region: 'East', customerId: 'c2' });
+            input.remove('order1', { region: 'East', customerId: 'c1' });
+            input.remove('order3', { region: 'East', customerId: 'c2' });
+
+            expect(values).toEqual([1, 2, 1]);
+        });
+
+        it('should move a reference on update', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ region: string; customerId: string }>()
+                    .groupBy(['region'], 'orders')
+                    .countDistinct('orders', 'customerId', 'customerCount')
+            );
+
+            pipeline.add('order1', { region: 'East', customerId: 'c1' });
+            pipeline.add('order2', { region: 'East', customerId: 'c2' });
+            pipeline.update('order2', { region: 'East', customerId: 'c2' }, { region: 'East', customerId: 'c1' });
+
+            expect(getOutput()[0].customerCount).toBe(1);
+        });
+
+        it('should support scoped usage via in()', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ state: string; city: string; venue: string; kind: string }>()
+                    .groupBy(['state', 'city'], 'venues')
+                    .groupBy(['state'], 'cities')
+                    .in('cities').countDistinct('venues', 'kind', 'kindCount')
+            );
+
+            pipeline.add('v1', { state: 'TX', city: 'Dallas', venue: 'Stadium', kind: 'sports' });
+            pipeline.add('v2', { state: 'TX', city: 'Dallas', venue: 'Arena', kind: 'sports' });
+            pipeline.add('v3', { state: 'TX', city: 'Dallas', venue: 'Theater', kind: 'arts' });
+
+            expect(getOutput()[0].cities[0].kindCount).toBe(2);
+        });
+    });
+
+    describe('distinctValues', () => {
+        it('should collect distinct values in sorted order', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; size: number }>()
+                    .groupBy(['category'], 'items')
+                    .distinctValues('items', 'size', 'sizes')
+            );
+
+            pipeline.add('item1', { category: 'A', size: 10 });
+            pipeline.add('item2', { category: 'A', size: 9 });
+            pipeline.add('item3', { category: 'A', size: 10 });
+            pipeline.add('item4', { category: 'A', size: 2 });
+
+            expect(getOutput()[0].sizes).toEqual([2, 9, 10]);
+        });
+
+        it('should drop a value when its last item is removed', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; tag: string }>()
+                    .groupBy(['category'], 'items')
+                    .distinctValues('items', 'tag', 'tags')
+            );
+
+            pipeline.add('item1', { category: 'A', tag: 'red' });
+            pipeline.add('item2', { category: 'A', tag: 'blue' });
+            pipeline.add('item3', { category: 'A', tag: 'red' });
+
+            pipeline.remove('item1', { category: 'A', tag: 'red' });
+            expect(getOutput()[0].tags).toEqual(['blue', 'red']);
+
+            pipeline.remove('item3', { category: 'A', tag: 'red' });
+            expect(getOutput()[0].tags).toEqual(['blue']);
+        });
+
+        it('should not depend on arrival order', () => {
+            const [pipeline1, getOutput1] = createTestPipeline(() =>
+                createPipeline<{ category: string; tag: string }>()
+                    .groupBy(['category'], 'items')
+                    .distinctValues('items', 'tag', 'tags')
+            );
+            const [pipeline2, getOutput2] = createTestPipeline(() =>
+                createPipeline<{ category: string; tag: string }>()
+                    .groupBy(['category'], 'items')
+                    .distinctValues('items', 'tag', 'tags')
+            );
+
+            pipeline1.add('item1', { category: 'A', tag: 'red' });
+            pipeline1.add('item2', { category: 'A', tag: 'blue' });
+            pipeline2.add('item2', { category: 'A', tag: 'blue' });
+            pipeline2.add('item1', { category: 'A', tag: 'red' });
+
+            expect(getOutput1()[0].tags).toEqual(['blue', 'red']);
+            expect(getOutput2()[0].tags).toEqual(['blue', 'red']);
+        });
+    });
+});
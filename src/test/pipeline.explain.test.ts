@@ -0,0 +1,101 @@
+import { createPipeline } from '../index';
+
+type Venue = { state: string; city: string; venue: string; capacity: number };
+
+describe('pipeline explain', () => {
+    function defineVenuePipeline() {
+        return createPipeline<Venue>()
+            .groupBy(['state', 'city'], 'venues')
+            .groupBy(['state'], 'cities')
+            .in('cities').sum('venues', 'capacity', 'totalCapacity')
+            .count('cities', 'cityCount')
+            .bottomN('cities', 'totalCapacity', 2, 'smallestCities')
+            .in('cities').orderBy('totalCapacity', 'desc');
+    }
+
+    it('should list each step with its scope and parameters, and the output arrays', () => {
+        expect(defineVenuePipeline().explain()).toBe([
+            'Steps:',
+            '  1. input',
+            '  2. groupBy at []: by: [state, city], as: venues',
+            '  3. groupBy at []: by: [state], as: cities',
+            '  4. sum at [cities]: array: venues, property: capacity, as: totalCapacity',
+            '  5. count at []: array: cities, as: cityCount',
+            '  6. bottomN at []: array: cities, property: totalCapacity, count: 2, as: smallestCities',
+            '  7. orderBy at [cities]: by: totalCapacity, direction: desc',
+            'Output:',
+            '  (top level)',
+            '    cities[], ordered by totalCapacity desc',
+            '      venues[]',
+            '    smallestCities[]'
+        ].join('\n'));
+    });
+
+    it('should describe functions by their source', () => {
+        const explanation = createPipeline<Venue>()
+            .filter(venue => venue.capacity > 1000)
+            .defineProperty('large', venue => venue.capacity > 50000)
+            .explain();
+
+        expect(explanation).toContain('2. filter at []: predicate: venue => venue.capacity > 1000');
+        expect(explanation).toContain('3. defineProperty at []: name: large, compute: venue => venue.capacity > 50000');
+    });
+
+    it('should name both inputs of a join', () => {
+        const customers = createPipeline<{ customerId: string; name: string }>();
+        const explanation = createPipeline<{ orderId: string; customerId: string }>()
+            .join(customers, 'customers', order => order.customerId, customer => customer.customerId)
+            .explain();
+
+        expect(explanation).toContain('  1. input\n  2. input\n');
+        expect(explanation).toContain('3. join at []: as: customers, leftKey: order => order.customerId, rightKey: customer => customer.customerId, type: inner (inputs: 1, 2)');
+    });
+
+    it('should render a Mermaid flowchart', () => {
+        const mermaid = createPipeline<Venue>()
+            .groupBy(['state'], 'venues')
+            .in('venues').filter(venue => venue.capacity > 100)
+            .toMermaid();
+
+        expect(mermaid).toBe([
+            'flowchart TD',
+            '    step1["input"]',
+            '    step2["groupBy at []<br/>by: [state], as: venues"]',
+            '    step3["filter at [venues]<br/>predicate: venue =#62; venue.capacity #62; 100"]',
+            '    step1 --> step2',
+            '    step2 --> step3',
+            '    subgraph output["Output"]',
+            '        array0["(top level)"]',
+            '        array1["venues"]',
+            '        array0 --> array1',
+            '    end',
+            '    step3 --> array0'
+        ].join('\n'));
+    });
+
+    it('should render a DOT digraph', () => {
+        const dot = createPipeline<Venue>()
+            .groupBy(['state'], 'venues')
+            .in('venues').orderBy('venue')
+            .toDot();
+
+        expect(dot).toBe([
+            'digraph pipeline {',
+            '    node [shape=box];',
+            '    step1 [label="input"];',
+            '    step2 [label="groupBy at []\\nby: [state], as: venues"];',
+            '    step3 [label="orderBy at [venues]\\nby: venue, direction: asc"];',
+            '    step1 -> step2;',
+            '    step2 -> step3;',
+            '    subgraph cluster_output {',
+            '        label="Output";',
+            '        node [shape=folder];',
+            '        array0 [label="(top level)"];',
+            '        array1 [label="venues\\nordered by venue asc"];',
+            '        array0 -> array1;',
+            '    }',
+            '    step3 -> array0;',
+            '}'
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,218 @@
+import { createPipeline } from '../index';
+import type { Step } from '../pipeline';
+import { createTestPipeline } from './helpers';
+
+describe('pipeline flatten', () => {
+    it('should undo a groupBy', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; name: string }>()
+                .groupBy(['category'], 'items')
+                .flatten('items')
+        );
+
+        pipeline.add('item1', { category: 'A', name: 'One' });
+        pipeline.add('item2', { category: 'B', name: 'Two' });
+        pipeline.add('item3', { category: 'A', name: 'Three' });
+
+        const output = getOutput();
+        expect(output).toHaveLength(3);
+        expect(output).toContainEqual({ category: 'A', name: 'One' });
+        expect(output).toContainEqual({ category: 'B', name: 'Two' });
+        expect(output).toContainEqual({ category: 'A', name: 'Three' });
+    });
+
+    it('should key items by parent and child keys', () => {
+        const builder = createPipeline<{ category: string; name: string }>()
+            .groupBy(['category'], 'items')
+            .flatten('items');
+        const step = builder['lastStep'] as Step;
+        const keys: string[] = [];
+        step.onAdded([], (keyPath, key) => keys.push(key));
+
+        builder['input'].add('item1', { category: 'A', name: 'One' });
+
+        expect(keys).toHaveLength(1);
+        expect(JSON.parse(keys[0])).toEqual([expect.any(String), 'item1']);
+    });
+
+    it('should keep the keys of different parent and child pairs apart', () => {
+        const customers = createPipeline<{ customerId: string; name: string }>();
+        const builder = createPipeline<{ orderId: string; customerId: string }>()
+            .join(customers, 'customers', order => order.customerId, customer => customer.customerId)
+            .flatten('customers');
+        const step = builder['lastStep'] as Step;
+        const keys: string[] = [];
+        step.onAdded([], (keyPath, key) => keys.push(key));
+
+        customers.getInput().add('b::c', { customerId: 'C1', name: 'Alice' });
+        customers.getInput().add('c', { customerId: 'C2', name: 'Bob' });
+        builder['input'].add('a', { orderId: 'O1', customerId: 'C1' });
+        builder['input'].add('a::b', { orderId: 'O2', customerId: 'C2' });
+
+        expect(keys).toHaveLength(2);
+        expect(new Set(keys).size).toBe(2);
+    });
+
+    it('should remove items as children are removed', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; name: string }>()
+                .groupBy(['category'], 'items')
+                .flatten('items')
+        );
+
+        pipeline.add('item1', { category: 'A', name: 'One' });
+        pipeline.add('item2', { category: 'A', name: 'Two' });
+        pipeline.remove('item1', { category: 'A', name: 'One' });
+
+        expect(getOutput()).toEqual([{ category: 'A', name: 'Two' }]);
+
+        pipeline.remove('item2', { category: 'A', name: 'Two' });
+
+        expect(getOutput()).toEqual([]);
+    });
+
+    it('should move items when they change group', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; name: string }>()
+                .groupBy(['category'], 'items')
+                .flatten('items')
+        );
+
+        pipeline.add('item1', { category: 'A', name: 'One' });
+        pipeline.update('item1', { category: 'A', name: 'One' }, { category: 'B', name: 'One' });
+
+        expect(getOutput()).toEqual([{ category: 'B', name: 'One' }]);
+    });
+
+    it('should update items when the child is updated', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; name: string }>()
+                .groupBy(['category'], 'items')
+                .flatten('items')
+        );
+
+        pipeline.add('item1', { category: 'A', name: 'One' });
+        pipeline.update('item1', { category: 'A', name: 'One' }, { category: 'A', name: 'Uno' });
+
+        expect(getOutput()).toEqual([{ category: 'A', name: 'Uno' }]);
+    });
+
+    it('should carry parent aggregates onto each child', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; name: string; price: number }>()
+                .groupBy(['category'], 'items')
+                .sum('items', 'price', 'categoryTotal')
+                .flatten('items')
+        );
+
+        pipeline.add('item1', { category: 'A', name: 'One', price: 10 });
+        pipeline.add('item2', { category: 'A', name: 'Two', price: 20 });
+
+        const output = getOutput();
+        expect(output).toHaveLength(2);
+        expect(output).toContainEqual({ category: 'A', name: 'One', price: 10, categoryTotal: 30 });
+        expect(output).toContainEqual({ category: 'A', name: 'Two', price: 20, categoryTotal: 30 });
+    });
+
+    it('should regroup flattened items carrying parent aggregates', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ cat: string; region: string; price: number }>()
+                .groupBy(['cat', 'region'], 'items')
+                .sum('items', 'price', 'total')
+                .flatten('items')
+                .groupBy(['region'], 'rows')
+        );
+
+        pipeline.add('item1', { cat: 'A', region: 'North', price: 10 });
+        pipeline.add('item2', { cat: 'A', region: 'North', price: 20 });
+        pipeline.add('item3', { cat: 'B', region: 'North', price: 5 });
+        pipeline.remove('item2', { cat: 'A', region: 'North', price: 20 });
+
+        expect(getOutput()).toEqual([{
+            region: 'North',
+            rows: expect.arrayContaining([
+                { cat: 'A', price: 10, total: 10 },
+                { cat: 'B', price: 5, total: 5 }
+            ])
+        }]);
+        expect(getOutput()[0].rows).toHaveLength(2);
+    });
+
+    it('should not carry a parent aggregate over a child property of the same name', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; price: number }>()
+                .groupBy(['category'], 'items')
+                .sum('items', 'price', 'price')
+                .flatten('items')
+        );
+
+        pipeline.add('item1', { category: 'A', price: 10 });
+        pipeline.add('item2', { category: 'A', price: 20 });
+
+        expect(getOutput()).toHaveLength(2);
+        expect(getOutput()).toContainEqual({ category: 'A', price: 10 });
+        expect(getOutput()).toContainEqual({ category: 'A', price: 20 });
+    });
+
+    it('should reject a parent aggregate named like a declared child property', () => {
+        expect(() => createPipeline<{ category: string; price: number }>({ properties: { category: 'string', price: 'number' } })
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', 'price')
+            .flatten('items')
+        ).toThrow('FlattenStep: aggregate "price" has the name of a property of the items of "items"');
+    });
+
+    it('should keep nested arrays of the children', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ state: string; city: string; venue: string }>()
+                .groupBy(['state', 'city'], 'venues')
+                .groupBy(['state'], 'cities')
+                .flatten('cities')
+        );
+
+        pipeline.add('v1', { state: 'TX', city: 'Dallas', venue: 'Stadium' });
+        pipeline.add('v2', { state: 'TX', city: 'Austin', venue: 'Arena' });
+        pipeline.add('v3', { state: 'TX', city: 'Dallas', venue: 'Theater' });
+
+        const output = getOutput();
+        expect(output).toHaveLength(2);
+        const dallas = output.find(city => city.city === 'Dallas')!;
+        expect(dallas.state).toBe('TX');
+        expect(dallas.venues).toHaveLength(2);
+        expect(dallas.venues).toContainEqual({ venue: 'Stadium' });
+        expect(dallas.venues).toContainEqual({ venue: 'Theater' });
+    });
+
+    it('should flatten nested arrays via in()', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ state: string; city: string; venue: string }>()
+                .groupBy(['state', 'city'], 'venues')
+                .groupBy(['state'], 'cities')
+                .in('cities').flatten('venues')
+        );
+
+        pipeline.add('v1', { state: 'TX', city: 'Dallas', venue: 'Stadium' });
+        pipeline.add('v2', { state: 'TX', city: 'Austin', venue: 'Arena' });
+
+        const output = getOutput();
+        expect(output).toHaveLength(1);
+        expect(output[0].cities).toHaveLength(2);
+        expect(output[0].cities).toContainEqual({ city: 'Dallas', venue: 'Stadium' });
+        expect(output[0].cities).toContainEqual({ city: 'Austin', venue: 'Arena' });
+    });
+
+    it('should describe the child level at the parent scope', () => {
+        const builder = createPipeline<{ state: string; city: string; venue: string }>()
+            .groupBy(['state', 'city'], 'venues')
+            .groupBy(['state'], 'cities')
+            .flatten('cities');
+
+        expect(builder.getTypeDescriptor()).toEqual({
+            arrays: [{ name: 'venues', type: { arrays: [], properties: [] } }],
+            properties: [
+                { name: 'state', kind: 'immutable' },
+                { name: 'city', kind: 'immutable' }
+            ]
+        });
+    });
+});
@@ -0,0 +1,132 @@
+import { createPipeline } from '../index';
+import type { Step } from '../pipeline';
+import { createTestPipeline } from './helpers';
+
+describe('pipeline having', () => {
+    it('should include groups whose aggregate satisfies the predicate', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; value: number }>()
+                .groupBy(['category'], 'items')
+                .sum('items', 'value', 'totalValue')
+                .having(group => group.totalValue > 1000)
+        );
+
+        pipeline.add('item1', { category: 'A', value: 800 });
+        pipeline.add('item2', { category: 'B', value: 300 });
+        pipeline.add('item3', { category: 'A', value: 400 });
+
+        expect(getOutput()).toEqual([
+            { category: 'A', items: [{ value: 800 }, { value: 400 }], totalValue: 1200 }
+        ]);
+    });
+
+    it('should add a group with its subtree when it starts satisfying the predicate', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; value: number }>()
+                .groupBy(['category'], 'items')
+                .sum('items', 'value', 'totalValue')
+                .having(group => group.totalValue > 1000)
+        );
+
+        pipeline.add('item1', { category: 'A', value: 600 });
+        pipeline.add('item2', { category: 'A', value: 300 });
+        expect(getOutput()).toEqual([]);
+
+        pipeline.add('item3', { category: 'A', value: 200 });
+        expect(getOutput()).toEqual([
+            { category: 'A', items: [{ value: 600 }, { value: 300 }, { value: 200 }], totalValue: 1100 }
+        ]);
+    });
+
+    it('should remove a group when it stops satisfying the predicate', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; value: number }>()
+                .groupBy(['category'], 'items')
+                .sum('items', 'value', 'totalValue')
+                .having(group => group.totalValue > 1000)
+        );
+
+        pipeline.add('item1', { category: 'A', value: 800 });
+        pipeline.add('item2', { category: 'A', value: 400 });
+        expect(getOutput()).toHaveLength(1);
+
+        pipeline.remove('item2', { category: 'A', value: 400 });
+        expect(getOutput()).toEqual([]);
+
+        pipeline.remove('item1', { category: 'A', value: 800 });
+        expect(getOutput()).toEqual([]);
+    });
+
+    it('should remove the subtree before the group', () => {
+        const builder = createPipeline<{ category: string; value: number }>()
+            .groupBy(['category'], 'items')
+            .sum('items', 'value', 'totalValue')
+            .having(group => group.totalValue > 10);
+        const step = builder['lastStep'] as Step;
+        const events: string[] = [];
+        step.onRemoved([], (keyPath, key) => events.push('removed group'));
+        step.onRemoved(['items'], (keyPath, key) => events.push(`removed ${key}`));
+
+        const input = builder['input'];
+        input.add('item1', { category: 'A', value: 8 });
+        input.add('item2', { category: 'A', value: 4 });
+        input.update('item2', { category: 'A', value: 4 }, { category: 'A', value: 1 });
+
+        expect(events).toEqual(['removed item2', 'removed item1', 'removed group']);
+    });
+
+    it('should replay nested aggregates when a group is added', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ state: string; city: string; capacity: number }>()
+                .groupBy(['state', 'city'], 'venues')
+                .in('venues').defineProperty('size', venue => venue.capacity)
+                .groupBy(['state'], 'cities')
+                .in('cities').sum('venues', 'capacity', 'cityCapacity')
+                .count('cities', 'cityCount')
+                .having(state => state.cityCount >= 2)
+        );
+
+        pipeline.add('v1', { state: 'TX', city: 'Dallas', capacity: 60 });
+        pipeline.add('v2', { state: 'TX', city: 'Austin', capacity: 50 });
+
+        const output = getOutput();
+        expect(output).toHaveLength(1);
+        expect(output[0].cityCount).toBe(2);
+        expect(output[0].cities).toContainEqual({ city: 'Dallas', cityCapacity: 60, venues: [{ capacity: 60, size: 60 }] });
+        expect(output[0].cities).toContainEqual({ city: 'Austin', cityCapacity: 50, venues: [{ capacity: 50, size: 50 }] });
+    });
+
+    it('should forward changes within a passing group', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; name: string; value: number }>()
+                .groupBy(['category'], 'items')
+                .sum('items', 'value', 'totalValue')
+                .having(group => group.totalValue > 10)
+        );
+
+        pipeline.add('item1', { category: 'A', name: 'One', value: 20 });
+        pipeline.update('item1', { category: 'A', name: 'One', value: 20 }, { category: 'A', name: 'Uno', value: 30 });
+
+        expect(getOutput()).toEqual([
+            { category: 'A', items: [{ name: 'Uno', value: 30 }], totalValue: 30 }
+        ]);
+    });
+
+    it('should filter nested groups via in()', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ state: string; city: string; capacity: number }>()
+                .groupBy(['state', 'city'], 'venues')
+                .groupBy(['state'], 'cities')
+                .in('cities').count('venues', 'venueCount')
+                .in('cities').having(city => city.venueCount >= 2)
+        );
+
+        pipeline.add('v1', { state: 'TX', city: 'Dallas', capacity: 10 });
+        pipeline.add('v2', { state: 'TX', city: 'Austin', capacity: 20 });
+        pipeline.add('v3', { state: 'TX', city: 'Dallas', capacity: 30 });
+
+        expect(getOutput()).toEqual([
+            { state: 'TX', cities: [{ city: 'Dallas', venueCount: 2, venues: [{ capacity: 10 }, { capacity: 30 }] }] }
+        ]);
+    });
+});
@@ -0,0 +1,110 @@
+import { createPipeline, type IntegrityViolation, type KeyedArray, type PipelineOptions } from '../index';
+import { simulateState } from './helpers';
+
+type Sale = { category: string; price: number };
+
+describe('pipeline integrity', () => {
+    function buildTotals(options: PipelineOptions) {
+        const builder = createPipeline<Sale>(options)
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', 'total')
+            .dropProperty('items');
+        const [getState, setState] = simulateState<KeyedArray<any>>([]);
+        const pipeline = builder.build(setState, builder.getTypeDescriptor());
+        return { pipeline, getTotals: () => getState().map(item => item.value) };
+    }
+
+    it('should not check operations unless strict mode is on', () => {
+        const { pipeline, getTotals } = buildTotals({});
+
+        pipeline.add('s1', { category: 'Books', price: 8 });
+        pipeline.add('s1', { category: 'Books', price: 8 });
+
+        expect(getTotals()).toEqual([{ category: 'Books', total: 16 }]);
+    });
+
+    it('should reject a duplicate add without changing the output', () => {
+        const { pipeline, getTotals } = buildTotals({ integrity: 'throw' });
+        pipeline.add('s1', { category: 'Books', price: 8 });
+
+        expect(() => pipeline.add('s1', { category: 'Books', price: 8 })).toThrow('add: cannot add key "s1", it is already present');
+        expect(getTotals()).toEqual([{ category: 'Books', total: 8 }]);
+    });
+
+    it('should reject removes and updates of unknown keys', () => {
+        const { pipeline, getTotals } = buildTotals({ integrity: 'throw' });
+        pipeline.add('s1', { category: 'Books', price: 8 });
+
+        expect(() => pipeline.remove('s2', { category: 'Books', price: 8 })).toThrow('remove: cannot remove key "s2", it is not present');
+        expect(() => pipeline.update('s2', { category: 'Books', price: 8 }, { category: 'Books', price: 9 })).toThrow('update: cannot update key "s2", it is not present');
+        expect(getTotals()).toEqual([{ category: 'Books', total: 8 }]);
+    });
+
+    it('should reject a remove whose props differ from the add, whatever their order', () => {
+        const { pipeline, getTotals } = buildTotals({ integrity: 'throw' });
+        pipeline.add('s1', { category: 'Books', price: 8 });
+
+        expect(() => pipeline.remove('s1', { category: 'Books', price: 9 })).toThrow('remove: cannot remove key "s1", its props differ from those it was added with');
+        expect(getTotals()).toEqual([{ category: 'Books', total: 8 }]);
+
+        pipeline.remove('s1', { price: 8, category: 'Books' });
+        expect(getTotals()).toEqual([]);
+    });
+
+    it('should track the props of an update', () => {
+        const { pipeline, getTotals } = buildTotals({ integrity: 'throw' });
+        pipeline.add('s1', { category: 'Books', price: 8 });
+        pipeline.update('s1', { category: 'Books', price: 8 }, { category: 'Games', price: 12 });
+
+        expect(() => pipeline.remove('s1', { category: 'Books', price: 8 })).toThrow(/its props differ/);
+        pipeline.remove('s1', { category: 'Games', price: 12 });
+        pipeline.add('s1', { category: 'Toys', price: 3 });
+
+        expect(getTotals()).toEqual([{ category: 'Toys', total: 3 }]);
+    });
+
+    it('should report violations with the warn policy and skip the operation', () => {
+        const violations: IntegrityViolation[] = [];
+        const { pipeline, getTotals } = buildTotals({
+            integrity: { duplicateAdd: 'warn', unknownRemove: 'ignore', onViolation: violation => violations.push(violation) }
+        });
+
+        pipeline.add('s1', { category: 'Books', price: 8 });
+        pipeline.add('s1', { category: 'Books', price: 5 });
+        pipeline.remove('s2', { category: 'Books', price: 1 });
+
+        expect(violations).toEqual([
+            { kind: 'duplicateAdd', operation: 'add', key: 's1', message: 'add: cannot add key "s1", it is already present' }
+        ]);
+        expect(getTotals()).toEqual([{ category: 'Books', total: 8 }]);
+        expect(() => pipeline.remove('s1', { category: 'Books', price: 5 })).toThrow(/its props differ/);
+    });
+
+    it('should warn on the console by default', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        try {
+            const { pipeline } = buildTotals({ integrity: 'warn' });
+            pipeline.remove('s1', { category: 'Books', price: 8 });
+
+            expect(warn).toHaveBeenCalledWith('remove: cannot remove key "s1", it is not present');
+        } finally {
+            warn.mockRestore();
+        }
+    });
+
+    it('should keep the tracked keys in a snapshot', () => {
+        const builder = createPipeline<Sale>({ integrity: 'throw' }).groupBy(['category'], 'items');
+        const [, setState] = simulateState<KeyedArray<any>>([]);
+        const pipeline = builder.build(setState, builder.getTypeDescriptor());
+        pipeline.add('s1', { category: 'Books', price: 8 });
+        const snapshot = JSON.parse(JSON.stringify(pipeline.snapshot()));
+
+        const restoredBuilder = createPipeline<Sale>({ integrity: 'throw' }).groupBy(['category'], 'items');
+        const [, setRestoredState] = simulateState<KeyedArray<any>>([]);
+        const restored = restoredBuilder.build(setRestoredState, restoredBuilder.getTypeDescriptor());
+        restored.restore(snapshot);
+
+        expect(() => restored.add('s1', { category: 'Books', price: 8 })).toThrow(/already present/);
+        restored.remove('s1', { category: 'Books', price: 8 });
+    });
+});
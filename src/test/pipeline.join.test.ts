@@ -0,0 +1,295 @@
+import { createPipeline, type KeyedArray } from '../index';
+import { createTestPipeline, extract, simulateState } from './helpers';
+
+type Order = { orderId: string; customerId: string; total: number };
+type Customer = { customerId: string; name: string };
+
+describe('pipeline join', () => {
+    describe('inner join', () => {
+        it('should nest matching items', () => {
+            const customers = createPipeline<Customer>();
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<Order>()
+                    .join(customers, 'customers', order => order.customerId, customer => customer.customerId)
+            );
+            const customerInput = customers.getInput();
+
+            customerInput.add('c1', { customerId: 'C1', name: 'Alice' });
+            pipeline.add('o1', { orderId: 'O1', customerId: 'C1', total: 100 });
+
+            expect(getOutput()).toEqual([
+                { orderId: 'O1', customerId: 'C1', total: 100, customers: [{ customerId: 'C1', name: 'Alice' }] }
+            ]);
+        });
+
+        it('should exclude items without a match', () => {
+            const customers = createPipeline<Customer>();
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<Order>()
+                    .join(customers, 'customers', order => order.customerId, customer => customer.customerId)
+            );
+
+            pipeline.add('o1', { orderId: 'O1', customerId: 'C1', total: 100 });
+
+            expect(getOutput()).toEqual([]);
+        });
+
+        it('should add an item when its first match arrives', () => {
+            const customers = createPipeline<Customer>();
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<Order>()
+                    .join(customers, 'customers', order => order.customerId, customer => customer.customerId)
+            );
+            const customerInput = customers.getInput();
+
+            pipeline.add('o1', { orderId: 'O1', customerId: 'C1', total: 100 });
+            pipeline.add('o2', { orderId: 'O2', customerId: 'C1', total: 50 });
+            customerInput.add('c1', { customerId: 'C1', name: 'Alice' });
+
+            expect(getOutput()).toEqual([
+                { orderId: 'O1', customerId: 'C1', total: 100, customers: [{ customerId: 'C1', name: 'Alice' }] },
+                { orderId: 'O2', customerId: 'C1', total: 50, customers: [{ customerId: 'C1', name: 'Alice' }] }
+            ]);
+        });
+
+        it('should remove an item when its last match is removed', () => {
+            const customers = createPipeline<Customer>();
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<Order>()
+                    .join(customers, 'customers', order => order.customerId, customer => customer.customerId)
+            );
+            const customerInput = customers.getInput();
+
+            customerInput.add('c1', { customerId: 'C1', name: 'Alice' });
+            customerInput.add('c2', { customerId: 'C1', name: 'Alice (duplicate)' });
+            pipeline.add('o1', { orderId: 'O1', customerId: 'C1', total: 100 });
+
+            customerInput.remove('c1', { customerId: 'C1', name: 'Alice' });
+            expect(getOutput()).toEqual([
+                { orderId: 'O1', customerId: 'C1', total: 100, customers: [{ customerId: 'C1', name: 'Alice (duplicate)' }] }
+            ]);
+
+            customerInput.remove('c2', { customerId: 'C1', name: 'Alice (duplicate)' });
+            expect(getOutput()).toEqual([]);
+        });
+
+        it('should remove a matched item', () => {
+            const customers = createPipeline<Customer>();
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<Order>()
+                    .join(customers, 'customers', order => order.customerId, customer => customer.customerId)
+            );
+            const customerInput = customers.getInput();
+
+            customerInput.add('c1', { customerId: 'C1', name: 'Alice' });
+            pipeline.add('o1', { orderId: 'O1', customerId: 'C1', total: 100 });
+            pipeline.remove('o1', { orderId: 'O1', customerId: 'C1', total: 100 });
+
+            expect(getOutput()).toEqual([]);
+        });
+
+        it('should never match null join keys', () => {
+            const customers = createPipeline<{ customerId: string | null; name: string }>();
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ orderId: string; customerId: string | null }>()
+                    .join(customers, 'customers', order => order.customerId, customer => customer.customerId)
+            );
+            const customerInput = customers.getInput();
+
+            customerInput.add('c1', { customerId: null, name: 'Nobody' });
+            pipeline.add('o1', { orderId: 'O1', customerId: null });
+
+            expect(getOutput()).toEqual([]);
+        });
+    });
+
+    describe('left join', () => {
+        it('should keep items without a match', () => {
+            const customers = createPipeline<Customer>();
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<Order>()
+                    .join(customers, 'customers', order => order.customerId, customer => customer.customerId, 'left')
+            );
+
+            pipeline.add('o1', { orderId: 'O1', customerId: 'C1', total: 100 });
+
+            expect(getOutput()).toEqual([
+                { orderId: 'O1', customerId: 'C1', total: 100, customers: [] }
+            ]);
+        });
+
+        it('should add and remove matches as the other side changes', () => {
+            const customers = createPipeline<Customer>();
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<Order>()
+                    .join(customers, 'customers', order => order.customerId, customer => customer.customerId, 'left')
+            );
+            const customerInput = customers.getInput();
+
+            pipeline.add('o1', { orderId: 'O1', customerId: 'C1', total: 100 });
+            customerInput.add('c1', { customerId: 'C1', name: 'Alice' });
+            expect(getOutput()[0].customers).toEqual([{ customerId: 'C1', name: 'Alice' }]);
+
+            customerInput.remove('c1', { customerId: 'C1', name: 'Alice' });
+            expect(getOutput()).toEqual([
+                { orderId: 'O1', customerId: 'C1', total: 100, customers: [] }
+            ]);
+        });
+    });
+
+    describe('updates', () => {
+        it('should update the nested item when the other side is updated', () => {
+            const customers = createPipeline<Customer>();
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<Order>()
+                    .join(customers, 'customers', order => order.customerId, customer => customer.customerId)
+            );
+            const customerInput = customers.getInput();
+
+            customerInput.add('c1', { customerId: 'C1', name: 'Alice' });
+            pipeline.add('o1', { orderId: 'O1', customerId: 'C1', total: 100 });
+            customerInput.update('c1', { customerId: 'C1', name: 'Alice' }, { customerId: 'C1', name: 'Alicia' });
+
+            expect(getOutput()[0].customers).toEqual([{ customerId: 'C1', name: 'Alicia' }]);
+        });
+
+        it('should rematch an item whose join key changes', () => {
+            const customers = createPipeline<Customer>();
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<Order>()
+                    .join(customers, 'customers', order => order.customerId, customer => customer.customerId)
+            );
+            const customerInput = customers.getInput();
+
+            customerInput.add('c1', { customerId: 'C1', name: 'Alice' });
+            customerInput.add('c2', { customerId: 'C2', name: 'Bob' });
+            pipeline.add('o1', { orderId: 'O1', customerId: 'C1', total: 100 });
+            pipeline.update('o1', { orderId: 'O1', customerId: 'C1', total: 100 }, { orderId: 'O1', customerId: 'C2', total: 100 });
+
+            expect(getOutput()).toEqual([
+                { orderId: 'O1', customerId: 'C2', total: 100, customers: [{ customerId: 'C2', name: 'Bob' }] }
+            ]);
+
+            pipeline.update('o1', { orderId: 'O1', customerId: 'C2', total: 100 }, { orderId: 'O1', customerId: 'C3', total: 100 });
+
+            expect(getOutput()).toEqual([]);
+        });
+    });
+
+    describe('integration with other steps', () => {
+        it('should aggregate over the joined array', () => {
+            const lines = createPipeline<{ orderId: string; amount: number }>();
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ orderId: string }>()
+                    .join(lines, 'lines', order => order.orderId, line => line.orderId, 'left')
+                    .sum('lines', 'amount', 'total')
+            );
+            const lineInput = lines.getInput();
+
+            pipeline.add('o1', { orderId: 'O1' });
+            lineInput.add('l1', { orderId: 'O1', amount: 10 });
+            lineInput.add('l2', { orderId: 'O1', amount: 15 });
+            lineInput.add('l3', { orderId: 'O2', amount: 99 });
+
+            expect(getOutput()).toEqual([
+                {
+                    orderId: 'O1',
+                    total: 25,
+                    lines: [{ orderId: 'O1', amount: 10 }, { orderId: 'O1', amount: 15 }]
+                }
+            ]);
+        });
+
+        it('should join within a scope', () => {
+            const products = createPipeline<{ sku: string; title: string }>();
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; sku: string }>()
+                    .groupBy(['category'], 'items')
+                    .in('items').join(products, 'products', item => item.sku, product => product.sku)
+            );
+            const productInput = products.getInput();
+
+            productInput.add('p1', { sku: 'S1', title: 'Widget' });
+            pipeline.add('i1', { category: 'A', sku: 'S1' });
+
+            expect(getOutput()).toEqual([
+                { category: 'A', items: [{ sku: 'S1', products: [{ sku: 'S1', title: 'Widget' }] }] }
+            ]);
+        });
+
+        it('should reject a right side with arrays', () => {
+            const grouped = createPipeline<{ category: string; value: number }>()
+                .groupBy(['category'], 'items');
+
+            expect(() => createPipeline<{ category: string }>()
+                .join(grouped, 'groups', item => item.category, group => group.category)
+            ).toThrow('JoinStep: the right side of a join must not contain arrays');
+        });
+    });
+
+    describe('joined input', () => {
+        function buildOrders(onError: 'rollback' | 'deadLetter') {
+            const customers = createPipeline<Customer>();
+            const builder = createPipeline<Order>()
+                .join(customers, 'customers', order => order.customerId, customer => customer.customerId)
+                .in('customers').filter(customer => {
+                    if (customer.name === '') {
+                        throw new Error('customer has no name');
+                    }
+                    return true;
+                });
+            const typeDescriptor = builder.getTypeDescriptor();
+            const [getState, setState] = simulateState<KeyedArray<any>>([]);
+            let setStateCalls = 0;
+            const pipeline = builder.build(transform => {
+                setStateCalls++;
+                setState(transform);
+            }, typeDescriptor, { onError });
+            const customerInput = pipeline.joinedInput(customers.getInput());
+            return { pipeline, customerInput, getOutput: () => extract(getState(), typeDescriptor), getSetStateCalls: () => setStateCalls };
+        }
+
+        it('should share the batches of the built pipeline', () => {
+            const { pipeline, customerInput, getOutput, getSetStateCalls } = buildOrders('rollback');
+
+            pipeline.batch(() => {
+                pipeline.add('o1', { orderId: 'O1', customerId: 'C1', total: 100 });
+                customerInput.add('c1', { customerId: 'C1', name: 'Alice' });
+            });
+
+            expect(getSetStateCalls()).toBe(1);
+            expect(getOutput()[0].customers).toEqual([{ customerId: 'C1', name: 'Alice' }]);
+        });
+
+        it('should roll back a failing operation on the joined input', () => {
+            const { pipeline, customerInput, getOutput } = buildOrders('rollback');
+            pipeline.add('o1', { orderId: 'O1', customerId: 'C1', total: 100 });
+            pipeline.add('o2', { orderId: 'O2', customerId: 'C1', total: 50 });
+
+            // Fails once the first order has been added for its new match
+            expect(() => customerInput.add('c1', { customerId: 'C1', name: '' })).toThrow('customer has no name');
+            expect(getOutput()).toEqual([]);
+
+            customerInput.add('c1', { customerId: 'C1', name: 'Alice' });
+            expect(getOutput()).toHaveLength(2);
+        });
+
+        it('should keep failing operations on the joined input as dead letters', () => {
+            const { pipeline, customerInput, getOutput } = buildOrders('deadLetter');
+            pipeline.add('o1', { orderId: 'O1', customerId: 'C1', total: 100 });
+
+            customerInput.add('c1', { customerId: 'C1', name: '' });
+
+            expect(customerInput.deadLetters()).toHaveLength(1);
+            expect(customerInput.deadLetters()[0]).toMatchObject({ operation: 'add', key: 'c1' });
+            expect(getOutput()).toEqual([]);
+        });
+
+        it('should reject an input that does not feed the pipeline', () => {
+            const { pipeline } = buildOrders('rollback');
+
+            expect(() => pipeline.joinedInput(createPipeline<Customer>().getInput()))
+                .toThrow('joinedInput: the input does not feed this pipeline');
+        });
+    });
+});
@@ -0,0 +1,185 @@
+import { applyPatch, createPipeline, type KeyedArray, type PatchOperation, type PipelineBuilder } from '../index';
+import { simulateState } from './helpers';
+
+/**
+ * Builds the pipeline both ways, returning the state from build and the state rebuilt from patches.
+ */
+function buildBothWays<T extends {}, TStart>(createBuilder: () => PipelineBuilder<T, TStart, any>) {
+    const stateBuilder = createBuilder();
+    const [getState, setState] = simulateState<KeyedArray<any>>([]);
+    const statePipeline = stateBuilder.build(setState, stateBuilder.getTypeDescriptor());
+
+    const patchBuilder = createBuilder();
+    const patches: PatchOperation[][] = [];
+    let patchedState: KeyedArray<any> = [];
+    const patchPipeline = patchBuilder.buildPatches(operations => {
+        patches.push(operations);
+        patchedState = applyPatch(patchedState, operations);
+    }, patchBuilder.getTypeDescriptor());
+
+    return {
+        pipelines: [statePipeline, patchPipeline],
+        getState,
+        getPatchedState: () => patchedState,
+        patches
+    };
+}
+
+describe('pipeline JSON Patch sink', () => {
+    it('should emit add operations for new items', () => {
+        const { pipelines: [, pipeline], patches } = buildBothWays(() =>
+            createPipeline<{ name: string }>()
+        );
+
+        pipeline.add('item1', { name: 'One' });
+        pipeline.add('item2', { name: 'Two' });
+
+        expect(patches).toEqual([
+            [{ op: 'add', path: '/0', value: { key: 'item1', value: { name: 'One' } } }],
+            [{ op: 'add', path: '/1', value: { key: 'item2', value: { name: 'Two' } } }]
+        ]);
+    });
+
+    it('should create nested arrays and replace aggregates', () => {
+        const { pipelines: [, pipeline], patches } = buildBothWays(() =>
+            createPipeline<{ category: string; price: number }>()
+                .groupBy(['category'], 'items')
+                .sum('items', 'price', 'total')
+        );
+
+        pipeline.add('item1', { category: 'A', price: 10 });
+        pipeline.add('item2', { category: 'A', price: 20 });
+
+        const operations = patches.flat();
+        expect(operations).toContainEqual({ op: 'add', path: '/0/value/items', value: [] });
+        expect(operations).toContainEqual({ op: 'add', path: '/0/value/items/0', value: { key: 'item1', value: { price: 10 } } });
+        expect(operations).toContainEqual({ op: 'add', path: '/0/value/total', value: 10 });
+        expect(operations).toContainEqual({ op: 'replace', path: '/0/value/total', value: 30 });
+    });
+
+    it('should remove an aggregate that becomes undefined', () => {
+        const { pipelines, getState, getPatchedState, patches } = buildBothWays(() =>
+            createPipeline<{ category: string; price: number | null }>()
+                .groupBy(['category'], 'items')
+                .min('items', 'price', 'minPrice')
+                .average('items', 'price', 'averagePrice')
+        );
+
+        for (const pipeline of pipelines) {
+            pipeline.add('item1', { category: 'A', price: 10 });
+            pipeline.add('item2', { category: 'A', price: null });
+            pipeline.remove('item1', { category: 'A', price: 10 });
+        }
+
+        const operations = patches.flat();
+        expect(operations).toContainEqual({ op: 'remove', path: '/0/value/minPrice' });
+        expect(operations).toContainEqual({ op: 'remove', path: '/0/value/averagePrice' });
+        expect(operations.filter(operation => 'value' in operation && operation.value === undefined)).toEqual([]);
+        expect(JSON.stringify(getPatchedState())).toEqual(JSON.stringify(getState()));
+    });
+
+    it('should rebuild the same state as build', () => {
+        const { pipelines, getState, getPatchedState } = buildBothWays(() =>
+            createPipeline<{ state: string; city: string; venue: string; capacity: number }>()
+                .groupBy(['state', 'city'], 'venues')
+                .groupBy(['state'], 'cities')
+                .in('cities').sum('venues', 'capacity', 'totalCapacity')
+                .count('cities', 'cityCount')
+                .in('cities').orderBy('totalCapacity', 'desc')
+        );
+
+        for (const pipeline of pipelines) {
+            pipeline.add('v1', { state: 'TX', city: 'Dallas', venue: 'Arena', capacity: 20000 });
+            pipeline.add('v2', { state: 'TX', city: 'Houston', venue: 'Stadium', capacity: 70000 });
+            pipeline.add('v3', { state: 'OK', city: 'Tulsa', venue: 'Center', capacity: 18000 });
+            pipeline.add('v4', { state: 'TX', city: 'Dallas', venue: 'Stadium', capacity: 80000 });
+            pipeline.update('v2',
+                { state: 'TX', city: 'Houston', venue: 'Stadium', capacity: 70000 },
+                { state: 'TX', city: 'Houston', venue: 'Dome', capacity: 72000 });
+            pipeline.remove('v3', { state: 'OK', city: 'Tulsa', venue: 'Center', capacity: 18000 });
+        }
+
+        expect(JSON.stringify(getPatchedState())).toEqual(JSON.stringify(getState()));
+    });
+
+    it('should move items when their sort position changes', () => {
+        const { pipelines: [, pipeline], patches } = buildBothWays(() =>
+            createPipeline<{ name: string; price: number }>()
+                .orderBy('price')
+        );
+
+        pipeline.add('item1', { name: 'A', price: 10 });
+        pipeline.add('item2', { name: 'B', price: 20 });
+        pipeline.update('item1', { name: 'A', price: 10 }, { name: 'A', price: 30 });
+
+        expect(patches[2]).toEqual([
+            { op: 'replace', path: '/0/value/price', value: 30 },
+            { op: 'move', from: '/0', path: '/1' }
+        ]);
+    });
+
+    it('should deliver a batch as one patch', () => {
+        const { pipelines: [, pipeline], patches, getPatchedState } = buildBothWays(() =>
+            createPipeline<{ name: string }>()
+        );
+
+        pipeline.batch(() => {
+            pipeline.add('item1', { name: 'One' });
+            pipeline.add('item2', { name: 'Two' });
+            pipeline.remove('item1', { name: 'One' });
+        });
+
+        expect(patches).toHaveLength(1);
+        expect(patches[0]).toHaveLength(3);
+        expect(getPatchedState()).toEqual([{ key: 'item2', value: { name: 'Two' } }]);
+    });
+
+    it('should escape property names in paths', () => {
+        const { pipelines: [, pipeline], patches } = buildBothWays(() =>
+            createPipeline<{ 'a/b~c': string }>()
+        );
+
+        pipeline.add('item1', { 'a/b~c': 'x' });
+        pipeline.update('item1', { 'a/b~c': 'x' }, { 'a/b~c': 'y' });
+
+        expect(patches[1]).toEqual([{ op: 'replace', path: '/0/value/a~1b~0c', value: 'y' }]);
+    });
+});
+
+describe('applyPatch', () => {
+    it('should apply operations without mutating the document', () => {
+        const document = { a: [1, 2], b: { c: 'x' } };
+
+        const result = applyPatch(document, [
+            { op: 'add', path: '/a/1', value: 9 },
+            { op: 'replace', path: '/b/c', value: 'y' },
+            { op: 'copy', from: '/b', path: '/d' },
+            { op: 'move', from: '/a/0', path: '/a/-' },
+            { op: 'remove', path: '/b' },
+            { op: 'test', path: '/d/c', value: 'y' }
+        ]);
+
+        expect(result).toEqual({ a: [9, 2, 1], d: { c: 'y' } });
+        expect(document).toEqual({ a: [1, 2], b: { c: 'x' } });
+    });
+
+    it('should share unchanged branches', () => {
+        const document = { a: { x: 1 }, b: { y: 2 } };
+
+        const result = applyPatch(document, [{ op: 'replace', path: '/a/x', value: 3 }]);
+
+        expect(result.b).toBe(document.b);
+    });
+
+    it('should reject paths that do not exist', () => {
+        expect(() => applyPatch({ a: 1 }, [{ op: 'remove', path: '/b' }]))
+            .toThrow('applyPatch: property "b" does not exist');
+        expect(() => applyPatch([1], [{ op: 'replace', path: '/1', value: 2 }]))
+            .toThrow('applyPatch: array index 1 is out of bounds');
+    });
+
+    it('should fail a test that does not match', () => {
+        expect(() => applyPatch({ a: 1 }, [{ op: 'test', path: '/a', value: 2 }]))
+            .toThrow('applyPatch: test failed at "/a"');
+    });
+});
@@ -0,0 +1,145 @@
+import { createPipeline, KeyedStore, type KeyedArray, type StateStoreKind } from '../index';
+import { createTestPipeline, simulateState } from './helpers';
+
+describe('pipeline map store', () => {
+    function createVenuePipeline(store: StateStoreKind) {
+        return createTestPipeline(() =>
+            createPipeline<{ state: string; city: string; venue: string; capacity: number }>()
+                .groupBy(['state', 'city'], 'venues')
+                .groupBy(['state'], 'cities')
+                .in('cities').sum('venues', 'capacity', 'totalCapacity')
+                .count('cities', 'cityCount')
+                .in('cities').orderBy('city'),
+            { store }
+        );
+    }
+
+    it('should produce the same output as the array store', () => {
+        const [arrayPipeline, getArrayOutput] = createVenuePipeline('array');
+        const [mapPipeline, getMapOutput] = createVenuePipeline('map');
+
+        for (const pipeline of [arrayPipeline, mapPipeline]) {
+            pipeline.add('v1', { state: 'TX', city: 'Houston', venue: 'Stadium', capacity: 70000 });
+            pipeline.add('v2', { state: 'TX', city: 'Dallas', venue: 'Arena', capacity: 20000 });
+            pipeline.add('v3', { state: 'OK', city: 'Tulsa', venue: 'Center', capacity: 18000 });
+            pipeline.add('v4', { state: 'TX', city: 'Austin', venue: 'Theater', capacity: 2000 });
+            pipeline.update('v2',
+                { state: 'TX', city: 'Dallas', venue: 'Arena', capacity: 20000 },
+                { state: 'TX', city: 'Dallas', venue: 'Arena', capacity: 21000 });
+            pipeline.remove('v1', { state: 'TX', city: 'Houston', venue: 'Stadium', capacity: 70000 });
+        }
+
+        expect(getMapOutput()).toEqual(getArrayOutput());
+        expect(getMapOutput()[0].cities.map(city => city.city)).toEqual(['Austin', 'Dallas']);
+    });
+
+    it('should share unchanged items with the previous snapshot', () => {
+        const builder = createPipeline<{ category: string; name: string }>()
+            .groupBy(['category'], 'items');
+        const [getState, setState] = simulateState<KeyedArray<any>>([]);
+        const pipeline = builder.build(setState, builder.getTypeDescriptor(), { store: 'map' });
+
+        pipeline.add('item1', { category: 'A', name: 'One' });
+        pipeline.add('item2', { category: 'B', name: 'Two' });
+        const before = getState();
+
+        pipeline.add('item3', { category: 'B', name: 'Three' });
+        const after = getState();
+
+        expect(after).not.toBe(before);
+        expect(after[0]).toBe(before[0]);
+        expect(after[1]).not.toBe(before[1]);
+        expect(after[1].value.items).toHaveLength(2);
+        expect(before[1].value.items).toHaveLength(1);
+    });
+
+    it('should return the same snapshot when nothing changed', () => {
+        const builder = createPipeline<{ category: string; name: string }>()
+            .groupBy(['category'], 'items');
+        const transforms: ((state: KeyedArray<any>) => KeyedArray<any>)[] = [];
+        const pipeline = builder.build(transform => transforms.push(transform), builder.getTypeDescriptor(), { store: 'map' });
+
+        pipeline.add('item1', { category: 'A', name: 'One' });
+        const last = transforms[transforms.length - 1];
+
+        expect(last([])).toBe(last([]));
+    });
+
+    it('should commit one snapshot per batch', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; price: number }>()
+                .groupBy(['category'], 'items')
+                .sum('items', 'price', 'total'),
+            { store: 'map' }
+        );
+
+        pipeline.batch(() => {
+            pipeline.add('item1', { category: 'A', price: 10 });
+            pipeline.add('item2', { category: 'A', price: 20 });
+            pipeline.remove('item1', { category: 'A', price: 10 });
+        });
+
+        expect(getOutput()).toEqual([{ category: 'A', items: [{ price: 20 }], total: 20 }]);
+    });
+
+    it('should hand setState one transform per input operation', () => {
+        const builder = createPipeline<{ category: string; price: number }>()
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', 'total')
+            .count('items', 'itemCount');
+        const transforms: ((state: KeyedArray<any>) => KeyedArray<any>)[] = [];
+        const pipeline = builder.build(transform => transforms.push(transform), builder.getTypeDescriptor(), { store: 'map' });
+
+        pipeline.add('item1', { category: 'A', price: 10 });
+        pipeline.add('item2', { category: 'A', price: 20 });
+
+        expect(transforms).toHaveLength(2);
+    });
+
+    it('should keep the positions of unordered items as the array store does', () => {
+        const [arrayPipeline, getArrayOutput] = createVenuePipeline('array');
+        const [mapPipeline, getMapOutput] = createVenuePipeline('map');
+
+        for (const pipeline of [arrayPipeline, mapPipeline]) {
+            pipeline.add('v1', { state: 'TX', city: 'Houston', venue: 'Stadium', capacity: 70000 });
+            pipeline.add('v2', { state: 'OK', city: 'Tulsa', venue: 'Center', capacity: 18000 });
+            pipeline.add('v3', { state: 'NM', city: 'Santa Fe', venue: 'Plaza', capacity: 5000 });
+            pipeline.add('v4', { state: 'OK', city: 'Tulsa', venue: 'Hall', capacity: 2000 });
+            pipeline.remove('v1', { state: 'TX', city: 'Houston', venue: 'Stadium', capacity: 70000 });
+            pipeline.add('v1', { state: 'TX', city: 'Houston', venue: 'Stadium', capacity: 70000 });
+        }
+
+        expect(getMapOutput()).toEqual(getArrayOutput());
+        expect(getMapOutput().map(state => state.state)).toEqual(['OK', 'NM', 'TX']);
+    });
+
+    it('should place a changed item of an ordered array without sorting it again', () => {
+        let comparisons = 0;
+        const store = new KeyedStore({
+            arrays: [],
+            properties: [],
+            ordering: { by: (value1: any, value2: any) => { comparisons++; return value1.rank - value2.rank; }, direction: 'asc' }
+        });
+        for (let i = 0; i < 1000; i++) {
+            store.add([], [], `item${i}`, { rank: i });
+        }
+        const before = store.snapshot();
+
+        comparisons = 0;
+        store.modify([], [], 'item500', 'rank', 1500);
+        const after = store.snapshot();
+
+        expect(comparisons).toBeLessThan(20);
+        expect(after[after.length - 1].key).toBe('item500');
+        expect(after[0]).toBe(before[0]);
+    });
+
+    it('should reject events under unknown items', () => {
+        const store = new KeyedStore({ arrays: [{ name: 'items', type: { arrays: [], properties: [] } }], properties: [] });
+
+        expect(() => store.add(['items'], ['missing'], 'item1', { name: 'One' }))
+            .toThrow('Path references unknown item when setting state');
+        expect(() => store.add(['items'], [], 'item1', { name: 'One' }))
+            .toThrow('Mismatched path length when setting state');
+    });
+});
@@ -0,0 +1,133 @@
+import { createPipeline } from '../index';
+import { createTestPipeline } from './helpers';
+
+describe('pipeline orderBy', () => {
+    it('should sort items by a property in ascending order', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ name: string; price: number }>()
+                .orderBy('price')
+        );
+
+        pipeline.add('item1', { name: 'B', price: 20 });
+        pipeline.add('item2', { name: 'C', price: 30 });
+        pipeline.add('item3', { name: 'A', price: 10 });
+
+        expect(getOutput().map(item => item.name)).toEqual(['A', 'B', 'C']);
+    });
+
+    it('should sort items by a property in descending order', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ name: string; price: number }>()
+                .orderBy('price', 'desc')
+        );
+
+        pipeline.add('item1', { name: 'B', price: 20 });
+        pipeline.add('item2', { name: 'C', price: 30 });
+        pipeline.add('item3', { name: 'A', price: 10 });
+
+        expect(getOutput().map(item => item.name)).toEqual(['C', 'B', 'A']);
+    });
+
+    it('should sort items with a comparator', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ name: string }>()
+                .orderBy((a, b) => a.name.length - b.name.length)
+        );
+
+        pipeline.add('item1', { name: 'ccc' });
+        pipeline.add('item2', { name: 'a' });
+        pipeline.add('item3', { name: 'bb' });
+
+        expect(getOutput().map(item => item.name)).toEqual(['a', 'bb', 'ccc']);
+    });
+
+    it('should break ties by key regardless of arrival order', () => {
+        const [pipeline1, getOutput1] = createTestPipeline(() =>
+            createPipeline<{ name: string; price: number }>()
+                .orderBy('price')
+        );
+        const [pipeline2, getOutput2] = createTestPipeline(() =>
+            createPipeline<{ name: string; price: number }>()
+                .orderBy('price')
+        );
+
+        pipeline1.add('item1', { name: 'First', price: 10 });
+        pipeline1.add('item2', { name: 'Second', price: 10 });
+        pipeline2.add('item2', { name: 'Second', price: 10 });
+        pipeline2.add('item1', { name: 'First', price: 10 });
+
+        expect(getOutput1()).toEqual(getOutput2());
+        expect(getOutput1().map(item => item.name)).toEqual(['First', 'Second']);
+    });
+
+    it('should sort null and undefined values last', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ name: string; price: number | null }>()
+                .orderBy('price', 'desc')
+        );
+
+        pipeline.add('item1', { name: 'None', price: null });
+        pipeline.add('item2', { name: 'Low', price: 1 });
+        pipeline.add('item3', { name: 'High', price: 5 });
+
+        expect(getOutput().map(item => item.name)).toEqual(['High', 'Low', 'None']);
+    });
+
+    it('should reposition groups when an aggregate changes', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; price: number }>()
+                .groupBy(['category'], 'items')
+                .sum('items', 'price', 'total')
+                .orderBy('total', 'desc')
+        );
+
+        pipeline.add('item1', { category: 'A', price: 10 });
+        pipeline.add('item2', { category: 'B', price: 20 });
+        expect(getOutput().map(group => group.category)).toEqual(['B', 'A']);
+
+        pipeline.add('item3', { category: 'A', price: 15 });
+        expect(getOutput().map(group => group.category)).toEqual(['A', 'B']);
+    });
+
+    it('should reposition an item when it is updated', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ name: string; price: number }>()
+                .orderBy('price')
+        );
+
+        pipeline.add('item1', { name: 'A', price: 10 });
+        pipeline.add('item2', { name: 'B', price: 20 });
+        pipeline.update('item1', { name: 'A', price: 10 }, { name: 'A', price: 30 });
+
+        expect(getOutput().map(item => item.name)).toEqual(['B', 'A']);
+    });
+
+    it('should sort nested items via in()', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; name: string }>()
+                .groupBy(['category'], 'items')
+                .in('items').orderBy('name')
+        );
+
+        pipeline.add('item1', { category: 'A', name: 'zebra' });
+        pipeline.add('item2', { category: 'A', name: 'apple' });
+        pipeline.add('item3', { category: 'A', name: 'mango' });
+
+        expect(getOutput()[0].items).toEqual([{ name: 'apple' }, { name: 'mango' }, { name: 'zebra' }]);
+    });
+
+    it('should keep ordering through later steps', () => {
+        const [pipeline, getOutput] = createTestPipeline(() =>
+            createPipeline<{ category: string; name: string; secret: string }>()
+                .groupBy(['category'], 'items')
+                .in('items').orderBy('name', 'desc')
+                .dropProperty('secret')
+                .count('items', 'count')
+        );
+
+        pipeline.add('item1', { category: 'A', name: 'a', secret: 'x' });
+        pipeline.add('item2', { category: 'A', name: 'b', secret: 'y' });
+
+        expect(getOutput()[0].items).toEqual([{ name: 'b' }, { name: 'a' }]);
+    });
+});
@@ -0,0 +1,186 @@
+import { createPipeline, SNAPSHOT_VERSION, type KeyedArray, type PipelineSnapshot, type StateStoreKind } from '../index';
+import { extract, simulateState } from './helpers';
+
+type Sale = { category: string; store: string; product: string; price: number };
+
+describe('pipeline snapshot', () => {
+    function defineSalesPipeline() {
+        return createPipeline<Sale>()
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', 'total')
+            .min('items', 'price', 'minPrice')
+            .max('items', 'price', 'maxPrice')
+            .average('items', 'price', 'averagePrice')
+            .median('items', 'price', 'medianPrice')
+            .variance('items', 'price', 'priceVariance')
+            .countDistinct('items', 'store', 'storeCount')
+            .pickByMax('items', 'price', 'priciest')
+            .topN('items', 'price', 2, 'topTwo')
+            .defineReactiveProperty('spread', ['minPrice', 'maxPrice'], item => (item.maxPrice ?? 0) - (item.minPrice ?? 0))
+            .having(item => item.total > 10)
+            .orderBy('category');
+    }
+
+    function buildSalesPipeline(store: StateStoreKind) {
+        const builder = defineSalesPipeline();
+        const typeDescriptor = builder.getTypeDescriptor();
+        const [getState, setState] = simulateState<KeyedArray<any>>([]);
+        const pipeline = builder.build(setState, typeDescriptor, { store });
+        return { pipeline, getOutput: () => extract(getState(), typeDescriptor) };
+    }
+
+    const before: [string, Sale][] = [
+        ['s1', { category: 'Books', store: 'North', product: 'Atlas', price: 8 }],
+        ['s2', { category: 'Books', store: 'South', product: 'Novel', price: 5 }],
+        ['s3', { category: 'Games', store: 'North', product: 'Chess', price: 9 }],
+        ['s4', { category: 'Games', store: 'North', product: 'Go', price: 20 }]
+    ];
+
+    function continueSales(pipeline: ReturnType<typeof buildSalesPipeline>['pipeline']) {
+        pipeline.add('s5', { category: 'Books', store: 'East', product: 'Poems', price: 3 });
+        pipeline.remove('s4', before[3][1]);
+        pipeline.update('s2', before[1][1], { ...before[1][1], price: 9 });
+        pipeline.add('s6', { category: 'Toys', store: 'South', product: 'Kite', price: 15 });
+    }
+
+    it.each(['array', 'map'] as StateStoreKind[])('should continue after a restore as if never interrupted (%s store)', store => {
+        const uninterrupted = buildSalesPipeline(store);
+        before.forEach(([key, sale]) => uninterrupted.pipeline.add(key, sale));
+        continueSales(uninterrupted.pipeline);
+
+        const original = buildSalesPipeline(store);
+        before.forEach(([key, sale]) => original.pipeline.add(key, sale));
+        const snapshot: PipelineSnapshot = JSON.parse(JSON.stringify(original.pipeline.snapshot()));
+
+        const restarted = buildSalesPipeline(store);
+        restarted.pipeline.restore(snapshot);
+        expect(restarted.getOutput()).toEqual(original.getOutput());
+
+        continueSales(restarted.pipeline);
+        expect(restarted.getOutput()).toEqual(uninterrupted.getOutput());
+        expect(restarted.getOutput().map(group => group.category)).toEqual(['Books', 'Toys']);
+    });
+
+    it('should restore the state of a joined pipeline', () => {
+        type Order = { orderId: string; customerId: string; total: number };
+        type Customer = { customerId: string; name: string };
+        function build() {
+            const customers = createPipeline<Customer>();
+            const builder = createPipeline<Order>()
+                .join(customers, 'customers', order => order.customerId, customer => customer.customerId, 'left')
+                .flatten('customers');
+            const typeDescriptor = builder.getTypeDescriptor();
+            const [getState, setState] = simulateState<KeyedArray<any>>([]);
+            const pipeline = builder.build(setState, typeDescriptor);
+            return { pipeline, customerInput: customers.getInput(), getOutput: () => extract(getState(), typeDescriptor) };
+        }
+
+        const original = build();
+        original.customerInput.add('c1', { customerId: 'C1', name: 'Alice' });
+        original.pipeline.add('o1', { orderId: 'O1', customerId: 'C1', total: 100 });
+        original.pipeline.add('o2', { orderId: 'O2', customerId: 'C2', total: 50 });
+
+        const restarted = build();
+        restarted.pipeline.restore(JSON.parse(JSON.stringify(original.pipeline.snapshot())));
+        restarted.customerInput.add('c2', { customerId: 'C2', name: 'Bob' });
+        restarted.customerInput.remove('c1', { customerId: 'C1', name: 'Alice' });
+
+        expect(restarted.getOutput()).toEqual([
+            { orderId: 'O2', customerId: 'C2', total: 50, name: 'Bob' }
+        ]);
+    });
+
+    it('should record the version and the step chain', () => {
+        const { pipeline } = buildSalesPipeline('array');
+        const snapshot = pipeline.snapshot();
+
+        expect(snapshot.version).toBe(SNAPSHOT_VERSION);
+        expect(snapshot.steps[0]).toEqual({ kind: 'input', scope: [], parameters: {} });
+        expect(snapshot.steps[1]).toEqual({ kind: 'groupBy', scope: [], parameters: { by: ['category'], as: 'items' } });
+        expect(snapshot.steps).toHaveLength(snapshot.stepStates.length);
+        expect(snapshot.stepStates[0]).toBeNull();
+    });
+
+    it('should reject a snapshot of a different step chain', () => {
+        const { pipeline } = buildSalesPipeline('array');
+        const snapshot = pipeline.snapshot();
+        const other = createPipeline<Sale>()
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', 'total');
+        const otherPipeline = other.build(() => {}, other.getTypeDescriptor());
+
+        expect(() => otherPipeline.restore({ ...snapshot, typeDescriptor: otherPipeline.snapshot().typeDescriptor }))
+            .toThrow('restore: the snapshot was taken of a pipeline with steps');
+    });
+
+    it('should reject a snapshot of a different type descriptor', () => {
+        const builder = createPipeline<Sale>().groupBy(['category'], 'items');
+        const snapshot = builder.build(() => {}, builder.getTypeDescriptor()).snapshot();
+        const other = createPipeline<Sale>().groupBy(['category'], 'sales');
+
+        expect(() => other.build(() => {}, other.getTypeDescriptor()).restore(snapshot))
+            .toThrow('restore: the snapshot was taken of a pipeline with a different type descriptor');
+    });
+
+    it('should reject a snapshot of a pipeline with different properties', () => {
+        const define = (name: string, priceType: 'number' | 'string') => createPipeline<Sale>({ properties: { category: 'string', price: priceType } })
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', name);
+        const build = (builder: ReturnType<typeof define>) => builder.build(() => {}, builder.getTypeDescriptor());
+        const snapshot = build(define('total', 'number')).snapshot();
+
+        expect(() => build(define('amount', 'number')).restore(snapshot))
+            .toThrow('restore: the snapshot was taken of a pipeline with a different type descriptor');
+        expect(() => build(define('total', 'string')).restore(snapshot))
+            .toThrow('restore: the snapshot was taken of a pipeline with a different type descriptor');
+        expect(() => build(define('total', 'number')).restore(snapshot)).not.toThrow();
+    });
+
+    it('should reject a snapshot of a pipeline whose steps have different parameters', () => {
+        const define = (property: 'price' | 'cost') => createPipeline<{ category: string; price: number; cost: number }>()
+            .groupBy(['category'], 'items')
+            .sum('items', property, 'total');
+        const build = (builder: ReturnType<typeof define>) => builder.build(() => {}, builder.getTypeDescriptor());
+        const snapshot = build(define('price')).snapshot();
+
+        expect(() => build(define('cost')).restore(snapshot))
+            .toThrow('restore: the snapshot was taken of a pipeline whose step 3 (sum) has different parameters');
+        expect(() => build(define('price')).restore(snapshot)).not.toThrow();
+    });
+
+    it('should leave the pipeline unchanged when the state of a step is invalid', () => {
+        const builder = createPipeline<Sale>()
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', 'total');
+        const typeDescriptor = builder.getTypeDescriptor();
+        const [getState, setState] = simulateState<KeyedArray<any>>([]);
+        const pipeline = builder.build(setState, typeDescriptor);
+        pipeline.add('s1', before[0][1]);
+        const snapshot = pipeline.snapshot();
+        pipeline.add('s2', before[1][1]);
+        const corrupted = { ...snapshot, stepStates: snapshot.stepStates.map((state, i) => i === 2 ? 42 : state) };
+
+        expect(() => pipeline.restore(corrupted))
+            .toThrow('restore: the state of step 3 (sum) is invalid');
+
+        pipeline.remove('s1', before[0][1]);
+        expect(extract(getState(), typeDescriptor)).toEqual([
+            { category: 'Books', total: 5, items: [{ store: 'South', product: 'Novel', price: 5 }] }
+        ]);
+    });
+
+    it('should reject a snapshot of another version', () => {
+        const { pipeline } = buildSalesPipeline('array');
+        const snapshot = pipeline.snapshot();
+
+        expect(() => pipeline.restore({ ...snapshot, version: SNAPSHOT_VERSION + 1 }))
+            .toThrow(`restore: unsupported snapshot version ${SNAPSHOT_VERSION + 1}`);
+    });
+
+    it('should not take a snapshot during a batch', () => {
+        const { pipeline } = buildSalesPipeline('array');
+
+        expect(() => pipeline.batch(() => pipeline.snapshot()))
+            .toThrow('snapshot: cannot take a snapshot during a batch');
+    });
+});
@@ -0,0 +1,127 @@
+import { compilePipelineSpec } from '../index';
+import { createTestPipeline } from './helpers';
+
+describe('pipeline declarative spec', () => {
+    const createSpecPipeline = (spec: unknown) => createTestPipeline(() => compilePipelineSpec(spec));
+
+    it('should group and aggregate', () => {
+        const [pipeline, getOutput] = createSpecPipeline({
+            steps: [
+                { step: 'groupBy', by: ['category'], as: 'items' },
+                { step: 'sum', array: 'items', property: 'price', as: 'total' },
+                { step: 'count', array: 'items', as: 'count' },
+                { step: 'average', array: 'items', property: 'price', as: 'average' },
+                { step: 'min', array: 'items', property: 'price', as: 'lowest' },
+                { step: 'max', array: 'items', property: 'price', as: 'highest' },
+                { step: 'pickByMax', array: 'items', property: 'price', as: 'priciest' },
+                { step: 'pickByMin', array: 'items', property: 'price', as: 'cheapest' }
+            ]
+        });
+
+        pipeline.add('item1', { category: 'A', name: 'One', price: 10 });
+        pipeline.add('item2', { category: 'A', name: 'Two', price: 30 });
+
+        expect(getOutput()).toEqual([{
+            category: 'A',
+            items: [{ name: 'One', price: 10 }, { name: 'Two', price: 30 }],
+            total: 40,
+            count: 2,
+            average: 20,
+            lowest: 10,
+            highest: 30,
+            priciest: { name: 'Two', price: 30 },
+            cheapest: { name: 'One', price: 10 }
+        }]);
+    });
+
+    it('should define, filter, and drop properties with expressions', () => {
+        const [pipeline, getOutput] = createSpecPipeline({
+            steps: [
+                { step: 'defineProperty', name: 'total', expression: 'price * quantity' },
+                { step: 'filter', where: 'total >= 100 && status != "cancelled"' },
+                { step: 'dropProperty', name: 'status' }
+            ]
+        });
+
+        pipeline.add('order1', { price: 25, quantity: 4, status: 'open' });
+        pipeline.add('order2', { price: 25, quantity: 2, status: 'open' });
+        pipeline.add('order3', { price: 50, quantity: 3, status: 'cancelled' });
+
+        expect(getOutput()).toEqual([{ price: 25, quantity: 4, total: 100 }]);
+    });
+
+    it('should apply steps within a scope', () => {
+        const [pipeline, getOutput] = createSpecPipeline({
+            steps: [
+                { step: 'groupBy', by: ['state', 'city'], as: 'venues' },
+                { step: 'groupBy', by: ['state'], as: 'cities' },
+                { step: 'filter', in: ['cities', 'venues'], where: 'capacity >= 100' },
+                { step: 'dropProperty', in: ['cities', 'venues'], name: 'venue' },
+                { step: 'sum', in: ['cities'], array: 'venues', property: 'capacity', as: 'capacity' },
+                { step: 'orderBy', in: ['cities'], by: 'capacity', direction: 'desc' }
+            ]
+        });
+
+        pipeline.add('v1', { state: 'TX', city: 'Dallas', venue: 'Arena', capacity: 100 });
+        pipeline.add('v2', { state: 'TX', city: 'Houston', venue: 'Stadium', capacity: 300 });
+        pipeline.add('v3', { state: 'TX', city: 'Dallas', venue: 'Club', capacity: 50 });
+
+        expect(getOutput()).toEqual([{
+            state: 'TX',
+            cities: [
+                { city: 'Houston', venues: [{ capacity: 300 }], capacity: 300 },
+                { city: 'Dallas', venues: [{ capacity: 100 }], capacity: 100 }
+            ]
+        }]);
+    });
+
+    it('should reject specs that are not well formed', () => {
+        expect(() => compilePipelineSpec([]))
+            .toThrow('Pipeline spec must be an object with a steps array');
+        expect(() => compilePipelineSpec({ steps: [{ step: 'median', array: 'items' }] }))
+            .toThrow('Pipeline spec step 1 (median): unknown step "median"');
+        expect(() => compilePipelineSpec({ steps: [{ step: 'count', array: 'items' }] }))
+            .toThrow('Pipeline spec step 1 (count): missing field "as"');
+        expect(() => compilePipelineSpec({ steps: [{ step: 'count', array: 'items', as: 'n', property: 'x' }] }))
+            .toThrow('Pipeline spec step 1 (count): unknown field "property"');
+        expect(() => compilePipelineSpec({ steps: [{ step: 'groupBy', by: 'category', as: 'items' }] }))
+            .toThrow('Pipeline spec step 1 (groupBy): "by" must be a non-empty array of property names');
+        expect(() => compilePipelineSpec({ steps: [{ step: 'orderBy', by: 'name', direction: 'up' }] }))
+            .toThrow('Pipeline spec step 1 (orderBy): "direction" must be "asc" or "desc"');
+        expect(() => compilePipelineSpec({ steps: [{ step: 'filter', where: 'price >' }] }))
+            .toThrow('Pipeline spec step 1 (filter): Expression "price >": unexpected end of expression at position 7');
+    });
+
+    it('should validate steps against the type descriptor', () => {
+        const grouped = { step: 'groupBy', by: ['category'], as: 'items' };
+
+        expect(() => compilePipelineSpec({ steps: [grouped, { step: 'sum', array: 'lines', property: 'price', as: 'total' }] }))
+            .toThrow('Pipeline spec step 2 (sum): array "lines" does not exist in scope []');
+        expect(() => compilePipelineSpec({ steps: [grouped, { step: 'count', in: ['lines'], array: 'items', as: 'n' }] }))
+            .toThrow('Pipeline spec step 2 (count): scope [lines] does not exist');
+        expect(() => compilePipelineSpec({ steps: [grouped, grouped] }))
+            .toThrow('Pipeline spec step 2 (groupBy): array "items" already exists in scope []');
+        expect(() => compilePipelineSpec({ steps: [grouped, { step: 'dropProperty', name: 'items' }] }))
+            .toThrow('Pipeline spec step 2 (dropProperty): "items" is an array, not a property');
+    });
+
+    it('should require the step after a scoped filter to apply within its scope', () => {
+        expect(() => compilePipelineSpec({
+            steps: [
+                { step: 'groupBy', by: ['category'], as: 'items' },
+                { step: 'filter', in: ['items'], where: 'price > 0' },
+                { step: 'count', array: 'items', as: 'count' }
+            ]
+        })).toThrow('Pipeline spec step 3 (count): must apply within [items], the scope of the filter before it');
+    });
+
+    it('should require the step after a scoped orderBy to apply within its scope', () => {
+        expect(() => compilePipelineSpec({
+            steps: [
+                { step: 'groupBy', by: ['category'], as: 'items' },
+                { step: 'orderBy', in: ['items'], by: 'price', direction: 'asc' },
+                { step: 'count', array: 'items', as: 'count' }
+            ]
+        })).toThrow('Pipeline spec step 3 (count): must apply within [items], the scope of the orderBy before it');
+    });
+});
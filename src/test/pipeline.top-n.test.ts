@@ -0,0 +1,210 @@
+import { createPipeline } from '../index';
+import type { Step } from '../pipeline';
+import { createTestPipeline } from './helpers';
+
+describe('pipeline topN / bottomN', () => {
+    describe('topN', () => {
+        it('should keep the items with the highest values', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; name: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .topN('items', 'price', 2, 'topItems')
+            );
+
+            pipeline.add('item1', { category: 'A', name: 'One', price: 10 });
+            pipeline.add('item2', { category: 'A', name: 'Two', price: 30 });
+            pipeline.add('item3', { category: 'A', name: 'Three', price: 20 });
+
+            const topItems = getOutput()[0].topItems;
+            expect(topItems).toHaveLength(2);
+            expect(topItems).toContainEqual({ name: 'Two', price: 30 });
+            expect(topItems).toContainEqual({ name: 'Three', price: 20 });
+        });
+
+        it('should keep the source array', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .topN('items', 'price', 1, 'topItems')
+            );
+
+            pipeline.add('item1', { category: 'A', price: 10 });
+            pipeline.add('item2', { category: 'A', price: 30 });
+
+            expect(getOutput()).toEqual([
+                { category: 'A', items: [{ price: 10 }, { price: 30 }], topItems: [{ price: 30 }] }
+            ]);
+        });
+
+        it('should promote the next item when one in the window is removed', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; name: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .topN('items', 'price', 2, 'topItems')
+            );
+
+            const item1 = { category: 'A', name: 'One', price: 10 };
+            const item2 = { category: 'A', name: 'Two', price: 30 };
+            const item3 = { category: 'A', name: 'Three', price: 20 };
+            pipeline.add('item1', item1);
+            pipeline.add('item2', item2);
+            pipeline.add('item3', item3);
+
+            pipeline.remove('item2', item2);
+
+            const topItems = getOutput()[0].topItems;
+            expect(topItems).toHaveLength(2);
+            expect(topItems).toContainEqual({ name: 'Three', price: 20 });
+            expect(topItems).toContainEqual({ name: 'One', price: 10 });
+        });
+
+        it('should ignore removal of items outside the window', () => {
+            const builder = createPipeline<{ category: string; price: number }>()
+                .groupBy(['category'], 'items')
+                .topN('items', 'price', 1, 'topItems');
+            const step = builder['lastStep'] as Step;
+            const events: string[] = [];
+            step.onAdded(['topItems'], (keyPath, key) => events.push(`added ${key}`));
+            step.onRemoved(['topItems'], (keyPath, key) => events.push(`removed ${key}`));
+
+            const input = builder['input'];
+            input.add('item1', { category: 'A', price: 30 });
+            input.add('item2', { category: 'A', price: 10 });
+            input.remove('item2', { category: 'A', price: 10 });
+
+            expect(events).toEqual(['added item1']);
+        });
+
+        it('should break ties by item key', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; name: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .topN('items', 'price', 1, 'topItems')
+            );
+
+            pipeline.add('item2', { category: 'A', name: 'Second', price: 10 });
+            pipeline.add('item1', { category: 'A', name: 'First', price: 10 });
+
+            expect(getOutput()[0].topItems).toEqual([{ name: 'First', price: 10 }]);
+        });
+
+        it('should ignore null/undefined values', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; price: number | null }>()
+                    .groupBy(['category'], 'items')
+                    .topN('items', 'price', 2, 'topItems')
+            );
+
+            pipeline.add('item1', { category: 'A', price: null });
+            pipeline.add('item2', { category: 'A', price: 5 });
+
+            expect(getOutput()[0].topItems).toEqual([{ price: 5 }]);
+        });
+
+        it('should move items in and out of the window on update', () => {
+            const builder = createPipeline<{ category: string; price: number }>()
+                .groupBy(['category'], 'items')
+                .topN('items', 'price', 2, 'topItems');
+            const step = builder['lastStep'] as Step;
+            const events: string[] = [];
+            step.onAdded(['topItems'], (keyPath, key) => events.push(`added ${key}`));
+            step.onRemoved(['topItems'], (keyPath, key) => events.push(`removed ${key}`));
+            step.onUpdated(['topItems'], (keyPath, key) => events.push(`updated ${key}`));
+
+            const input = builder['input'];
+            input.add('item1', { category: 'A', price: 30 });
+            input.add('item2', { category: 'A', price: 20 });
+            input.add('item3', { category: 'A', price: 10 });
+            events.length = 0;
+
+            // Stays in the window
+            input.update('item1', { category: 'A', price: 30 }, { category: 'A', price: 25 });
+            expect(events).toEqual(['updated item1']);
+            events.length = 0;
+
+            // Drops out of the window, promoting item3
+            input.update('item1', { category: 'A', price: 25 }, { category: 'A', price: 5 });
+            expect(events).toEqual(['removed item1', 'added item3']);
+            events.length = 0;
+
+            // Changes value outside the window
+            input.update('item1', { category: 'A', price: 5 }, { category: 'A', price: 1 });
+            expect(events).toEqual([]);
+        });
+
+        it('should carry the aggregates of items into the window, but not their arrays', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ state: string; city: string; venue: string; capacity: number }>()
+                    .groupBy(['state', 'city'], 'venues')
+                    .groupBy(['state'], 'cities')
+                    .in('cities').sum('venues', 'capacity', 'totalCapacity')
+                    .topN('cities', 'city', 1, 'lastCity')
+            );
+
+            const dallas = { state: 'TX', city: 'Dallas', venue: 'Arena', capacity: 20 };
+            pipeline.add('v1', { state: 'TX', city: 'Austin', venue: 'Hall', capacity: 10 });
+            pipeline.add('v2', dallas);
+            expect(getOutput()[0].lastCity).toEqual([{ city: 'Dallas', totalCapacity: 20 }]);
+
+            // Austin enters the window with the total it already has, and keeps it up to date
+            pipeline.remove('v2', dallas);
+            pipeline.add('v3', { state: 'TX', city: 'Austin', venue: 'Club', capacity: 5 });
+            expect(getOutput()[0].lastCity).toEqual([{ city: 'Austin', totalCapacity: 15 }]);
+        });
+
+        it('should rank an empty string as a string rather than as zero', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; code: string }>()
+                    .groupBy(['category'], 'items')
+                    .topN('items', 'code', 1, 'topItems')
+            );
+
+            pipeline.add('item1', { category: 'A', code: '' });
+            pipeline.add('item2', { category: 'A', code: '-1' });
+
+            expect(getOutput()[0].topItems).toEqual([{ code: '-1' }]);
+        });
+
+        it('should reject a non-positive count', () => {
+            expect(() => createPipeline<{ category: string; price: number }>()
+                .groupBy(['category'], 'items')
+                .topN('items', 'price', 0, 'topItems')
+            ).toThrow('TopNStep: limit must be a positive integer, got 0');
+        });
+    });
+
+    describe('bottomN', () => {
+        it('should keep the items with the lowest values', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; name: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .bottomN('items', 'price', 2, 'cheapest')
+            );
+
+            pipeline.add('item1', { category: 'A', name: 'One', price: 10 });
+            pipeline.add('item2', { category: 'A', name: 'Two', price: 30 });
+            pipeline.add('item3', { category: 'A', name: 'Three', price: 20 });
+
+            const cheapest = getOutput()[0].cheapest;
+            expect(cheapest).toHaveLength(2);
+            expect(cheapest).toContainEqual({ name: 'One', price: 10 });
+            expect(cheapest).toContainEqual({ name: 'Three', price: 20 });
+        });
+
+        it('should support scoped usage via in()', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ state: string; city: string; venue: string; capacity: number }>()
+                    .groupBy(['state', 'city'], 'venues')
+                    .groupBy(['state'], 'cities')
+                    .in('cities')
+                    .bottomN('venues', 'capacity', 1, 'smallestVenues')
+            );
+
+            pipeline.add('v1', { state: 'TX', city: 'Dallas', venue: 'Stadium', capacity: 50000 });
+            pipeline.add('v2', { state: 'TX', city: 'Dallas', venue: 'Arena', capacity: 20000 });
+
+            const dallas = getOutput()[0].cities[0];
+            expect(dallas.smallestVenues).toEqual([{ venue: 'Arena', capacity: 20000 }]);
+        });
+    });
+});
@@ -0,0 +1,114 @@
+import { createPipeline, PipelineTrace, type KeyedArray } from '../index';
+import { simulateState } from './helpers';
+
+type Sale = { category: string; product: string; price: number };
+
+describe('pipeline trace', () => {
+    function buildTracedPipeline(trace: PipelineTrace) {
+        const builder = createPipeline<Sale>()
+            .trace(trace)
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', 'total')
+            .in('items').filter(item => item.price > 1);
+        const [getState, setState] = simulateState<KeyedArray<any>>([]);
+        const pipeline = builder.build(setState, builder.getTypeDescriptor());
+        return { builder, pipeline, getState };
+    }
+
+    it('should number the traced steps with their inputs', () => {
+        const trace = new PipelineTrace();
+        buildTracedPipeline(trace);
+
+        expect(trace.steps).toEqual([
+            { id: 1, kind: 'input', scope: [], inputs: [] },
+            { id: 2, kind: 'groupBy', scope: [], inputs: [1] },
+            { id: 3, kind: 'sum', scope: [], inputs: [2] },
+            { id: 4, kind: 'filter', scope: ['items'], inputs: [3] }
+        ]);
+    });
+
+    it('should record the events each step emits, in order', () => {
+        const trace = new PipelineTrace();
+        const { pipeline } = buildTracedPipeline(trace);
+
+        pipeline.add('s1', { category: 'Books', product: 'Atlas', price: 8 });
+
+        expect(trace.events.map(event => `${event.step} ${event.stepKind} ${event.event} [${event.pathSegments}]`)).toEqual([
+            '1 input added []',
+            '2 groupBy added []',
+            '3 sum added []',
+            '4 filter added []',
+            '2 groupBy added [items]',
+            '3 sum modified []',
+            '4 filter modified []',
+            '3 sum added [items]',
+            '4 filter added [items]'
+        ]);
+        expect(trace.find({ stepKind: 'sum', event: 'modified' })).toEqual([
+            expect.objectContaining({ keyPath: [], name: 'total', value: 8 })
+        ]);
+    });
+
+    it('should query the events a step received and emitted', () => {
+        const trace = new PipelineTrace();
+        const { pipeline } = buildTracedPipeline(trace);
+
+        pipeline.add('s1', { category: 'Books', product: 'Atlas', price: 8 });
+        pipeline.add('s2', { category: 'Books', product: 'Bookmark', price: 1 });
+
+        const filterAdds = (events: readonly { event: string, pathSegments: string[], key: string }[]) => events
+            .filter(event => event.event === 'added' && event.pathSegments.length === 1)
+            .map(event => event.key);
+        expect(filterAdds(trace.receivedBy(4))).toEqual(['s1', 's2']);
+        expect(filterAdds(trace.emittedBy(4))).toEqual(['s1']);
+        expect(trace.find({ pathSegments: ['items'], key: 's2' }).map(event => event.stepKind)).toEqual(['groupBy', 'sum']);
+    });
+
+    it('should record an event once however many handlers receive it', () => {
+        const trace = new PipelineTrace();
+        const { builder, pipeline } = buildTracedPipeline(trace);
+        const [, setOtherState] = simulateState<KeyedArray<any>>([]);
+        builder.build(setOtherState, builder.getTypeDescriptor());
+
+        pipeline.add('s1', { category: 'Books', product: 'Atlas', price: 8 });
+
+        expect(trace.find({ step: 4, event: 'modified' })).toHaveLength(1);
+    });
+
+    it('should not change the output', () => {
+        const trace = new PipelineTrace();
+        const { pipeline, getState } = buildTracedPipeline(trace);
+        const builder = createPipeline<Sale>()
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', 'total')
+            .in('items').filter(item => item.price > 1);
+        const [getUntracedState, setUntracedState] = simulateState<KeyedArray<any>>([]);
+        const untraced = builder.build(setUntracedState, builder.getTypeDescriptor());
+
+        for (const target of [pipeline, untraced]) {
+            target.add('s1', { category: 'Books', product: 'Atlas', price: 8 });
+            target.add('s2', { category: 'Games', product: 'Chess', price: 12 });
+            target.update('s2', { category: 'Games', product: 'Chess', price: 12 }, { category: 'Books', product: 'Chess', price: 12 });
+            target.remove('s1', { category: 'Books', product: 'Atlas', price: 8 });
+        }
+
+        expect(getState()).toEqual(getUntracedState());
+    });
+
+    it('should dump events as NDJSON and clear them', () => {
+        const trace = new PipelineTrace();
+        const { pipeline } = buildTracedPipeline(trace);
+        pipeline.add('s1', { category: 'Books', product: 'Atlas', price: 8 });
+
+        const lines = trace.toNdjson().trimEnd().split('\n');
+        expect(lines).toHaveLength(trace.events.length);
+        expect(JSON.parse(lines[0])).toEqual({
+            step: 1, stepKind: 'input', event: 'added', pathSegments: [], keyPath: [], key: 's1',
+            immutableProps: { category: 'Books', product: 'Atlas', price: 8 }
+        });
+
+        trace.clear();
+        expect(trace.events).toEqual([]);
+        expect(trace.steps).toHaveLength(4);
+    });
+});
@@ -0,0 +1,112 @@
+import { createPipeline, type KeyedArray, type TypeDescriptor } from '../index';
+import { simulateState } from './helpers';
+
+type Sale = { category: string; product: string; price: number; onSale: boolean };
+
+describe('pipeline type descriptor properties', () => {
+    const saleProperties = { category: 'string', product: 'string', price: 'number', onSale: 'boolean' } as const;
+
+    it('should list the declared input properties', () => {
+        expect(createPipeline<Sale>({ properties: saleProperties }).getTypeDescriptor()).toEqual({
+            arrays: [],
+            properties: [
+                { name: 'category', kind: 'immutable', type: 'string' },
+                { name: 'product', kind: 'immutable', type: 'string' },
+                { name: 'price', kind: 'immutable', type: 'number' },
+                { name: 'onSale', kind: 'immutable', type: 'boolean' }
+            ]
+        });
+        expect(createPipeline<Sale>().getTypeDescriptor()).toEqual({ arrays: [], properties: [] });
+    });
+
+    it('should move grouping properties to the group level and add aggregates there', () => {
+        const descriptor = createPipeline<Sale>({ properties: saleProperties })
+            .defineProperty('discounted', sale => sale.onSale ? sale.price * 0.9 : sale.price)
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', 'total')
+            .count('items', 'itemCount')
+            .pickByMax('items', 'price', 'priciest')
+            .distinctValues('items', 'product', 'products')
+            .getTypeDescriptor();
+
+        expect(descriptor.properties).toEqual([
+            { name: 'category', kind: 'immutable', type: 'string' },
+            { name: 'total', kind: 'aggregate', type: 'number' },
+            { name: 'itemCount', kind: 'aggregate', type: 'number' },
+            { name: 'priciest', kind: 'aggregate' },
+            { name: 'products', kind: 'aggregate' }
+        ]);
+        expect(descriptor.arrays[0].type.properties).toEqual([
+            { name: 'product', kind: 'immutable', type: 'string' },
+            { name: 'price', kind: 'immutable', type: 'number' },
+            { name: 'onSale', kind: 'immutable', type: 'boolean' },
+            { name: 'discounted', kind: 'computed' }
+        ]);
+    });
+
+    it('should describe properties at the scope of in()', () => {
+        const descriptor = createPipeline<Sale>({ properties: saleProperties })
+            .groupBy(['category'], 'items')
+            .in('items').defineProperty('label', sale => `${sale.product} ($${sale.price})`)
+            .in('items').dropProperty('onSale')
+            .sum('items', 'price', 'total')
+            .defineReactiveProperty('doubled', ['total'], group => group.total * 2)
+            .getTypeDescriptor();
+
+        expect(descriptor.properties.map(p => `${p.name}:${p.kind}`)).toEqual(['category:immutable', 'total:aggregate', 'doubled:aggregate']);
+        expect(descriptor.arrays[0].type.properties.map(p => `${p.name}:${p.kind}`)).toEqual(['product:immutable', 'price:immutable', 'label:computed']);
+    });
+
+    it('should describe the items of a top-N window without their arrays', () => {
+        const descriptor = createPipeline<{ state: string; city: string; venue: string; capacity: number }>({
+            properties: { state: 'string', city: 'string', venue: 'string', capacity: 'number' }
+        })
+            .groupBy(['state', 'city'], 'venues')
+            .groupBy(['state'], 'cities')
+            .in('cities').sum('venues', 'capacity', 'totalCapacity')
+            .topN('cities', 'totalCapacity', 2, 'largestCities')
+            .getTypeDescriptor();
+
+        const window = descriptor.arrays.find(array => array.name === 'largestCities')!;
+        expect(window.type).toEqual({
+            arrays: [],
+            properties: [
+                { name: 'city', kind: 'immutable', type: 'string' },
+                { name: 'totalCapacity', kind: 'aggregate', type: 'number' }
+            ]
+        });
+    });
+
+    it('should match the output of a pipeline', () => {
+        const builder = createPipeline<Sale>({ properties: saleProperties })
+            .defineProperty('discounted', sale => sale.onSale ? sale.price - 1 : sale.price)
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', 'total')
+            .average('items', 'price', 'averagePrice')
+            .min('items', 'price', 'cheapest')
+            .countDistinct('items', 'product', 'productCount')
+            .in('items').dropProperty('onSale');
+        const typeDescriptor = builder.getTypeDescriptor();
+        const [getState, setState] = simulateState<KeyedArray<any>>([]);
+        const pipeline = builder.build(setState, typeDescriptor);
+        pipeline.add('s1', { category: 'Books', product: 'Atlas', price: 8, onSale: true });
+        pipeline.add('s2', { category: 'Books', product: 'Bookmark', price: 2, onSale: false });
+
+        const checkLevel = (items: KeyedArray<any>, descriptor: TypeDescriptor) => {
+            for (const { value } of items) {
+                const expectedNames = [...descriptor.properties.map(p => p.name), ...descriptor.arrays.map(array => array.name)];
+                expect(Object.keys(value).sort()).toEqual(expectedNames.sort());
+                for (const property of descriptor.properties) {
+                    if (property.type) {
+                        expect(typeof value[property.name]).toBe(property.type);
+                    }
+                }
+                for (const array of descriptor.arrays) {
+                    checkLevel(value[array.name], array.type);
+                }
+            }
+        };
+        expect(getState()).toHaveLength(1);
+        checkLevel(getState(), typeDescriptor);
+    });
+});
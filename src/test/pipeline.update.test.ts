@@ -0,0 +1,237 @@
+import { createPipeline } from '../index';
+import type { Step } from '../pipeline';
+import { createTestPipeline } from './helpers';
+
+describe('pipeline update', () => {
+    describe('root level', () => {
+        it('should replace the immutable props of an item', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ name: string; value: number }>()
+            );
+
+            pipeline.add('item1', { name: 'Alice', value: 10 });
+            pipeline.update('item1', { name: 'Alice', value: 10 }, { name: 'Alice', value: 20 });
+
+            expect(getOutput()).toEqual([{ name: 'Alice', value: 20 }]);
+        });
+
+        it('should recompute defined properties', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ a: number; b: number }>()
+                    .defineProperty('sum', item => item.a + item.b)
+            );
+
+            pipeline.add('item1', { a: 1, b: 2 });
+            pipeline.update('item1', { a: 1, b: 2 }, { a: 5, b: 2 });
+
+            expect(getOutput()).toEqual([{ a: 5, b: 2, sum: 7 }]);
+        });
+
+        it('should keep dropped properties out of the output', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ name: string; secret: string }>()
+                    .dropProperty('secret')
+            );
+
+            pipeline.add('item1', { name: 'Alice', secret: 'x' });
+            pipeline.update('item1', { name: 'Alice', secret: 'x' }, { name: 'Alicia', secret: 'y' });
+
+            expect(getOutput()).toEqual([{ name: 'Alicia' }]);
+        });
+    });
+
+    describe('filter', () => {
+        it('should add an item when it starts to match the predicate', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ status: string; value: number }>()
+                    .filter(item => item.status === 'active')
+            );
+
+            pipeline.add('item1', { status: 'inactive', value: 10 });
+            expect(getOutput()).toHaveLength(0);
+
+            pipeline.update('item1', { status: 'inactive', value: 10 }, { status: 'active', value: 10 });
+            expect(getOutput()).toEqual([{ status: 'active', value: 10 }]);
+        });
+
+        it('should remove an item when it stops matching the predicate', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ status: string; value: number }>()
+                    .filter(item => item.status === 'active')
+            );
+
+            pipeline.add('item1', { status: 'active', value: 10 });
+            pipeline.update('item1', { status: 'active', value: 10 }, { status: 'inactive', value: 10 });
+
+            expect(getOutput()).toHaveLength(0);
+        });
+
+        it('should forward the update when the item matches before and after', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ status: string; value: number }>()
+                    .filter(item => item.status === 'active')
+            );
+
+            pipeline.add('item1', { status: 'active', value: 10 });
+            pipeline.update('item1', { status: 'active', value: 10 }, { status: 'active', value: 15 });
+
+            expect(getOutput()).toEqual([{ status: 'active', value: 15 }]);
+        });
+    });
+
+    describe('groupBy', () => {
+        it('should update an item within the same group', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; value: number }>()
+                    .groupBy(['category'], 'items')
+            );
+
+            pipeline.add('item1', { category: 'A', value: 10 });
+            pipeline.update('item1', { category: 'A', value: 10 }, { category: 'A', value: 30 });
+
+            expect(getOutput()).toEqual([{ category: 'A', items: [{ value: 30 }] }]);
+        });
+
+        it('should move an item to a different group', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; value: number }>()
+                    .groupBy(['category'], 'items')
+            );
+
+            pipeline.add('item1', { category: 'A', value: 10 });
+            pipeline.add('item2', { category: 'A', value: 20 });
+            pipeline.update('item1', { category: 'A', value: 10 }, { category: 'B', value: 10 });
+
+            const output = getOutput();
+            expect(output).toHaveLength(2);
+            expect(output.find(g => g.category === 'A')?.items).toEqual([{ value: 20 }]);
+            expect(output.find(g => g.category === 'B')?.items).toEqual([{ value: 10 }]);
+        });
+
+        it('should remove the old group when its last item moves out', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; value: number }>()
+                    .groupBy(['category'], 'items')
+            );
+
+            pipeline.add('item1', { category: 'A', value: 10 });
+            pipeline.update('item1', { category: 'A', value: 10 }, { category: 'B', value: 10 });
+
+            expect(getOutput()).toEqual([{ category: 'B', items: [{ value: 10 }] }]);
+        });
+
+        it('should never leave the moved item absent from the output', () => {
+            const builder = createPipeline<{ category: string; value: number }>()
+                .groupBy(['category'], 'items');
+            const step = builder['lastStep'] as Step;
+            const events: string[] = [];
+            step.onAdded(['items'], (keyPath, key) => events.push(`added ${key}`));
+            step.onRemoved(['items'], (keyPath, key) => events.push(`removed ${key}`));
+
+            const input = builder['input'];
+            input.add('item1', { category: 'A', value: 10 });
+            input.update('item1', { category: 'A', value: 10 }, { category: 'B', value: 10 });
+
+            expect(events).toEqual(['added item1', 'added item1', 'removed item1']);
+        });
+
+        it('should update items in nested groups', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ state: string; city: string; population: number }>()
+                    .groupBy(['state'], 'cities')
+                    .in('cities').groupBy(['city'], 'towns')
+            );
+
+            pipeline.add('t1', { state: 'TX', city: 'Dallas', population: 100 });
+            pipeline.update('t1', { state: 'TX', city: 'Dallas', population: 100 }, { state: 'TX', city: 'Dallas', population: 200 });
+
+            expect(getOutput()).toEqual([
+                { state: 'TX', cities: [{ city: 'Dallas', towns: [{ population: 200 }] }] }
+            ]);
+        });
+    });
+
+    describe('aggregates', () => {
+        it('should emit a single modification for a sum', () => {
+            const builder = createPipeline<{ category: string; value: number }>()
+                .groupBy(['category'], 'items')
+                .sum('items', 'value', 'total');
+            const step = builder['lastStep'] as Step;
+            const values: number[] = [];
+            step.onModified([], (keyPath, key, name, value) => values.push(value));
+
+            const input = builder['input'];
+            input.add('item1', { category: 'A', value: 10 });
+            input.add('item2', { category: 'A', value: 5 });
+            input.update('item1', { category: 'A', value: 10 }, { category: 'A', value: 25 });
+
+            expect(values).toEqual([10, 15, 30]);
+        });
+
+        it('should move the contribution between groups', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; value: number }>()
+                    .groupBy(['category'], 'items')
+                    .sum('items', 'value', 'total')
+                    .count('items', 'count')
+            );
+
+            pipeline.add('item1', { category: 'A', value: 10 });
+            pipeline.add('item2', { category: 'A', value: 5 });
+            pipeline.update('item1', { category: 'A', value: 10 }, { category: 'B', value: 10 });
+
+            const output = getOutput();
+            expect(output.find(g => g.category === 'A')).toMatchObject({ total: 5, count: 1 });
+            expect(output.find(g => g.category === 'B')).toMatchObject({ total: 10, count: 1 });
+        });
+
+        it('should emit a single modification for an average', () => {
+            const builder = createPipeline<{ category: string; value: number | null }>()
+                .groupBy(['category'], 'items')
+                .average('items', 'value', 'avg');
+            const step = builder['lastStep'] as Step;
+            const values: (number | undefined)[] = [];
+            step.onModified([], (keyPath, key, name, value) => values.push(value));
+
+            const input = builder['input'];
+            input.add('item1', { category: 'A', value: 10 });
+            input.add('item2', { category: 'A', value: 20 });
+            input.update('item1', { category: 'A', value: 10 }, { category: 'A', value: null });
+
+            expect(values).toEqual([10, 15, 20]);
+        });
+
+        it('should update min and max', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; value: number }>()
+                    .groupBy(['category'], 'items')
+                    .min('items', 'value', 'minValue')
+                    .max('items', 'value', 'maxValue')
+            );
+
+            pipeline.add('item1', { category: 'A', value: 10 });
+            pipeline.add('item2', { category: 'A', value: 20 });
+            pipeline.update('item1', { category: 'A', value: 10 }, { category: 'A', value: 30 });
+
+            expect(getOutput()[0]).toMatchObject({ minValue: 20, maxValue: 30 });
+        });
+
+        it('should repick when the picked item is updated', () => {
+            const [pipeline, getOutput] = createTestPipeline(() =>
+                createPipeline<{ category: string; name: string; price: number }>()
+                    .groupBy(['category'], 'items')
+                    .pickByMax('items', 'price', 'priciest')
+            );
+
+            pipeline.add('item1', { category: 'A', name: 'One', price: 30 });
+            pipeline.add('item2', { category: 'A', name: 'Two', price: 20 });
+            pipeline.update('item1', { category: 'A', name: 'One', price: 30 }, { category: 'A', name: 'One', price: 10 });
+
+            expect(getOutput()[0].priciest).toEqual({ name: 'Two', price: 20 });
+
+            pipeline.update('item1', { category: 'A', name: 'One', price: 10 }, { category: 'A', name: 'One', price: 50 });
+
+            expect(getOutput()[0].priciest).toEqual({ name: 'One', price: 50 });
+        });
+    });
+});
@@ -0,0 +1,238 @@
+import type { AddedHandler, ImmutableProps, ModifiedHandler, RemovedHandler, Step, StepDescription, TypeDescriptor, UpdatedHandler } from './pipeline';
+
+export type TraceEventKind = 'added' | 'removed' | 'updated' | 'modified';
+
+/**
+ * An event emitted by a traced step, with the properties of its kind:
+ * `immutableProps` when added or removed, `oldImmutableProps` and
+ * `newImmutableProps` when updated, and `name` and `value` when modified.
+ */
+export interface TraceEvent {
+    /** The id of the step that emitted the event */
+    step: number;
+    /** The kind of step, as in its description */
+    stepKind: string;
+    event: TraceEventKind;
+    pathSegments: string[];
+    keyPath: string[];
+    key: string;
+    immutableProps?: ImmutableProps;
+    oldImmutableProps?: ImmutableProps;
+    newImmutableProps?: ImmutableProps;
+    name?: string;
+    value?: unknown;
+}
+
+/**
+ * A traced step, identified by the order in which it was traced, starting at 1.
+ */
+export interface TracedStepInfo {
+    id: number;
+    kind: string;
+    scope: string[];
+    /** Ids of the traced steps it receives events from */
+    inputs: number[];
+}
+
+/**
+ * Selects trace events by any combination of their fields. Path segments and
+ * key paths match exactly.
+ */
+export type TraceQuery = Partial<Pick<TraceEvent, 'step' | 'stepKind' | 'event' | 'pathSegments' | 'keyPath' | 'key' | 'name'>>;
+
+/**
+ * Records the events that the steps of a pipeline emit, in the order they happen.
+ *
+ * Start tracing with `PipelineBuilder.trace`, which wraps every step added
+ * after it. A step receives the events that its inputs emit, so both sides of
+ * each step can be queried.
+ */
+export class PipelineTrace {
+    private recorded: TraceEvent[] = [];
+    private tracedSteps: TracedStepInfo[] = [];
+    private stepIds: Map<Step, number> = new Map();
+
+    /** The events recorded since the trace started or was last cleared */
+    get events(): readonly TraceEvent[] {
+        return this.recorded;
+    }
+
+    /** The traced steps, in the order they were traced */
+    get steps(): readonly TracedStepInfo[] {
+        return this.tracedSteps;
+    }
+
+    /**
+     * Returns the recorded events that match a query.
+     */
+    find(query: TraceQuery): TraceEvent[] {
+        return this.recorded.filter(event => matches(event, query));
+    }
+
+    /**
+     * Returns the recorded events that a step emitted.
+     */
+    emittedBy(stepId: number): TraceEvent[] {
+        return this.find({ step: stepId });
+    }
+
+    /**
+     * Returns the recorded events that a step received, which are those its inputs emitted.
+     */
+    receivedBy(stepId: number): TraceEvent[] {
+        const inputs = this.tracedSteps.find(step => step.id === stepId)?.inputs ?? [];
+        return this.recorded.filter(event => inputs.includes(event.step));
+    }
+
+    /**
+     * Describes the recorded events as newline-delimited JSON, one event per line.
+     */
+    toNdjson(): string {
+        return this.recorded.map(event => JSON.stringify(event) + '\n').join('');
+    }
+
+    /**
+     * Discards the recorded events, keeping the traced steps.
+     */
+    clear(): void {
+        this.recorded = [];
+    }
+
+    /**
+     * Wraps a step so that the events it emits are recorded.
+     * A step that is already traced by this trace is returned as is.
+     */
+    wrap(step: Step): Step {
+        if (this.stepIds.has(step)) {
+            return step;
+        }
+        const description = step.describe();
+        const id = this.tracedSteps.length + 1;
+        const traced = new TracedStep(step, (event, pathSegments, keyPath, key, details) => {
+            this.recorded.push({ step: id, stepKind: description.kind, event, pathSegments, keyPath, key, ...details });
+        });
+        this.stepIds.set(traced, id);
+        this.tracedSteps.push({
+            id,
+            kind: description.kind,
+            scope: description.scope,
+            inputs: step.getInputs().flatMap(input => {
+                const inputId = this.stepIds.get(input);
+                return inputId === undefined ? [] : [inputId];
+            })
+        });
+        return traced;
+    }
+}
+
+function matches(event: TraceEvent, query: TraceQuery): boolean {
+    return Object.entries(query).every(([field, expected]) => {
+        const actual = event[field as keyof TraceEvent];
+        return Array.isArray(expected)
+            ? Array.isArray(actual) && actual.length === expected.length && actual.every((segment, i) => segment === expected[i])
+            : actual === expected;
+    });
+}
+
+type RecordEvent = (
+    event: TraceEventKind,
+    pathSegments: string[],
+    keyPath: string[],
+    key: string,
+    details: Partial<TraceEvent>
+) => void;
+
+/**
+ * Wraps a step, recording each event it emits before passing it on.
+ *
+ * The wrapper subscribes to the step once per event kind and path, and fans
+ * the events out to its own handlers, so each event is recorded once however
+ * many handlers receive it.
+ */
+class TracedStep implements Step {
+    private addedHandlers: Map<string, AddedHandler[]> = new Map();
+    private removedHandlers: Map<string, RemovedHandler[]> = new Map();
+    private updatedHandlers: Map<string, UpdatedHandler[]> = new Map();
+    private modifiedHandlers: Map<string, ModifiedHandler[]> = new Map();
+
+    saveState?: () => unknown;
+    restoreState?: (state: unknown) => void;
+
+    constructor(
+        private inner: Step,
+        private record: RecordEvent
+    ) {
+        if (inner.saveState && inner.restoreState) {
+            this.saveState = () => inner.saveState!();
+            this.restoreState = state => inner.restoreState!(state);
+        }
+    }
+
+    getTypeDescriptor(): TypeDescriptor {
+        return this.inner.getTypeDescriptor();
+    }
+
+    getInputs(): Step[] {
+        return this.inner.getInputs();
+    }
+
+    describe(): StepDescription {
+        return this.inner.describe();
+    }
+
+    onAdded(pathSegments: string[], handler: AddedHandler): void {
+        const handlers = this.subscribe(this.addedHandlers, pathSegments, handler);
+        if (handlers) {
+            this.inner.onAdded(pathSegments, (keyPath, key, immutableProps) => {
+                this.record('added', pathSegments, keyPath, key, { immutableProps });
+                handlers.forEach(h => h(keyPath, key, immutableProps));
+            });
+        }
+    }
+
+    onRemoved(pathSegments: string[], handler: RemovedHandler): void {
+        const handlers = this.subscribe(this.removedHandlers, pathSegments, handler);
+        if (handlers) {
+            this.inner.onRemoved(pathSegments, (keyPath, key, immutableProps) => {
+                this.record('removed', pathSegments, keyPath, key, { immutableProps });
+                handlers.forEach(h => h(keyPath, key, immutableProps));
+            });
+        }
+    }
+
+    onUpdated(pathSegments: string[], handler: UpdatedHandler): void {
+        const handlers = this.subscribe(this.updatedHandlers, pathSegments, handler);
+        if (handlers) {
+            this.inner.onUpdated(pathSegments, (keyPath, key, oldImmutableProps, newImmutableProps) => {
+                this.record('updated', pathSegments, keyPath, key, { oldImmutableProps, newImmutableProps });
+                handlers.forEach(h => h(keyPath, key, oldImmutableProps, newImmutableProps));
+            });
+        }
+    }
+
+    onModified(pathSegments: string[], handler: ModifiedHandler): void {
+        const handlers = this.subscribe(this.modifiedHandlers, pathSegments, handler);
+        if (handlers) {
+            this.inner.onModified(pathSegments, (keyPath, key, name, value) => {
+                this.record('modified', pathSegments, keyPath, key, { name, value });
+                handlers.forEach(h => h(keyPath, key, name, value));
+            });
+        }
+    }
+
+    /**
+     * Adds a handler for a path, returning the path's handler list if it is the first,
+     * in which case the caller subscribes to the wrapped step.
+     */
+    private subscribe<THandler>(handlers: Map<string, THandler[]>, pathSegments: string[], handler: THandler): THandler[] | undefined {
+        const pathKey = JSON.stringify(pathSegments);
+        const existing = handlers.get(pathKey);
+        if (existing) {
+            existing.push(handler);
+            return undefined;
+        }
+        const created = [handler];
+        handlers.set(pathKey, created);
+        return created;
+    }
+}
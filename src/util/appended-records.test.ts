@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createPipeline } from '../index';
+import { applyAppendedRecords } from './appended-records';
+import { ChangeReporter } from './change-reporter';
+import { FileTail } from './file-tail';
+
+describe('applyAppendedRecords', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'appended-records-'));
+        filePath = path.join(directory, 'input.ndjson');
+        fs.writeFileSync(filePath, '');
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    function watchPipeline() {
+        const builder = createPipeline<{ group: string; v: number; bad?: boolean }>()
+            .groupBy(['group'], 'items')
+            .sum('items', 'v', 'total')
+            .commutativeAggregate('items', 'checked', (count: number | undefined, item) => {
+                if (item.bad) {
+                    throw new Error('bad record');
+                }
+                return (count ?? 0) + 1;
+            }, count => count - 1);
+        const typeDescriptor = builder.getTypeDescriptor();
+        const pipeline = builder.build(() => {}, typeDescriptor, { onError: 'rollback' });
+        const reporter = new ChangeReporter();
+        builder.observe(reporter, typeDescriptor);
+        let nextKey = 0;
+        const tail = new FileTail(filePath);
+        const append = (...records: object[]) => {
+            fs.appendFileSync(filePath, records.map(record => `${JSON.stringify(record)}\n`).join(''));
+            return applyAppendedRecords(tail, reporter, record => pipeline.add(`r${++nextKey}`, record as any));
+        };
+        return append;
+    }
+
+    it('should describe the changes of each applied record', () => {
+        const append = watchPipeline();
+
+        const result = append({ group: 'g', v: 10 }, { group: 'g', v: 2 });
+
+        expect(result.applied).toBe(2);
+        expect(result.skipped).toEqual([]);
+        expect(result.changes).toContain('    total: 10 → 12');
+    });
+
+    it('should skip a failing record and report later changes from the values before it', () => {
+        const append = watchPipeline();
+        append({ group: 'g', v: 10 });
+
+        const result = append({ group: 'g', v: 5, bad: true }, { group: 'g', v: 1 });
+
+        expect(result.applied).toBe(1);
+        expect(result.skipped).toEqual([{ lineNumber: 2, message: 'bad record' }]);
+        expect(result.changes).toEqual([
+            '~ group=g',
+            '    total: 10 → 11',
+            '    checked: 1 → 2',
+            '+ group=g / v=1'
+        ]);
+    });
+
+    it('should skip a line that is not valid JSON', () => {
+        const append = watchPipeline();
+        fs.appendFileSync(filePath, '{ not json\n');
+
+        const result = append({ group: 'g', v: 3 });
+
+        expect(result.applied).toBe(1);
+        expect(result.skipped.map(skipped => skipped.lineNumber)).toEqual([1]);
+    });
+});
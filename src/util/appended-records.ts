@@ -0,0 +1,43 @@
+import type { ChangeReporter } from './change-reporter';
+import type { FileTail } from './file-tail';
+import { parseNdjsonLine, type InputRecord } from './record-readers';
+
+export interface AppendedRecordsResult {
+    /** Number of records applied */
+    applied: number;
+    /** The changes that the applied records made to the output, as the reporter describes them */
+    changes: string[];
+    /** The lines that were skipped, with the error of each */
+    skipped: { lineNumber: number, message: string }[];
+}
+
+/**
+ * Applies the NDJSON records appended to a followed file, each on its own,
+ * and describes what they changed in the output.
+ *
+ * A record that cannot be parsed or applied is skipped. applyRecord must
+ * leave the pipeline as it was when it throws, for example through the
+ * 'rollback' error policy; the changes the reporter saw before the failure
+ * are discarded. Throws if the file can no longer be followed.
+ */
+export function applyAppendedRecords(
+    tail: FileTail,
+    reporter: ChangeReporter,
+    applyRecord: (record: InputRecord) => void
+): AppendedRecordsResult {
+    const result: AppendedRecordsResult = { applied: 0, changes: [], skipped: [] };
+    for (const { line, lineNumber } of tail.readLines()) {
+        try {
+            const record = parseNdjsonLine(line, lineNumber);
+            if (record) {
+                applyRecord(record);
+                result.applied++;
+                result.changes.push(...reporter.flush());
+            }
+        } catch (error) {
+            reporter.clear();
+            result.skipped.push({ lineNumber, message: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    return result;
+}
@@ -0,0 +1,68 @@
+import { createPipeline } from '../index';
+import { createTestPipeline } from '../test/helpers';
+import { ChangeFeed, toChangeEvent } from './change-feed';
+
+describe('toChangeEvent', () => {
+    it('should read the item from a value object', () => {
+        expect(toChangeEvent({ op: 'add', key: 'a', value: { name: 'A' } }, 1))
+            .toEqual({ op: 'add', key: 'a', value: { name: 'A' } });
+    });
+
+    it('should read the item from the remaining fields', () => {
+        expect(toChangeEvent({ op: 'update', key: 7, name: 'A', value: 10 }, 1))
+            .toEqual({ op: 'update', key: '7', value: { name: 'A', value: 10 } });
+    });
+
+    it('should allow remove without a value', () => {
+        expect(toChangeEvent({ op: 'remove', key: 'a' }, 1)).toEqual({ op: 'remove', key: 'a', value: undefined });
+    });
+
+    it('should reject invalid events', () => {
+        expect(() => toChangeEvent({ op: 'upsert', key: 'a', value: {} }, 3))
+            .toThrow('Change 3: op must be add, remove, or update, got "upsert"');
+        expect(() => toChangeEvent({ op: 'add', key: '', value: {} }, 4))
+            .toThrow('Change 4: key must be a non-empty string or number');
+        expect(() => toChangeEvent({ op: 'add', key: 'a' }, 5))
+            .toThrow('Change 5: add requires a value');
+    });
+});
+
+describe('ChangeFeed', () => {
+    const createGroupedPipeline = () => createTestPipeline(() =>
+        createPipeline<{ category: string; price: number }>()
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', 'total')
+    );
+
+    it('should replay adds, updates, and removes', () => {
+        const [pipeline, getOutput] = createGroupedPipeline();
+        const feed = new ChangeFeed(pipeline);
+
+        feed.apply({ op: 'add', key: 'a', value: { category: 'X', price: 10 } });
+        feed.apply({ op: 'add', key: 'b', value: { category: 'X', price: 20 } });
+        feed.apply({ op: 'add', key: 'c', value: { category: 'Y', price: 5 } });
+        feed.apply({ op: 'update', key: 'a', value: { category: 'Y', price: 15 } });
+        feed.apply({ op: 'remove', key: 'c' });
+
+        expect(feed.size).toBe(2);
+        expect(getOutput()).toEqual([
+            { category: 'X', items: [{ price: 20 }], total: 20 },
+            { category: 'Y', items: [{ price: 15 }], total: 15 }
+        ]);
+    });
+
+    it('should reject changes that do not fit the current items', () => {
+        const [pipeline, getOutput] = createGroupedPipeline();
+        const feed = new ChangeFeed(pipeline);
+
+        feed.apply({ op: 'add', key: 'a', value: { category: 'X', price: 10 } });
+
+        expect(() => feed.apply({ op: 'add', key: 'a', value: { category: 'X', price: 10 } }))
+            .toThrow('Change 2: cannot add key "a", it is already present');
+        expect(() => feed.apply({ op: 'remove', key: 'b' }))
+            .toThrow('Change 3: cannot remove key "b", it is not present');
+        expect(() => feed.apply({ op: 'update', key: 'b', value: { category: 'X', price: 1 } }))
+            .toThrow('Change 4: cannot update key "b", it is not present');
+        expect(getOutput()).toEqual([{ category: 'X', items: [{ price: 10 }], total: 10 }]);
+    });
+});
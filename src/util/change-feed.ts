@@ -0,0 +1,94 @@
+import type { Pipeline } from '../pipeline';
+import type { InputRecord } from './record-readers';
+
+export type ChangeOperation = 'add' | 'remove' | 'update';
+
+/**
+ * A change to one input item, identified by an explicit key.
+ * The value is required for add and update, and optional for remove.
+ */
+export interface ChangeEvent {
+    op: ChangeOperation;
+    key: string;
+    value?: InputRecord;
+}
+
+/**
+ * Reads a change event from an input record.
+ *
+ * The record holds `op` and `key`, and the item either as a `value` object
+ * or, for flat formats such as CSV, as the remaining fields of the record.
+ * A `value` field that is not an object is one of those remaining fields.
+ *
+ * @param position - The 1-based position of the record in the feed, for error messages
+ */
+export function toChangeEvent(record: InputRecord, position: number): ChangeEvent {
+    const { op, key, ...fields } = record;
+    if (op !== 'add' && op !== 'remove' && op !== 'update') {
+        throw new Error(`Change ${position}: op must be add, remove, or update, got ${JSON.stringify(op)}`);
+    }
+    if ((typeof key !== 'string' && typeof key !== 'number') || key === '') {
+        throw new Error(`Change ${position}: key must be a non-empty string or number`);
+    }
+    const { value } = fields;
+    let item: InputRecord | undefined;
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+        item = value as InputRecord;
+    } else if (Object.keys(fields).length > 0) {
+        item = fields;
+    }
+    if (!item && op !== 'remove') {
+        throw new Error(`Change ${position}: ${op} requires a value`);
+    }
+    return { op, key: String(key), value: item };
+}
+
+/**
+ * Replays change events into a pipeline.
+ *
+ * A pipeline needs the old value of an item to remove or update it, so the
+ * feed keeps the current value of every item it has added. Events that do not
+ * fit the current items (adding a key twice, or removing or updating a key
+ * that is not present) are rejected rather than passed on.
+ */
+export class ChangeFeed {
+    private items: Map<string, InputRecord> = new Map();
+    private position = 0;
+
+    constructor(
+        private pipeline: Pipeline<any>
+    ) {}
+
+    /** The number of items currently in the pipeline */
+    get size(): number {
+        return this.items.size;
+    }
+
+    apply(event: ChangeEvent): void {
+        this.position++;
+        const current = this.items.get(event.key);
+        switch (event.op) {
+            case 'add':
+                if (current) {
+                    throw new Error(`Change ${this.position}: cannot add key "${event.key}", it is already present`);
+                }
+                this.pipeline.add(event.key, event.value!);
+                this.items.set(event.key, event.value!);
+                break;
+            case 'remove':
+                if (!current) {
+                    throw new Error(`Change ${this.position}: cannot remove key "${event.key}", it is not present`);
+                }
+                this.pipeline.remove(event.key, current);
+                this.items.delete(event.key);
+                break;
+            case 'update':
+                if (!current) {
+                    throw new Error(`Change ${this.position}: cannot update key "${event.key}", it is not present`);
+                }
+                this.pipeline.update(event.key, current, event.value!);
+                this.items.set(event.key, event.value!);
+                break;
+        }
+    }
+}
@@ -0,0 +1,83 @@
+import { createPipeline } from '../index';
+import { ChangeReporter } from './change-reporter';
+
+describe('ChangeReporter', () => {
+    function createObservedPipeline() {
+        const builder = createPipeline<{ category: string; name: string; price: number }>()
+            .groupBy(['category'], 'items')
+            .sum('items', 'price', 'total')
+            .count('items', 'count');
+        const reporter = new ChangeReporter();
+        const typeDescriptor = builder.getTypeDescriptor();
+        const pipeline = builder.build(() => {}, typeDescriptor);
+        builder.observe(reporter, typeDescriptor);
+        return { pipeline, reporter };
+    }
+
+    it('should describe additions with their aggregates', () => {
+        const { pipeline, reporter } = createObservedPipeline();
+
+        pipeline.add('item1', { category: 'A', name: 'One', price: 10 });
+
+        expect(reporter.flush()).toEqual([
+            '+ category=A',
+            '    total = 10',
+            '    count = 1',
+            '+ category=A / name=One, price=10'
+        ]);
+    });
+
+    it('should combine modifications of an item since the last flush', () => {
+        const { pipeline, reporter } = createObservedPipeline();
+        pipeline.add('item1', { category: 'A', name: 'One', price: 10 });
+        reporter.clear();
+
+        pipeline.batch(() => {
+            pipeline.add('item2', { category: 'A', name: 'Two', price: 20 });
+            pipeline.add('item3', { category: 'A', name: 'Three', price: 30 });
+        });
+
+        expect(reporter.flush()).toEqual([
+            '~ category=A',
+            '    total: 10 → 60',
+            '    count: 1 → 3',
+            '+ category=A / name=Two, price=20',
+            '+ category=A / name=Three, price=30'
+        ]);
+    });
+
+    it('should leave out values that end where they started', () => {
+        const { pipeline, reporter } = createObservedPipeline();
+        pipeline.add('item1', { category: 'A', name: 'One', price: 10 });
+        pipeline.add('item2', { category: 'A', name: 'Two', price: 20 });
+        reporter.clear();
+
+        pipeline.remove('item2', { category: 'A', name: 'Two', price: 20 });
+        pipeline.add('item3', { category: 'A', name: 'Three', price: 20 });
+
+        expect(reporter.flush()).toEqual([
+            '- category=A / name=Two, price=20',
+            '+ category=A / name=Three, price=20'
+        ]);
+    });
+
+    it('should describe removals and updates', () => {
+        const { pipeline, reporter } = createObservedPipeline();
+        pipeline.add('item1', { category: 'A', name: 'One', price: 10 });
+        pipeline.add('item2', { category: 'B', name: 'Two', price: 20 });
+        reporter.clear();
+
+        pipeline.update('item1', { category: 'A', name: 'One', price: 10 }, { category: 'A', name: 'Uno', price: 10 });
+        pipeline.remove('item2', { category: 'B', name: 'Two', price: 20 });
+
+        expect(reporter.flush()).toEqual([
+            '~ category=A / name=One, price=10',
+            '    name: "One" → "Uno"',
+            '~ category=B',
+            '    total: 20 → 0',
+            '    count: 1 → 0',
+            '- category=B / name=Two, price=20',
+            '- category=B'
+        ]);
+    });
+});
@@ -0,0 +1,192 @@
+import type { ImmutableProps, PipelineObserver } from '../pipeline';
+import { UndoableMap } from './undo-log';
+
+/** Longest rendering of a label or value before it is truncated */
+const MAX_TEXT_LENGTH = 60;
+
+/**
+ * Computes a hash key for an item at any level (for map lookups).
+ */
+function computeNodeHash(segmentPath: string[], keyPath: string[], key: string): string {
+    return JSON.stringify([segmentPath, keyPath, key]);
+}
+
+/**
+ * An output item, as far as the reporter needs to describe it.
+ */
+interface NodeState {
+    label: string;
+    /** Latest values of mutable properties (aggregates), by name */
+    values: Map<string, unknown>;
+}
+
+function copyNodeState(node: NodeState): NodeState {
+    return { label: node.label, values: new Map(node.values) };
+}
+
+type ChangeEntry =
+    | { kind: 'added', path: string, values: Map<string, unknown> }
+    | { kind: 'removed', path: string }
+    | { kind: 'updated', path: string, oldImmutableProps: ImmutableProps, newImmutableProps: ImmutableProps }
+    | { kind: 'modified', path: string, values: Map<string, { oldValue: unknown, newValue: unknown }> };
+
+/**
+ * Observes the output of a pipeline and describes its changes in human-readable text.
+ *
+ * Items are identified by the path of their scalar properties from the top
+ * level, for example `category=Books / id=item-003`, rather than by their
+ * generated keys. Changes are collected until flush. Within that span, the
+ * modifications of an item are combined into one change from the first value
+ * of each property to the last, leaving out values that end where they started.
+ * Values of items added in the span are listed with the addition.
+ *
+ * The last seen values are kept in an undoable map, so that an operation the
+ * pipeline rolls back leaves them as they were. Discard the changes it
+ * reported with clear.
+ */
+export class ChangeReporter implements PipelineObserver {
+    /** Output items by node hash, starting with the top level, where root aggregates live */
+    private nodes: Map<string, NodeState> = new UndoableMap(copyNodeState, [
+        [computeNodeHash([], [], ''), { label: '(top level)', values: new Map() }]
+    ]);
+    private entries: ChangeEntry[] = [];
+    /** Pending additions by node hash, to which modifications attach */
+    private addedEntries: Map<string, Extract<ChangeEntry, { kind: 'added' }>> = new Map();
+    /** Pending modifications by node hash */
+    private modifiedEntries: Map<string, Extract<ChangeEntry, { kind: 'modified' }>> = new Map();
+
+    add(segmentPath: string[], keyPath: string[], key: string, immutableProps: ImmutableProps): void {
+        const nodeHash = computeNodeHash(segmentPath, keyPath, key);
+        this.nodes.set(nodeHash, { label: describeItem(key, immutableProps), values: new Map() });
+        const entry: ChangeEntry = { kind: 'added', path: this.describePath(segmentPath, keyPath, key), values: new Map() };
+        this.entries.push(entry);
+        this.addedEntries.set(nodeHash, entry);
+    }
+
+    remove(segmentPath: string[], keyPath: string[], key: string): void {
+        const nodeHash = computeNodeHash(segmentPath, keyPath, key);
+        this.entries.push({ kind: 'removed', path: this.describePath(segmentPath, keyPath, key) });
+        this.nodes.delete(nodeHash);
+        this.addedEntries.delete(nodeHash);
+        this.modifiedEntries.delete(nodeHash);
+    }
+
+    update(segmentPath: string[], keyPath: string[], key: string, oldImmutableProps: ImmutableProps, newImmutableProps: ImmutableProps): void {
+        this.entries.push({ kind: 'updated', path: this.describePath(segmentPath, keyPath, key), oldImmutableProps, newImmutableProps });
+        const node = this.nodes.get(computeNodeHash(segmentPath, keyPath, key));
+        if (node) {
+            node.label = describeItem(key, newImmutableProps);
+        }
+    }
+
+    modify(segmentPath: string[], keyPath: string[], key: string, name: string, value: any): void {
+        const nodeHash = computeNodeHash(segmentPath, keyPath, key);
+        const node = this.nodes.get(nodeHash);
+        const oldValue = node?.values.get(name);
+        node?.values.set(name, value);
+
+        const added = this.addedEntries.get(nodeHash);
+        if (added) {
+            added.values.set(name, value);
+            return;
+        }
+        let entry = this.modifiedEntries.get(nodeHash);
+        if (!entry) {
+            entry = { kind: 'modified', path: this.describePath(segmentPath, keyPath, key), values: new Map() };
+            this.entries.push(entry);
+            this.modifiedEntries.set(nodeHash, entry);
+        }
+        const pending = entry.values.get(name);
+        if (pending) {
+            pending.newValue = value;
+        } else {
+            entry.values.set(name, { oldValue, newValue: value });
+        }
+    }
+
+    /**
+     * Describes the changes since the last flush, a heading line per item followed by
+     * indented property lines, and starts over.
+     */
+    flush(): string[] {
+        const lines: string[] = [];
+        for (const entry of this.entries) {
+            switch (entry.kind) {
+                case 'added':
+                    lines.push(`+ ${entry.path}`);
+                    for (const [name, value] of entry.values) {
+                        lines.push(`    ${name} = ${formatValue(value)}`);
+                    }
+                    break;
+                case 'removed':
+                    lines.push(`- ${entry.path}`);
+                    break;
+                case 'updated':
+                    lines.push(`~ ${entry.path}`);
+                    for (const name of new Set([...Object.keys(entry.oldImmutableProps), ...Object.keys(entry.newImmutableProps)])) {
+                        const oldValue = entry.oldImmutableProps[name];
+                        const newValue = entry.newImmutableProps[name];
+                        if (!valuesEqual(oldValue, newValue)) {
+                            lines.push(`    ${name}: ${formatValue(oldValue)} → ${formatValue(newValue)}`);
+                        }
+                    }
+                    break;
+                case 'modified': {
+                    const changed = [...entry.values].filter(([, { oldValue, newValue }]) => !valuesEqual(oldValue, newValue));
+                    if (changed.length > 0) {
+                        lines.push(`~ ${entry.path}`);
+                        for (const [name, { oldValue, newValue }] of changed) {
+                            lines.push(`    ${name}: ${formatValue(oldValue)} → ${formatValue(newValue)}`);
+                        }
+                    }
+                    break;
+                }
+            }
+        }
+        this.clear();
+        return lines;
+    }
+
+    /**
+     * Discards the changes since the last flush, for example those of an initial load.
+     */
+    clear(): void {
+        this.entries = [];
+        this.addedEntries.clear();
+        this.modifiedEntries.clear();
+    }
+
+    private describePath(segmentPath: string[], keyPath: string[], key: string): string {
+        const labels: string[] = [];
+        for (let depth = 0; depth <= keyPath.length; depth++) {
+            const nodeKey = depth < keyPath.length ? keyPath[depth] : key;
+            const node = this.nodes.get(computeNodeHash(segmentPath.slice(0, depth), keyPath.slice(0, depth), nodeKey));
+            labels.push(node?.label ?? truncate(nodeKey));
+        }
+        return labels.join(' / ');
+    }
+}
+
+/**
+ * Describes an item by its scalar properties, or by its key if it has none.
+ */
+function describeItem(key: string, immutableProps: ImmutableProps): string {
+    const scalars = Object.entries(immutableProps)
+        .filter(([, value]) => value === null || typeof value !== 'object')
+        .map(([name, value]) => `${name}=${typeof value === 'string' ? value : String(value)}`);
+    return truncate(scalars.length > 0 ? scalars.join(', ') : key);
+}
+
+function formatValue(value: unknown): string {
+    return value === undefined ? 'undefined' : truncate(JSON.stringify(value));
+}
+
+function valuesEqual(value1: unknown, value2: unknown): boolean {
+    return Object.is(value1, value2) || (
+        typeof value1 === 'object' && typeof value2 === 'object' && JSON.stringify(value1) === JSON.stringify(value2)
+    );
+}
+
+function truncate(text: string): string {
+    return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text;
+}
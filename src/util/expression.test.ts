@@ -0,0 +1,74 @@
+import { compileExpression } from './expression';
+
+describe('compileExpression', () => {
+    const evaluate = (source: string, item: object = {}) => compileExpression(source).evaluate(item);
+
+    it('should evaluate literals', () => {
+        expect(evaluate('42')).toBe(42);
+        expect(evaluate('1.5e2')).toBe(150);
+        expect(evaluate('"say \\"hi\\""')).toBe('say "hi"');
+        expect(evaluate("'single'")).toBe('single');
+        expect(evaluate('true')).toBe(true);
+        expect(evaluate('null')).toBeNull();
+    });
+
+    it('should read properties and nested properties', () => {
+        const item = { price: 10, address: { city: 'Dallas' } };
+
+        expect(evaluate('price', item)).toBe(10);
+        expect(evaluate('address.city', item)).toBe('Dallas');
+        expect(evaluate('missing.city', item)).toBeUndefined();
+    });
+
+    it('should not reach inherited properties', () => {
+        expect(evaluate('constructor', {})).toBeUndefined();
+        expect(evaluate('name.length', { name: 'abc' })).toBeUndefined();
+    });
+
+    it('should follow operator precedence', () => {
+        expect(evaluate('1 + 2 * 3')).toBe(7);
+        expect(evaluate('(1 + 2) * 3')).toBe(9);
+        expect(evaluate('10 - 4 - 3')).toBe(3);
+        expect(evaluate('-2 * 3 % 4')).toBe(-2);
+        expect(evaluate('1 < 2 == true')).toBe(true);
+        expect(evaluate('false || true && false')).toBe(false);
+        expect(evaluate('!false && 1 >= 1')).toBe(true);
+    });
+
+    it('should compare strictly', () => {
+        expect(evaluate('value == "1"', { value: 1 })).toBe(false);
+        expect(evaluate('value != null', { value: 0 })).toBe(true);
+    });
+
+    it('should convert mixed operands as JavaScript does', () => {
+        expect(evaluate('name + 1', { name: 'a' })).toBe('a1');
+        expect(evaluate('count + 1', { count: null })).toBe(1);
+        expect(evaluate('code < "b"', { code: 'abc' })).toBe(true);
+        expect(evaluate('code < 10', { code: '9' })).toBe(true);
+        expect(evaluate('missing >= 0')).toBe(false);
+        expect(evaluate('tags + ""', { tags: ['a', 'b'] })).toBe('a,b');
+        expect(evaluate('-flag', { flag: true })).toBe(-1);
+    });
+
+    it('should evaluate conditionals', () => {
+        const source = 'price > 100 ? "high" : price > 10 ? "medium" : "low"';
+
+        expect(evaluate(source, { price: 500 })).toBe('high');
+        expect(evaluate(source, { price: 50 })).toBe('medium');
+        expect(evaluate(source, { price: 5 })).toBe('low');
+    });
+
+    it('should list the properties it reads', () => {
+        expect(compileExpression('a.b + c > a.d ? e : 1').properties).toEqual(['a', 'c', 'e']);
+    });
+
+    it('should reject malformed expressions', () => {
+        expect(() => compileExpression('1 +')).toThrow('Expression "1 +": unexpected end of expression at position 3');
+        expect(() => compileExpression('(1')).toThrow('Expression "(1": expected ")" at position 2');
+        expect(() => compileExpression('1 2')).toThrow('Expression "1 2": unexpected token at position 2');
+        expect(() => compileExpression('a = 1')).toThrow('Expression "a = 1": unexpected character "=" at position 2');
+        expect(() => compileExpression('"open')).toThrow('Expression ""open": unterminated string at position 0');
+        expect(() => compileExpression('a.')).toThrow('expected a property name at position 2');
+        expect(() => compileExpression('f(x)')).toThrow('unexpected token at position 1');
+    });
+});
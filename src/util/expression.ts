@@ -0,0 +1,318 @@
+/**
+ * A small, safe expression language for declarative pipelines.
+ *
+ * Expressions read properties of an item and combine them with literals and operators:
+ *
+ * - Literals: numbers, 'single' or "double" quoted strings, true, false, null
+ * - Properties: `price`, `address.city` (only own properties are visible)
+ * - Operators, from lowest to highest precedence:
+ *   `? :`, `||`, `&&`, `==` `!=`, `<` `<=` `>` `>=`, `+` `-`, `*` `/` `%`, unary `!` `-`
+ *
+ * There are no function calls, assignments, or access to globals, so an
+ * expression can only compute a value from the item it is given.
+ */
+
+export type ExpressionNode =
+    | { kind: 'literal', value: unknown }
+    | { kind: 'property', path: string[] }
+    | { kind: 'unary', operator: '!' | '-', operand: ExpressionNode }
+    | { kind: 'binary', operator: BinaryOperator, left: ExpressionNode, right: ExpressionNode }
+    | { kind: 'conditional', test: ExpressionNode, consequent: ExpressionNode, alternate: ExpressionNode };
+
+type BinaryOperator = '||' | '&&' | '==' | '!=' | '<' | '<=' | '>' | '>=' | '+' | '-' | '*' | '/' | '%';
+
+export interface CompiledExpression {
+    source: string;
+    /** Names of the item properties the expression reads */
+    properties: string[];
+    evaluate(item: object): unknown;
+}
+
+type Token =
+    | { type: 'number', value: number, position: number }
+    | { type: 'string', value: string, position: number }
+    | { type: 'identifier', value: string, position: number }
+    | { type: 'operator', value: string, position: number }
+    | { type: 'end', position: number };
+
+const operators = ['||', '&&', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', '.'];
+
+const binaryPrecedence: BinaryOperator[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%']
+];
+
+/**
+ * Parses an expression and prepares it for evaluation.
+ * Throws if the expression is not well formed.
+ */
+export function compileExpression(source: string): CompiledExpression {
+    const node = parseExpression(source);
+    const properties = new Set<string>();
+    collectProperties(node, properties);
+    return {
+        source,
+        properties: [...properties],
+        evaluate: item => evaluateNode(node, item)
+    };
+}
+
+export function parseExpression(source: string): ExpressionNode {
+    const tokens = tokenize(source);
+    let index = 0;
+
+    const peek = () => tokens[index];
+    const fail = (message: string, token: Token = peek()): never => {
+        throw new Error(`Expression "${source}": ${message} at position ${token.position}`);
+    };
+    const isOperator = (value: string) => {
+        const token = peek();
+        return token.type === 'operator' && token.value === value;
+    };
+    const expect = (value: string) => {
+        if (!isOperator(value)) {
+            fail(`expected "${value}"`);
+        }
+        index++;
+    };
+
+    const parseConditional = (): ExpressionNode => {
+        const test = parseBinary(0);
+        if (!isOperator('?')) {
+            return test;
+        }
+        index++;
+        const consequent = parseConditional();
+        expect(':');
+        const alternate = parseConditional();
+        return { kind: 'conditional', test, consequent, alternate };
+    };
+
+    const parseBinary = (level: number): ExpressionNode => {
+        if (level === binaryPrecedence.length) {
+            return parseUnary();
+        }
+        let left = parseBinary(level + 1);
+        let token = peek();
+        while (token.type === 'operator' && (binaryPrecedence[level] as string[]).includes(token.value)) {
+            index++;
+            const right = parseBinary(level + 1);
+            left = { kind: 'binary', operator: token.value as BinaryOperator, left, right };
+            token = peek();
+        }
+        return left;
+    };
+
+    const parseUnary = (): ExpressionNode => {
+        if (isOperator('!') || isOperator('-')) {
+            const operator = (peek() as { value: string }).value as '!' | '-';
+            index++;
+            return { kind: 'unary', operator, operand: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): ExpressionNode => {
+        const token = peek();
+        index++;
+        switch (token.type) {
+            case 'number':
+            case 'string':
+                return { kind: 'literal', value: token.value };
+            case 'identifier': {
+                if (token.value === 'true' || token.value === 'false') {
+                    return { kind: 'literal', value: token.value === 'true' };
+                }
+                if (token.value === 'null') {
+                    return { kind: 'literal', value: null };
+                }
+                const path = [token.value];
+                while (isOperator('.')) {
+                    index++;
+                    const member = peek();
+                    if (member.type !== 'identifier') {
+                        return fail('expected a property name');
+                    }
+                    index++;
+                    path.push(member.value);
+                }
+                return { kind: 'property', path };
+            }
+            case 'operator':
+                if (token.value === '(') {
+                    const inner = parseConditional();
+                    expect(')');
+                    return inner;
+                }
+                return fail(`unexpected "${token.value}"`, token);
+            case 'end':
+                return fail('unexpected end of expression', token);
+        }
+    };
+
+    const node = parseConditional();
+    if (peek().type !== 'end') {
+        fail('unexpected token');
+    }
+    return node;
+}
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+    while (position < source.length) {
+        const char = source[position];
+        if (/\s/.test(char)) {
+            position++;
+            continue;
+        }
+        const number = /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(source.slice(position));
+        if (number) {
+            tokens.push({ type: 'number', value: Number(number[0]), position });
+            position += number[0].length;
+            continue;
+        }
+        const identifier = /^[A-Za-z_$][\w$]*/.exec(source.slice(position));
+        if (identifier) {
+            tokens.push({ type: 'identifier', value: identifier[0], position });
+            position += identifier[0].length;
+            continue;
+        }
+        if (char === '"' || char === "'") {
+            const start = position;
+            let value = '';
+            position++;
+            while (position < source.length && source[position] !== char) {
+                if (source[position] === '\\' && position + 1 < source.length) {
+                    position++;
+                }
+                value += source[position];
+                position++;
+            }
+            if (position >= source.length) {
+                throw new Error(`Expression "${source}": unterminated string at position ${start}`);
+            }
+            position++;
+            tokens.push({ type: 'string', value, position: start });
+            continue;
+        }
+        const operator = operators.find(candidate => source.startsWith(candidate, position));
+        if (!operator) {
+            throw new Error(`Expression "${source}": unexpected character "${char}" at position ${position}`);
+        }
+        tokens.push({ type: 'operator', value: operator, position });
+        position += operator.length;
+    }
+    tokens.push({ type: 'end', position });
+    return tokens;
+}
+
+function collectProperties(node: ExpressionNode, properties: Set<string>): void {
+    switch (node.kind) {
+        case 'property':
+            properties.add(node.path[0]);
+            break;
+        case 'unary':
+            collectProperties(node.operand, properties);
+            break;
+        case 'binary':
+            collectProperties(node.left, properties);
+            collectProperties(node.right, properties);
+            break;
+        case 'conditional':
+            collectProperties(node.test, properties);
+            collectProperties(node.consequent, properties);
+            collectProperties(node.alternate, properties);
+            break;
+    }
+}
+
+/**
+ * Reads an own property, so that expressions cannot reach prototypes.
+ */
+function readProperty(target: unknown, name: string): unknown {
+    if (target === null || typeof target !== 'object' || !Object.prototype.hasOwnProperty.call(target, name)) {
+        return undefined;
+    }
+    return (target as Record<string, unknown>)[name];
+}
+
+/**
+ * A value as arithmetic and comparison operators see it.
+ */
+type Operand = string | number | boolean | null | undefined;
+
+/**
+ * Converts a value to an operand as JavaScript does, so objects and arrays become their strings.
+ */
+function toOperand(value: unknown): Operand {
+    switch (typeof value) {
+        case 'string':
+        case 'number':
+        case 'boolean':
+        case 'undefined':
+            return value;
+        default:
+            return value === null ? null : String(value);
+    }
+}
+
+/**
+ * Converts two operands for comparison as JavaScript does: two strings stay strings, anything else becomes numbers.
+ */
+function toComparable(left: Operand, right: Operand): [string | number, string | number] {
+    return typeof left === 'string' && typeof right === 'string' ? [left, right] : [Number(left), Number(right)];
+}
+
+function evaluateNode(node: ExpressionNode, item: object): unknown {
+    switch (node.kind) {
+        case 'literal':
+            return node.value;
+        case 'property':
+            return node.path.reduce<unknown>((target, name) => readProperty(target, name), item);
+        case 'unary': {
+            const operand = evaluateNode(node.operand, item);
+            return node.operator === '!' ? !operand : -Number(toOperand(operand));
+        }
+        case 'conditional':
+            return evaluateNode(node.test, item)
+                ? evaluateNode(node.consequent, item)
+                : evaluateNode(node.alternate, item);
+        case 'binary': {
+            if (node.operator === '||') {
+                return evaluateNode(node.left, item) || evaluateNode(node.right, item);
+            }
+            if (node.operator === '&&') {
+                return evaluateNode(node.left, item) && evaluateNode(node.right, item);
+            }
+            const leftValue = evaluateNode(node.left, item);
+            const rightValue = evaluateNode(node.right, item);
+            if (node.operator === '==') {
+                return leftValue === rightValue;
+            }
+            if (node.operator === '!=') {
+                return leftValue !== rightValue;
+            }
+            const left = toOperand(leftValue);
+            const right = toOperand(rightValue);
+            const [leftComparable, rightComparable] = toComparable(left, right);
+            switch (node.operator) {
+                case '<': return leftComparable < rightComparable;
+                case '<=': return leftComparable <= rightComparable;
+                case '>': return leftComparable > rightComparable;
+                case '>=': return leftComparable >= rightComparable;
+                case '+': return typeof left === 'string' || typeof right === 'string'
+                    ? String(left) + String(right)
+                    : Number(left) + Number(right);
+                case '-': return Number(left) - Number(right);
+                case '*': return Number(left) * Number(right);
+                case '/': return Number(left) / Number(right);
+                case '%': return Number(left) % Number(right);
+            }
+        }
+    }
+}
@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileTail } from './file-tail';
+
+describe('FileTail', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'file-tail-'));
+        filePath = path.join(directory, 'log.ndjson');
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    const readAll = (tail: FileTail) => [...tail.readLines()];
+
+    it('should read the lines appended since the last read', () => {
+        fs.writeFileSync(filePath, 'one\ntwo\n');
+        const tail = new FileTail(filePath);
+
+        expect(readAll(tail)).toEqual([
+            { line: 'one', lineNumber: 1 },
+            { line: 'two', lineNumber: 2 }
+        ]);
+        expect(readAll(tail)).toEqual([]);
+
+        fs.appendFileSync(filePath, 'three\r\n');
+        expect(readAll(tail)).toEqual([{ line: 'three', lineNumber: 3 }]);
+    });
+
+    it('should hold back a partial line until it is complete', () => {
+        fs.writeFileSync(filePath, 'one\ntw');
+        const tail = new FileTail(filePath);
+
+        expect(readAll(tail)).toEqual([{ line: 'one', lineNumber: 1 }]);
+
+        fs.appendFileSync(filePath, 'o\n');
+        expect(readAll(tail)).toEqual([{ line: 'two', lineNumber: 2 }]);
+    });
+
+    it('should decode characters split between reads', () => {
+        const bytes = Buffer.from('café\n');
+        fs.writeFileSync(filePath, bytes.subarray(0, 4));
+        const tail = new FileTail(filePath);
+
+        expect(readAll(tail)).toEqual([]);
+
+        fs.appendFileSync(filePath, bytes.subarray(4));
+        expect(readAll(tail)).toEqual([{ line: 'café', lineNumber: 1 }]);
+    });
+
+    it('should reject a file that was truncated', () => {
+        fs.writeFileSync(filePath, 'one\ntwo\n');
+        const tail = new FileTail(filePath);
+        readAll(tail);
+
+        fs.writeFileSync(filePath, 'one\n');
+        expect(() => readAll(tail)).toThrow(`FileTail: '${filePath}' was truncated`);
+    });
+});
@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import { StringDecoder } from 'string_decoder';
+
+/** Number of bytes read from the file at a time */
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Follows a file that is only appended to, such as a log, reading the lines added since the last read.
+ *
+ * A line is complete once its newline has been written. A trailing partial
+ * line is held back until a later read completes it.
+ */
+export class FileTail {
+    private offset = 0;
+    private lineNumber = 0;
+    private partialLine = '';
+    private decoder = new StringDecoder('utf-8');
+
+    constructor(
+        private filePath: string
+    ) {}
+
+    /**
+     * Reads the complete lines appended since the last read, with their 1-based line numbers.
+     * Throws if the file has become shorter than what was already read.
+     */
+    *readLines(): Iterable<{ line: string, lineNumber: number }> {
+        const size = fs.statSync(this.filePath).size;
+        if (size < this.offset) {
+            throw new Error(`FileTail: '${this.filePath}' was truncated`);
+        }
+        const buffer = Buffer.alloc(CHUNK_SIZE);
+        const fd = fs.openSync(this.filePath, 'r');
+        try {
+            while (this.offset < size) {
+                const bytesRead = fs.readSync(fd, buffer, 0, Math.min(CHUNK_SIZE, size - this.offset), this.offset);
+                if (bytesRead === 0) {
+                    break;
+                }
+                this.offset += bytesRead;
+                const lines = (this.partialLine + this.decoder.write(buffer.subarray(0, bytesRead))).split('\n');
+                this.partialLine = lines.pop()!;
+                for (const line of lines) {
+                    this.lineNumber++;
+                    yield { line: line.endsWith('\r') ? line.slice(0, -1) : line, lineNumber: this.lineNumber };
+                }
+            }
+        } finally {
+            fs.closeSync(fd);
+        }
+    }
+}
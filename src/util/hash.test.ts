@@ -1,4 +1,4 @@
-import { canonicalizeGroupingProperties, computeGroupKey } from './hash';
+import { canonicalizeGroupingProperties, canonicalizeValue, computeFingerprint, computeGroupKey } from './hash';
 
 describe('hash utility', () => {
     describe('canonicalizeGroupingProperties', () => {
@@ -71,5 +71,16 @@ describe('hash utility', () => {
             expect(typeof hash).toBe('string');
         });
     });
-});
 
+    describe('computeFingerprint', () => {
+        it('should not depend on the order of properties', () => {
+            expect(canonicalizeValue({ b: { d: 1, c: 2 }, a: [3] })).toBe('{"a":[3],"b":{"c":2,"d":1}}');
+            expect(computeFingerprint({ a: 1, b: { c: 2, d: 3 } })).toBe(computeFingerprint({ b: { d: 3, c: 2 }, a: 1 }));
+        });
+
+        it('should differ for different values', () => {
+            expect(computeFingerprint({ a: 1 })).not.toBe(computeFingerprint({ a: 2 }));
+            expect(computeFingerprint({ a: [1, 2] })).not.toBe(computeFingerprint({ a: [2, 1] }));
+        });
+    });
+});
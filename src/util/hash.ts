@@ -24,3 +24,19 @@ export function computeGroupKey(obj: {}, groupingProperties: string[]): string {
     return computeHash(canonical);
 }
 
+
+/**
+ * Serializes a value as JSON with object properties in sorted order at every level.
+ */
+export function canonicalizeValue(value: unknown): string {
+    return JSON.stringify(value, (_key, item) => item !== null && typeof item === 'object' && !Array.isArray(item)
+        ? Object.fromEntries(Object.keys(item).sort().map(name => [name, item[name]]))
+        : item);
+}
+
+/**
+ * Computes a hash of a value that does not depend on the order of its properties.
+ */
+export function computeFingerprint(value: unknown): string {
+    return computeHash(canonicalizeValue(value));
+}
@@ -0,0 +1,80 @@
+import { KeyedHeap } from './keyed-heap';
+
+describe('KeyedHeap', () => {
+    const createMinHeap = () => new KeyedHeap<number>((value1, value2) => value1 < value2);
+
+    it('should be empty initially', () => {
+        const heap = createMinHeap();
+        expect(heap.size).toBe(0);
+        expect(heap.peek()).toBeUndefined();
+    });
+
+    it('should keep the smallest value on top', () => {
+        const heap = createMinHeap();
+        heap.set('a', 5);
+        heap.set('b', 3);
+        heap.set('c', 8);
+        expect(heap.peek()).toEqual({ key: 'b', value: 3 });
+        expect(heap.size).toBe(3);
+    });
+
+    it('should remove by key', () => {
+        const heap = createMinHeap();
+        heap.set('a', 5);
+        heap.set('b', 3);
+        heap.set('c', 8);
+        expect(heap.remove('b')).toBe(true);
+        expect(heap.peek()).toEqual({ key: 'a', value: 5 });
+        expect(heap.has('b')).toBe(false);
+    });
+
+    it('should report removal of unknown keys', () => {
+        const heap = createMinHeap();
+        heap.set('a', 5);
+        expect(heap.remove('z')).toBe(false);
+        expect(heap.size).toBe(1);
+    });
+
+    it('should remove the right entry among duplicate values', () => {
+        const heap = createMinHeap();
+        heap.set('a', 1);
+        heap.set('b', 1);
+        heap.set('c', 2);
+        heap.remove('a');
+        expect(heap.peek()).toEqual({ key: 'b', value: 1 });
+        heap.remove('b');
+        expect(heap.peek()).toEqual({ key: 'c', value: 2 });
+    });
+
+    it('should replace the value of an existing key', () => {
+        const heap = createMinHeap();
+        heap.set('a', 5);
+        heap.set('b', 3);
+        heap.set('b', 10);
+        expect(heap.size).toBe(2);
+        expect(heap.peek()).toEqual({ key: 'a', value: 5 });
+        heap.set('a', 20);
+        expect(heap.peek()).toEqual({ key: 'b', value: 10 });
+    });
+
+    it('should stay ordered through many insertions and removals', () => {
+        const heap = createMinHeap();
+        const values = new Map<string, number>();
+        for (let i = 0; i < 200; i++) {
+            const value = (i * 37) % 101;
+            heap.set(`k${i}`, value);
+            values.set(`k${i}`, value);
+        }
+        for (let i = 0; i < 200; i += 3) {
+            heap.remove(`k${i}`);
+            values.delete(`k${i}`);
+        }
+        const sorted: number[] = [];
+        while (heap.size > 0) {
+            const top = heap.peek()!;
+            sorted.push(top.value);
+            heap.remove(top.key);
+        }
+        expect(sorted).toEqual([...values.values()].sort((a, b) => a - b));
+    });
+});
@@ -0,0 +1,142 @@
+import { recordUndo } from './undo-log';
+
+/**
+ * A binary heap of values indexed by key.
+ *
+ * Supports O(log n) insertion and removal by key, and O(1) access to the top entry.
+ * Each key holds at most one value; setting an existing key replaces its value.
+ * Changes made while an undo log is running are recorded in it.
+ */
+export class KeyedHeap<T> {
+    private entries: { key: string; value: T }[] = [];
+    private indexByKey: Map<string, number> = new Map();
+
+    /**
+     * @param isBefore - Returns true if value1 belongs closer to the top than value2
+     */
+    constructor(
+        private isBefore: (value1: T, value2: T) => boolean
+    ) {}
+
+    get size(): number {
+        return this.entries.length;
+    }
+
+    has(key: string): boolean {
+        return this.indexByKey.has(key);
+    }
+
+    /**
+     * Returns the value for a key, or undefined if the key is not present.
+     */
+    get(key: string): T | undefined {
+        const index = this.indexByKey.get(key);
+        return index === undefined ? undefined : this.entries[index].value;
+    }
+
+    /**
+     * Returns the top entry, or undefined if the heap is empty.
+     */
+    peek(): { key: string; value: T } | undefined {
+        return this.entries[0];
+    }
+
+    /**
+     * Returns a copy of the entries, in no particular order.
+     */
+    toArray(): { key: string; value: T }[] {
+        return this.entries.map(entry => ({ ...entry }));
+    }
+
+    /**
+     * Inserts a value, or replaces the value if the key is already present.
+     */
+    set(key: string, value: T): void {
+        const existingIndex = this.indexByKey.get(key);
+        if (existingIndex !== undefined) {
+            const previous = this.entries[existingIndex].value;
+            recordUndo(() => this.set(key, previous));
+            this.entries[existingIndex] = { key, value };
+            this.restore(existingIndex);
+            return;
+        }
+        recordUndo(() => this.remove(key));
+        this.entries.push({ key, value });
+        this.indexByKey.set(key, this.entries.length - 1);
+        this.siftUp(this.entries.length - 1);
+    }
+
+    /**
+     * Removes the value for a key.
+     *
+     * @returns true if the key was present
+     */
+    remove(key: string): boolean {
+        const index = this.indexByKey.get(key);
+        if (index === undefined) {
+            return false;
+        }
+        const removed = this.entries[index].value;
+        recordUndo(() => this.set(key, removed));
+        const lastIndex = this.entries.length - 1;
+        this.swap(index, lastIndex);
+        this.entries.pop();
+        this.indexByKey.delete(key);
+        if (index < this.entries.length) {
+            this.restore(index);
+        }
+        return true;
+    }
+
+    private restore(index: number): void {
+        if (index > 0 && this.isBefore(this.entries[index].value, this.entries[parentOf(index)].value)) {
+            this.siftUp(index);
+        } else {
+            this.siftDown(index);
+        }
+    }
+
+    private siftUp(index: number): void {
+        while (index > 0) {
+            const parent = parentOf(index);
+            if (!this.isBefore(this.entries[index].value, this.entries[parent].value)) {
+                return;
+            }
+            this.swap(index, parent);
+            index = parent;
+        }
+    }
+
+    private siftDown(index: number): void {
+        const length = this.entries.length;
+        while (true) {
+            const left = 2 * index + 1;
+            const right = left + 1;
+            let top = index;
+            if (left < length && this.isBefore(this.entries[left].value, this.entries[top].value)) {
+                top = left;
+            }
+            if (right < length && this.isBefore(this.entries[right].value, this.entries[top].value)) {
+                top = right;
+            }
+            if (top === index) {
+                return;
+            }
+            this.swap(index, top);
+            index = top;
+        }
+    }
+
+    private swap(index1: number, index2: number): void {
+        const entry1 = this.entries[index1];
+        const entry2 = this.entries[index2];
+        this.entries[index1] = entry2;
+        this.entries[index2] = entry1;
+        this.indexByKey.set(entry2.key, index1);
+        this.indexByKey.set(entry1.key, index2);
+    }
+}
+
+function parentOf(index: number): number {
+    return Math.floor((index - 1) / 2);
+}
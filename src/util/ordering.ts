@@ -0,0 +1,56 @@
+import type { TypeDescriptor } from '../pipeline';
+
+/**
+ * Compares two keyed items for sorting.
+ */
+export type KeyedItemComparator = (item1: { key: string, value: any }, item2: { key: string, value: any }) => number;
+
+/**
+ * Creates a comparator for the items at a segment path, or undefined if the
+ * type descriptor does not declare an ordering there.
+ * Ties are broken by item key so the order does not depend on arrival.
+ */
+export function getItemComparator(typeDescriptor: TypeDescriptor, segmentPath: string[]): KeyedItemComparator | undefined {
+    let descriptor: TypeDescriptor | undefined = typeDescriptor;
+    for (const segment of segmentPath) {
+        descriptor = descriptor.arrays.find(array => array.name === segment)?.type;
+        if (!descriptor) {
+            return undefined;
+        }
+    }
+    const ordering = descriptor.ordering;
+    if (!ordering) {
+        return undefined;
+    }
+    const sign = ordering.direction === 'desc' ? -1 : 1;
+    const by = ordering.by;
+    const compareValues = typeof by === 'string'
+        ? (value1: any, value2: any) => comparePropertyValues(value1[by], value2[by], sign)
+        : (value1: any, value2: any) => sign * by(value1, value2);
+    return (item1, item2) => {
+        const result = compareValues(item1.value, item2.value);
+        if (result !== 0) {
+            return result;
+        }
+        return item1.key < item2.key ? -1 : item1.key > item2.key ? 1 : 0;
+    };
+}
+
+/**
+ * Compares two property values in the given direction.
+ * Null and undefined always sort last.
+ */
+function comparePropertyValues(value1: any, value2: any, sign: number): number {
+    const missing1 = value1 === null || value1 === undefined;
+    const missing2 = value2 === null || value2 === undefined;
+    if (missing1 || missing2) {
+        return missing1 === missing2 ? 0 : missing1 ? 1 : -1;
+    }
+    if (value1 < value2) {
+        return -sign;
+    }
+    if (value1 > value2) {
+        return sign;
+    }
+    return 0;
+}
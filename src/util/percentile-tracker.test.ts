@@ -0,0 +1,104 @@
+import { PercentileTracker } from './percentile-tracker';
+
+/**
+ * Reference implementation: linear interpolation between closest ranks.
+ */
+function percentileOf(values: number[], percentile: number): number | undefined {
+    if (values.length === 0) {
+        return undefined;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const position = (sorted.length - 1) * percentile / 100;
+    const lower = Math.floor(position);
+    const fraction = position - lower;
+    if (fraction === 0) {
+        return sorted[lower];
+    }
+    return sorted[lower] + fraction * (sorted[lower + 1] - sorted[lower]);
+}
+
+describe('PercentileTracker', () => {
+    it('should be empty initially', () => {
+        const tracker = new PercentileTracker(50);
+        expect(tracker.size).toBe(0);
+        expect(tracker.value()).toBeUndefined();
+    });
+
+    it('should find the middle value of an odd count', () => {
+        const tracker = new PercentileTracker(50);
+        tracker.set('a', 5);
+        tracker.set('b', 1);
+        tracker.set('c', 3);
+        expect(tracker.value()).toBe(3);
+    });
+
+    it('should interpolate the middle values of an even count', () => {
+        const tracker = new PercentileTracker(50);
+        tracker.set('a', 1);
+        tracker.set('b', 2);
+        tracker.set('c', 4);
+        tracker.set('d', 10);
+        expect(tracker.value()).toBe(3);
+    });
+
+    it('should track the extremes at 0 and 100', () => {
+        const min = new PercentileTracker(0);
+        const max = new PercentileTracker(100);
+        for (const [key, value] of [['a', 7], ['b', 2], ['c', 9]] as const) {
+            min.set(key, value);
+            max.set(key, value);
+        }
+        expect(min.value()).toBe(2);
+        expect(max.value()).toBe(9);
+    });
+
+    it('should remove by key', () => {
+        const tracker = new PercentileTracker(50);
+        tracker.set('a', 1);
+        tracker.set('b', 2);
+        tracker.set('c', 3);
+        expect(tracker.remove('b')).toBe(true);
+        expect(tracker.value()).toBe(2);
+        expect(tracker.has('b')).toBe(false);
+        expect(tracker.remove('b')).toBe(false);
+    });
+
+    it('should replace the value of an existing key', () => {
+        const tracker = new PercentileTracker(50);
+        tracker.set('a', 1);
+        tracker.set('b', 2);
+        tracker.set('c', 3);
+        tracker.set('a', 10);
+        expect(tracker.size).toBe(3);
+        expect(tracker.value()).toBe(3);
+    });
+
+    it('should match a sorted reference through random changes', () => {
+        for (const percentile of [0, 25, 50, 90, 95, 99, 100]) {
+            const tracker = new PercentileTracker(percentile);
+            const values = new Map<string, number>();
+            let seed = 42;
+            const random = () => {
+                seed = (seed * 1103515245 + 12345) % 2147483648;
+                return seed / 2147483648;
+            };
+            for (let i = 0; i < 500; i++) {
+                const key = `k${Math.floor(random() * 40)}`;
+                if (values.has(key) && random() < 0.4) {
+                    tracker.remove(key);
+                    values.delete(key);
+                } else {
+                    const value = Math.floor(random() * 20);
+                    tracker.set(key, value);
+                    values.set(key, value);
+                }
+                const expected = percentileOf([...values.values()], percentile);
+                if (expected === undefined) {
+                    expect(tracker.value()).toBeUndefined();
+                } else {
+                    expect(tracker.value()).toBeCloseTo(expected);
+                }
+            }
+        }
+    });
+});
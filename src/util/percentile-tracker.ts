@@ -0,0 +1,107 @@
+import { KeyedHeap } from './keyed-heap';
+
+/**
+ * Tracks a percentile of a changing set of numeric values indexed by key.
+ *
+ * Values are split between a max-heap holding the lower part and a min-heap
+ * holding the rest, sized so that the tops of the two heaps bracket the
+ * percentile. Insertion and removal by key are O(log n).
+ *
+ * The percentile is interpolated linearly between the closest ranks,
+ * so the 50th percentile of an even number of values is the mean of the middle two.
+ */
+export class PercentileTracker {
+    private lower = new KeyedHeap<number>((value1, value2) => value1 > value2);
+    private upper = new KeyedHeap<number>((value1, value2) => value1 < value2);
+
+    /**
+     * @param percentile - Percentile to track, from 0 to 100
+     */
+    constructor(
+        private percentile: number
+    ) {}
+
+    get size(): number {
+        return this.lower.size + this.upper.size;
+    }
+
+    has(key: string): boolean {
+        return this.lower.has(key) || this.upper.has(key);
+    }
+
+    /**
+     * Returns the values by key, in no particular order.
+     */
+    toArray(): { key: string; value: number }[] {
+        return [...this.lower.toArray(), ...this.upper.toArray()];
+    }
+
+    /**
+     * Inserts a value, or replaces the value if the key is already present.
+     */
+    set(key: string, value: number): void {
+        this.lower.remove(key);
+        this.upper.remove(key);
+        const lowerTop = this.lower.peek();
+        if (lowerTop && value <= lowerTop.value) {
+            this.lower.set(key, value);
+        } else {
+            this.upper.set(key, value);
+        }
+        this.rebalance();
+    }
+
+    /**
+     * Removes the value for a key.
+     *
+     * @returns true if the key was present
+     */
+    remove(key: string): boolean {
+        const removed = this.lower.remove(key) || this.upper.remove(key);
+        if (removed) {
+            this.rebalance();
+        }
+        return removed;
+    }
+
+    /**
+     * Returns the percentile of the current values, or undefined if there are none.
+     */
+    value(): number | undefined {
+        const lowerTop = this.lower.peek();
+        if (!lowerTop) {
+            return undefined;
+        }
+        const fraction = this.position() - Math.floor(this.position());
+        const upperTop = this.upper.peek();
+        if (fraction === 0 || !upperTop) {
+            return lowerTop.value;
+        }
+        return lowerTop.value + fraction * (upperTop.value - lowerTop.value);
+    }
+
+    /**
+     * The zero-based, possibly fractional, rank of the percentile among the sorted values.
+     */
+    private position(): number {
+        return (this.size - 1) * this.percentile / 100;
+    }
+
+    /**
+     * Moves values between the heaps until the lower heap holds exactly
+     * the values up to and including the rank below the percentile.
+     */
+    private rebalance(): void {
+        const lowerSize = this.size === 0 ? 0 : Math.floor(this.position()) + 1;
+        while (this.lower.size > lowerSize) {
+            const top = this.lower.peek()!;
+            this.lower.remove(top.key);
+            this.upper.set(top.key, top.value);
+        }
+        while (this.lower.size < lowerSize) {
+            const top = this.upper.peek()!;
+            this.upper.remove(top.key);
+            this.lower.set(top.key, top.value);
+        }
+    }
+}
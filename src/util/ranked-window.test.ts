@@ -0,0 +1,77 @@
+import { RankedWindow } from './ranked-window';
+import { UndoLog } from './undo-log';
+
+function createWindow(limit: number) {
+    return new RankedWindow<number>(limit, (value1, value2) => value1 > value2);
+}
+
+describe('RankedWindow', () => {
+    it('should keep the first values in the window', () => {
+        const window = createWindow(2);
+        expect(window.insert('a', 10)).toEqual([{ kind: 'added', key: 'a', value: 10 }]);
+        expect(window.insert('b', 30)).toEqual([{ kind: 'added', key: 'b', value: 30 }]);
+        expect(window.insert('c', 5)).toEqual([]);
+        expect(window.insert('d', 20)).toEqual([
+            { kind: 'removed', key: 'a', value: 10 },
+            { kind: 'added', key: 'd', value: 20 }
+        ]);
+        expect(window.isInWindow('b')).toBe(true);
+        expect(window.isInWindow('a')).toBe(false);
+    });
+
+    it('should promote the first value outside the window when one inside is removed', () => {
+        const window = createWindow(1);
+        window.insert('a', 10);
+        window.insert('b', 30);
+        window.insert('c', 20);
+
+        expect(window.remove('a')).toEqual([]);
+        expect(window.remove('b')).toEqual([
+            { kind: 'removed', key: 'b', value: 30 },
+            { kind: 'added', key: 'c', value: 20 }
+        ]);
+        expect(window.remove('c')).toEqual([{ kind: 'removed', key: 'c', value: 20 }]);
+        expect(window.size).toBe(0);
+    });
+
+    it('should match a sort after random changes', () => {
+        const window = createWindow(3);
+        let seed = 7;
+        const random = () => {
+            seed = (seed * 16807) % 2147483647;
+            return seed / 2147483647;
+        };
+        const values = new Map<string, number>();
+        for (let i = 0; i < 300; i++) {
+            const key = `k${Math.floor(random() * 20)}`;
+            if (values.has(key)) {
+                window.remove(key);
+                values.delete(key);
+            } else {
+                const value = i * 7 % 101;
+                window.insert(key, value);
+                values.set(key, value);
+            }
+            const expected = [...values.values()].sort((value1, value2) => value2 - value1);
+            expect(window.toArray().map(entry => entry.value)).toEqual(expected);
+            const inWindow = [...values.keys()].filter(key => window.isInWindow(key)).map(key => values.get(key)!);
+            expect(inWindow.sort((value1, value2) => value2 - value1)).toEqual(expected.slice(0, 3));
+        }
+    });
+
+    it('should put back the window after an undo', () => {
+        const window = createWindow(1);
+        window.insert('a', 10);
+        window.insert('b', 5);
+        const log = new UndoLog();
+
+        log.run(() => {
+            window.insert('c', 20);
+            window.remove('a');
+        });
+        log.undo();
+
+        expect(window.toArray()).toEqual([{ key: 'a', value: 10 }, { key: 'b', value: 5 }]);
+        expect(window.isInWindow('a')).toBe(true);
+    });
+});
@@ -0,0 +1,89 @@
+import { KeyedHeap } from './keyed-heap';
+
+/**
+ * A value entering or leaving the window.
+ */
+export type WindowChange<T> =
+    | { kind: 'added'; key: string; value: T }
+    | { kind: 'removed'; key: string; value: T };
+
+/**
+ * Keeps the first N of a changing set of values indexed by key, in rank order.
+ *
+ * Values are split between a heap holding the window, with its last-ranked
+ * value on top, and a heap holding the rest, with its first-ranked value on
+ * top. Insertion and removal by key are O(log n).
+ */
+export class RankedWindow<T> {
+    private window: KeyedHeap<T>;
+    private rest: KeyedHeap<T>;
+
+    /**
+     * @param limit - Number of values in the window
+     * @param ranksAhead - Returns true if value1 ranks ahead of value2; must not tie for different keys
+     */
+    constructor(
+        private limit: number,
+        private ranksAhead: (value1: T, value2: T) => boolean
+    ) {
+        this.window = new KeyedHeap<T>((value1, value2) => ranksAhead(value2, value1));
+        this.rest = new KeyedHeap<T>(ranksAhead);
+    }
+
+    get size(): number {
+        return this.window.size + this.rest.size;
+    }
+
+    isInWindow(key: string): boolean {
+        return this.window.has(key);
+    }
+
+    /**
+     * Returns the values by key, in rank order.
+     */
+    toArray(): { key: string; value: T }[] {
+        return [...this.window.toArray(), ...this.rest.toArray()]
+            .sort((entry1, entry2) => this.ranksAhead(entry1.value, entry2.value) ? -1 : 1);
+    }
+
+    /**
+     * Inserts a value for a key that is not present, and returns the changes to the window.
+     */
+    insert(key: string, value: T): WindowChange<T>[] {
+        if (this.window.size < this.limit) {
+            this.window.set(key, value);
+            return [{ kind: 'added', key, value }];
+        }
+        const last = this.window.peek()!;
+        if (!this.ranksAhead(value, last.value)) {
+            this.rest.set(key, value);
+            return [];
+        }
+        // The value that was last in the window is pushed out
+        this.window.remove(last.key);
+        this.rest.set(last.key, last.value);
+        this.window.set(key, value);
+        return [{ kind: 'removed', ...last }, { kind: 'added', key, value }];
+    }
+
+    /**
+     * Removes the value for a key, and returns the changes to the window.
+     */
+    remove(key: string): WindowChange<T>[] {
+        const value = this.window.get(key);
+        if (value === undefined) {
+            this.rest.remove(key);
+            return [];
+        }
+        this.window.remove(key);
+        const changes: WindowChange<T>[] = [{ kind: 'removed', key, value }];
+        const next = this.rest.peek();
+        if (next) {
+            // The first value outside the window is promoted into it
+            this.rest.remove(next.key);
+            this.window.set(next.key, next.value);
+            changes.push({ kind: 'added', ...next });
+        }
+        return changes;
+    }
+}
@@ -0,0 +1,115 @@
+import { Readable } from 'stream';
+import { inferInputFormat, readCsv, readJsonArray, readNdjson, type InputRecord } from './record-readers';
+
+async function collect(records: AsyncIterable<InputRecord>): Promise<InputRecord[]> {
+    const result: InputRecord[] = [];
+    for await (const record of records) {
+        result.push(record);
+    }
+    return result;
+}
+
+/**
+ * Creates a stream that delivers the text in the given chunks.
+ */
+function streamOf(...chunks: string[]): Readable {
+    return Readable.from(chunks.map(chunk => Buffer.from(chunk)));
+}
+
+describe('inferInputFormat', () => {
+    it('should infer the format from the extension', () => {
+        expect(inferInputFormat('items.json')).toBe('json');
+        expect(inferInputFormat('items.ndjson')).toBe('ndjson');
+        expect(inferInputFormat('items.jsonl')).toBe('ndjson');
+        expect(inferInputFormat('data/items.CSV')).toBe('csv');
+        expect(inferInputFormat('items.txt')).toBeUndefined();
+    });
+});
+
+describe('readJsonArray', () => {
+    it('should read each object in the array', async () => {
+        const records = await collect(readJsonArray(streamOf('[{"a":1},', '{"a":2}]')));
+
+        expect(records).toEqual([{ a: 1 }, { a: 2 }]);
+    });
+
+    it('should reject input that is not an array', async () => {
+        await expect(collect(readJsonArray(streamOf('{"a":1}'))))
+            .rejects.toThrow('Input JSON must be an array of objects');
+    });
+});
+
+describe('readNdjson', () => {
+    it('should read one object per line across chunks', async () => {
+        const records = await collect(readNdjson(streamOf('{"a":1}\n{"a"', ':2}\r\n\n{"a":3}')));
+
+        expect(records).toEqual([{ a: 1 }, { a: 2 }, { a: 3 }]);
+    });
+
+    it('should report the line of invalid JSON', async () => {
+        await expect(collect(readNdjson(streamOf('{"a":1}\n{oops}\n'))))
+            .rejects.toThrow('readNdjson: line 2 is not valid JSON');
+    });
+
+    it('should reject lines that are not objects', async () => {
+        await expect(collect(readNdjson(streamOf('{"a":1}\n[1,2]\n'))))
+            .rejects.toThrow('readNdjson: line 2 is not a JSON object');
+    });
+});
+
+describe('readCsv', () => {
+    it('should key fields by header and infer types', async () => {
+        const records = await collect(readCsv(streamOf('name,value,active,note\nWidget,12.5,true,\nGadget,-3,false,x\n')));
+
+        expect(records).toEqual([
+            { name: 'Widget', value: 12.5, active: true, note: null },
+            { name: 'Gadget', value: -3, active: false, note: 'x' }
+        ]);
+    });
+
+    it('should keep quoted fields as text', async () => {
+        const records = await collect(readCsv(streamOf('code,label\n"007","Say ""hi"", then\nleave"\r\n')));
+
+        expect(records).toEqual([{ code: '007', label: 'Say "hi", then\nleave' }]);
+    });
+
+    it('should handle quotes and line endings split across chunks', async () => {
+        const records = await collect(readCsv(streamOf('a,b\r', '\n"x"', '"y",1\r', '\n2,"z"')));
+
+        expect(records).toEqual([{ a: 'x"y', b: 1 }, { a: 2, b: 'z' }]);
+    });
+
+    it('should apply column types', async () => {
+        const records = await collect(readCsv(streamOf('zip,count,flag\n02134,7,TRUE\n'), {
+            columnTypes: { zip: 'string', count: 'number', flag: 'boolean' }
+        }));
+
+        expect(records).toEqual([{ zip: '02134', count: 7, flag: true }]);
+    });
+
+    it('should reject text that does not convert to the column type', async () => {
+        await expect(collect(readCsv(streamOf('count\n7\nseven\n'), { columnTypes: { count: 'number' } })))
+            .rejects.toThrow('readCsv: line 3 column "count" is not a number: "seven"');
+    });
+
+    it('should reject column types for columns not in the header', async () => {
+        await expect(collect(readCsv(streamOf('a\n1\n'), { columnTypes: { b: 'number' } })))
+            .rejects.toThrow('readCsv: column "b" is not in the header');
+    });
+
+    it('should reject rows with the wrong number of fields', async () => {
+        await expect(collect(readCsv(streamOf('a,b\n1,2\n3\n'))))
+            .rejects.toThrow('readCsv: line 3 has 1 fields, expected 2');
+    });
+
+    it('should reject an unterminated quoted field', async () => {
+        await expect(collect(readCsv(streamOf('a\n"open\n'))))
+            .rejects.toThrow('readCsv: line 2 has an unterminated quoted field');
+    });
+
+    it('should use a custom delimiter', async () => {
+        const records = await collect(readCsv(streamOf('a;b\n1;x\n'), { delimiter: ';' }));
+
+        expect(records).toEqual([{ a: 1, b: 'x' }]);
+    });
+});
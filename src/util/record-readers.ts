@@ -0,0 +1,264 @@
+import * as readline from 'readline';
+import type { Readable } from 'stream';
+
+export type InputRecord = Record<string, unknown>;
+
+export type InputFormat = 'json' | 'ndjson' | 'csv';
+
+/**
+ * How a CSV column is converted from text.
+ *
+ * - `auto` infers numbers, booleans, and null (for empty fields) from unquoted text
+ * - `string`, `number`, and `boolean` force the type, and fail on text that does not convert
+ */
+export type ColumnType = 'auto' | 'string' | 'number' | 'boolean';
+
+export interface CsvOptions {
+    /** Column types by header name; columns not listed are `auto` */
+    columnTypes?: Record<string, ColumnType>;
+    delimiter?: string;
+}
+
+/**
+ * Infers the input format from a file extension, or returns undefined if it is not recognized.
+ */
+export function inferInputFormat(filePath: string): InputFormat | undefined {
+    const extension = filePath.slice(filePath.lastIndexOf('.') + 1).toLowerCase();
+    switch (extension) {
+        case 'json':
+            return 'json';
+        case 'ndjson':
+        case 'jsonl':
+            return 'ndjson';
+        case 'csv':
+            return 'csv';
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Reads records from a stream in the given format.
+ */
+export function readRecords(input: Readable, format: InputFormat, csvOptions: CsvOptions = {}): AsyncIterable<InputRecord> {
+    switch (format) {
+        case 'json':
+            return readJsonArray(input);
+        case 'ndjson':
+            return readNdjson(input);
+        case 'csv':
+            return readCsv(input, csvOptions);
+    }
+}
+
+/**
+ * Reads a JSON array of objects.
+ *
+ * The array is parsed as a whole, so memory grows with the input.
+ * Prefer NDJSON or CSV for large inputs.
+ */
+export async function* readJsonArray(input: Readable): AsyncIterable<InputRecord> {
+    input.setEncoding('utf-8');
+    let text = '';
+    for await (const chunk of input) {
+        text += chunk;
+    }
+    const data = JSON.parse(text);
+    if (!Array.isArray(data)) {
+        throw new Error('Input JSON must be an array of objects');
+    }
+    for (const record of data) {
+        yield record;
+    }
+}
+
+/**
+ * Reads newline-delimited JSON: one object per line. Blank lines are skipped.
+ */
+export async function* readNdjson(input: Readable): AsyncIterable<InputRecord> {
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    let lineNumber = 0;
+    for await (const line of lines) {
+        lineNumber++;
+        const record = parseNdjsonLine(line, lineNumber);
+        if (record) {
+            yield record;
+        }
+    }
+}
+
+/**
+ * Parses one line of newline-delimited JSON, or returns undefined for a blank line.
+ */
+export function parseNdjsonLine(line: string, lineNumber: number): InputRecord | undefined {
+    if (line.trim() === '') {
+        return undefined;
+    }
+    let record: unknown;
+    try {
+        record = JSON.parse(line);
+    } catch (error) {
+        throw new Error(`readNdjson: line ${lineNumber} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    if (record === null || typeof record !== 'object' || Array.isArray(record)) {
+        throw new Error(`readNdjson: line ${lineNumber} is not a JSON object`);
+    }
+    return record as InputRecord;
+}
+
+/**
+ * A CSV field, and whether it was quoted.
+ */
+interface CsvField {
+    text: string;
+    quoted: boolean;
+}
+
+/**
+ * Reads CSV with a header row, following RFC 4180 quoting.
+ *
+ * Each row becomes a record keyed by header name, with values converted
+ * according to the column types.
+ */
+export async function* readCsv(input: Readable, options: CsvOptions = {}): AsyncIterable<InputRecord> {
+    const columnTypes = options.columnTypes ?? {};
+    let header: string[] | undefined;
+    for await (const { fields, lineNumber } of readCsvRows(input, options.delimiter ?? ',')) {
+        if (!header) {
+            header = fields.map(field => field.text);
+            for (const column of Object.keys(columnTypes)) {
+                if (!header.includes(column)) {
+                    throw new Error(`readCsv: column "${column}" is not in the header`);
+                }
+            }
+            continue;
+        }
+        if (fields.length === 1 && fields[0].text === '' && !fields[0].quoted) {
+            continue;
+        }
+        if (fields.length !== header.length) {
+            throw new Error(`readCsv: line ${lineNumber} has ${fields.length} fields, expected ${header.length}`);
+        }
+        const record: InputRecord = {};
+        header.forEach((column, i) => {
+            record[column] = coerceField(fields[i], columnTypes[column] ?? 'auto', column, lineNumber);
+        });
+        yield record;
+    }
+}
+
+/**
+ * Splits a stream into CSV rows, allowing quoted fields to span chunks and lines.
+ */
+async function* readCsvRows(input: Readable, delimiter: string): AsyncIterable<{ fields: CsvField[], lineNumber: number }> {
+    input.setEncoding('utf-8');
+    let fields: CsvField[] = [];
+    let field: CsvField = { text: '', quoted: false };
+    let inQuotes = false;
+    /** A quote inside a quoted field, which either ends the field or escapes another quote */
+    let pendingQuote = false;
+    /** A carriage return, which is dropped if a line feed follows */
+    let pendingReturn = false;
+    let lineNumber = 1;
+    let rowLineNumber = 1;
+    let rowHasContent = false;
+
+    for await (const chunk of input) {
+        const rows: { fields: CsvField[], lineNumber: number }[] = [];
+        for (const char of chunk as string) {
+            if (pendingReturn) {
+                pendingReturn = false;
+                if (char === '\n') {
+                    continue;
+                }
+            }
+            if (pendingQuote) {
+                pendingQuote = false;
+                if (char === '"') {
+                    field.text += '"';
+                    continue;
+                }
+                inQuotes = false;
+            }
+            if (inQuotes) {
+                if (char === '"') {
+                    pendingQuote = true;
+                } else {
+                    if (char === '\n') {
+                        lineNumber++;
+                    }
+                    field.text += char;
+                }
+                continue;
+            }
+            if (char === '"' && field.text === '' && !field.quoted) {
+                field.quoted = true;
+                inQuotes = true;
+                rowHasContent = true;
+            } else if (char === delimiter) {
+                fields.push(field);
+                field = { text: '', quoted: false };
+                rowHasContent = true;
+            } else if (char === '\n' || char === '\r') {
+                fields.push(field);
+                rows.push({ fields, lineNumber: rowLineNumber });
+                fields = [];
+                field = { text: '', quoted: false };
+                rowHasContent = false;
+                pendingReturn = char === '\r';
+                lineNumber++;
+                rowLineNumber = lineNumber;
+            } else {
+                field.text += char;
+                rowHasContent = true;
+            }
+        }
+        yield* rows;
+    }
+
+    if (inQuotes && !pendingQuote) {
+        throw new Error(`readCsv: line ${rowLineNumber} has an unterminated quoted field`);
+    }
+    if (rowHasContent) {
+        fields.push(field);
+        yield { fields, lineNumber: rowLineNumber };
+    }
+}
+
+const numberPattern = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+function coerceField(field: CsvField, type: ColumnType, column: string, lineNumber: number): unknown {
+    const { text } = field;
+    switch (type) {
+        case 'string':
+            return text;
+        case 'number': {
+            const value = Number(text);
+            if (text.trim() === '' || Number.isNaN(value)) {
+                throw new Error(`readCsv: line ${lineNumber} column "${column}" is not a number: "${text}"`);
+            }
+            return value;
+        }
+        case 'boolean': {
+            const lower = text.toLowerCase();
+            if (lower !== 'true' && lower !== 'false') {
+                throw new Error(`readCsv: line ${lineNumber} column "${column}" is not a boolean: "${text}"`);
+            }
+            return lower === 'true';
+        }
+        case 'auto':
+            if (field.quoted) {
+                return text;
+            }
+            if (text === '') {
+                return null;
+            }
+            if (text === 'true' || text === 'false') {
+                return text === 'true';
+            }
+            if (numberPattern.test(text)) {
+                return Number(text);
+            }
+            return text;
+    }
+}
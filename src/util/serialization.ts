@@ -0,0 +1,23 @@
+/**
+ * Helpers for saving step state as JSON-compatible data.
+ *
+ * Maps keyed by string become plain objects, so that a value of undefined is
+ * left out rather than turned into null. Reading a missing key from the
+ * restored map gives undefined, as before.
+ */
+
+export function mapToRecord<V, R = V>(map: Map<string, V>, encode: (value: V) => R = value => value as unknown as R): Record<string, R> {
+    const record: Record<string, R> = {};
+    for (const [key, value] of map) {
+        record[key] = encode(value);
+    }
+    return record;
+}
+
+export function recordToMap<R, V = R>(record: Record<string, R>, decode: (value: R) => V = value => value as unknown as V): Map<string, V> {
+    const map = new Map<string, V>();
+    for (const key of Object.keys(record)) {
+        map.set(key, decode(record[key]));
+    }
+    return map;
+}
@@ -0,0 +1,46 @@
+import type { ScalarPropertyDescriptor, TypeDescriptor } from '../pipeline';
+
+/**
+ * Replaces the descriptor of the items at a segment path, copying the levels above it.
+ * Levels that are not found are left as they are.
+ */
+export function transformDescriptorAt(
+    descriptor: TypeDescriptor,
+    segmentPath: string[],
+    transform: (descriptor: TypeDescriptor) => TypeDescriptor
+): TypeDescriptor {
+    if (segmentPath.length === 0) {
+        return transform(descriptor);
+    }
+    const [currentSegment, ...remainingSegments] = segmentPath;
+    return {
+        ...descriptor,
+        arrays: descriptor.arrays.map(arrayDesc => arrayDesc.name === currentSegment
+            ? { name: arrayDesc.name, type: transformDescriptorAt(arrayDesc.type, remainingSegments, transform) }
+            : arrayDesc)
+    };
+}
+
+/**
+ * Adds a scalar property to a descriptor, replacing any property of the same name in place.
+ */
+export function withProperty(descriptor: TypeDescriptor, property: ScalarPropertyDescriptor): TypeDescriptor {
+    const exists = descriptor.properties.some(p => p.name === property.name);
+    return {
+        ...descriptor,
+        properties: exists
+            ? descriptor.properties.map(p => p.name === property.name ? property : p)
+            : [...descriptor.properties, property]
+    };
+}
+
+export function withoutProperties(descriptor: TypeDescriptor, names: string[]): TypeDescriptor {
+    return { ...descriptor, properties: descriptor.properties.filter(p => !names.includes(p.name)) };
+}
+
+/**
+ * Adds an aggregate property to the items that own the array at the end of a segment path.
+ */
+export function withAggregateProperty(descriptor: TypeDescriptor, segmentPath: string[], property: Omit<ScalarPropertyDescriptor, 'kind'>): TypeDescriptor {
+    return transformDescriptorAt(descriptor, segmentPath.slice(0, -1), parent => withProperty(parent, { ...property, kind: 'aggregate' }));
+}
@@ -0,0 +1,90 @@
+import { KeyedHeap } from './keyed-heap';
+import { UndoableMap, UndoableSet, UndoLog } from './undo-log';
+
+describe('UndoLog', () => {
+    it('should put back the values of a map from before the operation', () => {
+        const map = new UndoableMap<number>(undefined, [['a', 1], ['b', 2]]);
+        const log = new UndoLog();
+
+        log.run(() => {
+            map.set('a', 10);
+            map.set('a', 100);
+            map.delete('b');
+            map.set('c', 3);
+        });
+        log.undo();
+
+        expect(Object.fromEntries(map)).toEqual({ a: 1, b: 2 });
+    });
+
+    it('should copy values that are changed in place on first access', () => {
+        const map = new UndoableMap<{ count: number }>(state => ({ ...state }), [['a', { count: 1 }]]);
+        const log = new UndoLog();
+
+        log.run(() => {
+            map.get('a')!.count += 1;
+            map.get('a')!.count += 1;
+        });
+        expect(map.get('a')).toEqual({ count: 3 });
+        log.undo();
+
+        expect(map.get('a')).toEqual({ count: 1 });
+    });
+
+    it('should put back the values of a set', () => {
+        const set = new UndoableSet(['a', 'b']);
+        const log = new UndoLog();
+
+        log.run(() => {
+            set.add('c');
+            set.delete('a');
+            set.add('b');
+        });
+        log.undo();
+
+        expect([...set].sort()).toEqual(['a', 'b']);
+    });
+
+    it('should put back the values of a heap', () => {
+        const heap = new KeyedHeap<number>((value1, value2) => value1 < value2);
+        heap.set('a', 5);
+        heap.set('b', 3);
+        const log = new UndoLog();
+
+        log.run(() => {
+            heap.set('c', 1);
+            heap.set('a', 0);
+            heap.remove('b');
+        });
+        log.undo();
+
+        expect(heap.toArray().sort((entry1, entry2) => entry1.value - entry2.value)).toEqual([
+            { key: 'b', value: 3 },
+            { key: 'a', value: 5 }
+        ]);
+        expect(heap.peek()).toEqual({ key: 'b', value: 3 });
+    });
+
+    it('should not record changes made outside a run', () => {
+        const map = new UndoableMap<number>();
+        const log = new UndoLog();
+
+        map.set('a', 1);
+        log.undo();
+
+        expect(map.get('a')).toBe(1);
+    });
+
+    it('should pass the undos of a successful inner run on to the enclosing one', () => {
+        const map = new UndoableMap<number>(undefined, [['a', 1]]);
+        const outer = new UndoLog();
+
+        outer.run(() => {
+            map.set('a', 2);
+            new UndoLog().run(() => map.set('a', 3));
+        });
+        outer.undo();
+
+        expect(map.get('a')).toBe(1);
+    });
+});
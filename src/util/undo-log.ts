@@ -0,0 +1,177 @@
+/**
+ * Records how to undo the changes an input operation makes to the state of
+ * the steps and the output, so that a failed operation can be rolled back in
+ * time proportional to what it changed.
+ *
+ * State structures record their own undos while a log is running, through
+ * recordUndo. Outside a running log, recording does nothing.
+ */
+export class UndoLog {
+    private undos: (() => void)[] = [];
+    /** The keys of each structure whose state from before the operation is already recorded */
+    private recordedKeys = new WeakMap<object, Set<string>>();
+
+    /**
+     * Runs an action, recording the undos of its changes in this log. A log
+     * that runs inside another passes its undos on to it if the action succeeds.
+     */
+    run(action: () => void): void {
+        const enclosing = activeLog;
+        activeLog = this;
+        try {
+            action();
+        } finally {
+            activeLog = enclosing;
+        }
+        enclosing?.undos.push(...this.undos);
+    }
+
+    /**
+     * Undoes the recorded changes, most recent first, and clears the log.
+     */
+    undo(): void {
+        const undos = this.undos;
+        this.undos = [];
+        this.recordedKeys = new WeakMap();
+        const enclosing = activeLog;
+        activeLog = undefined;
+        try {
+            for (let i = undos.length - 1; i >= 0; i--) {
+                undos[i]();
+            }
+        } finally {
+            activeLog = enclosing;
+        }
+    }
+
+    record(undo: () => void): void {
+        this.undos.push(undo);
+    }
+
+    /**
+     * Returns true the first time it is called for a key of a structure in this log.
+     */
+    isFirstChange(owner: object, key: string): boolean {
+        let keys = this.recordedKeys.get(owner);
+        if (!keys) {
+            keys = new Set();
+            this.recordedKeys.set(owner, keys);
+        }
+        if (keys.has(key)) {
+            return false;
+        }
+        keys.add(key);
+        return true;
+    }
+}
+
+let activeLog: UndoLog | undefined;
+
+/**
+ * Records how to undo a change, if a log is running.
+ */
+export function recordUndo(undo: () => void): void {
+    activeLog?.record(undo);
+}
+
+export function isRecordingUndo(): boolean {
+    return activeLog !== undefined;
+}
+
+/**
+ * A map of step state that records the undo of each change while a log is running.
+ *
+ * Values that are replaced rather than changed in place need no copy. For
+ * values that the step changes in place, pass a copy function: the first
+ * access to a key in an operation saves a copy of its value to put back.
+ */
+export class UndoableMap<V> extends Map<string, V> {
+    /**
+     * @param copy - Copies a value that is changed in place
+     * @param entries - Initial entries, which are not recorded
+     */
+    constructor(
+        private copy?: (value: V) => V,
+        entries?: Iterable<readonly [string, V]>
+    ) {
+        super();
+        for (const [key, value] of entries ?? []) {
+            super.set(key, value);
+        }
+    }
+
+    get(key: string): V | undefined {
+        if (this.copy) {
+            this.recordFirstChange(key);
+        }
+        return super.get(key);
+    }
+
+    set(key: string, value: V): this {
+        this.recordFirstChange(key);
+        return super.set(key, value);
+    }
+
+    delete(key: string): boolean {
+        this.recordFirstChange(key);
+        return super.delete(key);
+    }
+
+    clear(): void {
+        for (const key of super.keys()) {
+            this.recordFirstChange(key);
+        }
+        super.clear();
+    }
+
+    /**
+     * Records how to put back the value of a key from before the operation.
+     */
+    private recordFirstChange(key: string): void {
+        if (!activeLog || !activeLog.isFirstChange(this, key)) {
+            return;
+        }
+        if (super.has(key)) {
+            const value = super.get(key)!;
+            const saved = this.copy ? this.copy(value) : value;
+            activeLog.record(() => super.set(key, saved));
+        } else {
+            activeLog.record(() => super.delete(key));
+        }
+    }
+}
+
+/**
+ * A set of step state that records the undo of each change while a log is running.
+ */
+export class UndoableSet extends Set<string> {
+    /**
+     * @param values - Initial values, which are not recorded
+     */
+    constructor(values?: Iterable<string>) {
+        super();
+        for (const value of values ?? []) {
+            super.add(value);
+        }
+    }
+
+    add(value: string): this {
+        if (activeLog && !super.has(value)) {
+            activeLog.record(() => super.delete(value));
+        }
+        return super.add(value);
+    }
+
+    delete(value: string): boolean {
+        if (activeLog && super.has(value)) {
+            activeLog.record(() => super.add(value));
+        }
+        return super.delete(value);
+    }
+
+    clear(): void {
+        for (const value of super.values()) {
+            this.delete(value);
+        }
+    }
+}
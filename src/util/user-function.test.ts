@@ -0,0 +1,28 @@
+import type { Step } from '../pipeline';
+import { callUserFunction, getFailingStep } from './user-function';
+
+describe('user function', () => {
+    const step = {} as Step;
+    const otherStep = {} as Step;
+
+    it('should return the result of the function', () => {
+        expect(callUserFunction(step, (a: number, b: number) => a + b, 1, 2)).toBe(3);
+    });
+
+    it('should rethrow an error unchanged, remembering the step', () => {
+        const error = new Error('boom');
+        expect(() => callUserFunction(step, () => { throw error; })).toThrow(error);
+        expect(getFailingStep(error)).toBe(step);
+    });
+
+    it('should keep the innermost step when an error passes through several', () => {
+        const error = new Error('boom');
+        expect(() => callUserFunction(otherStep, () => callUserFunction(step, () => { throw error; }))).toThrow(error);
+        expect(getFailingStep(error)).toBe(step);
+    });
+
+    it('should not attribute other errors', () => {
+        expect(getFailingStep(new Error('elsewhere'))).toBeUndefined();
+        expect(getFailingStep('not an object')).toBeUndefined();
+    });
+});
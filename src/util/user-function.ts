@@ -0,0 +1,26 @@
+import type { Step } from '../pipeline';
+
+/** The step whose user function threw each error */
+const failingSteps = new WeakMap<object, Step>();
+
+/**
+ * Calls a function that a step was given, such as a predicate or an operator,
+ * remembering the step if it throws. The error is rethrown unchanged.
+ */
+export function callUserFunction<TArgs extends unknown[], TResult>(step: Step, fn: (...args: TArgs) => TResult, ...args: TArgs): TResult {
+    try {
+        return fn(...args);
+    } catch (error) {
+        if (typeof error === 'object' && error !== null && !failingSteps.has(error)) {
+            failingSteps.set(error, step);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Returns the step whose user function threw an error, if the error came from one.
+ */
+export function getFailingStep(error: unknown): Step | undefined {
+    return typeof error === 'object' && error !== null ? failingSteps.get(error) : undefined;
+}